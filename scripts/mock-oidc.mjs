@@ -0,0 +1,184 @@
+// A throwaway OpenID Connect provider for trying single sign-on locally.
+//
+//   npm run mock-oidc
+//
+// then start the app with
+//
+//   OIDC_ISSUER=http://localhost:4010 OIDC_CLIENT_ID=edudash npm run dev
+//
+// The sign-in page asks for whatever email and name you want to be, so any
+// account can be linked or provisioned. Keys and codes live in memory only.
+import { createHash, generateKeyPairSync, randomBytes, sign } from 'node:crypto';
+import { createServer } from 'node:http';
+
+const PORT = Number(process.env.MOCK_OIDC_PORT || 4010);
+const ISSUER = process.env.MOCK_OIDC_ISSUER || `http://localhost:${PORT}`;
+const CODE_TTL_MS = 60 * 1000;
+
+const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+const KEY_ID = randomBytes(8).toString('hex');
+const jwk = { ...publicKey.export({ format: 'jwk' }), kid: KEY_ID, use: 'sig', alg: 'RS256' };
+
+/** Issued codes, waiting to be exchanged at the token endpoint. */
+const codes = new Map();
+
+const base64url = value => Buffer.from(typeof value === 'string' ? value : JSON.stringify(value)).toString('base64url');
+
+const signIdToken = claims => {
+  const input = `${base64url({ alg: 'RS256', typ: 'JWT', kid: KEY_ID })}.${base64url(claims)}`;
+  return `${input}.${sign('sha256', Buffer.from(input), privateKey).toString('base64url')}`;
+};
+
+const escapeHtml = value =>
+  String(value ?? '').replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+
+const sendJson = (res, status, body) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' });
+  res.end(JSON.stringify(body));
+};
+
+const readForm = req =>
+  new Promise((resolve, reject) => {
+    let body = '';
+    req.on('data', chunk => (body += chunk));
+    req.on('end', () => resolve(new URLSearchParams(body)));
+    req.on('error', reject);
+  });
+
+const redirectBack = (res, redirectUri, params) => {
+  const url = new URL(redirectUri);
+  for (const [key, value] of Object.entries(params)) {
+    if (value) url.searchParams.set(key, value);
+  }
+  res.writeHead(302, { Location: url.toString() });
+  res.end();
+};
+
+const loginPage = params => `<!doctype html>
+<html>
+  <head><title>Mock university sign-in</title></head>
+  <body style="font-family: system-ui; max-width: 24rem; margin: 4rem auto">
+    <h1>Mock university sign-in</h1>
+    <p>Client <code>${escapeHtml(params.get('client_id'))}</code> wants to sign you in.</p>
+    <form method="post" action="/authorize">
+      ${[...params].map(([key, value]) => `<input type="hidden" name="${escapeHtml(key)}" value="${escapeHtml(value)}">`).join('')}
+      <p><label>Email<br><input name="email" type="email" value="student@example.edu" required></label></p>
+      <p><label>First name<br><input name="given_name" value="Sam"></label></p>
+      <p><label>Last name<br><input name="family_name" value="Student"></label></p>
+      <p><label><input name="email_verified" type="checkbox" checked> Email verified</label></p>
+      <p>
+        <button type="submit">Sign in</button>
+        <button type="submit" name="deny" value="1">Cancel</button>
+      </p>
+    </form>
+  </body>
+</html>`;
+
+const authorize = async (req, res, url) => {
+  if (req.method === 'GET') {
+    res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+    res.end(loginPage(url.searchParams));
+    return;
+  }
+
+  const form = await readForm(req);
+  const redirectUri = form.get('redirect_uri');
+  if (!redirectUri || form.get('response_type') !== 'code') {
+    sendJson(res, 400, { error: 'invalid_request', error_description: 'redirect_uri and response_type=code are required' });
+    return;
+  }
+  if (form.get('deny')) {
+    redirectBack(res, redirectUri, { error: 'access_denied', error_description: 'You cancelled the sign-in.', state: form.get('state') });
+    return;
+  }
+
+  const code = randomBytes(24).toString('base64url');
+  codes.set(code, {
+    clientId: form.get('client_id'),
+    redirectUri,
+    nonce: form.get('nonce'),
+    codeChallenge: form.get('code_challenge'),
+    expiresAt: Date.now() + CODE_TTL_MS,
+    email: form.get('email'),
+    emailVerified: form.get('email_verified') === 'on',
+    givenName: form.get('given_name') || undefined,
+    familyName: form.get('family_name') || undefined
+  });
+  redirectBack(res, redirectUri, { code, state: form.get('state') });
+};
+
+const token = async (req, res) => {
+  const form = await readForm(req);
+  const grant = codes.get(form.get('code'));
+  codes.delete(form.get('code'));
+
+  const verifier = form.get('code_verifier') ?? '';
+  const challenge = createHash('sha256').update(verifier).digest('base64url');
+  if (
+    form.get('grant_type') !== 'authorization_code' ||
+    !grant ||
+    grant.expiresAt < Date.now() ||
+    grant.clientId !== form.get('client_id') ||
+    grant.redirectUri !== form.get('redirect_uri') ||
+    (grant.codeChallenge && grant.codeChallenge !== challenge)
+  ) {
+    sendJson(res, 400, { error: 'invalid_grant', error_description: 'The code is invalid, expired or was already used.' });
+    return;
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  // The subject is derived from the email so signing in again maps to the same identity
+  const subject = createHash('sha256').update(grant.email.toLowerCase()).digest('hex').slice(0, 24);
+  sendJson(res, 200, {
+    access_token: randomBytes(24).toString('base64url'),
+    token_type: 'Bearer',
+    expires_in: 3600,
+    id_token: signIdToken({
+      iss: ISSUER,
+      sub: subject,
+      aud: grant.clientId,
+      iat: now,
+      exp: now + 300,
+      nonce: grant.nonce ?? undefined,
+      email: grant.email,
+      email_verified: grant.emailVerified,
+      given_name: grant.givenName,
+      family_name: grant.familyName,
+      name: [grant.givenName, grant.familyName].filter(Boolean).join(' ') || undefined
+    })
+  });
+};
+
+const server = createServer(async (req, res) => {
+  const url = new URL(req.url ?? '/', ISSUER);
+  try {
+    if (url.pathname === '/.well-known/openid-configuration') {
+      sendJson(res, 200, {
+        issuer: ISSUER,
+        authorization_endpoint: `${ISSUER}/authorize`,
+        token_endpoint: `${ISSUER}/token`,
+        jwks_uri: `${ISSUER}/jwks`,
+        response_types_supported: ['code'],
+        subject_types_supported: ['public'],
+        id_token_signing_alg_values_supported: ['RS256'],
+        scopes_supported: ['openid', 'email', 'profile'],
+        code_challenge_methods_supported: ['S256']
+      });
+    } else if (url.pathname === '/jwks') {
+      sendJson(res, 200, { keys: [jwk] });
+    } else if (url.pathname === '/authorize') {
+      await authorize(req, res, url);
+    } else if (url.pathname === '/token' && req.method === 'POST') {
+      await token(req, res);
+    } else {
+      sendJson(res, 404, { error: 'not_found' });
+    }
+  } catch (err) {
+    console.error(err);
+    sendJson(res, 500, { error: 'server_error' });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`Mock OIDC provider listening on ${ISSUER}`);
+});
@@ -0,0 +1,5 @@
+import SecurityLog from '@/components/admin/security-log'
+
+export default function SecurityLogPage() {
+  return <SecurityLog />
+}
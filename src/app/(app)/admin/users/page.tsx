@@ -0,0 +1,5 @@
+import UserManagement from '@/components/admin/user-management'
+
+export default function UsersPage() {
+  return <UserManagement />
+}
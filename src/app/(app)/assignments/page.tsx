@@ -0,0 +1,5 @@
+import AssignmentManager from '@/components/assignments/assignment-manager'
+
+export default function AssignmentsPage() {
+  return <AssignmentManager />
+}
@@ -0,0 +1,5 @@
+import AttendanceTracker from '@/components/attendance/attendance-tracker'
+
+export default function AttendancePage() {
+  return <AttendanceTracker />
+}
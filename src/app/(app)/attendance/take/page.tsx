@@ -0,0 +1,5 @@
+import AttendanceRegister from '@/components/attendance/attendance-register'
+
+export default function TakeAttendancePage() {
+  return <AttendanceRegister />
+}
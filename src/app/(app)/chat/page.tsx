@@ -0,0 +1,9 @@
+import AIChatbot from '@/components/chat/ai-chatbot'
+
+export default function ChatPage() {
+  return (
+    <div className="p-6">
+      <AIChatbot mode="fullscreen" />
+    </div>
+  )
+}
@@ -0,0 +1,5 @@
+import GradingBoard from '@/components/grading/grading-board'
+
+export default function GradingPage() {
+  return <GradingBoard />
+}
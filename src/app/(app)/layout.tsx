@@ -0,0 +1,14 @@
+import AppShell from "@/components/dashboard/app-shell";
+import { SessionProvider } from "@/components/providers/session-provider";
+
+export default function AppLayout({
+  children,
+}: Readonly<{
+  children: React.ReactNode;
+}>) {
+  return (
+    <SessionProvider>
+      <AppShell>{children}</AppShell>
+    </SessionProvider>
+  );
+}
@@ -0,0 +1,5 @@
+import NotesManager from '@/components/notes/notes-manager'
+
+export default function NotesPage() {
+  return <NotesManager />
+}
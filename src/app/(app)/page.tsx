@@ -0,0 +1,18 @@
+"use client"
+
+import { useRouter } from 'next/navigation'
+import DashboardOverview from '@/components/dashboard/dashboard-overview'
+import { useSession } from '@/components/providers/session-provider'
+import { viewRoutes } from '@/lib/routes'
+
+export default function DashboardPage() {
+  const router = useRouter()
+  const { user } = useSession()
+
+  return (
+    <DashboardOverview
+      firstName={user?.firstName}
+      onNavigate={(viewId) => router.push(viewRoutes[viewId] ?? '/')}
+    />
+  )
+}
@@ -0,0 +1,5 @@
+import SettingsPanel from '@/components/profile/settings-panel'
+
+export default function SettingsPage() {
+  return <SettingsPanel />
+}
@@ -0,0 +1,38 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { z } from 'zod';
+import { AUTH_EVENT_TYPES } from '@/lib/auth/audit';
+import { exportAuditEvents, listAuditEvents } from '@/lib/server/audit';
+import { requirePermission } from '@/lib/server/guard';
+import { handle, HttpError, json } from '@/lib/server/http';
+
+const filtersSchema = z.object({
+  type: z.enum(AUTH_EVENT_TYPES).optional(),
+  q: z.string().trim().optional(),
+  from: z.string().datetime({ offset: true, message: 'Invalid start date' }).optional(),
+  to: z.string().datetime({ offset: true, message: 'Invalid end date' }).optional(),
+  format: z.enum(['json', 'csv']).optional()
+});
+
+// Filters travel in the query string so the CSV export can be a plain download link
+export const GET = handle(async (request: NextRequest) => {
+  await requirePermission(request, 'audit:view');
+  const result = filtersSchema.safeParse(Object.fromEntries(request.nextUrl.searchParams));
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new HttpError(400, issue.message, issue.path.join('.') || undefined);
+  }
+
+  const { q, format, ...rest } = result.data;
+  const filters = { ...rest, query: q };
+  if (format !== 'csv') {
+    return json(await listAuditEvents(filters));
+  }
+
+  const date = new Date().toISOString().slice(0, 10);
+  return new NextResponse(await exportAuditEvents(filters), {
+    headers: {
+      'Content-Type': 'text/csv; charset=utf-8',
+      'Content-Disposition': `attachment; filename="security-events-${date}.csv"`
+    }
+  });
+});
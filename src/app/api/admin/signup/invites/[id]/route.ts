@@ -0,0 +1,10 @@
+import type { NextRequest } from 'next/server';
+import { requirePermission } from '@/lib/server/guard';
+import { handle, json } from '@/lib/server/http';
+import { revokeInvite } from '@/lib/server/signup-policy';
+
+export const DELETE = handle(async (request: NextRequest, { params }: { params: Promise<{ id: string }> }) => {
+  await requirePermission(request, 'users:manage');
+  const { id } = await params;
+  return json(await revokeInvite(id));
+});
@@ -0,0 +1,17 @@
+import type { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { requirePermission } from '@/lib/server/guard';
+import { handle, json, parseBody } from '@/lib/server/http';
+import { createInvite } from '@/lib/server/signup-policy';
+
+const inviteSchema = z.object({
+  role: z.enum(['student', 'instructor', 'admin']),
+  expiresInDays: z.number().int().min(1).max(90),
+  email: z.string().email('Please enter a valid email address').optional()
+});
+
+export const POST = handle(async (request: NextRequest) => {
+  const { user } = await requirePermission(request, 'users:manage');
+  const invite = await parseBody(request, inviteSchema);
+  return json(await createInvite(user.id, invite), { status: 201 });
+});
@@ -0,0 +1,27 @@
+import type { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { requirePermission } from '@/lib/server/guard';
+import { handle, json, parseBody } from '@/lib/server/http';
+import { getSignupSettings, setSignupPolicy } from '@/lib/server/signup-policy';
+
+const policySchema = z.object({
+  mode: z.enum(['open', 'domains', 'invite']),
+  allowedDomains: z.array(
+    z
+      .string()
+      .trim()
+      .toLowerCase()
+      .transform(domain => domain.replace(/^@/, ''))
+      .pipe(z.string().regex(/^[a-z0-9-]+(\.[a-z0-9-]+)+$/, 'Enter domains like university.edu'))
+  )
+});
+
+export const GET = handle(async (request: NextRequest) => {
+  await requirePermission(request, 'users:manage');
+  return json(await getSignupSettings());
+});
+
+export const PUT = handle(async (request: NextRequest) => {
+  await requirePermission(request, 'users:manage');
+  return json(await setSignupPolicy(await parseBody(request, policySchema)));
+});
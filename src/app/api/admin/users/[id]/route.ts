@@ -0,0 +1,16 @@
+import type { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { setUserRole } from '@/lib/server/admin-users';
+import { requirePermission } from '@/lib/server/guard';
+import { handle, json, parseBody } from '@/lib/server/http';
+
+const roleSchema = z.object({
+  role: z.enum(['student', 'instructor', 'admin'])
+});
+
+export const PATCH = handle(async (request: NextRequest, { params }: { params: Promise<{ id: string }> }) => {
+  const { user } = await requirePermission(request, 'users:manage');
+  const { id } = await params;
+  const { role } = await parseBody(request, roleSchema);
+  return json(await setUserRole(user.id, id, role));
+});
@@ -0,0 +1,9 @@
+import type { NextRequest } from 'next/server';
+import { listUsers } from '@/lib/server/admin-users';
+import { requirePermission } from '@/lib/server/guard';
+import { handle, json } from '@/lib/server/http';
+
+export const GET = handle(async (request: NextRequest) => {
+  await requirePermission(request, 'users:manage');
+  return json(await listUsers());
+});
@@ -0,0 +1,27 @@
+import type { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { getAttendanceRegister, recordAttendance } from '@/lib/server/attendance';
+import { requirePermission } from '@/lib/server/guard';
+import { handle, json, parseBody } from '@/lib/server/http';
+
+const sheetSchema = z.object({
+  course: z.string().trim().min(1, 'Enter the course').max(120),
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Pick a date'),
+  entries: z.array(
+    z.object({
+      studentId: z.string().min(1),
+      status: z.enum(['present', 'absent', 'late'])
+    })
+  ).min(1, 'Mark at least one student')
+});
+
+export const GET = handle(async (request: NextRequest) => {
+  await requirePermission(request, 'attendance:take');
+  return json(await getAttendanceRegister());
+});
+
+export const PUT = handle(async (request: NextRequest) => {
+  const { user } = await requirePermission(request, 'attendance:take');
+  const input = await parseBody(request, sheetSchema);
+  return json(await recordAttendance(input, user.id));
+});
@@ -0,0 +1,15 @@
+import type { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { requireSession } from '@/lib/server/guard';
+import { handle, json, parseBody } from '@/lib/server/http';
+import { regenerateRecoveryCodes } from '@/lib/server/two-factor';
+
+const regenerateSchema = z.object({
+  code: z.string().regex(/^\d{6}$/, 'Enter the 6-digit code from your authenticator app').optional(),
+  password: z.string().optional()
+});
+
+export const POST = handle(async (request: NextRequest) => {
+  const { user } = await requireSession(request);
+  return json(await regenerateRecoveryCodes(user.id, await parseBody(request, regenerateSchema)));
+});
@@ -0,0 +1,20 @@
+import type { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { requireSession } from '@/lib/server/guard';
+import { handle, json, parseBody } from '@/lib/server/http';
+import { getTwoFactorStatus, setPreferredMethod } from '@/lib/server/two-factor';
+
+const preferenceSchema = z.object({
+  preferredMethod: z.enum(['email', 'sms', 'voice', 'totp'])
+});
+
+export const GET = handle(async (request: NextRequest) => {
+  const { user } = await requireSession(request);
+  return json(await getTwoFactorStatus(user.id));
+});
+
+export const PATCH = handle(async (request: NextRequest) => {
+  const { user } = await requireSession(request);
+  const { preferredMethod } = await parseBody(request, preferenceSchema);
+  return json(await setPreferredMethod(user.id, preferredMethod));
+});
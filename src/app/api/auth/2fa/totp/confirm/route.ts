@@ -0,0 +1,15 @@
+import type { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { requireSession } from '@/lib/server/guard';
+import { handle, json, parseBody } from '@/lib/server/http';
+import { confirmTotpEnrollment } from '@/lib/server/two-factor';
+
+const confirmSchema = z.object({
+  code: z.string().regex(/^\d{6}$/, 'Enter the 6-digit code from your authenticator app')
+});
+
+export const POST = handle(async (request: NextRequest) => {
+  const { user } = await requireSession(request);
+  const { code } = await parseBody(request, confirmSchema);
+  return json(await confirmTotpEnrollment(user.id, code));
+});
@@ -0,0 +1,20 @@
+import type { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { requireSession } from '@/lib/server/guard';
+import { handle, json, parseBody } from '@/lib/server/http';
+import { disableTotp, startTotpEnrollment } from '@/lib/server/two-factor';
+
+const disableSchema = z.object({
+  code: z.string().regex(/^\d{6}$/, 'Enter the 6-digit code from your authenticator app')
+});
+
+export const POST = handle(async (request: NextRequest) => {
+  const { user } = await requireSession(request);
+  return json(await startTotpEnrollment(user.id));
+});
+
+export const DELETE = handle(async (request: NextRequest) => {
+  const { user } = await requireSession(request);
+  const { code } = await parseBody(request, disableSchema);
+  return json(await disableTotp(user.id, code));
+});
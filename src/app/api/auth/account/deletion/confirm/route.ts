@@ -0,0 +1,17 @@
+import type { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { confirmAccountDeletion } from '@/lib/server/account-deletion';
+import { readDeviceContext, requireSession } from '@/lib/server/guard';
+import { handle, json, parseBody } from '@/lib/server/http';
+import { otpCodeSchema } from '@/lib/server/otp';
+
+const confirmSchema = z.object({
+  challengeId: z.string().min(1),
+  code: otpCodeSchema
+});
+
+export const POST = handle(async (request: NextRequest) => {
+  const { session } = await requireSession(request);
+  const { challengeId, code } = await parseBody(request, confirmSchema);
+  return json(await confirmAccountDeletion(session, challengeId, code, await readDeviceContext(request)));
+});
@@ -0,0 +1,20 @@
+import type { NextRequest } from 'next/server';
+import { cancelAccountDeletion, getDeletionStatus, requestAccountDeletion } from '@/lib/server/account-deletion';
+import { readDeviceContext, requireSession } from '@/lib/server/guard';
+import { handle, json } from '@/lib/server/http';
+
+export const GET = handle(async (request: NextRequest) => {
+  const { user } = await requireSession(request);
+  return json(await getDeletionStatus(user.id));
+});
+
+// Sends (or resends) the code that confirms the request
+export const POST = handle(async (request: NextRequest) => {
+  const { user } = await requireSession(request);
+  return json(await requestAccountDeletion(user.id, await readDeviceContext(request)));
+});
+
+export const DELETE = handle(async (request: NextRequest) => {
+  const { user } = await requireSession(request);
+  return json(await cancelAccountDeletion(user.id, await readDeviceContext(request)));
+});
@@ -0,0 +1,20 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { exportAccountData } from '@/lib/server/account-data';
+import { requireSession } from '@/lib/server/guard';
+import { handle } from '@/lib/server/http';
+import { createZip } from '@/lib/server/zip';
+
+// A plain GET so the settings page can offer it as a download link
+export const GET = handle(async (request: NextRequest) => {
+  const { user } = await requireSession(request);
+  const archive = createZip(await exportAccountData(user.id));
+
+  const date = new Date().toISOString().slice(0, 10);
+  return new NextResponse(new Uint8Array(archive), {
+    headers: {
+      'Content-Type': 'application/zip',
+      'Content-Disposition': `attachment; filename="edudash-data-${date}.zip"`,
+      'Cache-Control': 'no-store'
+    }
+  });
+});
@@ -0,0 +1,9 @@
+import type { NextRequest } from 'next/server';
+import { listSecurityActivity } from '@/lib/server/audit';
+import { requireSession } from '@/lib/server/guard';
+import { handle, json } from '@/lib/server/http';
+
+export const GET = handle(async (request: NextRequest) => {
+  const { user } = await requireSession(request);
+  return json(await listSecurityActivity(user.id));
+});
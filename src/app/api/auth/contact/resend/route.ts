@@ -0,0 +1,15 @@
+import type { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { resendContactVerification } from '@/lib/server/contact';
+import { readDeviceContext, requireSession } from '@/lib/server/guard';
+import { handle, json, parseBody } from '@/lib/server/http';
+
+const resendSchema = z.object({
+  challengeId: z.string().min(1)
+});
+
+export const POST = handle(async (request: NextRequest) => {
+  const { user } = await requireSession(request);
+  const { challengeId } = await parseBody(request, resendSchema);
+  return json(await resendContactVerification(user.id, challengeId, await readDeviceContext(request)));
+});
@@ -0,0 +1,38 @@
+import type { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { toE164 } from '@/lib/auth/phone';
+import { cancelContactChange, getContactDetails, startContactVerification } from '@/lib/server/contact';
+import { readDeviceContext, requireSession } from '@/lib/server/guard';
+import { handle, json, parseBody } from '@/lib/server/http';
+
+const startSchema = z.discriminatedUnion('channel', [
+  z.object({ channel: z.literal('email'), value: z.string().email('Please enter a valid email address') }),
+  z.object({
+    channel: z.literal('sms'),
+    value: z
+      .string()
+      .transform(value => toE164(value) ?? '')
+      .refine(Boolean, 'Please enter a valid phone number, including the country code')
+  })
+]);
+
+const cancelSchema = z.object({
+  channel: z.enum(['email', 'sms'])
+});
+
+export const GET = handle(async (request: NextRequest) => {
+  const { user } = await requireSession(request);
+  return json(await getContactDetails(user.id));
+});
+
+export const POST = handle(async (request: NextRequest) => {
+  const { user } = await requireSession(request);
+  const { channel, value } = await parseBody(request, startSchema);
+  return json(await startContactVerification(user.id, channel, value, await readDeviceContext(request)));
+});
+
+export const DELETE = handle(async (request: NextRequest) => {
+  const { user } = await requireSession(request);
+  const { channel } = await parseBody(request, cancelSchema);
+  return json(await cancelContactChange(user.id, channel));
+});
@@ -0,0 +1,17 @@
+import type { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { confirmContactVerification } from '@/lib/server/contact';
+import { readDeviceContext, requireSession } from '@/lib/server/guard';
+import { handle, json, parseBody } from '@/lib/server/http';
+import { otpCodeSchema } from '@/lib/server/otp';
+
+const verifySchema = z.object({
+  challengeId: z.string().min(1),
+  code: otpCodeSchema
+});
+
+export const POST = handle(async (request: NextRequest) => {
+  const { user } = await requireSession(request);
+  const { challengeId, code } = await parseBody(request, verifySchema);
+  return json(await confirmContactVerification(user.id, challengeId, code, await readDeviceContext(request)));
+});
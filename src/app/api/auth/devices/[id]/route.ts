@@ -0,0 +1,11 @@
+import type { NextRequest } from 'next/server';
+import { forgetTrustedDevice } from '@/lib/server/account-sessions';
+import { requireSession } from '@/lib/server/guard';
+import { handle, json } from '@/lib/server/http';
+
+// Stops trusting a device; it stays signed in until its session ends
+export const DELETE = handle(async (request: NextRequest, { params }: { params: Promise<{ id: string }> }) => {
+  const { session } = await requireSession(request);
+  const { id } = await params;
+  return json(await forgetTrustedDevice(session, id));
+});
@@ -0,0 +1,26 @@
+import type { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { login } from '@/lib/server/auth';
+import { applySignIn, readDeviceContext } from '@/lib/server/guard';
+import { handle, json, parseBody } from '@/lib/server/http';
+
+const loginSchema = z.object({
+  email: z.string().email('Please enter a valid email address'),
+  password: z.string().min(1, 'Password is required'),
+  channel: z.enum(['email', 'sms', 'voice', 'totp']).optional(),
+  rememberMe: z.boolean().optional()
+});
+
+export const POST = handle(async (request: NextRequest) => {
+  const { email, password, channel, rememberMe } = await parseBody(request, loginSchema);
+  const { response, signIn } = await login(email, password, {
+    channel,
+    rememberMe,
+    device: await readDeviceContext(request)
+  });
+
+  const res = json(response);
+  // Trusted devices skip OTP and are signed in straight away
+  if (signIn) await applySignIn(res, signIn);
+  return res;
+});
@@ -0,0 +1,41 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { LOGIN_ROUTE } from '@/lib/routes';
+import { applySignIn, publicOrigin, readDeviceContext } from '@/lib/server/guard';
+import { HttpError } from '@/lib/server/http';
+import { completeOidcLogin } from '@/lib/server/oidc';
+import { clearOidcStateCookie, readOidcState } from '@/lib/server/session-cookie';
+
+// The browser lands here from the provider, so failures redirect back to the
+// login page instead of returning JSON.
+export const GET = async (request: NextRequest) => {
+  const params = request.nextUrl.searchParams;
+  const origin = publicOrigin(request);
+
+  let response: NextResponse;
+  try {
+    const { signIn, next } = await completeOidcLogin(
+      {
+        state: params.get('state'),
+        code: params.get('code'),
+        error: params.get('error'),
+        errorDescription: params.get('error_description'),
+        browserState: await readOidcState(request)
+      },
+      origin,
+      await readDeviceContext(request)
+    );
+    response = NextResponse.redirect(new URL(next, origin));
+    await applySignIn(response, signIn);
+  } catch (err) {
+    if (!(err instanceof HttpError)) console.error(err);
+    const loginUrl = new URL(LOGIN_ROUTE, origin);
+    loginUrl.searchParams.set(
+      'sso_error',
+      err instanceof HttpError ? err.message : 'Single sign-on failed. Please try again.'
+    );
+    response = NextResponse.redirect(loginUrl);
+  }
+
+  clearOidcStateCookie(response);
+  return response;
+};
@@ -0,0 +1,4 @@
+import { handle, json } from '@/lib/server/http';
+import { getSsoProvider } from '@/lib/server/oidc';
+
+export const GET = handle(async () => json({ provider: getSsoProvider() }));
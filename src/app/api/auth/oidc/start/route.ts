@@ -0,0 +1,15 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { safeRedirectPath } from '@/lib/routes';
+import { publicOrigin } from '@/lib/server/guard';
+import { handle } from '@/lib/server/http';
+import { startOidcLogin } from '@/lib/server/oidc';
+import { setOidcStateCookie } from '@/lib/server/session-cookie';
+
+export const GET = handle(async (request: NextRequest) => {
+  const next = safeRedirectPath(request.nextUrl.searchParams.get('next'));
+  const { url, state, expiresAt } = await startOidcLogin(publicOrigin(request), next);
+
+  const response = NextResponse.redirect(url);
+  await setOidcStateCookie(response, state, expiresAt);
+  return response;
+});
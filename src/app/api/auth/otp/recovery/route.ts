@@ -0,0 +1,25 @@
+import type { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { verifyOTP } from '@/lib/server/auth';
+import { applySignIn, readDeviceContext } from '@/lib/server/guard';
+import { handle, json, parseBody } from '@/lib/server/http';
+
+const recoverySchema = z.object({
+  challengeId: z.string().min(1),
+  code: z.string().trim().min(1, 'Enter one of your recovery codes'),
+  trustDevice: z.boolean().optional()
+});
+
+// Completes a sign-in challenge with a single-use recovery code
+export const POST = handle(async (request: NextRequest) => {
+  const { challengeId, code, trustDevice } = await parseBody(request, recoverySchema);
+  const signIn = await verifyOTP(challengeId, code, {
+    kind: 'recovery',
+    device: await readDeviceContext(request),
+    trustDevice
+  });
+
+  const response = json({ user: signIn.user });
+  await applySignIn(response, signIn);
+  return response;
+});
@@ -0,0 +1,15 @@
+import type { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { resendOTP } from '@/lib/server/auth';
+import { readDeviceContext } from '@/lib/server/guard';
+import { handle, json, parseBody } from '@/lib/server/http';
+
+const resendSchema = z.object({
+  challengeId: z.string().min(1),
+  channel: z.enum(['email', 'sms', 'voice']).optional()
+});
+
+export const POST = handle(async (request: NextRequest) => {
+  const { challengeId, channel } = await parseBody(request, resendSchema);
+  return json(await resendOTP(challengeId, channel, await readDeviceContext(request)));
+});
@@ -0,0 +1,21 @@
+import type { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { verifyOTP } from '@/lib/server/auth';
+import { applySignIn, readDeviceContext } from '@/lib/server/guard';
+import { handle, json, parseBody } from '@/lib/server/http';
+import { otpCodeSchema } from '@/lib/server/otp';
+
+const verifySchema = z.object({
+  challengeId: z.string().min(1),
+  code: otpCodeSchema,
+  trustDevice: z.boolean().optional()
+});
+
+export const POST = handle(async (request: NextRequest) => {
+  const { challengeId, code, trustDevice } = await parseBody(request, verifySchema);
+  const signIn = await verifyOTP(challengeId, code, { device: await readDeviceContext(request), trustDevice });
+
+  const response = json({ user: signIn.user });
+  await applySignIn(response, signIn);
+  return response;
+});
@@ -0,0 +1,10 @@
+import type { NextRequest } from 'next/server';
+import { requireSession } from '@/lib/server/guard';
+import { handle, json } from '@/lib/server/http';
+import { removePasskey } from '@/lib/server/passkeys';
+
+export const DELETE = handle(async (request: NextRequest, { params }: { params: Promise<{ id: string }> }) => {
+  const { user } = await requireSession(request);
+  const { id } = await params;
+  return json(await removePasskey(user.id, id));
+});
@@ -0,0 +1,22 @@
+import type { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { publicOrigin, readDeviceContext, requireSession } from '@/lib/server/guard';
+import { handle, json, parseBody } from '@/lib/server/http';
+import { finishPasskeyRegistration } from '@/lib/server/passkeys';
+
+const registrationSchema = z.object({
+  challengeId: z.string().min(1),
+  name: z.string().trim().max(60, 'Keep the name under 60 characters').optional(),
+  credential: z.object({
+    id: z.string().min(1),
+    clientDataJSON: z.string().min(1),
+    attestationObject: z.string().min(1)
+  })
+});
+
+export const POST = handle(async (request: NextRequest) => {
+  const { user } = await requireSession(request);
+  const registration = await parseBody(request, registrationSchema);
+  const { userAgent } = await readDeviceContext(request);
+  return json(await finishPasskeyRegistration(user.id, registration, publicOrigin(request), userAgent));
+});
@@ -0,0 +1,14 @@
+import type { NextRequest } from 'next/server';
+import { publicOrigin, requireSession } from '@/lib/server/guard';
+import { handle, json } from '@/lib/server/http';
+import { listPasskeys, startPasskeyRegistration } from '@/lib/server/passkeys';
+
+export const GET = handle(async (request: NextRequest) => {
+  const { user } = await requireSession(request);
+  return json(await listPasskeys(user.id));
+});
+
+export const POST = handle(async (request: NextRequest) => {
+  const { user } = await requireSession(request);
+  return json(await startPasskeyRegistration(user.id, publicOrigin(request)));
+});
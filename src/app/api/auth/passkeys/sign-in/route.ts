@@ -0,0 +1,8 @@
+import type { NextRequest } from 'next/server';
+import { publicOrigin, readDeviceContext } from '@/lib/server/guard';
+import { handle, json } from '@/lib/server/http';
+import { startPasskeySignIn } from '@/lib/server/passkeys';
+
+export const POST = handle(async (request: NextRequest) =>
+  json(await startPasskeySignIn(publicOrigin(request), await readDeviceContext(request)))
+);
@@ -0,0 +1,25 @@
+import type { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { applySignIn, publicOrigin, readDeviceContext } from '@/lib/server/guard';
+import { handle, json, parseBody } from '@/lib/server/http';
+import { finishPasskeySignIn } from '@/lib/server/passkeys';
+
+const assertionSchema = z.object({
+  challengeId: z.string().min(1),
+  credential: z.object({
+    id: z.string().min(1),
+    clientDataJSON: z.string().min(1),
+    authenticatorData: z.string().min(1),
+    signature: z.string().min(1),
+    userHandle: z.string().nullish()
+  })
+});
+
+export const POST = handle(async (request: NextRequest) => {
+  const assertion = await parseBody(request, assertionSchema);
+  const signIn = await finishPasskeySignIn(assertion, publicOrigin(request), await readDeviceContext(request));
+
+  const response = json({ user: signIn.user });
+  await applySignIn(response, signIn);
+  return response;
+});
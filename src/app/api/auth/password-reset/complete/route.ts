@@ -0,0 +1,22 @@
+import type { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { readDeviceContext } from '@/lib/server/guard';
+import { handle, json, parseBody } from '@/lib/server/http';
+import { resetPassword } from '@/lib/server/password-reset';
+import { clearRefreshCookie, clearSessionCookie } from '@/lib/server/session-cookie';
+
+const completeSchema = z.object({
+  token: z.string().min(1),
+  password: z.string().min(1, 'Password is required')
+});
+
+export const POST = handle(async (request: NextRequest) => {
+  const { token, password } = await parseBody(request, completeSchema);
+  await resetPassword(token, password, await readDeviceContext(request));
+
+  // Every session was revoked, including any in this browser
+  const response = json({ success: true });
+  clearSessionCookie(response);
+  clearRefreshCookie(response);
+  return response;
+});
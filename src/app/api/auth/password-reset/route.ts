@@ -0,0 +1,14 @@
+import type { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { publicOrigin, readDeviceContext } from '@/lib/server/guard';
+import { handle, json, parseBody } from '@/lib/server/http';
+import { requestPasswordReset } from '@/lib/server/password-reset';
+
+const requestSchema = z.object({
+  identifier: z.string().trim().min(1, 'Enter your email address or phone number')
+});
+
+export const POST = handle(async (request: NextRequest) => {
+  const { identifier } = await parseBody(request, requestSchema);
+  return json(await requestPasswordReset(identifier, publicOrigin(request), await readDeviceContext(request)));
+});
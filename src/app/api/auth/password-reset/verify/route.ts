@@ -0,0 +1,16 @@
+import type { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { readDeviceContext } from '@/lib/server/guard';
+import { handle, json, parseBody } from '@/lib/server/http';
+import { otpCodeSchema } from '@/lib/server/otp';
+import { verifyPasswordResetCode } from '@/lib/server/password-reset';
+
+const verifySchema = z.object({
+  challengeId: z.string().min(1),
+  code: otpCodeSchema
+});
+
+export const POST = handle(async (request: NextRequest) => {
+  const { challengeId, code } = await parseBody(request, verifySchema);
+  return json(await verifyPasswordResetCode(challengeId, code, await readDeviceContext(request)));
+});
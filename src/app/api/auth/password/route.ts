@@ -0,0 +1,22 @@
+import type { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { changePassword } from '@/lib/server/account-password';
+import { readDeviceContext, requireSession } from '@/lib/server/guard';
+import { handle, json, parseBody } from '@/lib/server/http';
+import { passwordPolicy } from '@/lib/server/password-policy';
+
+const changeSchema = z.object({
+  // Empty for accounts that only ever signed in with single sign-on
+  currentPassword: z.string(),
+  newPassword: z.string().min(1, 'Enter a new password')
+});
+
+// Public, so the password forms can list the rules as they're typed
+export const GET = handle(async () => json(passwordPolicy()));
+
+export const POST = handle(async (request: NextRequest) => {
+  const { session } = await requireSession(request);
+  const { currentPassword, newPassword } = await parseBody(request, changeSchema);
+  await changePassword(session, currentPassword, newPassword, await readDeviceContext(request));
+  return json({ success: true });
+});
@@ -0,0 +1,51 @@
+import type { NextRequest } from 'next/server';
+import { getSession, logout, resumeSession } from '@/lib/server/auth';
+import { applySignIn, readDeviceContext } from '@/lib/server/guard';
+import { handle, HttpError, json } from '@/lib/server/http';
+import {
+  clearRefreshCookie,
+  clearSessionCookie,
+  readRefreshToken,
+  readSessionToken,
+  setSessionCookie
+} from '@/lib/server/session-cookie';
+
+const signedOut = () => {
+  const response = json({ error: { message: 'Not signed in' } }, { status: 401 });
+  clearSessionCookie(response);
+  clearRefreshCookie(response);
+  return response;
+};
+
+export const GET = handle(async (request: NextRequest) => {
+  const token = await readSessionToken(request);
+  if (token) {
+    try {
+      const { user, session } = await getSession(token);
+      const response = json({ user });
+      // Re-issue the cookie so its expiry follows the sliding session
+      await setSessionCookie(response, token, session.expiresAt);
+      return response;
+    } catch (err) {
+      if (!(err instanceof HttpError && err.status === 401)) throw err;
+    }
+  }
+
+  // The short access session is gone; a remembered device can start a new one
+  const refreshToken = await readRefreshToken(request);
+  const signIn = refreshToken && (await resumeSession(refreshToken, await readDeviceContext(request)));
+  if (!signIn) return signedOut();
+
+  const response = json({ user: signIn.user });
+  await applySignIn(response, signIn);
+  return response;
+});
+
+export const DELETE = handle(async (request: NextRequest) => {
+  await logout(await readSessionToken(request), await readRefreshToken(request), await readDeviceContext(request));
+
+  const response = json({ success: true });
+  clearSessionCookie(response);
+  clearRefreshCookie(response);
+  return response;
+});
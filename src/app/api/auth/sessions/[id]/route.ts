@@ -0,0 +1,10 @@
+import type { NextRequest } from 'next/server';
+import { signOutSession } from '@/lib/server/account-sessions';
+import { readDeviceContext, requireSession } from '@/lib/server/guard';
+import { handle, json } from '@/lib/server/http';
+
+export const DELETE = handle(async (request: NextRequest, { params }: { params: Promise<{ id: string }> }) => {
+  const { session } = await requireSession(request);
+  const { id } = await params;
+  return json(await signOutSession(session, id, await readDeviceContext(request)));
+});
@@ -0,0 +1,15 @@
+import type { NextRequest } from 'next/server';
+import { listAccountSessions, signOutOtherSessions } from '@/lib/server/account-sessions';
+import { readDeviceContext, requireSession } from '@/lib/server/guard';
+import { handle, json } from '@/lib/server/http';
+
+export const GET = handle(async (request: NextRequest) => {
+  const { session } = await requireSession(request);
+  return json(await listAccountSessions(session));
+});
+
+// Signs out every browser except this one
+export const DELETE = handle(async (request: NextRequest) => {
+  const { session } = await requireSession(request);
+  return json(await signOutOtherSessions(session, await readDeviceContext(request)));
+});
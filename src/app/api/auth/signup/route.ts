@@ -0,0 +1,37 @@
+import type { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { toE164 } from '@/lib/auth/phone';
+import { signup } from '@/lib/server/auth';
+import { readDeviceContext } from '@/lib/server/guard';
+import { handle, json, parseBody } from '@/lib/server/http';
+import { getSignupPolicy } from '@/lib/server/signup-policy';
+
+const signupSchema = z.object({
+  firstName: z.string().trim().min(1, 'First name is required'),
+  lastName: z.string().trim().min(1, 'Last name is required'),
+  email: z.string().email('Please enter a valid email address'),
+  // Stored in E.164 form so the same number always matches
+  phone: z
+    .string()
+    .trim()
+    .optional()
+    .transform((value, ctx) => {
+      if (!value) return undefined;
+      const e164 = toE164(value);
+      if (!e164) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Please enter a valid phone number, including the country code' });
+        return z.NEVER;
+      }
+      return e164;
+    }),
+  password: z.string().min(1, 'Password is required'),
+  inviteCode: z.string().trim().optional()
+});
+
+// Public, so the sign-up form can explain the rules before anyone submits
+export const GET = handle(async () => json(await getSignupPolicy()));
+
+export const POST = handle(async (request: NextRequest) => {
+  const data = await parseBody(request, signupSchema);
+  return json(await signup(data, await readDeviceContext(request)), { status: 201 });
+});
@@ -0,0 +1,14 @@
+import type { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { requestAccountUnlock } from '@/lib/server/account-unlock';
+import { readDeviceContext } from '@/lib/server/guard';
+import { handle, json, parseBody } from '@/lib/server/http';
+
+const requestSchema = z.object({
+  email: z.string().email('Please enter a valid email address')
+});
+
+export const POST = handle(async (request: NextRequest) => {
+  const { email } = await parseBody(request, requestSchema);
+  return json(await requestAccountUnlock(email, await readDeviceContext(request)));
+});
@@ -0,0 +1,17 @@
+import type { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { verifyAccountUnlock } from '@/lib/server/account-unlock';
+import { readDeviceContext } from '@/lib/server/guard';
+import { handle, json, parseBody } from '@/lib/server/http';
+import { otpCodeSchema } from '@/lib/server/otp';
+
+const verifySchema = z.object({
+  challengeId: z.string().min(1),
+  code: otpCodeSchema
+});
+
+export const POST = handle(async (request: NextRequest) => {
+  const { challengeId, code } = await parseBody(request, verifySchema);
+  await verifyAccountUnlock(challengeId, code, await readDeviceContext(request));
+  return json({ success: true });
+});
@@ -0,0 +1,24 @@
+import type { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { getGradebook, saveGrade } from '@/lib/server/grades';
+import { requirePermission } from '@/lib/server/guard';
+import { handle, json, parseBody } from '@/lib/server/http';
+
+const gradeSchema = z.object({
+  studentId: z.string().min(1),
+  assignment: z.string().trim().min(1, 'Enter the assignment name').max(120),
+  score: z.number().min(0, 'Score cannot be negative'),
+  maxScore: z.number().positive('Maximum score must be above zero'),
+  feedback: z.string().max(2000).optional()
+});
+
+export const GET = handle(async (request: NextRequest) => {
+  await requirePermission(request, 'grades:manage');
+  return json(await getGradebook());
+});
+
+export const PUT = handle(async (request: NextRequest) => {
+  const { user } = await requirePermission(request, 'grades:manage');
+  const input = await parseBody(request, gradeSchema);
+  return json(await saveGrade(input, user.id));
+});
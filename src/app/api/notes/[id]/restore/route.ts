@@ -0,0 +1,17 @@
+import type { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { requireSession } from '@/lib/server/guard';
+import { handle, json, parseBody } from '@/lib/server/http';
+import { restoreRevision } from '@/lib/server/notes';
+
+const restoreSchema = z.object({
+  revisionId: z.string().min(1),
+  baseUpdatedAt: z.string().min(1)
+});
+
+export const POST = handle(async (request: NextRequest, { params }: { params: Promise<{ id: string }> }) => {
+  const { user } = await requireSession(request);
+  const { id } = await params;
+  const { revisionId, baseUpdatedAt } = await parseBody(request, restoreSchema);
+  return json(await restoreRevision(user.id, id, revisionId, baseUpdatedAt));
+});
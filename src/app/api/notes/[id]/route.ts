@@ -0,0 +1,23 @@
+import type { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { requireSession } from '@/lib/server/guard';
+import { handle, json, parseBody } from '@/lib/server/http';
+import { deleteNote, noteFieldsSchema, updateNote } from '@/lib/server/notes';
+
+const updateSchema = noteFieldsSchema.partial().extend({
+  baseUpdatedAt: z.string().min(1)
+});
+
+export const PATCH = handle(async (request: NextRequest, { params }: { params: Promise<{ id: string }> }) => {
+  const { user } = await requireSession(request);
+  const { id } = await params;
+  const changes = await parseBody(request, updateSchema);
+  return json(await updateNote(user.id, id, changes));
+});
+
+export const DELETE = handle(async (request: NextRequest, { params }: { params: Promise<{ id: string }> }) => {
+  const { user } = await requireSession(request);
+  const { id } = await params;
+  await deleteNote(user.id, id);
+  return json({ success: true });
+});
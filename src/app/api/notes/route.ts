@@ -0,0 +1,20 @@
+import type { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { requireSession } from '@/lib/server/guard';
+import { handle, json, parseBody } from '@/lib/server/http';
+import { createNote, listNotes, noteFieldsSchema } from '@/lib/server/notes';
+
+const createSchema = noteFieldsSchema.partial({ isFavorite: true }).extend({
+  id: z.string().uuid()
+});
+
+export const GET = handle(async (request: NextRequest) => {
+  const { user } = await requireSession(request);
+  return json(await listNotes(user.id));
+});
+
+export const POST = handle(async (request: NextRequest) => {
+  const { user } = await requireSession(request);
+  const input = await parseBody(request, createSchema);
+  return json(await createNote(user.id, input), { status: 201 });
+});
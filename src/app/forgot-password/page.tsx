@@ -0,0 +1,27 @@
+"use client"
+
+import { Suspense } from 'react'
+import { useRouter, useSearchParams } from 'next/navigation'
+import { ForgotPasswordFlow } from '@/components/auth/forgot-password'
+import { LOGIN_ROUTE } from '@/lib/routes'
+
+const ForgotPasswordScreen = () => {
+  const router = useRouter()
+  const searchParams = useSearchParams()
+
+  return (
+    <ForgotPasswordFlow
+      // Present when arriving from the emailed reset link
+      initialToken={searchParams.get('token')}
+      onBackToLogin={() => router.replace(LOGIN_ROUTE)}
+    />
+  )
+}
+
+export default function ForgotPasswordPage() {
+  return (
+    <Suspense>
+      <ForgotPasswordScreen />
+    </Suspense>
+  )
+}
@@ -0,0 +1,42 @@
+"use client"
+
+import { Suspense } from 'react'
+import { useRouter, useSearchParams } from 'next/navigation'
+import { motion } from 'framer-motion'
+import { AuthManager } from '@/components/auth/auth-manager'
+import { FORGOT_PASSWORD_ROUTE, safeRedirectPath } from '@/lib/routes'
+
+const LoginScreen = () => {
+  const router = useRouter()
+  const searchParams = useSearchParams()
+  const next = safeRedirectPath(searchParams.get('next'))
+  const invite = searchParams.get('invite')
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, scale: 0.95 }}
+      animate={{ opacity: 1, scale: 1 }}
+      transition={{ duration: 0.8, ease: [0.25, 0.46, 0.45, 0.94] }}
+    >
+      <AuthManager
+        // Return to the deep link the middleware bounced us from
+        onAuthenticated={() => router.replace(next)}
+        onLogout={() => router.replace('/login')}
+        onForgotPassword={() => router.push(FORGOT_PASSWORD_ROUTE)}
+        // Invite links open straight onto the sign-up form
+        initialAuthState={invite ? 'signup' : 'login'}
+        redirectTo={next}
+        ssoError={searchParams.get('sso_error')}
+        inviteCode={invite}
+      />
+    </motion.div>
+  )
+}
+
+export default function LoginPage() {
+  return (
+    <Suspense>
+      <LoginScreen />
+    </Suspense>
+  )
+}
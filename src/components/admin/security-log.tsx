@@ -0,0 +1,157 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { format } from "date-fns"
+import { toast } from "sonner"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { adminAPI } from "@/lib/auth/client"
+import { AUTH_EVENT_LABELS, AUTH_EVENT_TYPES, describeSecurityEvent } from "@/lib/auth/audit"
+import type { AuditEventFilters, AuditLog, AuthEventType } from "@/lib/auth/types"
+import { Download, Loader2, Search, ShieldAlert } from "lucide-react"
+
+const ALL_TYPES = "all"
+const FAILURES: AuthEventType[] = ["sign-in-failed", "otp-failed"]
+
+// Date inputs are in local time; the API takes exact instants
+const startOfDay = (date: string) => (date ? new Date(`${date}T00:00:00`).toISOString() : undefined)
+const endOfDay = (date: string) => (date ? new Date(`${date}T23:59:59.999`).toISOString() : undefined)
+
+export default function SecurityLog() {
+  const [log, setLog] = useState<AuditLog | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [type, setType] = useState<AuthEventType | typeof ALL_TYPES>(ALL_TYPES)
+  const [query, setQuery] = useState("")
+  const [from, setFrom] = useState("")
+  const [to, setTo] = useState("")
+
+  const filters: AuditEventFilters = {
+    type: type === ALL_TYPES ? undefined : type,
+    query,
+    from: startOfDay(from),
+    to: endOfDay(to),
+  }
+
+  useEffect(() => {
+    setIsLoading(true)
+    // Typing in the search box waits for a pause before asking again
+    const timer = setTimeout(() => {
+      adminAPI
+        .listAuthEvents(filters)
+        .then(setLog)
+        .catch((error) => toast.error(error instanceof Error ? error.message : "Failed to load security events"))
+        .finally(() => setIsLoading(false))
+    }, 300)
+    return () => clearTimeout(timer)
+  }, [type, query, from, to])
+
+  return (
+    <div className="space-y-6 bg-surface p-6 rounded-lg">
+      <div>
+        <h1 className="text-2xl font-display font-semibold text-foreground">Security Log</h1>
+        <p className="text-muted-foreground">Sign-ins, verification codes and session changes across every account</p>
+      </div>
+
+      <Card className="bg-background border-border">
+        <CardHeader className="space-y-4">
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+            <CardTitle className="flex items-center gap-2 text-foreground">
+              <ShieldAlert className="w-5 h-5" />
+              {log ? `${log.total} ${log.total === 1 ? "event" : "events"}` : "Events"}
+              {isLoading && <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />}
+            </CardTitle>
+            <Button variant="outline" asChild>
+              <a href={adminAPI.authEventsCsvUrl(filters)} download>
+                <Download className="w-4 h-4 mr-2" />
+                Export CSV
+              </a>
+            </Button>
+          </div>
+          <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-4">
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+              <Input
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                placeholder="Email, name, IP or detail"
+                className="pl-9"
+              />
+            </div>
+            <Select value={type} onValueChange={(value) => setType(value as AuthEventType | typeof ALL_TYPES)}>
+              <SelectTrigger className="bg-background border-border">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_TYPES}>All events</SelectItem>
+                {AUTH_EVENT_TYPES.map((item) => (
+                  <SelectItem key={item} value={item}>
+                    {AUTH_EVENT_LABELS[item]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input type="date" value={from} max={to || undefined} onChange={(e) => setFrom(e.target.value)} aria-label="From" />
+            <Input type="date" value={to} min={from || undefined} onChange={(e) => setTo(e.target.value)} aria-label="To" />
+          </div>
+        </CardHeader>
+        <CardContent>
+          {!log ? (
+            <div className="flex justify-center py-12">
+              <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : log.events.length === 0 ? (
+            <p className="p-3 text-sm text-muted-foreground">No events match these filters.</p>
+          ) : (
+            <div className="rounded-lg border border-border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Time</TableHead>
+                    <TableHead>Event</TableHead>
+                    <TableHead>Account</TableHead>
+                    <TableHead>IP address</TableHead>
+                    <TableHead>Device</TableHead>
+                    <TableHead>Detail</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {log.events.map((event) => (
+                    <TableRow key={event.id}>
+                      <TableCell className="whitespace-nowrap text-muted-foreground">
+                        {format(new Date(event.createdAt), "d MMM yyyy, HH:mm:ss")}
+                      </TableCell>
+                      <TableCell>
+                        <span className="flex items-center gap-2">
+                          {FAILURES.includes(event.type) && <Badge variant="destructive">Failed</Badge>}
+                          {describeSecurityEvent(event)}
+                        </span>
+                      </TableCell>
+                      <TableCell>
+                        <p className="font-medium text-foreground">{event.name ?? "Unknown account"}</p>
+                        {event.email && <p className="text-sm text-muted-foreground">{event.email}</p>}
+                      </TableCell>
+                      <TableCell className="text-muted-foreground">{event.ip ?? "—"}</TableCell>
+                      <TableCell className="text-muted-foreground" title={event.userAgent}>
+                        {event.browser} on {event.os}
+                      </TableCell>
+                      <TableCell className="text-muted-foreground max-w-xs whitespace-normal">{event.detail}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+          {log && log.total > log.events.length && (
+            <p className="pt-3 text-sm text-muted-foreground">
+              Showing the latest {log.events.length}. Narrow the filters or export to CSV to see the rest.
+            </p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
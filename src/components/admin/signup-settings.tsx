@@ -0,0 +1,280 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { format, formatDistanceToNow } from "date-fns"
+import { toast } from "sonner"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Separator } from "@/components/ui/separator"
+import { adminAPI } from "@/lib/auth/client"
+import { ROLE_LABELS, ROLES } from "@/lib/auth/roles"
+import type { Role, SignupInvite, SignupMode, SignupSettings as Settings } from "@/lib/auth/types"
+import { Copy, Loader2, Ticket, UserPlus } from "lucide-react"
+
+const MODES: { value: SignupMode; label: string; description: string }[] = [
+  { value: "open", label: "Open", description: "Anyone can create an account." },
+  { value: "domains", label: "Allowed domains", description: "Only addresses at the domains below, or with an invite." },
+  { value: "invite", label: "Invite only", description: "An invite code is needed to sign up." },
+]
+
+const EXPIRY_DAYS = [1, 7, 30, 90]
+
+const inviteStatus = (invite: SignupInvite) => {
+  if (invite.usedAt) return { label: "Used", variant: "secondary" as const }
+  if (Date.parse(invite.expiresAt) <= Date.now()) return { label: "Expired", variant: "outline" as const }
+  return { label: "Active", variant: "default" as const }
+}
+
+const showError = (error: unknown, fallback: string) => toast.error(error instanceof Error ? error.message : fallback)
+
+export default function SignupSettings() {
+  const [settings, setSettings] = useState<Settings | null>(null)
+  const [mode, setMode] = useState<SignupMode>("open")
+  const [domains, setDomains] = useState("")
+  const [isSaving, setIsSaving] = useState(false)
+  const [inviteRole, setInviteRole] = useState<Role>("student")
+  const [inviteDays, setInviteDays] = useState("7")
+  const [inviteEmail, setInviteEmail] = useState("")
+  const [isCreating, setIsCreating] = useState(false)
+  const [newCode, setNewCode] = useState<string | null>(null)
+  const [revokingId, setRevokingId] = useState<string | null>(null)
+
+  const applySettings = (next: Settings) => {
+    setSettings(next)
+    setMode(next.policy.mode)
+    setDomains(next.policy.allowedDomains.join(", "))
+  }
+
+  useEffect(() => {
+    adminAPI.getSignupSettings().then(applySettings).catch((error) => showError(error, "Failed to load sign-up settings"))
+  }, [])
+
+  const handleSavePolicy = async () => {
+    setIsSaving(true)
+    try {
+      const allowedDomains = domains
+        .split(/[\s,]+/)
+        .map((domain) => domain.trim())
+        .filter(Boolean)
+      applySettings(await adminAPI.setSignupPolicy({ mode, allowedDomains }))
+      toast.success("Sign-up policy saved")
+    } catch (error) {
+      showError(error, "Failed to save the sign-up policy")
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleCreateInvite = async () => {
+    setIsCreating(true)
+    try {
+      const { code, ...next } = await adminAPI.createInvite({
+        role: inviteRole,
+        expiresInDays: Number(inviteDays),
+        email: inviteEmail.trim() || undefined,
+      })
+      setSettings(next)
+      setNewCode(code)
+      setInviteEmail("")
+    } catch (error) {
+      showError(error, "Failed to create the invite")
+    } finally {
+      setIsCreating(false)
+    }
+  }
+
+  const handleRevoke = async (invite: SignupInvite) => {
+    setRevokingId(invite.id)
+    try {
+      setSettings(await adminAPI.revokeInvite(invite.id))
+      toast.success("Invite revoked")
+    } catch (error) {
+      showError(error, "Failed to revoke the invite")
+    } finally {
+      setRevokingId(null)
+    }
+  }
+
+  const inviteLink = (code: string) => `${window.location.origin}/login?invite=${encodeURIComponent(code)}`
+
+  const copy = async (text: string, what: string) => {
+    try {
+      await navigator.clipboard.writeText(text)
+      toast.success(`${what} copied`)
+    } catch {
+      toast.error("Couldn't copy to the clipboard")
+    }
+  }
+
+  if (!settings) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+      </div>
+    )
+  }
+
+  const policyChanged =
+    mode !== settings.policy.mode || (mode === "domains" && domains !== settings.policy.allowedDomains.join(", "))
+
+  return (
+    <Card className="bg-background border-border">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-foreground">
+          <UserPlus className="w-5 h-5" />
+          Sign-up
+        </CardTitle>
+        <CardDescription>Choose who can create an account, and hand out invites</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <RadioGroup value={mode} onValueChange={(value) => setMode(value as SignupMode)} className="space-y-2">
+          {MODES.map((item) => (
+            <div key={item.value} className="flex items-start gap-3">
+              <RadioGroupItem value={item.value} id={`signup-${item.value}`} className="mt-1" />
+              <Label htmlFor={`signup-${item.value}`} className="space-y-0.5 font-normal">
+                <span className="block font-medium text-foreground">{item.label}</span>
+                <span className="block text-sm text-muted-foreground">{item.description}</span>
+              </Label>
+            </div>
+          ))}
+        </RadioGroup>
+
+        {mode === "domains" && (
+          <div className="space-y-2">
+            <Label htmlFor="allowed-domains" className="text-foreground">
+              Allowed domains
+            </Label>
+            <Input
+              id="allowed-domains"
+              value={domains}
+              onChange={(e) => setDomains(e.target.value)}
+              placeholder="university.edu, alumni.university.edu"
+            />
+            <p className="text-sm text-muted-foreground">Subdomains are included.</p>
+          </div>
+        )}
+
+        <div className="flex justify-end">
+          <Button onClick={handleSavePolicy} disabled={isSaving || !policyChanged}>
+            {isSaving ? "Saving..." : "Save Policy"}
+          </Button>
+        </div>
+
+        <Separator />
+
+        <div className="space-y-4">
+          <div className="space-y-0.5">
+            <Label className="text-foreground flex items-center gap-2">
+              <Ticket className="w-4 h-4" />
+              Invites
+            </Label>
+            <p className="text-sm text-muted-foreground">
+              Each code works once, in any mode, and gives the new account its role
+            </p>
+          </div>
+
+          <div className="grid gap-3 sm:grid-cols-[1fr_auto_auto_auto]">
+            <Input
+              value={inviteEmail}
+              onChange={(e) => setInviteEmail(e.target.value)}
+              placeholder="Limit to an email (optional)"
+              type="email"
+            />
+            <Select value={inviteRole} onValueChange={(value) => setInviteRole(value as Role)}>
+              <SelectTrigger className="w-full sm:w-44 bg-background border-border">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {ROLES.map((role) => (
+                  <SelectItem key={role} value={role}>
+                    {ROLE_LABELS[role]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={inviteDays} onValueChange={setInviteDays}>
+              <SelectTrigger className="w-full sm:w-36 bg-background border-border">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {EXPIRY_DAYS.map((days) => (
+                  <SelectItem key={days} value={String(days)}>
+                    Expires in {days} {days === 1 ? "day" : "days"}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button onClick={handleCreateInvite} disabled={isCreating}>
+              {isCreating ? <Loader2 className="w-4 h-4 animate-spin" /> : "Create Invite"}
+            </Button>
+          </div>
+
+          {newCode && (
+            <Alert>
+              <Ticket className="h-4 w-4" />
+              <AlertDescription className="space-y-2">
+                <p>Copy this code now. It won&apos;t be shown again.</p>
+                <div className="flex flex-wrap items-center gap-2">
+                  <code className="rounded bg-muted px-2 py-1 font-mono text-foreground">{newCode}</code>
+                  <Button variant="outline" size="sm" onClick={() => copy(newCode, "Code")}>
+                    <Copy className="w-4 h-4 mr-1" />
+                    Code
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => copy(inviteLink(newCode), "Link")}>
+                    <Copy className="w-4 h-4 mr-1" />
+                    Link
+                  </Button>
+                </div>
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {settings.invites.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No invites yet.</p>
+          ) : (
+            <div className="divide-y divide-border rounded-lg border border-border">
+              {settings.invites.map((invite) => {
+                const status = inviteStatus(invite)
+                return (
+                  <div key={invite.id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 p-3">
+                    <div className="min-w-0 space-y-0.5">
+                      <p className="font-medium text-foreground flex items-center gap-2">
+                        <span className="font-mono">…{invite.hint}</span>
+                        <Badge variant={status.variant}>{status.label}</Badge>
+                        <span className="text-sm font-normal text-muted-foreground">{ROLE_LABELS[invite.role]}</span>
+                      </p>
+                      <p className="text-sm text-muted-foreground truncate">
+                        {[
+                          invite.email ? `For ${invite.email}` : "Anyone",
+                          invite.usedAt
+                            ? `Used${invite.usedBy ? ` by ${invite.usedBy}` : ""} ${formatDistanceToNow(new Date(invite.usedAt), { addSuffix: true })}`
+                            : `Expires ${format(new Date(invite.expiresAt), "d MMM yyyy")}`,
+                        ].join(" · ")}
+                      </p>
+                    </div>
+                    {!invite.usedAt && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleRevoke(invite)}
+                        disabled={revokingId !== null}
+                      >
+                        {revokingId === invite.id ? <Loader2 className="w-4 h-4 animate-spin" /> : "Revoke"}
+                      </Button>
+                    )}
+                  </div>
+                )
+              })}
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,115 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { toast } from "sonner"
+import { Badge } from "@/components/ui/badge"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { useSession } from "@/components/providers/session-provider"
+import SignupSettings from "@/components/admin/signup-settings"
+import { adminAPI } from "@/lib/auth/client"
+import { ROLE_LABELS, ROLES } from "@/lib/auth/roles"
+import type { ManagedUser, Role } from "@/lib/auth/types"
+import { Loader2, Search, Users } from "lucide-react"
+
+export default function UserManagement() {
+  const { user: currentUser } = useSession()
+  const [users, setUsers] = useState<ManagedUser[] | null>(null)
+  const [query, setQuery] = useState("")
+  const [savingId, setSavingId] = useState<string | null>(null)
+
+  useEffect(() => {
+    adminAPI
+      .listUsers()
+      .then(setUsers)
+      .catch((error) => toast.error(error instanceof Error ? error.message : "Failed to load users"))
+  }, [])
+
+  const handleRoleChange = async (target: ManagedUser, role: Role) => {
+    setSavingId(target.id)
+    try {
+      setUsers(await adminAPI.setRole(target.id, role))
+      toast.success(`${target.firstName} ${target.lastName} is now ${ROLE_LABELS[role].toLowerCase()}`)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to change the role")
+    } finally {
+      setSavingId(null)
+    }
+  }
+
+  if (!users) {
+    return (
+      <div className="flex justify-center py-24">
+        <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+      </div>
+    )
+  }
+
+  const needle = query.trim().toLowerCase()
+  const filtered = users.filter((user) =>
+    `${user.firstName} ${user.lastName} ${user.email}`.toLowerCase().includes(needle)
+  )
+
+  return (
+    <div className="space-y-6 bg-surface p-6 rounded-lg">
+      <div>
+        <h1 className="text-2xl font-display font-semibold text-foreground">Users</h1>
+        <p className="text-muted-foreground">Decide who teaches, who studies and who administers EduDash</p>
+      </div>
+
+      <Card className="bg-background border-border">
+        <CardHeader className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+          <CardTitle className="flex items-center gap-2 text-foreground">
+            <Users className="w-5 h-5" />
+            {users.length} {users.length === 1 ? "account" : "accounts"}
+          </CardTitle>
+          <div className="relative w-full sm:w-64">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+            <Input value={query} onChange={(e) => setQuery(e.target.value)} placeholder="Search users" className="pl-9" />
+          </div>
+        </CardHeader>
+        <CardContent>
+          <div className="divide-y divide-border rounded-lg border border-border">
+            {filtered.map((user) => {
+              const isSelf = user.id === currentUser?.id
+              return (
+                <div key={user.id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 p-3">
+                  <div className="min-w-0">
+                    <p className="font-medium text-foreground truncate flex items-center gap-2">
+                      {user.firstName} {user.lastName}
+                      {isSelf && <Badge variant="secondary">You</Badge>}
+                    </p>
+                    <p className="text-sm text-muted-foreground truncate">{user.email}</p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    {savingId === user.id && <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />}
+                    <Select
+                      value={user.role}
+                      onValueChange={(value) => handleRoleChange(user, value as Role)}
+                      disabled={isSelf || user.roleLocked || savingId !== null}
+                    >
+                      <SelectTrigger className="w-44 bg-background border-border">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {ROLES.map((role) => (
+                          <SelectItem key={role} value={role}>
+                            {ROLE_LABELS[role]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+              )
+            })}
+            {filtered.length === 0 && <p className="p-3 text-sm text-muted-foreground">No users match your search.</p>}
+          </div>
+        </CardContent>
+      </Card>
+
+      <SignupSettings />
+    </div>
+  )
+}
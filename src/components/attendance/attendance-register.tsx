@@ -0,0 +1,216 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import { motion } from "motion/react"
+import { toast } from "sonner"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { attendanceAPI } from "@/lib/coursework/client"
+import type { AttendanceRegister as Register, AttendanceSheet, AttendanceStatus } from "@/lib/coursework/types"
+import { CheckCheck, ClipboardList, Loader2, Save, UserCheck } from "lucide-react"
+
+const statusOptions: { value: AttendanceStatus; label: string; className: string }[] = [
+  { value: "present", label: "Present", className: "bg-success text-white hover:bg-success/90" },
+  { value: "late", label: "Late", className: "bg-warning text-white hover:bg-warning/90" },
+  { value: "absent", label: "Absent", className: "bg-error text-white hover:bg-error/90" },
+]
+
+const today = () => new Date().toISOString().slice(0, 10)
+
+const countStatus = (sheet: AttendanceSheet, status: AttendanceStatus) =>
+  sheet.entries.filter((entry) => entry.status === status).length
+
+export default function AttendanceRegister() {
+  const [register, setRegister] = useState<Register | null>(null)
+  const [course, setCourse] = useState("")
+  const [date, setDate] = useState(today)
+  const [marks, setMarks] = useState<Record<string, AttendanceStatus>>({})
+  const [isSaving, setIsSaving] = useState(false)
+
+  useEffect(() => {
+    attendanceAPI
+      .getRegister()
+      .then(setRegister)
+      .catch((error) => toast.error(error instanceof Error ? error.message : "Failed to load the class roster"))
+  }, [])
+
+  const existingSheet = useMemo(
+    () => register?.sheets.find((sheet) => sheet.course === course.trim() && sheet.date === date),
+    [register, course, date]
+  )
+
+  // Reopening a roll call that was already taken shows what was saved
+  useEffect(() => {
+    setMarks(
+      existingSheet ? Object.fromEntries(existingSheet.entries.map((entry) => [entry.studentId, entry.status])) : {}
+    )
+  }, [existingSheet])
+
+  const markAll = (status: AttendanceStatus) => {
+    if (!register) return
+    setMarks(Object.fromEntries(register.students.map((student) => [student.id, status])))
+  }
+
+  const handleSave = async () => {
+    if (!register) return
+    const entries = register.students
+      .filter((student) => marks[student.id])
+      .map((student) => ({ studentId: student.id, status: marks[student.id] }))
+
+    setIsSaving(true)
+    try {
+      setRegister(await attendanceAPI.saveSheet({ course: course.trim(), date, entries }))
+      toast.success(existingSheet ? "Attendance updated" : "Attendance saved")
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to save attendance")
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const openSheet = (sheet: AttendanceSheet) => {
+    setCourse(sheet.course)
+    setDate(sheet.date)
+  }
+
+  if (!register) {
+    return (
+      <div className="flex justify-center py-24">
+        <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+      </div>
+    )
+  }
+
+  const markedCount = Object.keys(marks).length
+
+  return (
+    <div className="space-y-6 bg-surface p-6 rounded-lg">
+      <div>
+        <h1 className="text-2xl font-display font-semibold text-foreground">Take Attendance</h1>
+        <p className="text-muted-foreground">Record who attended each class meeting</p>
+      </div>
+
+      <div className="grid grid-cols-1 xl:grid-cols-3 gap-6">
+        <Card className="xl:col-span-2 bg-background border-border">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-foreground">
+              <UserCheck className="w-5 h-5" />
+              Roll Call
+              {existingSheet && <Badge variant="secondary">Already taken</Badge>}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="attendance-course">Course</Label>
+                <Input
+                  id="attendance-course"
+                  list="attendance-courses"
+                  value={course}
+                  onChange={(e) => setCourse(e.target.value)}
+                  placeholder="e.g. Mathematics 101"
+                />
+                <datalist id="attendance-courses">
+                  {register.courses.map((item) => (
+                    <option key={item} value={item} />
+                  ))}
+                </datalist>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="attendance-date">Date</Label>
+                <Input id="attendance-date" type="date" value={date} onChange={(e) => setDate(e.target.value)} />
+              </div>
+            </div>
+
+            {register.students.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No students have signed up yet.</p>
+            ) : (
+              <>
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <p className="text-sm text-muted-foreground">
+                    {markedCount} of {register.students.length} students marked
+                  </p>
+                  <Button variant="outline" size="sm" onClick={() => markAll("present")}>
+                    <CheckCheck className="w-4 h-4 mr-2" />
+                    Mark all present
+                  </Button>
+                </div>
+
+                <div className="divide-y divide-border rounded-lg border border-border">
+                  {register.students.map((student, index) => (
+                    <motion.div
+                      key={student.id}
+                      initial={{ opacity: 0, y: 10 }}
+                      animate={{ opacity: 1, y: 0 }}
+                      transition={{ delay: Math.min(index, 10) * 0.03 }}
+                      className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 p-3"
+                    >
+                      <div className="min-w-0">
+                        <p className="font-medium text-foreground truncate">
+                          {student.firstName} {student.lastName}
+                        </p>
+                        <p className="text-sm text-muted-foreground truncate">{student.email}</p>
+                      </div>
+                      <div className="flex gap-2">
+                        {statusOptions.map((option) => (
+                          <Button
+                            key={option.value}
+                            size="sm"
+                            variant={marks[student.id] === option.value ? "default" : "outline"}
+                            className={marks[student.id] === option.value ? option.className : undefined}
+                            onClick={() => setMarks((prev) => ({ ...prev, [student.id]: option.value }))}
+                          >
+                            {option.label}
+                          </Button>
+                        ))}
+                      </div>
+                    </motion.div>
+                  ))}
+                </div>
+              </>
+            )}
+
+            <div className="flex justify-end">
+              <Button onClick={handleSave} disabled={isSaving || !course.trim() || !date || markedCount === 0}>
+                {isSaving ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Save className="w-4 h-4 mr-2" />}
+                {existingSheet ? "Update attendance" : "Save attendance"}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card className="bg-background border-border">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-foreground">
+              <ClipboardList className="w-5 h-5" />
+              Recent Roll Calls
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {register.sheets.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Nothing recorded yet.</p>
+            ) : (
+              register.sheets.slice(0, 12).map((sheet) => (
+                <button
+                  key={sheet.id}
+                  type="button"
+                  onClick={() => openSheet(sheet)}
+                  className="w-full text-left rounded-lg border border-border p-3 hover:bg-accent transition-colors"
+                >
+                  <p className="font-medium text-foreground">{sheet.course}</p>
+                  <p className="text-sm text-muted-foreground">
+                    {new Date(`${sheet.date}T00:00:00`).toLocaleDateString()} · {countStatus(sheet, "present")} present,{" "}
+                    {countStatus(sheet, "late")} late, {countStatus(sheet, "absent")} absent
+                  </p>
+                </button>
+              ))
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
@@ -2,28 +2,31 @@
 
 import React, { useState, useEffect, useCallback } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { CheckCircle, AlertCircle, ArrowLeft, Loader2 } from 'lucide-react';
+import { CheckCircle, AlertCircle, ArrowLeft, Building2, Fingerprint, Loader2 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import { CountryPicker } from '@/components/auth/country-picker';
+import { PasswordRequirements } from '@/components/auth/password-requirements';
+import { OtpVerification, describeCode } from '@/components/auth/otp-verification';
 import { toast } from 'sonner';
+import { ApiError, authAPI } from '@/lib/auth/client';
+import { isPasskeySupported, signInWithPasskey } from '@/lib/auth/passkeys';
+import { passwordPolicyError } from '@/lib/auth/password-policy';
+import { DEFAULT_REGION, formatPhoneNumber, parsePhoneNumber } from '@/lib/auth/phone';
+import { allowedDomainsMessage, isAllowedSignupDomain } from '@/lib/auth/signup-policy';
+import type { OtpChallengeInfo, OtpChannel, SignupPolicy, SsoProvider, User } from '@/lib/auth/types';
+import { formatCountdown, useCountdown } from '@/hooks/use-countdown';
+import { usePasswordPolicy } from '@/hooks/use-password-policy';
 
 // Types
-interface User {
-  id: string;
-  email: string;
-  phone?: string;
-  firstName: string;
-  lastName: string;
-  avatar?: string;
-  createdAt: Date;
-}
-
 interface AuthData {
   email?: string;
   phone?: string;
   password: string;
   firstName?: string;
   lastName?: string;
+  inviteCode?: string;
 }
 
 type AuthState = 'initial' | 'login' | 'signup' | 'otp-verification' | 'authenticated';
@@ -31,119 +34,72 @@ type AuthState = 'initial' | 'login' | 'signup' | 'otp-verification' | 'authenti
 interface AuthManagerProps {
   onAuthenticated: (user: User) => void;
   onLogout: () => void;
+  onForgotPassword?: () => void;
   initialAuthState?: 'login' | 'signup';
+  /** Where single sign-on returns to; the provider round trip leaves this page. */
+  redirectTo?: string;
+  /** Why a single sign-on attempt failed, passed back by the callback. */
+  ssoError?: string | null;
+  /** From an invite link; prefills the sign-up form. */
+  inviteCode?: string | null;
 }
 
 interface AuthError {
   message: string;
   field?: string;
+  /** Set when the server is throttling attempts. */
+  retryAt?: Date;
+  /** The account is locked and can be unlocked with an emailed code. */
+  unlockable?: boolean;
+  /** The password was right but is past the policy's maximum age. */
+  passwordExpired?: boolean;
 }
 
-// Mock API functions
-const authAPI = {
-  login: async (email: string, password: string): Promise<{ user: User; token: string; requiresOTP: boolean }> => {
-    await new Promise(resolve => setTimeout(resolve, 1500));
-    
-    if (email === 'test@error.com') {
-      throw new Error('Invalid credentials');
-    }
-    
-    const user: User = {
-      id: '1',
-      email,
-      firstName: 'John',
-      lastName: 'Doe',
-      createdAt: new Date()
-    };
-    
-    return {
-      user,
-      token: 'mock-jwt-token',
-      requiresOTP: email === 'test@otp.com'
-    };
-  },
-
-  signup: async (data: AuthData): Promise<{ user: User; token: string; requiresOTP: boolean }> => {
-    await new Promise(resolve => setTimeout(resolve, 2000));
-    
-    if (data.email === 'test@exists.com') {
-      throw new Error('User already exists');
-    }
-    
-    const user: User = {
-      id: '2',
-      email: data.email!,
-      phone: data.phone,
-      firstName: data.firstName!,
-      lastName: data.lastName!,
-      createdAt: new Date()
-    };
-    
-    return {
-      user,
-      token: 'mock-jwt-token',
-      requiresOTP: true
-    };
-  },
-
-  verifyOTP: async (code: string): Promise<{ success: boolean }> => {
-    await new Promise(resolve => setTimeout(resolve, 1000));
-    
-    if (code === '000000') {
-      throw new Error('Invalid OTP code');
-    }
-    
-    return { success: true };
-  },
-
-  resendOTP: async (): Promise<{ success: boolean }> => {
-    await new Promise(resolve => setTimeout(resolve, 500));
-    return { success: true };
-  }
+const toAuthError = (err: unknown, fallback: string): AuthError => {
+  const details = err instanceof ApiError ? err.details : undefined;
+  return {
+    message: err instanceof Error ? err.message : fallback,
+    field: err instanceof ApiError ? err.field : undefined,
+    retryAt: typeof details?.retryAfter === 'number' ? new Date(Date.now() + details.retryAfter * 1000) : undefined,
+    unlockable: details?.unlockable === true,
+    passwordExpired: details?.passwordExpired === true
+  };
 };
 
-// Storage utilities
-const storage = {
-  setAuthData: (user: User, token: string) => {
-    localStorage.setItem('auth_user', JSON.stringify(user));
-    localStorage.setItem('auth_token', token);
-    localStorage.setItem('auth_timestamp', Date.now().toString());
-  },
-  
-  getAuthData: (): { user: User; token: string } | null => {
-    try {
-      const user = localStorage.getItem('auth_user');
-      const token = localStorage.getItem('auth_token');
-      const timestamp = localStorage.getItem('auth_timestamp');
-      
-      if (!user || !token || !timestamp) return null;
-      
-      // Check if token is expired (24 hours)
-      const now = Date.now();
-      const authTime = parseInt(timestamp);
-      if (now - authTime > 24 * 60 * 60 * 1000) {
-        storage.clearAuthData();
-        return null;
-      }
-      
-      return { user: JSON.parse(user), token };
-    } catch {
-      return null;
-    }
-  },
-  
-  clearAuthData: () => {
-    localStorage.removeItem('auth_user');
-    localStorage.removeItem('auth_token');
-    localStorage.removeItem('auth_timestamp');
-  }
-};
+const AuthErrorAlert: React.FC<{
+  error: AuthError;
+  onUnlock?: () => void;
+  onResetPassword?: () => void;
+}> = ({ error, onUnlock, onResetPassword }) => (
+  <Alert variant="destructive">
+    <AlertCircle className="h-4 w-4" />
+    <AlertDescription>
+      {error.message}
+      {error.unlockable && onUnlock && (
+        <button type="button" onClick={onUnlock} className="block mt-2 font-medium underline">
+          Email me an unlock code
+        </button>
+      )}
+      {error.passwordExpired && onResetPassword && (
+        <button type="button" onClick={onResetPassword} className="block mt-2 font-medium underline">
+          Reset my password
+        </button>
+      )}
+    </AlertDescription>
+  </Alert>
+);
 
 // Auth Screen Component (Login/Signup selector)
 const AuthScreen: React.FC<{
   onSelectLogin: () => void;
   onSelectSignup: () => void;
-}> = ({ onSelectLogin, onSelectSignup }) => {
+  ssoProvider: SsoProvider | null;
+  onSso: () => void;
+  /** Omitted when the browser can't use passkeys. */
+  onPasskey?: () => void;
+  loading: boolean;
+  error: AuthError | null;
+}> = ({ onSelectLogin, onSelectSignup, ssoProvider, onSso, onPasskey, loading, error }) => {
   return (
     <motion.div
       initial={{ opacity: 0, y: 20 }}
@@ -155,10 +111,36 @@ const AuthScreen: React.FC<{
         <h1 className="text-3xl font-bold text-gray-900">Welcome</h1>
         <p className="text-gray-600">Choose how you'd like to continue</p>
       </div>
-      
+
+      {error && (
+        <div className="text-left">
+          <AuthErrorAlert error={error} />
+        </div>
+      )}
+
       <div className="space-y-4">
+        {ssoProvider && (
+          <>
+            <Button
+              onClick={onSso}
+              className="w-full h-12 text-lg"
+              size="lg"
+            >
+              <Building2 className="h-5 w-5 mr-2" />
+              Continue with {ssoProvider.name}
+            </Button>
+
+            <div className="flex items-center gap-3 text-sm text-gray-500">
+              <div className="h-px flex-1 bg-gray-200" />
+              or
+              <div className="h-px flex-1 bg-gray-200" />
+            </div>
+          </>
+        )}
+
         <Button
           onClick={onSelectLogin}
+          variant={ssoProvider ? 'outline' : 'default'}
           className="w-full h-12 text-lg"
           size="lg"
         >
@@ -173,6 +155,22 @@ const AuthScreen: React.FC<{
         >
           Create Account
         </Button>
+
+        {onPasskey && (
+          <Button
+            onClick={onPasskey}
+            variant="ghost"
+            className="w-full"
+            disabled={loading}
+          >
+            {loading ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Fingerprint className="h-4 w-4 mr-2" />
+            )}
+            Sign in with a passkey
+          </Button>
+        )}
       </div>
     </motion.div>
   );
@@ -180,17 +178,21 @@ const AuthScreen: React.FC<{
 
 // Login Form Component
 const LoginForm: React.FC<{
-  onSubmit: (email: string, password: string) => void;
+  onSubmit: (email: string, password: string, rememberMe: boolean) => void;
   onBack: () => void;
+  onForgotPassword?: () => void;
+  onUnlock: (email: string) => void;
   loading: boolean;
   error: AuthError | null;
-}> = ({ onSubmit, onBack, loading, error }) => {
+}> = ({ onSubmit, onBack, onForgotPassword, onUnlock, loading, error }) => {
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
+  const [rememberMe, setRememberMe] = useState(false);
+  const retryIn = useCountdown(error?.retryAt);
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    onSubmit(email, password);
+    onSubmit(email, password, rememberMe);
   };
 
   return (
@@ -215,12 +217,7 @@ const LoginForm: React.FC<{
         </div>
       </div>
 
-      {error && (
-        <Alert variant="destructive">
-          <AlertCircle className="h-4 w-4" />
-          <AlertDescription>{error.message}</AlertDescription>
-        </Alert>
-      )}
+      {error && <AuthErrorAlert error={error} onUnlock={() => onUnlock(email)} onResetPassword={onForgotPassword} />}
 
       <form onSubmit={handleSubmit} className="space-y-4">
         <div className="space-y-2">
@@ -240,9 +237,20 @@ const LoginForm: React.FC<{
         </div>
 
         <div className="space-y-2">
-          <label htmlFor="password" className="text-sm font-medium text-gray-700">
-            Password
-          </label>
+          <div className="flex items-center justify-between">
+            <label htmlFor="password" className="text-sm font-medium text-gray-700">
+              Password
+            </label>
+            {onForgotPassword && (
+              <button
+                type="button"
+                onClick={onForgotPassword}
+                className="text-sm text-primary hover:underline"
+              >
+                Forgot password?
+              </button>
+            )}
+          </div>
           <input
             id="password"
             type="password"
@@ -255,16 +263,30 @@ const LoginForm: React.FC<{
           />
         </div>
 
+        <div className="flex items-center space-x-2">
+          <Checkbox
+            id="remember-me"
+            checked={rememberMe}
+            onCheckedChange={(checked) => setRememberMe(checked === true)}
+            disabled={loading}
+          />
+          <label htmlFor="remember-me" className="text-sm text-gray-700">
+            Remember me
+          </label>
+        </div>
+
         <Button
           type="submit"
           className="w-full h-12"
-          disabled={loading}
+          disabled={loading || retryIn > 0}
         >
           {loading ? (
             <>
               <Loader2 className="h-4 w-4 mr-2 animate-spin" />
               Signing in...
             </>
+          ) : retryIn > 0 ? (
+            `Try again in ${formatCountdown(retryIn)}`
           ) : (
             'Sign In'
           )}
@@ -280,31 +302,61 @@ const SignupForm: React.FC<{
   onBack: () => void;
   loading: boolean;
   error: AuthError | null;
-}> = ({ onSubmit, onBack, loading, error }) => {
+  /** Unknown until it loads; the server enforces it either way. */
+  policy: SignupPolicy | null;
+  initialInviteCode?: string;
+}> = ({ onSubmit, onBack, loading, error, policy, initialInviteCode = '' }) => {
   const [formData, setFormData] = useState({
     firstName: '',
     lastName: '',
     email: '',
     phone: '',
+    region: DEFAULT_REGION,
     password: '',
-    confirmPassword: ''
+    confirmPassword: '',
+    inviteCode: initialInviteCode
   });
+  const [showInvite, setShowInvite] = useState(Boolean(initialInviteCode));
+  const passwordPolicy = usePasswordPolicy();
+
+  const hasInvite = formData.inviteCode.trim() !== '';
+  const inviteRequired = policy?.mode === 'invite';
+  // An invite lets its holder past the domain rule, so only check without one
+  const domainError =
+    policy?.mode === 'domains' && !hasInvite && formData.email.includes('@') && !isAllowedSignupDomain(policy, formData.email)
+      ? allowedDomainsMessage(policy)
+      : null;
+  const passwordError = passwordPolicyError(passwordPolicy, formData.password);
+  const passwordsMatch = formData.password === formData.confirmPassword;
 
   const handleChange = (field: string) => (e: React.ChangeEvent<HTMLInputElement>) => {
     setFormData(prev => ({ ...prev, [field]: e.target.value }));
   };
 
+  // Follows the region of a pasted `+…` number and tidies the grouping
+  const handlePhoneBlur = () => {
+    const parsed = parsePhoneNumber(formData.phone, formData.region);
+    if (!parsed?.valid) return;
+    setFormData(prev => ({
+      ...prev,
+      region: parsed.region.code,
+      phone: formatPhoneNumber(parsed.e164, 'national')
+    }));
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (formData.password !== formData.confirmPassword) {
+    if (passwordError || !passwordsMatch || domainError || (inviteRequired && !hasInvite)) {
       return;
     }
     onSubmit({
       firstName: formData.firstName,
       lastName: formData.lastName,
       email: formData.email,
-      phone: formData.phone,
-      password: formData.password
+      // The server rejects numbers it can't place, with a message to show
+      phone: formData.phone.trim() ? parsePhoneNumber(formData.phone, formData.region)?.e164 ?? formData.phone : '',
+      password: formData.password,
+      inviteCode: hasInvite ? formData.inviteCode.trim() : undefined
     });
   };
 
@@ -326,7 +378,11 @@ const SignupForm: React.FC<{
         </Button>
         <div>
           <h1 className="text-2xl font-bold text-gray-900">Create Account</h1>
-          <p className="text-gray-600">Sign up to get started with your account</p>
+          <p className="text-gray-600">
+            {inviteRequired
+              ? 'Sign-up is by invitation. Enter the invite code you were given.'
+              : 'Sign up to get started with your account'}
+          </p>
         </div>
       </div>
 
@@ -338,6 +394,36 @@ const SignupForm: React.FC<{
       )}
 
       <form onSubmit={handleSubmit} className="space-y-4">
+        {inviteRequired || showInvite ? (
+          <div className="space-y-2">
+            <label htmlFor="inviteCode" className="text-sm font-medium text-gray-700">
+              Invite Code{inviteRequired ? '' : ' (Optional)'}
+            </label>
+            <input
+              id="inviteCode"
+              type="text"
+              autoComplete="off"
+              value={formData.inviteCode}
+              onChange={handleChange('inviteCode')}
+              className={`w-full px-3 py-2 border rounded-md font-mono uppercase focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent ${
+                error?.field === 'inviteCode' ? 'border-red-500' : 'border-gray-300'
+              }`}
+              placeholder="XXXX-XXXX-XXXX"
+              required={inviteRequired}
+              disabled={loading}
+            />
+          </div>
+        ) : (
+          <button
+            type="button"
+            onClick={() => setShowInvite(true)}
+            className="text-sm text-primary hover:underline"
+            disabled={loading}
+          >
+            Have an invite code?
+          </button>
+        )}
+
         <div className="grid grid-cols-2 gap-4">
           <div className="space-y-2">
             <label htmlFor="firstName" className="text-sm font-medium text-gray-700">
@@ -380,26 +466,38 @@ const SignupForm: React.FC<{
             type="email"
             value={formData.email}
             onChange={handleChange('email')}
-            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent"
-            placeholder="john.doe@example.com"
+            className={`w-full px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent ${
+              domainError || error?.field === 'email' ? 'border-red-500' : 'border-gray-300'
+            }`}
+            placeholder={policy?.mode === 'domains' ? `you@${policy.allowedDomains[0]}` : 'john.doe@example.com'}
             required
             disabled={loading}
           />
+          {domainError && <p className="text-sm text-red-600">{domainError}</p>}
         </div>
 
         <div className="space-y-2">
           <label htmlFor="phone" className="text-sm font-medium text-gray-700">
             Phone (Optional)
           </label>
-          <input
-            id="phone"
-            type="tel"
-            value={formData.phone}
-            onChange={handleChange('phone')}
-            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent"
-            placeholder="+1 (555) 000-0000"
-            disabled={loading}
-          />
+          <div className="flex gap-2">
+            <CountryPicker
+              value={formData.region}
+              onChange={region => setFormData(prev => ({ ...prev, region }))}
+              disabled={loading}
+            />
+            <input
+              id="phone"
+              type="tel"
+              autoComplete="tel-national"
+              value={formData.phone}
+              onChange={handleChange('phone')}
+              onBlur={handlePhoneBlur}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent"
+              placeholder="Phone number"
+              disabled={loading}
+            />
+          </div>
         </div>
 
         <div className="space-y-2">
@@ -409,13 +507,17 @@ const SignupForm: React.FC<{
           <input
             id="password"
             type="password"
+            autoComplete="new-password"
             value={formData.password}
             onChange={handleChange('password')}
-            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent"
+            className={`w-full px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent ${
+              error?.field === 'password' ? 'border-red-500' : 'border-gray-300'
+            }`}
             placeholder="Enter your password"
             required
             disabled={loading}
           />
+          {formData.password && <PasswordRequirements policy={passwordPolicy} password={formData.password} />}
         </div>
 
         <div className="space-y-2">
@@ -434,14 +536,16 @@ const SignupForm: React.FC<{
           />
         </div>
 
-        {formData.password !== formData.confirmPassword && formData.confirmPassword && (
+        {!passwordsMatch && formData.confirmPassword && (
           <p className="text-sm text-red-600">Passwords do not match</p>
         )}
 
         <Button
           type="submit"
           className="w-full h-12"
-          disabled={loading || formData.password !== formData.confirmPassword}
+          disabled={
+            loading || Boolean(passwordError) || !passwordsMatch || Boolean(domainError) || (inviteRequired && !hasInvite)
+          }
         >
           {loading ? (
             <>
@@ -459,38 +563,65 @@ const SignupForm: React.FC<{
 
 // OTP Verification Component
 const OTPVerification: React.FC<{
-  onVerify: (code: string) => void;
-  onResend: () => void;
+  onVerify: (code: string, trustDevice: boolean) => void;
+  onVerifyRecovery?: (code: string, trustDevice: boolean) => void;
+  onResend: (channel?: OtpChannel) => void;
+  /** Offers to skip verification on this browser next time; sign-in only. */
+  canTrustDevice?: boolean;
+  onUnlock?: () => void;
   onBack: () => void;
   loading: boolean;
   resendLoading: boolean;
   error: AuthError | null;
-  email?: string;
-  phone?: string;
-}> = ({ onVerify, onResend, onBack, loading, resendLoading, error, email, phone }) => {
-  const [code, setCode] = useState('');
-  const [resendTimer, setResendTimer] = useState(0);
+  challenge: OtpChallengeInfo | null;
+}> = ({
+  onVerify,
+  onVerifyRecovery,
+  onResend,
+  canTrustDevice = false,
+  onUnlock,
+  onBack,
+  loading,
+  resendLoading,
+  error,
+  challenge
+}) => {
+  const [recoveryCode, setRecoveryCode] = useState('');
+  const [usingRecoveryCode, setUsingRecoveryCode] = useState(false);
+  const [trustDevice, setTrustDevice] = useState(false);
+  const expiresIn = useCountdown(challenge ? new Date(challenge.expiresAt) : null);
+  const retryIn = useCountdown(error?.retryAt);
+  const locked = challenge?.attemptsRemaining === 0;
+  const expired = !!challenge && expiresIn === 0;
+  const codeLength = challenge?.codeLength ?? 6;
+  const codeFormat = challenge?.codeFormat ?? 'numeric';
 
-  useEffect(() => {
-    setResendTimer(30);
-    const interval = setInterval(() => {
-      setResendTimer(prev => prev > 0 ? prev - 1 : 0);
-    }, 1000);
-    return () => clearInterval(interval);
-  }, []);
+  const recoveryReady = recoveryCode.replace(/-/g, '').length === 10;
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleRecoverySubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (code.length === 6) {
-      onVerify(code);
-    }
+    if (recoveryReady) onVerifyRecovery?.(recoveryCode, trustDevice);
   };
 
-  const handleResend = () => {
-    onResend();
-    setResendTimer(30);
+  const toggleRecoveryCode = () => {
+    setRecoveryCode('');
+    setUsingRecoveryCode(!usingRecoveryCode);
   };
 
+  const trustDeviceOption = canTrustDevice && (
+    <div className="flex items-center space-x-2">
+      <Checkbox
+        id="trust-device"
+        checked={trustDevice}
+        onCheckedChange={(checked) => setTrustDevice(checked === true)}
+        disabled={loading}
+      />
+      <label htmlFor="trust-device" className="text-sm text-gray-700">
+        Trust this device for 30 days
+      </label>
+    </div>
+  );
+
   return (
     <motion.div
       initial={{ opacity: 0, x: 20 }}
@@ -510,73 +641,96 @@ const OTPVerification: React.FC<{
         <div>
           <h1 className="text-2xl font-bold text-gray-900">Verify Code</h1>
           <p className="text-gray-600">
-            We sent a verification code to {email || phone}
+            {usingRecoveryCode
+              ? 'Enter one of the recovery codes you saved when setting up two-factor authentication'
+              : challenge?.channel === 'totp'
+                ? 'Enter the 6-digit code from your authenticator app'
+                : challenge?.channel === 'voice'
+                  ? `We're calling ${challenge.destination} to read out a ${describeCode(codeLength, codeFormat)}`
+                  : `We sent a ${describeCode(codeLength, codeFormat)} to ${challenge?.destination}`}
           </p>
         </div>
       </div>
 
-      {error && (
-        <Alert variant="destructive">
-          <AlertCircle className="h-4 w-4" />
-          <AlertDescription>{error.message}</AlertDescription>
-        </Alert>
-      )}
+      {error && <AuthErrorAlert error={error} onUnlock={onUnlock} />}
 
-      <form onSubmit={handleSubmit} className="space-y-6">
-        <div className="space-y-2">
-          <label htmlFor="otp" className="text-sm font-medium text-gray-700">
-            Verification Code
-          </label>
-          <input
-            id="otp"
-            type="text"
-            value={code}
-            onChange={(e) => setCode(e.target.value.replace(/\D/g, '').slice(0, 6))}
-            className="w-full px-3 py-3 text-center text-2xl font-mono tracking-widest border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent"
-            placeholder="000000"
-            maxLength={6}
-            required
-            disabled={loading}
-          />
-          <p className="text-xs text-gray-500">Enter the 6-digit code</p>
-        </div>
+      {usingRecoveryCode ? (
+        <form onSubmit={handleRecoverySubmit} className="space-y-6">
+          <div className="space-y-2">
+            <label htmlFor="recovery-code" className="text-sm font-medium text-gray-700">
+              Recovery Code
+            </label>
+            <input
+              id="recovery-code"
+              type="text"
+              value={recoveryCode}
+              onChange={(e) => setRecoveryCode(e.target.value.toLowerCase().replace(/[^a-z0-9-]/g, '').slice(0, 11))}
+              className="w-full px-3 py-3 text-center text-2xl font-mono tracking-widest border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent"
+              placeholder="xxxxx-xxxxx"
+              maxLength={11}
+              autoComplete="off"
+              required
+              disabled={loading || locked}
+            />
+            <p className="text-xs text-gray-500">
+              {expired ? 'This sign-in attempt has expired' : 'Each recovery code works once'}
+            </p>
+          </div>
 
-        <Button
-          type="submit"
-          className="w-full h-12"
-          disabled={loading || code.length !== 6}
-        >
-          {loading ? (
-            <>
-              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-              Verifying...
-            </>
-          ) : (
-            'Verify Code'
-          )}
-        </Button>
+          {trustDeviceOption}
 
-        <div className="text-center">
           <Button
-            type="button"
-            variant="ghost"
-            onClick={handleResend}
-            disabled={resendTimer > 0 || resendLoading}
-            className="text-sm"
+            type="submit"
+            className="w-full h-12"
+            disabled={loading || locked || retryIn > 0 || !recoveryReady || expired}
           >
-            {resendLoading ? (
+            {loading ? (
               <>
-                <Loader2 className="h-4 w-4 mr-1 animate-spin" />
-                Sending...
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                Verifying...
               </>
-            ) : resendTimer > 0 ? (
-              `Resend code in ${resendTimer}s`
+            ) : retryIn > 0 ? (
+              `Try again in ${formatCountdown(retryIn)}`
             ) : (
-              'Resend code'
+              'Verify Code'
             )}
           </Button>
+        </form>
+      ) : (
+        <OtpVerification
+          onVerify={(code) => onVerify(code, trustDevice)}
+          onResend={onResend}
+          length={codeLength}
+          format={codeFormat}
+          channel={challenge?.channel}
+          channels={challenge?.methods}
+          expiresAt={challenge?.expiresAt}
+          resendAvailableAt={challenge?.resendAvailableAt}
+          attemptsRemaining={challenge?.attemptsRemaining}
+          loading={loading}
+          resending={resendLoading}
+          blocked={retryIn > 0}
+          submitLabel={retryIn > 0 ? `Try again in ${formatCountdown(retryIn)}` : 'Verify Code'}
+          // Sign-in waits for the trust-device choice before submitting
+          autoSubmit={!canTrustDevice}
+        >
+          {trustDeviceOption}
+        </OtpVerification>
+      )}
+
+      {onVerifyRecovery && (
+        <div className="text-center">
+          <Button
+            type="button"
+            variant="link"
+            onClick={toggleRecoveryCode}
+            disabled={loading}
+            className="text-sm text-gray-600"
+          >
+            {usingRecoveryCode ? 'Use a verification code instead' : 'Use a recovery code'}
+          </Button>
         </div>
-      </form>
+      )}
     </motion.div>
   );
 };
@@ -602,53 +756,103 @@ const AuthLayout: React.FC<{ children: React.ReactNode }> = ({ children }) => {
 export const AuthManager: React.FC<AuthManagerProps> = ({
   onAuthenticated,
   onLogout,
-  initialAuthState = 'login'
+  onForgotPassword,
+  initialAuthState = 'login',
+  redirectTo = '/',
+  ssoError,
+  inviteCode
 }) => {
   const [authState, setAuthState] = useState<AuthState>('initial');
   const [loading, setLoading] = useState(false);
   const [resendLoading, setResendLoading] = useState(false);
   const [error, setError] = useState<AuthError | null>(null);
-  const [pendingUser, setPendingUser] = useState<User | null>(null);
-  const [pendingToken, setPendingToken] = useState<string | null>(null);
-  const [contactInfo, setContactInfo] = useState<{ email?: string; phone?: string }>({});
+  const [pendingEmail, setPendingEmail] = useState<string | null>(null);
+  const [otpChallenge, setOtpChallenge] = useState<OtpChallengeInfo | null>(null);
+  const [otpOrigin, setOtpOrigin] = useState<'login' | 'signup' | 'unlock'>('login');
+  const [unlockEmail, setUnlockEmail] = useState('');
+  const [sessionChecked, setSessionChecked] = useState(false);
+  const [ssoProvider, setSsoProvider] = useState<SsoProvider | null>(null);
+  const [signupPolicy, setSignupPolicy] = useState<SignupPolicy | null>(null);
 
-  // Check for existing authentication on mount
+  // Restore an existing session from the HttpOnly cookie on mount
   useEffect(() => {
-    const authData = storage.getAuthData();
-    if (authData) {
-      setAuthState('authenticated');
-      onAuthenticated(authData.user);
-    } else {
-      setAuthState(initialAuthState === 'login' ? 'initial' : initialAuthState);
-    }
-  }, [initialAuthState, onAuthenticated]);
+    let cancelled = false;
+
+    authAPI.getSession()
+      .catch(() => null)
+      .then(user => {
+        if (cancelled) return;
+        if (user) {
+          setAuthState('authenticated');
+          onAuthenticated(user);
+        } else {
+          setAuthState(initialAuthState === 'login' ? 'initial' : initialAuthState);
+        }
+        setSessionChecked(true);
+      });
+
+    // Without a provider configured the screen simply has no SSO button
+    authAPI.getSsoProvider()
+      .catch(() => null)
+      .then(provider => {
+        if (!cancelled) setSsoProvider(provider);
+      });
+
+    authAPI.getSignupPolicy()
+      .catch(() => null)
+      .then(policy => {
+        if (!cancelled) setSignupPolicy(policy);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
 
   // Clear error when state changes
   useEffect(() => {
     setError(null);
   }, [authState]);
 
-  const handleLogin = useCallback(async (email: string, password: string) => {
+  const handleLogin = useCallback(async (email: string, password: string, rememberMe: boolean) => {
     setLoading(true);
     setError(null);
     
     try {
-      const result = await authAPI.login(email, password);
+      const result = await authAPI.login(email, password, { rememberMe });
       
       if (result.requiresOTP) {
-        setPendingUser(result.user);
-        setPendingToken(result.token);
-        setContactInfo({ email });
+        setPendingEmail(email);
+        setOtpChallenge(result.otp);
+        setOtpOrigin('login');
         setAuthState('otp-verification');
-        toast.success('Verification code sent to your email');
+        if (result.otp.channel !== 'totp') {
+          toast.success(`Verification code sent to ${result.otp.destination}`);
+        }
       } else {
-        storage.setAuthData(result.user, result.token);
         setAuthState('authenticated');
         onAuthenticated(result.user);
         toast.success('Welcome back!');
       }
     } catch (err) {
-      setError({ message: err instanceof Error ? err.message : 'Login failed' });
+      setError(toAuthError(err, 'Login failed'));
+    } finally {
+      setLoading(false);
+    }
+  }, [onAuthenticated]);
+
+  // Passkeys need neither the password nor a one-time code
+  const handlePasskeyLogin = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const user = await signInWithPasskey();
+      setAuthState('authenticated');
+      onAuthenticated(user);
+      toast.success('Welcome back!');
+    } catch (err) {
+      setError(toAuthError(err, 'Passkey sign-in failed'));
     } finally {
       setLoading(false);
     }
@@ -659,32 +863,46 @@ export const AuthManager: React.FC<AuthManagerProps> = ({
     setError(null);
     
     try {
-      const result = await authAPI.signup(data);
+      const result = await authAPI.signup({
+        email: data.email ?? '',
+        phone: data.phone || undefined,
+        password: data.password,
+        firstName: data.firstName ?? '',
+        lastName: data.lastName ?? '',
+        inviteCode: data.inviteCode
+      });
       
-      setPendingUser(result.user);
-      setPendingToken(result.token);
-      setContactInfo({ email: data.email, phone: data.phone });
+      setPendingEmail(result.user.email);
+      setOtpChallenge(result.otp);
+      setOtpOrigin('signup');
       setAuthState('otp-verification');
       toast.success('Account created! Please verify your email.');
     } catch (err) {
-      setError({ message: err instanceof Error ? err.message : 'Signup failed' });
+      setError(toAuthError(err, 'Signup failed'));
     } finally {
       setLoading(false);
     }
   }, []);
 
-  const handleOTPVerify = useCallback(async (code: string) => {
-    if (!pendingUser || !pendingToken) return;
+  const handleOTPVerify = useCallback(async (code: string, trustDevice: boolean) => {
+    if (!otpChallenge) return;
     
     setLoading(true);
     setError(null);
     
     try {
-      await authAPI.verifyOTP(code);
+      if (otpOrigin === 'unlock') {
+        await authAPI.verifyAccountUnlock(otpChallenge.challengeId, code);
+        setOtpChallenge(null);
+        setAuthState('login');
+        toast.success('Account unlocked. You can sign in again.');
+        return;
+      }
+
+      const result = await authAPI.verifyOTP(otpChallenge.challengeId, code, trustDevice);
       
-      storage.setAuthData(pendingUser, pendingToken);
       setAuthState('authenticated');
-      onAuthenticated(pendingUser);
+      onAuthenticated(result.user);
       
       // Success animation
       toast.success(
@@ -694,32 +912,94 @@ export const AuthManager: React.FC<AuthManagerProps> = ({
         </div>
       );
     } catch (err) {
-      setError({ message: err instanceof Error ? err.message : 'Verification failed' });
+      setError(toAuthError(err, 'Verification failed'));
+      const attemptsRemaining = err instanceof ApiError ? err.details?.attemptsRemaining : undefined;
+      if (typeof attemptsRemaining === 'number') {
+        setOtpChallenge(prev => prev && { ...prev, attemptsRemaining });
+      }
     } finally {
       setLoading(false);
     }
-  }, [pendingUser, pendingToken, onAuthenticated]);
+  }, [otpChallenge, otpOrigin, onAuthenticated]);
+
+  const handleRecoveryCode = useCallback(async (code: string, trustDevice: boolean) => {
+    if (!otpChallenge) return;
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const result = await authAPI.verifyRecoveryCode(otpChallenge.challengeId, code, trustDevice);
+      setAuthState('authenticated');
+      onAuthenticated(result.user);
+      toast.success('Signed in with a recovery code. Consider generating a new set in Settings.');
+    } catch (err) {
+      setError(toAuthError(err, 'Verification failed'));
+      const attemptsRemaining = err instanceof ApiError ? err.details?.attemptsRemaining : undefined;
+      if (typeof attemptsRemaining === 'number') {
+        setOtpChallenge(prev => prev && { ...prev, attemptsRemaining });
+      }
+    } finally {
+      setLoading(false);
+    }
+  }, [otpChallenge, onAuthenticated]);
+
+  const handleResendOTP = useCallback(async (channel?: OtpChannel) => {
+    if (!otpChallenge) return;
 
-  const handleResendOTP = useCallback(async () => {
     setResendLoading(true);
     setError(null);
     
     try {
-      await authAPI.resendOTP();
-      toast.success('Verification code sent!');
+      // Unlock codes are resent by asking again, which reuses the pending challenge
+      const challenge = otpOrigin === 'unlock'
+        ? await authAPI.requestAccountUnlock(unlockEmail)
+        : await authAPI.resendOTP(otpChallenge.challengeId, channel);
+      setOtpChallenge(challenge);
+      toast.success(`Verification code sent to ${challenge.destination}`);
     } catch (err) {
-      setError({ message: err instanceof Error ? err.message : 'Failed to resend code' });
+      setError(toAuthError(err, 'Failed to resend code'));
+      const resendAvailableAt = err instanceof ApiError ? err.details?.resendAvailableAt : undefined;
+      if (typeof resendAvailableAt === 'string') {
+        setOtpChallenge(prev => prev && { ...prev, resendAvailableAt });
+      }
     } finally {
       setResendLoading(false);
     }
+  }, [otpChallenge, otpOrigin, unlockEmail]);
+
+  const handleUnlockRequest = useCallback(async (email: string) => {
+    if (!email) {
+      setError({ message: 'Enter your email address to receive an unlock code' });
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const challenge = await authAPI.requestAccountUnlock(email);
+      setUnlockEmail(email);
+      setOtpChallenge(challenge);
+      setOtpOrigin('unlock');
+      setAuthState('otp-verification');
+      toast.success(`Unlock code sent to ${challenge.destination}`);
+    } catch (err) {
+      setError(toAuthError(err, 'Failed to send an unlock code'));
+    } finally {
+      setLoading(false);
+    }
   }, []);
 
-  const handleLogout = useCallback(() => {
-    storage.clearAuthData();
+  const handleLogout = useCallback(async () => {
+    try {
+      await authAPI.logout();
+    } catch {
+      // The cookie is cleared server-side whenever the request lands; nothing to undo here
+    }
     setAuthState('initial');
-    setPendingUser(null);
-    setPendingToken(null);
-    setContactInfo({});
+    setPendingEmail(null);
+    setOtpChallenge(null);
     setError(null);
     onLogout();
     toast.success('Signed out successfully');
@@ -730,16 +1010,26 @@ export const AuthManager: React.FC<AuthManagerProps> = ({
       setAuthState('initial');
     } else if (authState === 'otp-verification') {
       // Go back to the previous auth state
-      setAuthState(pendingUser?.id === '2' ? 'signup' : 'login');
+      setAuthState(otpOrigin === 'signup' ? 'signup' : 'login');
     }
     setError(null);
-  }, [authState, pendingUser]);
+  }, [authState, otpOrigin]);
 
   // Don't render anything if authenticated (parent should handle this)
   if (authState === 'authenticated') {
     return null;
   }
 
+  if (!sessionChecked) {
+    return (
+      <AuthLayout>
+        <div className="flex justify-center py-12">
+          <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+        </div>
+      </AuthLayout>
+    );
+  }
+
   return (
     <AuthLayout>
       <AnimatePresence mode="wait">
@@ -748,6 +1038,11 @@ export const AuthManager: React.FC<AuthManagerProps> = ({
             key="initial"
             onSelectLogin={() => setAuthState('login')}
             onSelectSignup={() => setAuthState('signup')}
+            ssoProvider={ssoProvider}
+            onSso={() => window.location.assign(authAPI.ssoLoginUrl(redirectTo))}
+            onPasskey={isPasskeySupported() ? handlePasskeyLogin : undefined}
+            loading={loading}
+            error={error ?? (ssoError ? { message: ssoError } : null)}
           />
         )}
         
@@ -756,6 +1051,8 @@ export const AuthManager: React.FC<AuthManagerProps> = ({
             key="login"
             onSubmit={handleLogin}
             onBack={handleBack}
+            onForgotPassword={onForgotPassword}
+            onUnlock={handleUnlockRequest}
             loading={loading}
             error={error}
           />
@@ -768,6 +1065,8 @@ export const AuthManager: React.FC<AuthManagerProps> = ({
             onBack={handleBack}
             loading={loading}
             error={error}
+            policy={signupPolicy}
+            initialInviteCode={inviteCode ?? undefined}
           />
         )}
         
@@ -775,13 +1074,15 @@ export const AuthManager: React.FC<AuthManagerProps> = ({
           <OTPVerification
             key="otp"
             onVerify={handleOTPVerify}
+            onVerifyRecovery={otpOrigin === 'login' ? handleRecoveryCode : undefined}
+            canTrustDevice={otpOrigin === 'login'}
+            onUnlock={otpOrigin !== 'unlock' && pendingEmail ? () => handleUnlockRequest(pendingEmail) : undefined}
             onResend={handleResendOTP}
             onBack={handleBack}
             loading={loading}
             resendLoading={resendLoading}
             error={error}
-            email={contactInfo.email}
-            phone={contactInfo.phone}
+            challenge={otpChallenge}
           />
         )}
       </AnimatePresence>
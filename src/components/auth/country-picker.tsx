@@ -0,0 +1,77 @@
+"use client";
+
+import React, { useMemo, useState } from 'react';
+import { Check, ChevronsUpDown } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Command, CommandEmpty, CommandInput, CommandItem, CommandList } from '@/components/ui/command';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { findPhoneRegion, sortedPhoneRegions } from '@/lib/auth/phone';
+import { cn } from '@/lib/utils';
+
+interface CountryPickerProps {
+  /** ISO 3166-1 alpha-2 code of the selected region */
+  value: string;
+  onChange: (code: string) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+// Regional indicator symbols render as the region's flag
+const flagOf = (code: string) =>
+  String.fromCodePoint(...[...code.toUpperCase()].map(char => 0x1f1e6 + char.charCodeAt(0) - 65));
+
+/** Searchable dial-code picker for phone inputs, covering every region. */
+export const CountryPicker: React.FC<CountryPickerProps> = ({ value, onChange, disabled, className }) => {
+  const [open, setOpen] = useState(false);
+  const regions = useMemo(sortedPhoneRegions, []);
+  const selected = findPhoneRegion(value);
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          type="button"
+          variant="outline"
+          role="combobox"
+          aria-expanded={open}
+          aria-label={selected ? `${selected.name} (+${selected.dialCode})` : 'Country code'}
+          disabled={disabled}
+          className={cn('w-28 justify-between px-3 font-normal', className)}
+        >
+          {selected ? (
+            <span className="truncate">
+              {flagOf(selected.code)} +{selected.dialCode}
+            </span>
+          ) : (
+            'Code'
+          )}
+          <ChevronsUpDown className="h-4 w-4 shrink-0 opacity-50" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-72 p-0" align="start">
+        <Command>
+          <CommandInput placeholder="Search country or code..." />
+          <CommandList>
+            <CommandEmpty>No country found.</CommandEmpty>
+            {regions.map(region => (
+              <CommandItem
+                key={region.code}
+                value={region.code}
+                keywords={[region.name, `+${region.dialCode}`]}
+                onSelect={() => {
+                  onChange(region.code);
+                  setOpen(false);
+                }}
+              >
+                <span>{flagOf(region.code)}</span>
+                <span className="flex-1 truncate">{region.name}</span>
+                <span className="text-muted-foreground">+{region.dialCode}</span>
+                <Check className={cn('h-4 w-4', region.code === value ? 'opacity-100' : 'opacity-0')} />
+              </CommandItem>
+            ))}
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+};
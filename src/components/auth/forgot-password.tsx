@@ -0,0 +1,291 @@
+"use client";
+
+import React, { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { AlertCircle, CheckCircle, Eye, EyeOff, Loader2, Lock, Mail, Phone } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { AuthLayout } from '@/components/auth/auth-layout';
+import { OtpVerification, describeCode } from '@/components/auth/otp-verification';
+import { PasswordRequirements } from '@/components/auth/password-requirements';
+import { ApiError, authAPI } from '@/lib/auth/client';
+import { passwordPolicyError } from '@/lib/auth/password-policy';
+import type { OtpChallengeInfo } from '@/lib/auth/types';
+import { detectInputType } from '@/lib/auth/validation';
+import { usePasswordPolicy } from '@/hooks/use-password-policy';
+
+type ResetStep = 'request' | 'verify' | 'reset' | 'done';
+
+interface ForgotPasswordFlowProps {
+  /** Token from an emailed reset link; skips straight to choosing a password. */
+  initialToken?: string | null;
+  onBackToLogin: () => void;
+}
+
+const STEP_COPY: Record<ResetStep, { title: string; subtitle: string }> = {
+  request: {
+    title: 'Forgot your password?',
+    subtitle: "Enter your email or phone number and we'll send you a code to reset it."
+  },
+  verify: {
+    title: 'Check your messages',
+    subtitle: 'Enter the code we sent you.'
+  },
+  reset: {
+    title: 'Choose a new password',
+    subtitle: "Pick one you haven't used here recently."
+  },
+  done: {
+    title: 'Password updated',
+    subtitle: 'You can now sign in with your new password.'
+  }
+};
+
+const stepMotion = {
+  initial: { opacity: 0, x: 20 },
+  animate: { opacity: 1, x: 0 },
+  exit: { opacity: 0, x: -20 }
+};
+
+const errorMessage = (err: unknown, fallback: string) => (err instanceof Error ? err.message : fallback);
+
+export const ForgotPasswordFlow: React.FC<ForgotPasswordFlowProps> = ({ initialToken, onBackToLogin }) => {
+  const [step, setStep] = useState<ResetStep>(initialToken ? 'reset' : 'request');
+  const [identifier, setIdentifier] = useState('');
+  const [challenge, setChallenge] = useState<OtpChallengeInfo | null>(null);
+  const [resetToken, setResetToken] = useState(initialToken ?? '');
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [showPassword, setShowPassword] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const inputType = detectInputType(identifier.trim());
+  const passwordPolicy = usePasswordPolicy();
+
+  const goTo = (next: ResetStep) => {
+    setError(null);
+    setStep(next);
+  };
+
+  const sendCode = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setChallenge(await authAPI.requestPasswordReset(identifier.trim()));
+      goTo('verify');
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to send a reset code'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRequest = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (inputType === 'unknown') {
+      setError('Please enter a valid email or phone number');
+      return;
+    }
+    sendCode();
+  };
+
+  const handleVerify = async (code: string) => {
+    if (!challenge) return;
+
+    setLoading(true);
+    setError(null);
+    try {
+      const { resetToken: token } = await authAPI.verifyPasswordResetCode(challenge.challengeId, code);
+      setResetToken(token);
+      goTo('reset');
+    } catch (err) {
+      setError(errorMessage(err, 'Verification failed'));
+      const attemptsRemaining = err instanceof ApiError ? err.details?.attemptsRemaining : undefined;
+      if (typeof attemptsRemaining === 'number') {
+        setChallenge(prev => prev && { ...prev, attemptsRemaining });
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleReset = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const policyError = passwordPolicyError(passwordPolicy, password);
+    if (policyError) {
+      setError(policyError);
+      return;
+    }
+    if (password !== confirmPassword) {
+      setError("Passwords don't match");
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    try {
+      await authAPI.resetPassword(resetToken, password);
+      goTo('done');
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to reset your password'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleBack = () => {
+    if (step === 'verify') {
+      goTo('request');
+    } else {
+      onBackToLogin();
+    }
+  };
+
+  return (
+    <AuthLayout
+      title={STEP_COPY[step].title}
+      subtitle={
+        step === 'verify' && challenge
+          ? `Enter the ${describeCode(challenge.codeLength, challenge.codeFormat)} we sent to ${challenge.destination}.`
+          : STEP_COPY[step].subtitle
+      }
+      showBackButton={step !== 'done'}
+      onBack={handleBack}
+    >
+      {error && (
+        <Alert variant="destructive" className="mb-6">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <AnimatePresence mode="wait">
+        {step === 'request' && (
+          <motion.form key="request" {...stepMotion} onSubmit={handleRequest} className="space-y-4">
+            <div className="relative">
+              <Input
+                type="text"
+                placeholder="Email or Phone Number"
+                value={identifier}
+                onChange={(e) => setIdentifier(e.target.value)}
+                className="pl-10"
+                autoFocus
+                disabled={loading}
+              />
+              <div className="absolute left-3 top-1/2 -translate-y-1/2">
+                {inputType === 'email' ? (
+                  <Mail className="w-4 h-4 text-muted-foreground" />
+                ) : (
+                  <Phone className="w-4 h-4 text-muted-foreground" />
+                )}
+              </div>
+            </div>
+            <Button type="submit" className="w-full h-12" disabled={loading || !identifier.trim()}>
+              {loading ? (
+                <>
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  Sending...
+                </>
+              ) : (
+                'Send reset code'
+              )}
+            </Button>
+          </motion.form>
+        )}
+
+        {step === 'verify' && challenge && (
+          <motion.div key="verify" {...stepMotion}>
+            <OtpVerification
+              onVerify={handleVerify}
+              onResend={sendCode}
+              length={challenge.codeLength}
+              format={challenge.codeFormat}
+              channel={challenge.channel}
+              expiresAt={challenge.expiresAt}
+              resendAvailableAt={challenge.resendAvailableAt}
+              attemptsRemaining={challenge.attemptsRemaining}
+              loading={loading}
+              submitLabel="Verify code"
+              className="space-y-4"
+            >
+              {challenge.channel === 'email' && (
+                <p className="text-sm text-muted-foreground">
+                  The email also contains a reset link you can open instead.
+                </p>
+              )}
+            </OtpVerification>
+          </motion.div>
+        )}
+
+        {step === 'reset' && (
+          <motion.form key="reset" {...stepMotion} onSubmit={handleReset} className="space-y-4">
+            <div className="space-y-2">
+              <div className="relative">
+                <Input
+                  type={showPassword ? 'text' : 'password'}
+                  placeholder="New password"
+                  autoComplete="new-password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  className="pl-10 pr-10"
+                  autoFocus
+                  disabled={loading}
+                />
+                <Lock className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                <button
+                  type="button"
+                  onClick={() => setShowPassword(!showPassword)}
+                  className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-foreground"
+                >
+                  {showPassword ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+                </button>
+              </div>
+
+              {password && <PasswordRequirements policy={passwordPolicy} password={password} />}
+            </div>
+
+            <div className="relative">
+              <Input
+                type={showPassword ? 'text' : 'password'}
+                placeholder="Confirm new password"
+                autoComplete="new-password"
+                value={confirmPassword}
+                onChange={(e) => setConfirmPassword(e.target.value)}
+                className="pl-10"
+                disabled={loading}
+              />
+              <Lock className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+            </div>
+
+            <Button type="submit" className="w-full h-12" disabled={loading || !password || !confirmPassword}>
+              {loading ? (
+                <>
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  Updating...
+                </>
+              ) : (
+                'Reset password'
+              )}
+            </Button>
+          </motion.form>
+        )}
+
+        {step === 'done' && (
+          <motion.div key="done" {...stepMotion} className="space-y-6 text-center">
+            <div className="mx-auto w-16 h-16 rounded-full bg-green-100 flex items-center justify-center">
+              <CheckCircle className="w-8 h-8 text-green-600" />
+            </div>
+            <p className="text-gray-600">
+              For your security we've signed you out on every device. Sign in again with your new password.
+            </p>
+            <Button className="w-full h-12" onClick={onBackToLogin}>
+              Back to sign in
+            </Button>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </AuthLayout>
+  );
+};
@@ -7,7 +7,12 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { CountryPicker } from '@/components/auth/country-picker';
+import { PasswordRequirements } from '@/components/auth/password-requirements';
+import { passwordPolicyError } from '@/lib/auth/password-policy';
+import { DEFAULT_REGION, formatPhoneNumber, parsePhoneNumber, toE164 } from '@/lib/auth/phone';
+import { detectInputType, isValidEmail, isValidPhone } from '@/lib/auth/validation';
+import { usePasswordPolicy } from '@/hooks/use-password-policy';
 
 interface AuthScreenProps {
   onLogin: (credentials: { emailOrPhone: string; password: string; rememberMe: boolean }) => Promise<void>;
@@ -26,57 +31,6 @@ interface FormErrors {
   [key: string]: string;
 }
 
-const countryCodes = [
-  { code: '+1', country: 'US' },
-  { code: '+44', country: 'UK' },
-  { code: '+91', country: 'IN' },
-  { code: '+86', country: 'CN' },
-  { code: '+81', country: 'JP' },
-];
-
-const getPasswordStrength = (password: string) => {
-  let strength = 0;
-  if (password.length >= 8) strength++;
-  if (/[A-Z]/.test(password)) strength++;
-  if (/[a-z]/.test(password)) strength++;
-  if (/[0-9]/.test(password)) strength++;
-  if (/[^A-Za-z0-9]/.test(password)) strength++;
-  return strength;
-};
-
-const getPasswordStrengthLabel = (strength: number) => {
-  switch (strength) {
-    case 0:
-    case 1:
-      return { label: 'Weak', color: 'bg-red-500' };
-    case 2:
-      return { label: 'Fair', color: 'bg-orange-500' };
-    case 3:
-      return { label: 'Good', color: 'bg-yellow-500' };
-    case 4:
-    case 5:
-      return { label: 'Strong', color: 'bg-green-500' };
-    default:
-      return { label: 'Weak', color: 'bg-red-500' };
-  }
-};
-
-const isValidEmail = (email: string) => {
-  const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-  return emailRegex.test(email);
-};
-
-const isValidPhone = (phone: string) => {
-  const phoneRegex = /^\+?[\d\s-()]{10,}$/;
-  return phoneRegex.test(phone);
-};
-
-const detectInputType = (value: string) => {
-  if (isValidEmail(value)) return 'email';
-  if (isValidPhone(value)) return 'phone';
-  return 'unknown';
-};
-
 export const AuthScreen: React.FC<AuthScreenProps> = ({
   onLogin,
   onSignup,
@@ -101,12 +55,13 @@ export const AuthScreen: React.FC<AuthScreenProps> = ({
   const [signupForm, setSignupForm] = useState({
     fullName: '',
     email: '',
-    countryCode: '+1',
+    region: DEFAULT_REGION,
     phoneNumber: '',
     password: '',
     confirmPassword: '',
     agreeToTerms: false
   });
+  const passwordPolicy = usePasswordPolicy();
 
   const validateLoginForm = () => {
     const newErrors: FormErrors = {};
@@ -142,14 +97,15 @@ export const AuthScreen: React.FC<AuthScreenProps> = ({
 
     if (!signupForm.phoneNumber.trim()) {
       newErrors.phoneNumber = 'Phone number is required';
-    } else if (!isValidPhone(signupForm.phoneNumber)) {
-      newErrors.phoneNumber = 'Please enter a valid phone number';
+    } else if (!isValidPhone(signupForm.phoneNumber, signupForm.region)) {
+      newErrors.phoneNumber = 'Please enter a valid phone number for the selected country';
     }
 
     if (!signupForm.password) {
       newErrors.password = 'Password is required';
-    } else if (signupForm.password.length < 8) {
-      newErrors.password = 'Password must be at least 8 characters';
+    } else {
+      const policyError = passwordPolicyError(passwordPolicy, signupForm.password);
+      if (policyError) newErrors.password = policyError;
     }
 
     if (!signupForm.confirmPassword) {
@@ -188,7 +144,7 @@ export const AuthScreen: React.FC<AuthScreenProps> = ({
     try {
       await onSignup({
         ...signupForm,
-        phoneNumber: `${signupForm.countryCode}${signupForm.phoneNumber}`
+        phoneNumber: toE164(signupForm.phoneNumber, signupForm.region) ?? signupForm.phoneNumber
       });
     } catch (error) {
       setErrors({ general: 'Signup failed. Please try again.' });
@@ -210,8 +166,17 @@ export const AuthScreen: React.FC<AuthScreenProps> = ({
     }
   };
 
-  const passwordStrength = getPasswordStrength(signupForm.password);
-  const strengthInfo = getPasswordStrengthLabel(passwordStrength);
+  // Tidy a valid number into its region's usual grouping once typing stops;
+  // a pasted `+44…` number also moves the picker to that region
+  const handlePhoneBlur = () => {
+    const parsed = parsePhoneNumber(signupForm.phoneNumber, signupForm.region);
+    if (!parsed?.valid) return;
+    setSignupForm(prev => ({
+      ...prev,
+      region: parsed.region.code,
+      phoneNumber: formatPhoneNumber(parsed.e164, 'national')
+    }));
+  };
 
   return (
     <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 via-white to-indigo-50 p-4">
@@ -474,27 +439,17 @@ export const AuthScreen: React.FC<AuthScreenProps> = ({
                   {/* Phone Number */}
                   <div className="space-y-2">
                     <div className="flex gap-2">
-                      <Select
-                        value={signupForm.countryCode}
-                        onValueChange={(value) => handleInputChange('countryCode', value)}
-                      >
-                        <SelectTrigger className="w-20">
-                          <SelectValue />
-                        </SelectTrigger>
-                        <SelectContent>
-                          {countryCodes.map((country) => (
-                            <SelectItem key={country.code} value={country.code}>
-                              {country.code}
-                            </SelectItem>
-                          ))}
-                        </SelectContent>
-                      </Select>
+                      <CountryPicker
+                        value={signupForm.region}
+                        onChange={(region) => handleInputChange('region', region)}
+                      />
                       <div className="relative flex-1">
                         <Input
                           type="tel"
                           placeholder="Phone Number"
                           value={signupForm.phoneNumber}
                           onChange={(e) => handleInputChange('phoneNumber', e.target.value)}
+                          onBlur={handlePhoneBlur}
                           className={`pl-10 ${errors.phoneNumber ? 'border-destructive' : ''}`}
                         />
                         <Phone className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
@@ -532,23 +487,8 @@ export const AuthScreen: React.FC<AuthScreenProps> = ({
                       </button>
                     </div>
                     
-                    {/* Password Strength Indicator */}
                     {signupForm.password && (
-                      <div className="space-y-2">
-                        <div className="flex gap-1">
-                          {[1, 2, 3, 4, 5].map((level) => (
-                            <div
-                              key={level}
-                              className={`h-1 flex-1 rounded-full transition-colors ${
-                                level <= passwordStrength ? strengthInfo.color : 'bg-gray-200'
-                              }`}
-                            />
-                          ))}
-                        </div>
-                        <p className="text-xs text-muted-foreground">
-                          Password strength: <span className="font-medium">{strengthInfo.label}</span>
-                        </p>
-                      </div>
+                      <PasswordRequirements policy={passwordPolicy} password={signupForm.password} />
                     )}
 
                     {errors.password && (
@@ -1,217 +1,282 @@
-"use client"
+"use client";
 
-import { useState, useRef, useEffect } from 'react'
-import { ArrowLeft, Clock } from 'lucide-react'
-import { Button } from '@/components/ui/button'
-import { Card, CardContent, CardHeader } from '@/components/ui/card'
-import { Input } from '@/components/ui/input'
+import React, { useCallback, useEffect, useState } from 'react';
+import { REGEXP_ONLY_DIGITS, REGEXP_ONLY_DIGITS_AND_CHARS } from 'input-otp';
+import { Clock, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { InputOTP, InputOTPGroup, InputOTPSlot } from '@/components/ui/input-otp';
+import { formatCountdown, useCountdown } from '@/hooks/use-countdown';
+import { useResendCooldown } from '@/hooks/use-resend-cooldown';
+import { useWebOtp } from '@/hooks/use-web-otp';
+import type { OtpChannel, OtpCodeFormat, VerificationMethod } from '@/lib/auth/types';
+import { cn } from '@/lib/utils';
+
+// The one code entry used by every verification step: sign-in, sign-up,
+// account unlock, password reset and contact changes.
+
+const MIN_LENGTH = 4;
+const MAX_LENGTH = 8;
+
+const clampLength = (length: number) => Math.min(MAX_LENGTH, Math.max(MIN_LENGTH, Math.round(length)));
+
+/** "6-digit code" or "8-character code", for headings that describe the field. */
+export const describeCode = (length = 6, format: OtpCodeFormat = 'numeric') =>
+  `${clampLength(length)}-${format === 'numeric' ? 'digit' : 'character'} code`;
+
+const SWITCH_LABELS: Record<OtpChannel, string> = {
+  sms: 'Text me a code instead',
+  voice: 'Call me with a code instead',
+  email: 'Email me a code instead'
+};
+
+interface OtpInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  /** Called once every slot is filled. */
+  onComplete?: (value: string) => void;
+  length?: number;
+  format?: OtpCodeFormat;
+  disabled?: boolean;
+  invalid?: boolean;
+  autoFocus?: boolean;
+  className?: string;
+}
+
+/**
+ * Slotted code field. Pasting works from any slot and ignores spaces and
+ * dashes, and `autocomplete="one-time-code"` lets the platform suggest codes
+ * from incoming messages.
+ */
+export const OtpInput: React.FC<OtpInputProps> = ({
+  value,
+  onChange,
+  onComplete,
+  length = 6,
+  format = 'numeric',
+  disabled,
+  invalid,
+  autoFocus,
+  className
+}) => {
+  const slots = clampLength(length);
+  const numeric = format === 'numeric';
+  const normalize = (raw: string) => {
+    const cleaned = raw.replace(/[\s-]/g, '');
+    return (numeric ? cleaned : cleaned.toUpperCase()).slice(0, slots);
+  };
+
+  return (
+    <InputOTP
+      maxLength={slots}
+      value={value}
+      onChange={next => onChange(normalize(next))}
+      onComplete={onComplete}
+      pattern={numeric ? REGEXP_ONLY_DIGITS : REGEXP_ONLY_DIGITS_AND_CHARS}
+      pasteTransformer={normalize}
+      inputMode={numeric ? 'numeric' : 'text'}
+      autoComplete="one-time-code"
+      autoFocus={autoFocus}
+      disabled={disabled}
+      aria-label="Verification code"
+      containerClassName={cn('justify-center', className)}
+    >
+      <InputOTPGroup>
+        {Array.from({ length: slots }, (_, index) => (
+          <InputOTPSlot
+            key={index}
+            index={index}
+            aria-invalid={invalid || undefined}
+            className={cn('h-12 w-10 text-lg font-semibold', !numeric && 'uppercase')}
+          />
+        ))}
+      </InputOTPGroup>
+    </InputOTP>
+  );
+};
 
 interface OtpVerificationProps {
-  phoneNumber: string
-  onBack?: () => void
-  onVerify: (otp: string) => Promise<void>
-  onResend: () => Promise<void>
-  resendCooldown?: number
+  onVerify: (code: string) => void | Promise<void>;
+  /** Sends a new code, on another channel when one is given. */
+  onResend?: (channel?: OtpChannel) => void | Promise<void>;
+  length?: number;
+  format?: OtpCodeFormat;
+  /** How the current code reached the user. */
+  channel?: VerificationMethod;
+  /** Every method the user could switch to; delivered ones get a switch button. */
+  channels?: VerificationMethod[];
+  expiresAt?: string | Date;
+  resendAvailableAt?: string | Date;
+  attemptsRemaining?: number;
+  loading?: boolean;
+  resending?: boolean;
+  /** Blocks submitting without clearing the field, e.g. while throttled. */
+  blocked?: boolean;
+  submitLabel?: React.ReactNode;
+  /** Submits as soon as the last slot is filled. */
+  autoSubmit?: boolean;
+  /** Extra fields between the code and the submit button. */
+  children?: React.ReactNode;
+  className?: string;
 }
 
-export default function OtpVerification({
-  phoneNumber,
-  onBack,
+/**
+ * Code field with its expiry, remaining attempts, submit button, resend
+ * cooldown and channel switching. WebOTP fills the code in on browsers that
+ * support it when it arrives by SMS.
+ */
+export const OtpVerification: React.FC<OtpVerificationProps> = ({
   onVerify,
   onResend,
-  resendCooldown = 30
-}: OtpVerificationProps) {
-  const [otp, setOtp] = useState(['', '', '', '', '', ''])
-  const [isLoading, setIsLoading] = useState(false)
-  const [error, setError] = useState('')
-  const [timeRemaining, setTimeRemaining] = useState(resendCooldown)
-  const [canResend, setCanResend] = useState(false)
-  const inputRefs = useRef<(HTMLInputElement | null)[]>([])
+  length = 6,
+  format = 'numeric',
+  channel = 'email',
+  channels = [],
+  expiresAt,
+  resendAvailableAt,
+  attemptsRemaining,
+  loading = false,
+  resending = false,
+  blocked = false,
+  submitLabel = 'Verify Code',
+  autoSubmit = true,
+  children,
+  className
+}) => {
+  const [code, setCode] = useState('');
+  const slots = clampLength(length);
+  const expiresTarget = expiresAt ? new Date(expiresAt) : null;
+  const expiresIn = useCountdown(expiresTarget);
+  const { secondsLeft: resendIn, canResend, restart } = useResendCooldown(resendAvailableAt);
+
+  const usingAuthenticator = channel === 'totp';
+  const expired = !!expiresTarget && expiresIn === 0;
+  const locked = attemptsRemaining === 0;
+  const codeReady = code.length === slots;
+  const canSubmit = codeReady && !loading && !locked && !expired && !blocked;
+  // Authenticator codes can't be resent, but the delivered channels can take over
+  const switchChannels = channels.filter(
+    (item): item is OtpChannel => item !== 'totp' && item !== channel
+  );
 
+  // A wrong guess or a fresh code starts the field over
   useEffect(() => {
-    const timer = setInterval(() => {
-      setTimeRemaining((prev) => {
-        if (prev <= 1) {
-          setCanResend(true)
-          return 0
-        }
-        return prev - 1
-      })
-    }, 1000)
-
-    return () => clearInterval(timer)
-  }, [])
-
-  const handleInputChange = async (index: number, value: string) => {
-    if (value.length > 1) return
-
-    const newOtp = [...otp]
-    newOtp[index] = value
-    setOtp(newOtp)
-    setError('')
-
-    // Auto-focus next input
-    if (value && index < 5) {
-      inputRefs.current[index + 1]?.focus()
-    }
-
-    // Auto-submit when all fields are filled
-    if (newOtp.every(digit => digit !== '') && value !== '') {
-      await handleVerify(newOtp.join(''))
-    }
-  }
-
-  const handleKeyDown = (index: number, e: React.KeyboardEvent) => {
-    if (e.key === 'Backspace' && !otp[index] && index > 0) {
-      inputRefs.current[index - 1]?.focus()
-    }
-  }
-
-  const handleVerify = async (otpCode?: string) => {
-    const code = otpCode || otp.join('')
-    if (code.length !== 6) {
-      setError('Please enter all 6 digits')
-      return
-    }
-
-    setIsLoading(true)
-    setError('')
-
-    try {
-      await onVerify(code)
-    } catch (err) {
-      setError('Invalid OTP. Please try again.')
-      setOtp(['', '', '', '', '', ''])
-      inputRefs.current[0]?.focus()
-    } finally {
-      setIsLoading(false)
-    }
-  }
-
-  const handleResend = async () => {
-    if (!canResend) return
-
-    try {
-      await onResend()
-      setTimeRemaining(resendCooldown)
-      setCanResend(false)
-      setOtp(['', '', '', '', '', ''])
-      setError('')
-      inputRefs.current[0]?.focus()
-    } catch (err) {
-      setError('Failed to resend OTP. Please try again.')
-    }
-  }
-
-  const formatTime = (seconds: number) => {
-    const mins = Math.floor(seconds / 60)
-    const secs = seconds % 60
-    return `${mins}:${secs.toString().padStart(2, '0')}`
-  }
-
-  const maskPhoneNumber = (phone: string) => {
-    const cleaned = phone.replace(/\D/g, '')
-    if (cleaned.length >= 10) {
-      return `+${cleaned.slice(0, -10)}${'*'.repeat(6)}${cleaned.slice(-4)}`
-    }
-    return phone
-  }
+    setCode('');
+  }, [attemptsRemaining, expiresTarget?.getTime()]);
+
+  const submit = useCallback(
+    (value: string) => {
+      if (value.length !== slots || loading || locked || expired || blocked) return;
+      void onVerify(value);
+    },
+    [slots, loading, locked, expired, blocked, onVerify]
+  );
+
+  useWebOtp(
+    useCallback(
+      (received: string) => {
+        setCode(received.slice(0, slots));
+        if (autoSubmit) submit(received);
+      },
+      [slots, autoSubmit, submit]
+    ),
+    channel === 'sms' && !locked
+  );
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    submit(code);
+  };
+
+  const handleResend = async (target?: OtpChannel) => {
+    if (!onResend) return;
+    setCode('');
+    restart();
+    await onResend(target);
+  };
 
   return (
-    <div className="min-h-screen bg-background flex items-center justify-center p-4">
-      <Card className="w-full max-w-md bg-surface">
-        <CardHeader className="space-y-0 pb-6">
-          <div className="flex items-center justify-between mb-6">
-            {onBack && (
-              <Button
-                variant="ghost"
-                size="sm"
-                onClick={onBack}
-                className="p-2 h-auto"
-                disabled={isLoading}
-              >
-                <ArrowLeft className="h-5 w-5" />
-              </Button>
-            )}
-            <div className="flex items-center space-x-2 ml-auto">
-              <div className="w-2 h-2 bg-muted rounded-full" />
-              <div className="w-2 h-2 bg-primary rounded-full" />
-            </div>
-          </div>
-          
-          <div className="text-center space-y-2">
-            <h1 className="text-2xl font-semibold font-display text-foreground">
-              Verify Your Phone
-            </h1>
-            <p className="text-muted-foreground">
-              We've sent a 6-digit code to
-            </p>
-            <p className="font-medium text-foreground">
-              {maskPhoneNumber(phoneNumber)}
-            </p>
-          </div>
-        </CardHeader>
-
-        <CardContent className="space-y-6">
-          <div className="space-y-4">
-            <div className="flex justify-center space-x-3">
-              {otp.map((digit, index) => (
-                <Input
-                  key={index}
-                  ref={(el) => (inputRefs.current[index] = el)}
-                  type="text"
-                  inputMode="numeric"
-                  pattern="[0-9]*"
-                  maxLength={1}
-                  value={digit}
-                  onChange={(e) => handleInputChange(index, e.target.value)}
-                  onKeyDown={(e) => handleKeyDown(index, e)}
-                  className="w-12 h-12 text-center text-lg font-semibold border-2 focus:border-primary"
-                  disabled={isLoading}
-                  aria-label={`OTP digit ${index + 1}`}
-                />
-              ))}
-            </div>
-
-            {error && (
-              <div className="text-center">
-                <p className="text-sm text-error font-medium">{error}</p>
-              </div>
-            )}
-          </div>
-
-          <div className="space-y-4">
+    <form onSubmit={handleSubmit} className={cn('space-y-6', className)}>
+      <div className="space-y-3">
+        <OtpInput
+          value={code}
+          onChange={setCode}
+          onComplete={autoSubmit ? submit : undefined}
+          length={slots}
+          format={format}
+          disabled={loading || locked}
+          invalid={locked || expired}
+          autoFocus
+        />
+        <div className="flex items-center justify-between text-xs text-muted-foreground">
+          <span className="flex items-center gap-1">
+            <Clock className="h-3 w-3" />
+            {expired
+              ? 'This code has expired'
+              : usingAuthenticator
+                ? 'Codes refresh every 30 seconds'
+                : expiresTarget
+                  ? `Code expires in ${formatCountdown(expiresIn)}`
+                  : `Enter the ${describeCode(slots, format)}`}
+          </span>
+          {attemptsRemaining !== undefined && (
+            <span className={attemptsRemaining <= 2 ? 'text-red-600 font-medium' : undefined}>
+              {locked
+                ? 'No attempts left, request a new code'
+                : `${attemptsRemaining} ${attemptsRemaining === 1 ? 'attempt' : 'attempts'} left`}
+            </span>
+          )}
+        </div>
+      </div>
+
+      {children}
+
+      <Button type="submit" className="w-full h-12" disabled={!canSubmit}>
+        {loading ? (
+          <>
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            Verifying...
+          </>
+        ) : (
+          submitLabel
+        )}
+      </Button>
+
+      {onResend && (
+        <div className="flex flex-col items-center gap-1">
+          {!usingAuthenticator && (
             <Button
-              onClick={() => handleVerify()}
-              disabled={otp.some(digit => digit === '') || isLoading}
-              className="w-full h-12 font-medium"
+              type="button"
+              variant="ghost"
+              onClick={() => handleResend()}
+              disabled={!canResend || resending}
+              className="text-sm"
             >
-              {isLoading ? 'Verifying...' : 'Verify Code'}
-            </Button>
-
-            <div className="text-center space-y-2">
-              <p className="text-sm text-muted-foreground">
-                Didn't receive the code?
-              </p>
-              
-              {!canResend ? (
-                <div className="flex items-center justify-center space-x-2 text-sm text-muted-foreground">
-                  <Clock className="h-4 w-4" />
-                  <span>Resend in {formatTime(timeRemaining)}</span>
-                </div>
+              {resending ? (
+                <>
+                  <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                  Sending...
+                </>
+              ) : canResend ? (
+                'Resend code'
               ) : (
-                <Button
-                  variant="ghost"
-                  onClick={handleResend}
-                  className="text-primary hover:text-primary-light font-medium"
-                >
-                  Resend Code
-                </Button>
+                `Resend code in ${formatCountdown(resendIn)}`
               )}
-            </div>
-          </div>
-        </CardContent>
-      </Card>
-    </div>
-  )
-}
\ No newline at end of file
+            </Button>
+          )}
+          {switchChannels.map(item => (
+            <Button
+              key={item}
+              type="button"
+              variant="ghost"
+              onClick={() => handleResend(item)}
+              disabled={resending || (!usingAuthenticator && !canResend)}
+              className="text-sm text-muted-foreground"
+            >
+              {SWITCH_LABELS[item]}
+            </Button>
+          ))}
+        </div>
+      )}
+    </form>
+  );
+};
@@ -0,0 +1,34 @@
+"use client";
+
+import React from 'react';
+import { Check, X } from 'lucide-react';
+import { passwordRequirements } from '@/lib/auth/password-policy';
+import type { PasswordPolicy } from '@/lib/auth/types';
+import { cn } from '@/lib/utils';
+
+/**
+ * The policy's rules for a new password, each ticked off once `password`
+ * meets it. Used by every form that sets a password so they all read alike.
+ */
+export const PasswordRequirements: React.FC<{
+  policy: PasswordPolicy;
+  password: string;
+  className?: string;
+}> = ({ policy, password, className }) => (
+  <div className={cn('space-y-1 text-xs', className)} aria-live="polite">
+    <ul className="space-y-1">
+      {passwordRequirements(policy, password).map(rule => (
+        <li
+          key={rule.id}
+          className={cn('flex items-center gap-1.5', rule.met ? 'text-green-600' : 'text-muted-foreground')}
+        >
+          {rule.met ? <Check className="h-3 w-3" /> : <X className="h-3 w-3" />}
+          {rule.label}
+        </li>
+      ))}
+    </ul>
+    <p className="text-muted-foreground">
+      Common passwords, ones seen in data breaches and ones containing your name aren&apos;t accepted.
+    </p>
+  </div>
+);
@@ -0,0 +1,190 @@
+"use client"
+
+import { useState, useEffect } from 'react'
+import { usePathname, useRouter } from 'next/navigation'
+import { motion, AnimatePresence, type Variants } from 'framer-motion'
+import { Loader2, ShieldAlert } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { TopNavigation } from '@/components/navigation/horizontal-navigation'
+import AIChatbot from '@/components/chat/ai-chatbot'
+import { MagneticEffect } from '@/components/effects/magnetic-effect'
+import { useSmoothScroll } from '@/components/providers/smooth-scroll-provider'
+import { useSession } from '@/components/providers/session-provider'
+import { canAccessView } from '@/lib/auth/roles'
+import { viewForPath, viewRoutes } from '@/lib/routes'
+
+interface AppShellProps {
+  children: React.ReactNode
+}
+
+// Enhanced page transition variants with Lenis-inspired smoothness
+const pageVariants: Variants = {
+  initial: { 
+    opacity: 0, 
+    y: 60,
+    scale: 0.95,
+    filter: "blur(10px)"
+  },
+  animate: { 
+    opacity: 1, 
+    y: 0,
+    scale: 1,
+    filter: "blur(0px)",
+    transition: {
+      duration: 0.8,
+      ease: [0.25, 0.46, 0.45, 0.94]
+    }
+  },
+  exit: { 
+    opacity: 0, 
+    y: -60,
+    scale: 1.05,
+    filter: "blur(10px)",
+    transition: {
+      duration: 0.6,
+      ease: [0.25, 0.46, 0.45, 0.94]
+    }
+  }
+}
+
+export default function AppShell({ children }: AppShellProps) {
+  const router = useRouter()
+  const pathname = usePathname()
+  const { user, status, logout } = useSession()
+  const [isDarkMode, setIsDarkMode] = useState(false)
+  const [isChatMinimized, setIsChatMinimized] = useState(true)
+  const [isLoading, setIsLoading] = useState(false)
+  const activeView = viewForPath(pathname)
+
+  // Enhanced smooth scroll integration
+  const { scrollTo, isInitialized } = useSmoothScroll()
+
+  // Apply dark mode to document with smooth transition
+  useEffect(() => {
+    document.documentElement.classList.toggle('dark', isDarkMode)
+    document.documentElement.style.colorScheme = isDarkMode ? 'dark' : 'light'
+  }, [isDarkMode])
+
+  // The route change has landed; drop the progress bar
+  useEffect(() => {
+    setIsLoading(false)
+  }, [pathname])
+
+  const handleNavigation = (viewId: string) => {
+    const route = viewRoutes[viewId] ?? '/'
+    if (route === pathname) return
+
+    setIsLoading(true)
+
+    // Smooth scroll to top on navigation
+    if (isInitialized && scrollTo) {
+      scrollTo(0, { duration: 0.6 })
+    }
+
+    router.push(route)
+  }
+
+  const handleToggleTheme = () => {
+    setIsDarkMode(!isDarkMode)
+  }
+
+  const handleToggleChat = () => {
+    setIsChatMinimized(!isChatMinimized)
+  }
+
+  if (status !== 'authenticated' || !user) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    )
+  }
+
+  return (
+    <div className={`min-h-screen ${isDarkMode ? 'dark' : ''} bg-gradient-to-br from-background via-background to-accent/5 relative overflow-x-hidden`}>
+      {/* Enhanced Navigation with Magnetic Effects */}
+      <MagneticEffect
+        config={{ 
+          strength: 0.15, 
+          range: 100,
+          behavior: 'attract' 
+        }}
+        className="relative z-50"
+      >
+        <TopNavigation
+          activeItem={activeView}
+          onNavigate={handleNavigation}
+          user={{
+            name: `${user.firstName} ${user.lastName}`,
+            email: user.email,
+            avatar: user.avatar,
+            role: user.role
+          }}
+          isDarkMode={isDarkMode}
+          onToggleTheme={handleToggleTheme}
+          onLogout={logout}
+          isLoading={isLoading}
+        />
+      </MagneticEffect>
+      
+      {/* Main content with enhanced animations */}
+      <main className="pt-20 relative z-10">
+        <AnimatePresence mode="wait">
+          <motion.div
+            key={pathname}
+            variants={pageVariants}
+            initial="initial"
+            animate="animate"
+            exit="exit"
+            className="min-h-screen"
+          >
+            {/* The API enforces roles too; this just avoids a page full of errors */}
+            {canAccessView(user.role, activeView) ? children : (
+              <div className="flex flex-col items-center justify-center gap-4 py-32 text-center">
+                <ShieldAlert className="h-10 w-10 text-muted-foreground" />
+                <div>
+                  <h2 className="text-xl font-semibold">You don&apos;t have access to this page</h2>
+                  <p className="text-muted-foreground">Ask an administrator if you think you should.</p>
+                </div>
+                <Button variant="outline" onClick={() => handleNavigation('dashboard')}>
+                  Back to dashboard
+                </Button>
+              </div>
+            )}
+          </motion.div>
+        </AnimatePresence>
+      </main>
+      
+      {/* Enhanced Floating AI Chat Widget */}
+      {activeView !== 'ai-chat' && (
+        <MagneticEffect
+          config={{ 
+            strength: 0.3, 
+            range: 150,
+            behavior: 'attract',
+            damping: 15,
+            stiffness: 200
+          }}
+        >
+          <motion.div
+            initial={{ scale: 0, opacity: 0, rotate: -180 }}
+            animate={{ scale: 1, opacity: 1, rotate: 0 }}
+            transition={{ 
+              delay: 2, 
+              duration: 0.6,
+              type: "spring",
+              stiffness: 200,
+              damping: 20
+            }}
+          >
+            <AIChatbot
+              mode="widget"
+              isMinimized={isChatMinimized}
+              onToggleMinimize={handleToggleChat}
+            />
+          </motion.div>
+        </MagneticEffect>
+      )}
+    </div>
+  )
+}
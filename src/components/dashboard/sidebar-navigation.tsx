@@ -22,8 +22,14 @@ import {
   Moon,
   ChevronLeft,
   ChevronRight,
+  ClipboardCheck,
+  UserCheck,
+  Users,
+  ShieldAlert,
 } from "lucide-react"
 import { motion, AnimatePresence } from "motion/react"
+import { canAccessView, ROLE_LABELS } from "@/lib/auth/roles"
+import type { Role } from "@/lib/auth/types"
 
 interface NavigationItem {
   id: string
@@ -45,6 +51,7 @@ interface SidebarNavigationProps {
     name: string
     email: string
     avatar?: string
+    role: Role
   }
 }
 
@@ -82,6 +89,30 @@ const navigationItems: NavigationItem[] = [
     icon: Calendar,
     href: "/attendance",
   },
+  {
+    id: "grading",
+    label: "Grading",
+    icon: ClipboardCheck,
+    href: "/grading",
+  },
+  {
+    id: "take-attendance",
+    label: "Take Attendance",
+    icon: UserCheck,
+    href: "/attendance/take",
+  },
+  {
+    id: "users",
+    label: "Users",
+    icon: Users,
+    href: "/admin/users",
+  },
+  {
+    id: "security-log",
+    label: "Security Log",
+    icon: ShieldAlert,
+    href: "/admin/security",
+  },
   {
     id: "ai-chat",
     label: "AI Chat",
@@ -107,9 +138,11 @@ export default function SidebarNavigation({
   user = {
     name: "John Doe",
     email: "john.doe@college.edu",
+    role: "student",
   },
 }: SidebarNavigationProps) {
   const [isMobileOpen, setIsMobileOpen] = React.useState(false)
+  const visibleItems = navigationItems.filter((item) => canAccessView(user.role, item.id))
 
   const handleNavigate = (id: string) => {
     onNavigate?.(id)
@@ -148,7 +181,7 @@ export default function SidebarNavigation({
 
       {/* Navigation Menu */}
       <nav className="flex-1 space-y-1 p-2">
-        {navigationItems.map((item) => {
+        {visibleItems.map((item) => {
           const Icon = item.icon
           const isActive = activeItem === item.id
           
@@ -273,6 +306,9 @@ export default function SidebarNavigation({
                 <p className="truncate text-xs text-muted-foreground">
                   {user.email}
                 </p>
+                <p className="truncate text-xs text-muted-foreground">
+                  {ROLE_LABELS[user.role]}
+                </p>
               </motion.div>
             )}
           </AnimatePresence>
@@ -0,0 +1,192 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { motion } from "motion/react"
+import { toast } from "sonner"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { gradesAPI } from "@/lib/coursework/client"
+import type { Gradebook, RosterStudent } from "@/lib/coursework/types"
+import { ClipboardCheck, Loader2 } from "lucide-react"
+
+interface Draft {
+  score: string
+  feedback: string
+}
+
+const percentage = (score: number, maxScore: number) => Math.round((score / maxScore) * 100)
+
+export default function GradingBoard() {
+  const [gradebook, setGradebook] = useState<Gradebook | null>(null)
+  const [assignment, setAssignment] = useState("")
+  const [maxScore, setMaxScore] = useState("100")
+  const [drafts, setDrafts] = useState<Record<string, Draft>>({})
+  const [savingId, setSavingId] = useState<string | null>(null)
+
+  useEffect(() => {
+    gradesAPI
+      .getGradebook()
+      .then(setGradebook)
+      .catch((error) => toast.error(error instanceof Error ? error.message : "Failed to load the gradebook"))
+  }, [])
+
+  const gradeFor = (studentId: string) =>
+    gradebook?.grades.find((grade) => grade.studentId === studentId && grade.assignment === assignment.trim())
+
+  // Switching assignment starts from whatever has already been graded; saving
+  // a row leaves the other rows' unsaved drafts alone
+  const loaded = gradebook !== null
+  useEffect(() => {
+    if (!gradebook) return
+    const name = assignment.trim()
+    const graded = gradebook.grades.filter((grade) => grade.assignment === name)
+    setDrafts(
+      Object.fromEntries(
+        graded.map((grade) => [grade.studentId, { score: String(grade.score), feedback: grade.feedback ?? "" }])
+      )
+    )
+    if (graded[0]) setMaxScore(String(graded[0].maxScore))
+  }, [assignment, loaded])
+
+  const updateDraft = (studentId: string, patch: Partial<Draft>) => {
+    setDrafts((prev) => ({ ...prev, [studentId]: { ...(prev[studentId] ?? { score: "", feedback: "" }), ...patch } }))
+  }
+
+  const handleSave = async (student: RosterStudent) => {
+    const draft = drafts[student.id]
+    if (!draft?.score) return
+
+    setSavingId(student.id)
+    try {
+      setGradebook(
+        await gradesAPI.saveGrade({
+          studentId: student.id,
+          assignment: assignment.trim(),
+          score: Number(draft.score),
+          maxScore: Number(maxScore),
+          feedback: draft.feedback || undefined,
+        })
+      )
+      toast.success(`Saved grade for ${student.firstName} ${student.lastName}`)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to save the grade")
+    } finally {
+      setSavingId(null)
+    }
+  }
+
+  if (!gradebook) {
+    return (
+      <div className="flex justify-center py-24">
+        <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+      </div>
+    )
+  }
+
+  const ready = assignment.trim() !== "" && Number(maxScore) > 0
+
+  return (
+    <div className="space-y-6 bg-surface p-6 rounded-lg">
+      <div>
+        <h1 className="text-2xl font-display font-semibold text-foreground">Grading</h1>
+        <p className="text-muted-foreground">Score submissions and leave feedback for your students</p>
+      </div>
+
+      <Card className="bg-background border-border">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-foreground">
+            <ClipboardCheck className="w-5 h-5" />
+            Gradebook
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            <div className="space-y-2 sm:col-span-2">
+              <Label htmlFor="grading-assignment">Assignment</Label>
+              <Input
+                id="grading-assignment"
+                list="grading-assignments"
+                value={assignment}
+                onChange={(e) => setAssignment(e.target.value)}
+                placeholder="Pick an assignment or type a new one"
+              />
+              <datalist id="grading-assignments">
+                {gradebook.assignments.map((item) => (
+                  <option key={item} value={item} />
+                ))}
+              </datalist>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="grading-max-score">Out of</Label>
+              <Input
+                id="grading-max-score"
+                type="number"
+                min={1}
+                value={maxScore}
+                onChange={(e) => setMaxScore(e.target.value)}
+              />
+            </div>
+          </div>
+
+          {gradebook.students.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No students have signed up yet.</p>
+          ) : !ready ? (
+            <p className="text-sm text-muted-foreground">Choose an assignment to start grading.</p>
+          ) : (
+            <div className="divide-y divide-border rounded-lg border border-border">
+              {gradebook.students.map((student, index) => {
+                const saved = gradeFor(student.id)
+                const draft = drafts[student.id] ?? { score: "", feedback: "" }
+                return (
+                  <motion.div
+                    key={student.id}
+                    initial={{ opacity: 0, y: 10 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    transition={{ delay: Math.min(index, 10) * 0.03 }}
+                    className="grid grid-cols-1 lg:grid-cols-[1fr_8rem_2fr_auto] items-center gap-3 p-3"
+                  >
+                    <div className="min-w-0">
+                      <p className="font-medium text-foreground truncate flex items-center gap-2">
+                        {student.firstName} {student.lastName}
+                        {saved && (
+                          <Badge variant="secondary">{percentage(saved.score, saved.maxScore)}%</Badge>
+                        )}
+                      </p>
+                      <p className="text-sm text-muted-foreground truncate">{student.email}</p>
+                    </div>
+                    <Input
+                      type="number"
+                      min={0}
+                      max={Number(maxScore)}
+                      step="any"
+                      value={draft.score}
+                      onChange={(e) => updateDraft(student.id, { score: e.target.value })}
+                      placeholder="Score"
+                      aria-label={`Score for ${student.firstName} ${student.lastName}`}
+                    />
+                    <Input
+                      value={draft.feedback}
+                      onChange={(e) => updateDraft(student.id, { feedback: e.target.value })}
+                      placeholder="Feedback (optional)"
+                      aria-label={`Feedback for ${student.firstName} ${student.lastName}`}
+                    />
+                    <Button
+                      size="sm"
+                      onClick={() => handleSave(student)}
+                      disabled={savingId !== null || draft.score === ""}
+                    >
+                      {savingId === student.id ? <Loader2 className="w-4 h-4 animate-spin" /> : saved ? "Update" : "Save"}
+                    </Button>
+                  </motion.div>
+                )
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -20,7 +20,11 @@ import {
   LogOut,
   Settings,
   Home,
-  Loader2
+  Loader2,
+  ClipboardCheck,
+  UserCheck,
+  Users,
+  ShieldAlert
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { 
@@ -34,6 +38,8 @@ import {
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Badge } from '@/components/ui/badge';
 import { Input } from '@/components/ui/input';
+import { canAccessView, ROLE_LABELS } from '@/lib/auth/roles';
+import type { Role } from '@/lib/auth/types';
 
 interface TopNavigationProps {
   activeItem: string;
@@ -42,9 +48,11 @@ interface TopNavigationProps {
     name: string; 
     email: string; 
     avatar?: string; 
+    role: Role;
   };
   isDarkMode: boolean;
   onToggleTheme: () => void;
+  onLogout?: () => void;
   isLoading?: boolean;
 }
 
@@ -54,6 +62,10 @@ const navigationItems = [
   { id: 'tasks', label: 'Tasks', icon: CheckSquare },
   { id: 'assignments', label: 'Assignments', icon: BookOpen },
   { id: 'attendance', label: 'Attendance', icon: Calendar },
+  { id: 'grading', label: 'Grading', icon: ClipboardCheck },
+  { id: 'take-attendance', label: 'Take Attendance', icon: UserCheck },
+  { id: 'users', label: 'Users', icon: Users },
+  { id: 'security-log', label: 'Security Log', icon: ShieldAlert },
   { id: 'ai-chat', label: 'AI Chat', icon: MessageCircle },
   { id: 'profile', label: 'Profile', icon: User },
 ];
@@ -64,6 +76,7 @@ export const TopNavigation: React.FC<TopNavigationProps> = ({
   user,
   isDarkMode,
   onToggleTheme,
+  onLogout,
   isLoading = false,
 }) => {
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
@@ -71,6 +84,7 @@ export const TopNavigation: React.FC<TopNavigationProps> = ({
   const [searchQuery, setSearchQuery] = useState('');
   const [showSearch, setShowSearch] = useState(false);
   const searchInputRef = useRef<HTMLInputElement>(null);
+  const visibleItems = navigationItems.filter(item => canAccessView(user.role, item.id));
 
   useEffect(() => {
     const handleScroll = () => {
@@ -155,7 +169,7 @@ export const TopNavigation: React.FC<TopNavigationProps> = ({
 
             {/* Desktop Navigation */}
             <div className="hidden lg:flex items-center space-x-1">
-              {navigationItems.map((item) => {
+              {visibleItems.map((item) => {
                 const Icon = item.icon;
                 const isActive = activeItem === item.id;
                 
@@ -292,6 +306,7 @@ export const TopNavigation: React.FC<TopNavigationProps> = ({
                     <div className="flex flex-col space-y-1">
                       <p className="text-sm font-medium">{user.name}</p>
                       <p className="text-xs text-muted-foreground">{user.email}</p>
+                      <Badge variant="secondary" className="w-fit">{ROLE_LABELS[user.role]}</Badge>
                     </div>
                   </DropdownMenuLabel>
                   <DropdownMenuSeparator />
@@ -304,7 +319,7 @@ export const TopNavigation: React.FC<TopNavigationProps> = ({
                     <span>Settings</span>
                   </DropdownMenuItem>
                   <DropdownMenuSeparator />
-                  <DropdownMenuItem className="text-destructive">
+                  <DropdownMenuItem className="text-destructive" onClick={onLogout}>
                     <LogOut className="mr-2 h-4 w-4" />
                     <span>Log out</span>
                   </DropdownMenuItem>
@@ -363,7 +378,7 @@ export const TopNavigation: React.FC<TopNavigationProps> = ({
 
                 {/* Mobile Navigation Items */}
                 <nav className="space-y-2">
-                  {navigationItems.map((item, index) => {
+                  {visibleItems.map((item, index) => {
                     const Icon = item.icon;
                     const isActive = activeItem === item.id;
                     
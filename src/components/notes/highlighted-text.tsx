@@ -0,0 +1,30 @@
+"use client"
+
+import type { TextRange } from '@/lib/notes/search'
+
+interface HighlightedTextProps {
+  text: string
+  /** In order and not overlapping, as search results give them. */
+  ranges: TextRange[]
+}
+
+const HighlightedText = ({ text, ranges }: HighlightedTextProps) => {
+  if (ranges.length === 0) return <>{text}</>
+
+  const parts = []
+  let position = 0
+  for (const { start, end } of ranges) {
+    if (start > position) parts.push(text.slice(position, start))
+    parts.push(
+      <mark key={start} className="rounded-sm bg-yellow-300/60 dark:bg-yellow-500/30 text-foreground">
+        {text.slice(start, end)}
+      </mark>
+    )
+    position = end
+  }
+  parts.push(text.slice(position))
+
+  return <>{parts}</>
+}
+
+export default HighlightedText
@@ -0,0 +1,268 @@
+"use client"
+
+import { useEffect, useState } from 'react'
+import { format, formatDistanceToNow } from 'date-fns'
+import { AlertCircle, History, Loader2, RotateCcw } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet'
+import { cn } from '@/lib/utils'
+import { diffLines, diffWords, type DiffPart } from '@/lib/notes/diff'
+import { notesAPI } from '@/lib/notes/client'
+import type { Note, NoteRevision } from '@/lib/notes/types'
+
+interface NoteHistoryProps {
+  note: Note
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onRestore: (revision: NoteRevision) => Promise<void>
+}
+
+interface DiffRow {
+  type: DiffPart['type']
+  /** Word-level parts when the line was changed rather than added or removed outright. */
+  words?: DiffPart[]
+  value: string
+}
+
+const revisionLabel = (revision: NoteRevision) => format(new Date(revision.createdAt), "d MMM yyyy 'at' HH:mm:ss")
+
+// A run of removed lines followed by added ones is a change, so those lines
+// are paired up and compared word by word
+const toRows = (parts: DiffPart[]): DiffRow[] => {
+  const rows: DiffRow[] = []
+  let i = 0
+  while (i < parts.length) {
+    if (parts[i].type === 'equal') {
+      rows.push(parts[i++])
+      continue
+    }
+    const removed: string[] = []
+    const added: string[] = []
+    while (i < parts.length && parts[i].type === 'removed') removed.push(parts[i++].value)
+    while (i < parts.length && parts[i].type === 'added') added.push(parts[i++].value)
+
+    const paired = Math.min(removed.length, added.length)
+    const words = removed.slice(0, paired).map((line, index) => diffWords(line, added[index]))
+    rows.push(
+      ...removed.map((value, index) => ({
+        type: 'removed' as const,
+        value,
+        words: index < paired ? words[index].filter(part => part.type !== 'added') : undefined
+      })),
+      ...added.map((value, index) => ({
+        type: 'added' as const,
+        value,
+        words: index < paired ? words[index].filter(part => part.type !== 'removed') : undefined
+      }))
+    )
+  }
+  return rows
+}
+
+const DiffView = ({ from, to }: { from: NoteRevision; to: NoteRevision }) => {
+  const rows = toRows(diffLines(from.content, to.content))
+  const changed = rows.filter(row => row.type !== 'equal').length
+
+  return (
+    <div className="space-y-3">
+      {from.title !== to.title && (
+        <div className="text-sm">
+          <span className="text-muted-foreground">Title: </span>
+          <span className="line-through text-destructive">{from.title}</span>
+          {' → '}
+          <span className="text-green-600 dark:text-green-400">{to.title}</span>
+        </div>
+      )}
+      {changed === 0 ? (
+        <p className="text-sm text-muted-foreground">The content is the same in both versions.</p>
+      ) : (
+        <div className="rounded-md border border-border font-mono text-xs overflow-x-auto">
+          {rows.map((row, index) => (
+            <div
+              key={index}
+              className={cn(
+                'flex gap-2 px-2 py-0.5 whitespace-pre-wrap break-words',
+                row.type === 'removed' && 'bg-destructive/10',
+                row.type === 'added' && 'bg-green-500/10'
+              )}
+            >
+              <span className="select-none w-3 shrink-0 text-muted-foreground">
+                {row.type === 'removed' ? '−' : row.type === 'added' ? '+' : ' '}
+              </span>
+              <span className={cn('flex-1', row.type === 'equal' && 'text-muted-foreground')}>
+                {row.words
+                  ? row.words.map((part, partIndex) => (
+                      <span
+                        key={partIndex}
+                        className={cn(
+                          part.type === 'removed' && 'bg-destructive/25 rounded-sm',
+                          part.type === 'added' && 'bg-green-500/30 rounded-sm'
+                        )}
+                      >
+                        {part.value}
+                      </span>
+                    ))
+                  : row.value || ' '}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+const NoteHistory = ({ note, open, onOpenChange, onRestore }: NoteHistoryProps) => {
+  const [revisions, setRevisions] = useState<NoteRevision[] | null>(null)
+  const [error, setError] = useState('')
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [compareId, setCompareId] = useState<string | null>(null)
+  const [restoring, setRestoring] = useState(false)
+
+  // Reloads after every save while open, so a restore shows up straight away
+  useEffect(() => {
+    if (!open) return
+    let cancelled = false
+    setError('')
+    notesAPI
+      .revisions(note.id)
+      .then(loaded => {
+        if (cancelled) return
+        setRevisions(loaded)
+        setSelectedId(prev => loaded.some(revision => revision.id === prev) ? prev : loaded[0]?.id ?? null)
+      })
+      .catch(err => !cancelled && setError(err instanceof Error ? err.message : 'Failed to load the history'))
+    return () => {
+      cancelled = true
+    }
+  }, [open, note.id, note.updatedAt])
+
+  useEffect(() => {
+    if (!open) {
+      setRevisions(null)
+      setSelectedId(null)
+    }
+  }, [open])
+
+  const selectedIndex = revisions?.findIndex(revision => revision.id === selectedId) ?? -1
+  const selected = revisions?.[selectedIndex]
+  // Compared with the version before it unless another one is picked
+  const compareTo = revisions?.find(revision => revision.id === compareId && revision.id !== selectedId) ?? revisions?.[selectedIndex + 1]
+  const isCurrent = selected !== undefined && selected.title === note.title && selected.content === note.content
+
+  const handleSelect = (id: string) => {
+    setSelectedId(id)
+    setCompareId(null)
+  }
+
+  const handleRestore = async () => {
+    if (!selected) return
+    setRestoring(true)
+    try {
+      await onRestore(selected)
+    } finally {
+      setRestoring(false)
+    }
+  }
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="w-full sm:max-w-3xl gap-0">
+        <SheetHeader className="border-b border-border">
+          <SheetTitle className="flex items-center gap-2">
+            <History className="h-4 w-4" />
+            Version History
+          </SheetTitle>
+          <SheetDescription>Every save of &ldquo;{note.title}&rdquo;. Pick a version to see what changed or bring it back.</SheetDescription>
+        </SheetHeader>
+
+        {error ? (
+          <div className="flex items-center gap-2 p-6 text-sm text-destructive">
+            <AlertCircle className="h-4 w-4" />
+            {error}
+          </div>
+        ) : !revisions ? (
+          <div className="flex items-center justify-center gap-2 p-6 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Loading history...
+          </div>
+        ) : revisions.length === 0 ? (
+          <p className="p-6 text-sm text-muted-foreground">No earlier versions of this note have been kept yet.</p>
+        ) : (
+          <div className="flex flex-1 min-h-0 flex-col sm:flex-row">
+            <div className="sm:w-60 shrink-0 border-b sm:border-b-0 sm:border-r border-border overflow-y-auto max-h-48 sm:max-h-none">
+              {revisions.map((revision, index) => (
+                <button
+                  key={revision.id}
+                  type="button"
+                  onClick={() => handleSelect(revision.id)}
+                  className={cn(
+                    'w-full text-left px-4 py-3 border-b border-border text-sm transition-colors',
+                    revision.id === selectedId ? 'bg-primary/10' : 'hover:bg-accent'
+                  )}
+                >
+                  <div className="font-medium">{formatDistanceToNow(new Date(revision.createdAt), { addSuffix: true })}</div>
+                  <div className="text-xs text-muted-foreground">{revisionLabel(revision)}</div>
+                  <div className="flex gap-1 mt-1">
+                    {index === 0 && <Badge variant="secondary" className="text-xs px-1 py-0">Latest</Badge>}
+                    {revision.restoredFrom && <Badge variant="outline" className="text-xs px-1 py-0">Restored</Badge>}
+                  </div>
+                </button>
+              ))}
+            </div>
+
+            {selected && (
+              <div className="flex-1 min-w-0 overflow-y-auto p-4 space-y-4">
+                <div className="flex flex-wrap items-end justify-between gap-3">
+                  <div className="space-y-1.5">
+                    <Label className="text-xs text-muted-foreground">Compare with</Label>
+                    <Select value={compareTo?.id ?? 'none'} onValueChange={setCompareId} disabled={revisions.length < 2}>
+                      <SelectTrigger className="h-8 w-56 text-sm">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {!compareTo && <SelectItem value="none">Nothing earlier</SelectItem>}
+                        {revisions
+                          .filter(revision => revision.id !== selected.id)
+                          .map(revision => (
+                            <SelectItem key={revision.id} value={revision.id}>
+                              {revisionLabel(revision)}
+                            </SelectItem>
+                          ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <Button size="sm" onClick={handleRestore} disabled={isCurrent || restoring}>
+                    {restoring ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <RotateCcw className="h-4 w-4 mr-2" />}
+                    {isCurrent ? 'Current Version' : 'Restore This Version'}
+                  </Button>
+                </div>
+
+                {compareTo ? (
+                  // Always shown as changes from the older version to the newer one
+                  compareTo.createdAt <= selected.createdAt ? (
+                    <DiffView from={compareTo} to={selected} />
+                  ) : (
+                    <DiffView from={selected} to={compareTo} />
+                  )
+                ) : (
+                  <div className="space-y-2">
+                    <p className="text-sm text-muted-foreground">The first saved version:</p>
+                    <pre className="rounded-md border border-border p-3 font-mono text-xs whitespace-pre-wrap break-words">
+                      {selected.content || 'Empty'}
+                    </pre>
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+      </SheetContent>
+    </Sheet>
+  )
+}
+
+export default NoteHistory
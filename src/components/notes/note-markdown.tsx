@@ -0,0 +1,83 @@
+"use client"
+
+import { Children, cloneElement, isValidElement, type InputHTMLAttributes, type ReactElement } from 'react'
+import Markdown, { type Components } from 'react-markdown'
+import remarkGfm from 'remark-gfm'
+import remarkMath from 'remark-math'
+import rehypeRaw from 'rehype-raw'
+import rehypeSanitize, { defaultSchema } from 'rehype-sanitize'
+import rehypeKatex from 'rehype-katex'
+import rehypeHighlight from 'rehype-highlight'
+import 'katex/dist/katex.min.css'
+import { cn } from '@/lib/utils'
+import { toggleTaskAt } from '@/lib/notes/markdown'
+
+// Raw HTML is parsed so the toolbar's <u> works, then cut down to GitHub's
+// allow-list. KaTeX and highlighting run after that so their markup survives;
+// math reaches KaTeX as `language-math` code, inside a <pre> for `$$` blocks
+const schema = {
+  ...defaultSchema,
+  tagNames: [...(defaultSchema.tagNames ?? []), 'u']
+}
+
+interface NoteMarkdownProps {
+  content: string
+  /** Makes task list checkboxes clickable; called with the content after the toggle. */
+  onContentChange?: (content: string) => void
+  className?: string
+}
+
+const NoteMarkdown = ({ content, onContentChange, className }: NoteMarkdownProps) => {
+  const components: Components = {
+    a: ({ node, ...props }) => <a {...props} target="_blank" rel="noopener noreferrer" />,
+    li: ({ node, children, ...props }) => {
+      const offset = node?.position?.start.offset
+      if (!onContentChange || offset === undefined || !props.className?.includes('task-list-item')) {
+        return <li {...props}>{children}</li>
+      }
+
+      const toggle = () => {
+        const next = toggleTaskAt(content, offset)
+        if (next !== null) onContentChange(next)
+      }
+      return (
+        <li {...props}>
+          {Children.map(children, child =>
+            isValidElement(child) && child.type === 'input'
+              ? cloneElement(child as ReactElement<InputHTMLAttributes<HTMLInputElement>>, {
+                  disabled: false,
+                  onChange: toggle,
+                  className: 'cursor-pointer'
+                })
+              : child
+          )}
+        </li>
+      )
+    }
+  }
+
+  return (
+    <div
+      className={cn(
+        'prose max-w-none dark:prose-invert text-foreground prose-headings:text-foreground prose-strong:text-foreground prose-a:text-primary prose-code:text-foreground prose-code:before:content-none prose-code:after:content-none prose-pre:bg-muted prose-pre:text-foreground prose-blockquote:text-muted-foreground prose-th:text-foreground',
+        '[&_.katex-display]:overflow-x-auto [&_.katex-display]:overflow-y-hidden [&_.contains-task-list]:list-none [&_.contains-task-list]:pl-0 [&_.task-list-item_input]:mr-2',
+        className
+      )}
+    >
+      <Markdown
+        remarkPlugins={[remarkGfm, remarkMath]}
+        rehypePlugins={[
+          rehypeRaw,
+          [rehypeSanitize, schema],
+          [rehypeKatex, { errorColor: 'var(--color-destructive)' }],
+          rehypeHighlight
+        ]}
+        components={components}
+      >
+        {content}
+      </Markdown>
+    </div>
+  )
+}
+
+export default NoteMarkdown
@@ -1,7 +1,8 @@
 "use client"
 
-import { useState, useEffect, useRef } from 'react'
-import { Search, Plus, Star, MoreVertical, Bold, Italic, Underline, List, ListOrdered, Quote, ChevronLeft, Menu, Save, Clock, Edit3, Trash2, Filter, SortAsc, FolderPlus, Folder } from 'lucide-react'
+import { useState, useEffect, useMemo, useRef } from 'react'
+import { Search, Plus, Star, MoreVertical, Bold, Italic, Underline, List, ListOrdered, ListChecks, Quote, Code, Link2, Heading1, Heading2, Heading3, Sigma, SquareSigma, Download, History, PenLine, Columns2, Eye, ChevronLeft, Menu, Save, Clock, Edit3, Trash2, Filter, SortAsc, FolderPlus, Folder, Loader2, AlertCircle, type LucideIcon } from 'lucide-react'
+import { toast } from 'sonner'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Textarea } from '@/components/ui/textarea'
@@ -9,103 +10,199 @@ import { Card, CardContent, CardHeader } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator, DropdownMenuTrigger } from '@/components/ui/dropdown-menu'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
-import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog'
 import { Label } from '@/components/ui/label'
 import { motion, AnimatePresence } from 'motion/react'
-
-interface Note {
-  id: string
-  title: string
-  content: string
-  category: string
-  isFavorite: boolean
-  createdAt: Date
-  updatedAt: Date
-  tags: string[]
-}
+import { ApiError } from '@/lib/auth/client'
+import { notesAPI } from '@/lib/notes/client'
+import { applyMarkdownFormat, markdownToPlainText, noteToMarkdown, type MarkdownFormat } from '@/lib/notes/markdown'
+import { NoteSearchIndex } from '@/lib/notes/search'
+import type { Note, NoteChanges, NoteRevision } from '@/lib/notes/types'
+import HighlightedText from './highlighted-text'
+import NoteHistory from './note-history'
+import NoteMarkdown from './note-markdown'
 
 interface Category {
   id: string
   name: string
   color: string
-  count: number
 }
 
+const DEFAULT_CATEGORIES: Category[] = [
+  { id: '1', name: 'Computer Science', color: '#3b82f6' },
+  { id: '2', name: 'Mathematics', color: '#10b981' },
+  { id: '3', name: 'Essays', color: '#f59e0b' },
+  { id: '4', name: 'General', color: '#8b5cf6' }
+]
+
+type EditorView = 'write' | 'split' | 'preview'
+
+// Groups are split by a divider in the toolbar
+const FORMAT_GROUPS: { format: MarkdownFormat; label: string; icon: LucideIcon }[][] = [
+  [
+    { format: 'heading1', label: 'Heading 1', icon: Heading1 },
+    { format: 'heading2', label: 'Heading 2', icon: Heading2 },
+    { format: 'heading3', label: 'Heading 3', icon: Heading3 }
+  ],
+  [
+    { format: 'bold', label: 'Bold (Ctrl+B)', icon: Bold },
+    { format: 'italic', label: 'Italic (Ctrl+I)', icon: Italic },
+    { format: 'underline', label: 'Underline (Ctrl+U)', icon: Underline },
+    { format: 'code', label: 'Code', icon: Code },
+    { format: 'link', label: 'Link (Ctrl+K)', icon: Link2 }
+  ],
+  [
+    { format: 'math', label: 'Inline equation', icon: Sigma },
+    { format: 'mathBlock', label: 'Equation block', icon: SquareSigma }
+  ],
+  [
+    { format: 'quote', label: 'Quote', icon: Quote },
+    { format: 'bulletList', label: 'Bulleted list', icon: List },
+    { format: 'numberedList', label: 'Numbered list', icon: ListOrdered },
+    { format: 'checklist', label: 'Checklist', icon: ListChecks }
+  ]
+]
+
+const SHORTCUTS: Record<string, MarkdownFormat> = { b: 'bold', i: 'italic', u: 'underline', k: 'link' }
+
+const EDITOR_VIEWS: { view: EditorView; label: string; icon: LucideIcon }[] = [
+  { view: 'write', label: 'Write', icon: PenLine },
+  { view: 'split', label: 'Split', icon: Columns2 },
+  { view: 'preview', label: 'Preview', icon: Eye }
+]
+
+const editableFields = ({ title, content, category, isFavorite, tags }: Note) => ({ title, content, category, isFavorite, tags })
+
+// Math stays as `$…$` LaTeX, so the file renders anywhere that reads Markdown math
+const downloadNote = (note: Note) => {
+  const url = URL.createObjectURL(new Blob([noteToMarkdown(note)], { type: 'text/markdown;charset=utf-8' }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = `${note.title.replace(/[\\/:*?"<>|]+/g, ' ').trim() || 'Untitled Note'}.md`
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+const errorMessage = (error: unknown, fallback: string) => error instanceof Error ? error.message : fallback
+
 const NotesManager = () => {
-  const [notes, setNotes] = useState<Note[]>([
-    {
-      id: '1',
-      title: 'Data Structures Study Guide',
-      content: 'Arrays, Linked Lists, Stacks, Queues, Trees, Graphs...\n\nArrays are fundamental data structures that store elements in contiguous memory locations. They provide O(1) random access but O(n) insertion and deletion in the worst case.',
-      category: 'Computer Science',
-      isFavorite: true,
-      createdAt: new Date('2024-01-15'),
-      updatedAt: new Date('2024-01-16'),
-      tags: ['algorithms', 'data-structures', 'programming']
-    },
-    {
-      id: '2',
-      title: 'Calculus Integration Techniques',
-      content: 'Integration by parts, substitution, partial fractions...\n\nIntegration by parts: ∫u dv = uv - ∫v du\n\nThis is particularly useful when dealing with products of functions.',
-      category: 'Mathematics',
-      isFavorite: false,
-      createdAt: new Date('2024-01-14'),
-      updatedAt: new Date('2024-01-15'),
-      tags: ['calculus', 'integration', 'mathematics']
-    },
-    {
-      id: '3',
-      title: 'Essay Planning: Climate Change',
-      content: 'Introduction: Hook about rising sea levels\nBody paragraphs:\n1. Causes of climate change\n2. Current effects\n3. Future implications\n4. Solutions and mitigation\n\nConclusion: Call to action',
-      category: 'Essays',
-      isFavorite: false,
-      createdAt: new Date('2024-01-13'),
-      updatedAt: new Date('2024-01-14'),
-      tags: ['essay', 'climate-change', 'environment']
-    }
-  ])
+  const [notes, setNotes] = useState<Note[]>([])
+  const [loadState, setLoadState] = useState<'loading' | 'error' | 'ready'>('loading')
+  const [loadError, setLoadError] = useState('')
+  const [conflict, setConflict] = useState<Note | null>(null)
 
-  const [categories, setCategories] = useState<Category[]>([
-    { id: '1', name: 'Computer Science', color: '#3b82f6', count: 5 },
-    { id: '2', name: 'Mathematics', color: '#10b981', count: 3 },
-    { id: '3', name: 'Essays', color: '#f59e0b', count: 2 },
-    { id: '4', name: 'General', color: '#8b5cf6', count: 1 }
-  ])
+  const [categories, setCategories] = useState<Category[]>(DEFAULT_CATEGORIES)
 
-  const [selectedNote, setSelectedNote] = useState<Note | null>(notes[0])
+  const [selectedId, setSelectedId] = useState<string | null>(null)
   const [searchQuery, setSearchQuery] = useState('')
   const [selectedCategory, setSelectedCategory] = useState<string>('all')
   const [sortBy, setSortBy] = useState<'updated' | 'created' | 'title'>('updated')
   const [sidebarOpen, setSidebarOpen] = useState(true)
   const [metadataPanelOpen, setMetadataPanelOpen] = useState(false)
+  const [historyOpen, setHistoryOpen] = useState(false)
   const [isEditing, setIsEditing] = useState(false)
   const [editContent, setEditContent] = useState('')
   const [editTitle, setEditTitle] = useState('')
   const [autoSaving, setAutoSaving] = useState(false)
+  const [editorView, setEditorView] = useState<EditorView>('write')
   const [newCategoryName, setNewCategoryName] = useState('')
   const [newCategoryDialog, setNewCategoryDialog] = useState(false)
   
   const editorRef = useRef<HTMLTextAreaElement>(null)
   const autoSaveTimeoutRef = useRef<NodeJS.Timeout>()
-
-  // Filter and sort notes
+  // The `updatedAt` the server last confirmed for each note; updates are based on it
+  const versionsRef = useRef(new Map<string, string>())
+  // Requests for one note go out one at a time, in order, so each is based on the last
+  const queuesRef = useRef(new Map<string, Promise<unknown>>())
+  const pendingRef = useRef(new Map<string, number>())
+
+  const selectedNote = notes.find(note => note.id === selectedId) ?? null
+
+  // Categories only exist through their notes on the server, so list any a note uses
+  const allCategories = [
+    ...categories,
+    ...[...new Set(notes.map(note => note.category))]
+      .filter(name => !categories.some(category => category.name === name))
+      .map(name => ({ id: name, name, color: '#6366f1' }))
+  ]
+
+  // The index keeps itself up to date with `notes`, reindexing only the notes that changed
+  const [searchIndex] = useState(() => new NoteSearchIndex())
+  const search = useMemo(() => {
+    searchIndex.sync(notes)
+    return searchIndex.search(searchQuery)
+  }, [searchIndex, notes, searchQuery])
+  const searchResults = new Map(search.results.map(result => [result.id, result]))
+
+  // Filter and sort notes; a search with words in it is sorted by relevance instead
   const filteredNotes = notes
-    .filter(note => {
-      const matchesSearch = note.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-                           note.content.toLowerCase().includes(searchQuery.toLowerCase()) ||
-                           note.tags.some(tag => tag.toLowerCase().includes(searchQuery.toLowerCase()))
-      const matchesCategory = selectedCategory === 'all' || note.category === selectedCategory
-      return matchesSearch && matchesCategory
-    })
+    .filter(note => searchResults.has(note.id) && (selectedCategory === 'all' || note.category === selectedCategory))
     .sort((a, b) => {
+      if (search.ranked) {
+        return searchResults.get(b.id)!.score - searchResults.get(a.id)!.score
+      }
       switch (sortBy) {
         case 'title':
           return a.title.localeCompare(b.title)
         case 'created':
-          return b.createdAt.getTime() - a.createdAt.getTime()
+          return b.createdAt.localeCompare(a.createdAt)
         case 'updated':
         default:
-          return b.updatedAt.getTime() - a.updatedAt.getTime()
+          return b.updatedAt.localeCompare(a.updatedAt)
+      }
+    })
+
+  const loadNotes = async () => {
+    setLoadState('loading')
+    try {
+      const loaded = await notesAPI.list()
+      versionsRef.current = new Map(loaded.map(note => [note.id, note.updatedAt]))
+      setNotes(loaded)
+      setSelectedId(prev => loaded.some(note => note.id === prev) ? prev : loaded[0]?.id ?? null)
+      setLoadState('ready')
+    } catch (error) {
+      setLoadError(errorMessage(error, 'Failed to load your notes'))
+      setLoadState('error')
+    }
+  }
+
+  useEffect(() => {
+    loadNotes()
+  }, [])
+
+  const enqueue = <T,>(noteId: string, task: () => Promise<T>) => {
+    pendingRef.current.set(noteId, (pendingRef.current.get(noteId) ?? 0) + 1)
+    const run = (queuesRef.current.get(noteId) ?? Promise.resolve()).then(task).finally(() => {
+      pendingRef.current.set(noteId, (pendingRef.current.get(noteId) ?? 1) - 1)
+    })
+    queuesRef.current.set(noteId, run.catch(() => undefined))
+    return run
+  }
+
+  // Later edits still queued for the note are newer than this reply, so only its version is kept
+  const acceptSaved = (saved: Note) => {
+    versionsRef.current.set(saved.id, saved.updatedAt)
+    if (pendingRef.current.get(saved.id) === 1) {
+      setNotes(prev => prev.map(note => note.id === saved.id ? saved : note))
+    }
+  }
+
+  const pushChanges = (noteId: string, changes: Omit<NoteChanges, 'baseUpdatedAt'>, onFailure?: () => void) =>
+    enqueue(noteId, async () => {
+      const baseUpdatedAt = versionsRef.current.get(noteId)
+      // Deleted, or never made it to the server
+      if (!baseUpdatedAt) return
+      try {
+        acceptSaved(await notesAPI.update(noteId, { ...changes, baseUpdatedAt }))
+      } catch (error) {
+        if (error instanceof ApiError && error.status === 409 && error.details?.note) {
+          setConflict(error.details.note as Note)
+          return
+        }
+        onFailure?.()
+        toast.error(errorMessage(error, 'Failed to save the note'), {
+          action: { label: 'Retry', onClick: () => pushChanges(noteId, changes, onFailure) }
+        })
       }
     })
 
@@ -139,55 +236,130 @@ const NotesManager = () => {
   }, [selectedNote, isEditing])
 
   const handleSave = () => {
-    if (!selectedNote) return
+    // Saving over a conflict would only conflict again; the dialog decides first
+    if (!selectedNote || conflict?.id === selectedNote.id) return
 
-    const updatedNote = {
-      ...selectedNote,
-      title: editTitle || 'Untitled Note',
-      content: editContent,
-      updatedAt: new Date()
-    }
+    const title = editTitle || 'Untitled Note'
+    if (title === selectedNote.title && editContent === selectedNote.content) return
 
-    setNotes(prev => prev.map(note => 
-      note.id === selectedNote.id ? updatedNote : note
+    setNotes(prev => prev.map(note =>
+      note.id === selectedNote.id ? { ...note, title, content: editContent, updatedAt: new Date().toISOString() } : note
     ))
-    setSelectedNote(updatedNote)
+    pushChanges(selectedNote.id, { title, content: editContent })
   }
 
   const handleCreateNote = () => {
+    const now = new Date().toISOString()
     const newNote: Note = {
-      id: Date.now().toString(),
+      id: crypto.randomUUID(),
       title: 'New Note',
       content: '',
       category: selectedCategory === 'all' ? 'General' : selectedCategory,
       isFavorite: false,
-      createdAt: new Date(),
-      updatedAt: new Date(),
+      createdAt: now,
+      updatedAt: now,
       tags: []
     }
 
     setNotes(prev => [newNote, ...prev])
-    setSelectedNote(newNote)
+    setSelectedId(newNote.id)
     setIsEditing(true)
     setEditTitle(newNote.title)
     setEditContent(newNote.content)
+
+    enqueue(newNote.id, async () => {
+      try {
+        const created = await notesAPI.create(newNote)
+        versionsRef.current.set(created.id, created.updatedAt)
+        setNotes(prev => prev.map(note => note.id === created.id ? { ...note, createdAt: created.createdAt, updatedAt: created.updatedAt } : note))
+      } catch (error) {
+        setNotes(prev => prev.filter(note => note.id !== newNote.id))
+        setSelectedId(prev => prev === newNote.id ? null : prev)
+        setIsEditing(false)
+        toast.error(errorMessage(error, 'Failed to create the note'))
+      }
+    })
   }
 
   const handleDeleteNote = (noteId: string) => {
+    const index = notes.findIndex(note => note.id === noteId)
+    const deleted = notes[index]
+    if (!deleted) return
+
     setNotes(prev => prev.filter(note => note.id !== noteId))
-    if (selectedNote?.id === noteId) {
+    if (selectedId === noteId) {
       const remainingNotes = notes.filter(note => note.id !== noteId)
-      setSelectedNote(remainingNotes[0] || null)
+      setSelectedId(remainingNotes[0]?.id ?? null)
+      setIsEditing(false)
     }
+
+    enqueue(noteId, async () => {
+      try {
+        await notesAPI.remove(noteId)
+        versionsRef.current.delete(noteId)
+      } catch (error) {
+        // Already gone is as good as deleted
+        if (error instanceof ApiError && error.status === 404) return
+        setNotes(prev => [...prev.slice(0, index), deleted, ...prev.slice(index)])
+        toast.error(errorMessage(error, 'Failed to delete the note'))
+      }
+    })
   }
 
   const handleToggleFavorite = (noteId: string) => {
-    setNotes(prev => prev.map(note =>
-      note.id === noteId ? { ...note, isFavorite: !note.isFavorite } : note
-    ))
-    if (selectedNote?.id === noteId) {
-      setSelectedNote(prev => prev ? { ...prev, isFavorite: !prev.isFavorite } : null)
+    const note = notes.find(item => item.id === noteId)
+    if (!note) return
+
+    const setFavorite = (isFavorite: boolean) =>
+      setNotes(prev => prev.map(item => item.id === noteId ? { ...item, isFavorite } : item))
+    setFavorite(!note.isFavorite)
+    pushChanges(noteId, { isFavorite: !note.isFavorite }, () => setFavorite(note.isFavorite))
+  }
+
+  // Unsaved edits are dropped: the restored version is what the user asked for
+  const handleRestore = (revision: NoteRevision) => {
+    const noteId = revision.noteId
+    if (conflict?.id === noteId) return Promise.resolve()
+    if (autoSaveTimeoutRef.current) {
+      clearTimeout(autoSaveTimeoutRef.current)
+    }
+    setAutoSaving(false)
+    setIsEditing(false)
+
+    return enqueue(noteId, async () => {
+      try {
+        const restored = await notesAPI.restore(noteId, revision.id, versionsRef.current.get(noteId) ?? '')
+        acceptSaved(restored)
+        setEditTitle(restored.title)
+        setEditContent(restored.content)
+        toast.success(`Restored the version from ${new Date(revision.createdAt).toLocaleString()}`)
+      } catch (error) {
+        if (error instanceof ApiError && error.status === 409 && error.details?.note) {
+          setConflict(error.details.note as Note)
+          return
+        }
+        toast.error(errorMessage(error, 'Failed to restore that version'))
+      }
+    })
+  }
+
+  // Keeping this copy saves it over the newer one; taking theirs drops the local edits
+  const resolveConflict = (keep: 'mine' | 'theirs') => {
+    if (!conflict) return
+    const theirs = conflict
+    const mine = notes.find(note => note.id === theirs.id)
+    setConflict(null)
+    versionsRef.current.set(theirs.id, theirs.updatedAt)
+
+    if (keep === 'theirs' || !mine) {
+      setNotes(prev => prev.map(note => note.id === theirs.id ? theirs : note))
+      if (selectedId === theirs.id) {
+        setEditTitle(theirs.title)
+        setEditContent(theirs.content)
+      }
+      return
     }
+    pushChanges(theirs.id, editableFields(mine))
   }
 
   const handleCreateCategory = () => {
@@ -196,8 +368,7 @@ const NotesManager = () => {
     const newCategory: Category = {
       id: Date.now().toString(),
       name: newCategoryName.trim(),
-      color: '#6366f1',
-      count: 0
+      color: '#6366f1'
     }
 
     setCategories(prev => [...prev, newCategory])
@@ -216,34 +387,35 @@ const NotesManager = () => {
     return date.toLocaleDateString()
   }
 
-  const applyFormatting = (format: string) => {
+  const applyFormatting = (format: MarkdownFormat) => {
     if (!editorRef.current) return
 
     const textarea = editorRef.current
-    const start = textarea.selectionStart
-    const end = textarea.selectionEnd
-    const selectedText = editContent.substring(start, end)
-
-    let formattedText = ''
-    switch (format) {
-      case 'bold':
-        formattedText = `**${selectedText}**`
-        break
-      case 'italic':
-        formattedText = `*${selectedText}*`
-        break
-      case 'underline':
-        formattedText = `<u>${selectedText}</u>`
-        break
-      case 'quote':
-        formattedText = `> ${selectedText}`
-        break
-      default:
-        return
+    const edit = applyMarkdownFormat(editContent, textarea.selectionStart, textarea.selectionEnd, format)
+    setEditContent(edit.text)
+
+    // Put the caret back once React has written the new value
+    requestAnimationFrame(() => {
+      textarea.focus()
+      textarea.setSelectionRange(edit.selectionStart, edit.selectionEnd)
+    })
+  }
+
+  const handleEditorKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    const format = SHORTCUTS[e.key.toLowerCase()]
+    if (format && (e.metaKey || e.ctrlKey) && !e.altKey && !e.shiftKey) {
+      e.preventDefault()
+      applyFormatting(format)
     }
+  }
 
-    const newContent = editContent.substring(0, start) + formattedText + editContent.substring(end)
-    setEditContent(newContent)
+  // Ticking a checklist item in the viewer saves straight away
+  const handleViewerChange = (content: string) => {
+    if (!selectedNote || conflict?.id === selectedNote.id) return
+    setNotes(prev => prev.map(note =>
+      note.id === selectedNote.id ? { ...note, content, updatedAt: new Date().toISOString() } : note
+    ))
+    pushChanges(selectedNote.id, { content })
   }
 
   return (
@@ -266,6 +438,7 @@ const NotesManager = () => {
                   variant="outline"
                   size="sm"
                   onClick={handleCreateNote}
+                  disabled={loadState !== 'ready'}
                   className="h-8 w-8 p-0"
                 >
                   <Plus className="h-4 w-4" />
@@ -276,7 +449,8 @@ const NotesManager = () => {
               <div className="relative">
                 <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
                 <Input
-                  placeholder="Search notes..."
+                  placeholder="Search notes, tag:, category:..."
+                  title='Words match by stem and prefix. Narrow down with tag:name or category:"Computer Science".'
                   value={searchQuery}
                   onChange={(e) => setSearchQuery(e.target.value)}
                   className="pl-9 h-9"
@@ -294,14 +468,14 @@ const NotesManager = () => {
                   </SelectTrigger>
                   <SelectContent>
                     <SelectItem value="all">All Categories</SelectItem>
-                    {categories.map(category => (
+                    {allCategories.map(category => (
                       <SelectItem key={category.id} value={category.name}>
                         <div className="flex items-center gap-2">
                           <div 
                             className="w-2 h-2 rounded-full" 
                             style={{ backgroundColor: category.color }}
                           />
-                          {category.name} ({category.count})
+                          {category.name} ({notes.filter(note => note.category === category.name).length})
                         </div>
                       </SelectItem>
                     ))}
@@ -359,93 +533,131 @@ const NotesManager = () => {
 
             {/* Notes List */}
             <div className="flex-1 overflow-y-auto">
+              {loadState === 'loading' && (
+                <div className="flex items-center justify-center gap-2 p-6 text-sm text-muted-foreground">
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                  Loading notes...
+                </div>
+              )}
+              {loadState === 'error' && (
+                <div className="p-6 text-center space-y-3">
+                  <div className="flex items-center justify-center gap-2 text-sm text-destructive">
+                    <AlertCircle className="h-4 w-4" />
+                    {loadError}
+                  </div>
+                  <Button variant="outline" size="sm" onClick={loadNotes}>
+                    Try Again
+                  </Button>
+                </div>
+              )}
+              {loadState === 'ready' && filteredNotes.length === 0 && (
+                <p className="p-6 text-center text-sm text-muted-foreground">
+                  {notes.length === 0 ? 'No notes yet. Create one to get started.' : 'No notes match your filters.'}
+                </p>
+              )}
               <div className="p-2 space-y-1">
-                {filteredNotes.map(note => (
-                  <motion.div
-                    key={note.id}
-                    initial={{ opacity: 0, y: 10 }}
-                    animate={{ opacity: 1, y: 0 }}
-                    className={`p-3 rounded-md cursor-pointer transition-colors border ${
-                      selectedNote?.id === note.id 
-                        ? 'bg-primary/10 border-primary/20' 
-                        : 'bg-card border-transparent hover:bg-accent'
-                    }`}
-                    onClick={() => {
-                      setSelectedNote(note)
-                      setIsEditing(false)
-                    }}
-                  >
-                    <div className="flex items-start justify-between mb-2">
-                      <h3 className="font-medium text-sm truncate flex-1">{note.title}</h3>
-                      <div className="flex items-center gap-1 ml-2">
-                        {note.isFavorite && (
-                          <Star className="h-3 w-3 text-warning fill-current" />
-                        )}
-                        <DropdownMenu>
-                          <DropdownMenuTrigger asChild>
-                            <Button
-                              variant="ghost"
-                              size="sm"
-                              className="h-6 w-6 p-0 opacity-0 group-hover:opacity-100"
-                              onClick={(e) => e.stopPropagation()}
-                            >
-                              <MoreVertical className="h-3 w-3" />
-                            </Button>
-                          </DropdownMenuTrigger>
-                          <DropdownMenuContent align="end">
-                            <DropdownMenuItem onClick={(e) => {
-                              e.stopPropagation()
-                              handleToggleFavorite(note.id)
-                            }}>
-                              <Star className="h-4 w-4 mr-2" />
-                              {note.isFavorite ? 'Remove from Favorites' : 'Add to Favorites'}
-                            </DropdownMenuItem>
-                            <DropdownMenuSeparator />
-                            <DropdownMenuItem 
-                              onClick={(e) => {
+                {filteredNotes.map(note => {
+                  const match = searchResults.get(note.id)
+                  return (
+                    <motion.div
+                      key={note.id}
+                      initial={{ opacity: 0, y: 10 }}
+                      animate={{ opacity: 1, y: 0 }}
+                      className={`p-3 rounded-md cursor-pointer transition-colors border ${
+                        selectedNote?.id === note.id 
+                          ? 'bg-primary/10 border-primary/20' 
+                          : 'bg-card border-transparent hover:bg-accent'
+                      }`}
+                      onClick={() => {
+                        setSelectedId(note.id)
+                        setIsEditing(false)
+                      }}
+                    >
+                      <div className="flex items-start justify-between mb-2">
+                        <h3 className="font-medium text-sm truncate flex-1">
+                          <HighlightedText text={note.title} ranges={match?.titleHighlights ?? []} />
+                        </h3>
+                        <div className="flex items-center gap-1 ml-2">
+                          {note.isFavorite && (
+                            <Star className="h-3 w-3 text-warning fill-current" />
+                          )}
+                          <DropdownMenu>
+                            <DropdownMenuTrigger asChild>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                className="h-6 w-6 p-0 opacity-0 group-hover:opacity-100"
+                                onClick={(e) => e.stopPropagation()}
+                              >
+                                <MoreVertical className="h-3 w-3" />
+                              </Button>
+                            </DropdownMenuTrigger>
+                            <DropdownMenuContent align="end">
+                              <DropdownMenuItem onClick={(e) => {
                                 e.stopPropagation()
-                                handleDeleteNote(note.id)
-                              }}
-                              className="text-destructive"
-                            >
-                              <Trash2 className="h-4 w-4 mr-2" />
-                              Delete Note
-                            </DropdownMenuItem>
-                          </DropdownMenuContent>
-                        </DropdownMenu>
-                      </div>
-                    </div>
-                    
-                    <p className="text-xs text-muted-foreground mb-2 line-clamp-2">
-                      {note.content || 'No content'}
-                    </p>
-                    
-                    <div className="flex items-center justify-between text-xs">
-                      <div className="flex items-center gap-1">
-                        <Folder className="h-3 w-3" />
-                        <span>{note.category}</span>
+                                handleToggleFavorite(note.id)
+                              }}>
+                                <Star className="h-4 w-4 mr-2" />
+                                {note.isFavorite ? 'Remove from Favorites' : 'Add to Favorites'}
+                              </DropdownMenuItem>
+                              <DropdownMenuItem onClick={(e) => {
+                                e.stopPropagation()
+                                downloadNote(note)
+                              }}>
+                                <Download className="h-4 w-4 mr-2" />
+                                Download as Markdown
+                              </DropdownMenuItem>
+                              <DropdownMenuSeparator />
+                              <DropdownMenuItem 
+                                onClick={(e) => {
+                                  e.stopPropagation()
+                                  handleDeleteNote(note.id)
+                                }}
+                                className="text-destructive"
+                              >
+                                <Trash2 className="h-4 w-4 mr-2" />
+                                Delete Note
+                              </DropdownMenuItem>
+                            </DropdownMenuContent>
+                          </DropdownMenu>
+                        </div>
                       </div>
-                      <span className="text-muted-foreground">
-                        {formatDate(note.updatedAt)}
-                      </span>
-                    </div>
-                    
-                    {note.tags.length > 0 && (
-                      <div className="flex flex-wrap gap-1 mt-2">
-                        {note.tags.slice(0, 2).map(tag => (
-                          <Badge key={tag} variant="secondary" className="text-xs px-1 py-0">
-                            {tag}
-                          </Badge>
-                        ))}
-                        {note.tags.length > 2 && (
-                          <Badge variant="outline" className="text-xs px-1 py-0">
-                            +{note.tags.length - 2}
-                          </Badge>
+                      
+                      <p className="text-xs text-muted-foreground mb-2 line-clamp-2">
+                        {match?.snippet ? (
+                          <HighlightedText text={match.snippet.text} ranges={match.snippet.highlights} />
+                        ) : (
+                          markdownToPlainText(note.content) || 'No content'
                         )}
+                      </p>
+                      
+                      <div className="flex items-center justify-between text-xs">
+                        <div className="flex items-center gap-1">
+                          <Folder className="h-3 w-3" />
+                          <span>{note.category}</span>
+                        </div>
+                        <span className="text-muted-foreground">
+                          {formatDate(new Date(note.updatedAt))}
+                        </span>
                       </div>
-                    )}
-                  </motion.div>
-                ))}
+                      
+                      {note.tags.length > 0 && (
+                        <div className="flex flex-wrap gap-1 mt-2">
+                          {note.tags.slice(0, 2).map(tag => (
+                            <Badge key={tag} variant="secondary" className="text-xs px-1 py-0">
+                              {tag}
+                            </Badge>
+                          ))}
+                          {note.tags.length > 2 && (
+                            <Badge variant="outline" className="text-xs px-1 py-0">
+                              +{note.tags.length - 2}
+                            </Badge>
+                          )}
+                        </div>
+                      )}
+                    </motion.div>
+                  )
+                })}
               </div>
             </div>
           </motion.div>
@@ -515,53 +727,42 @@ const NotesManager = () => {
               <>
                 {isEditing && (
                   <div className="border-b border-border p-2 flex items-center gap-1 bg-surface">
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      onClick={() => applyFormatting('bold')}
-                      className="h-8 w-8 p-0"
-                    >
-                      <Bold className="h-4 w-4" />
-                    </Button>
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      onClick={() => applyFormatting('italic')}
-                      className="h-8 w-8 p-0"
-                    >
-                      <Italic className="h-4 w-4" />
-                    </Button>
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      onClick={() => applyFormatting('underline')}
-                      className="h-8 w-8 p-0"
-                    >
-                      <Underline className="h-4 w-4" />
-                    </Button>
-                    <div className="w-px h-4 bg-border mx-1" />
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      onClick={() => applyFormatting('quote')}
-                      className="h-8 w-8 p-0"
-                    >
-                      <Quote className="h-4 w-4" />
-                    </Button>
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      className="h-8 w-8 p-0"
-                    >
-                      <List className="h-4 w-4" />
-                    </Button>
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      className="h-8 w-8 p-0"
-                    >
-                      <ListOrdered className="h-4 w-4" />
-                    </Button>
+                    {FORMAT_GROUPS.map((group, index) => (
+                      <div key={index} className="flex items-center gap-1">
+                        {index > 0 && <div className="w-px h-4 bg-border mx-1" />}
+                        {group.map(({ format, label, icon: Icon }) => (
+                          <Button
+                            key={format}
+                            variant="ghost"
+                            size="sm"
+                            title={label}
+                            aria-label={label}
+                            onClick={() => applyFormatting(format)}
+                            disabled={editorView === 'preview'}
+                            className="h-8 w-8 p-0"
+                          >
+                            <Icon className="h-4 w-4" />
+                          </Button>
+                        ))}
+                      </div>
+                    ))}
+
+                    <div className="ml-auto flex items-center gap-1 rounded-md border border-border p-0.5">
+                      {EDITOR_VIEWS.map(({ view, label, icon: Icon }) => (
+                        <Button
+                          key={view}
+                          variant={editorView === view ? 'secondary' : 'ghost'}
+                          size="sm"
+                          title={label}
+                          aria-label={label}
+                          aria-pressed={editorView === view}
+                          onClick={() => setEditorView(view)}
+                          className="h-7 w-7 p-0"
+                        >
+                          <Icon className="h-4 w-4" />
+                        </Button>
+                      ))}
+                    </div>
                   </div>
                 )}
 
@@ -574,22 +775,41 @@ const NotesManager = () => {
                         placeholder="Note title..."
                         className="text-xl font-display font-semibold border-none shadow-none px-0 focus-visible:ring-0"
                       />
-                      <Textarea
-                        ref={editorRef}
-                        value={editContent}
-                        onChange={(e) => setEditContent(e.target.value)}
-                        placeholder="Start writing your note..."
-                        className="flex-1 resize-none border-none shadow-none px-0 focus-visible:ring-0 font-body"
-                        style={{ minHeight: 'calc(100vh - 280px)' }}
-                      />
+                      <div className={`grid gap-6 ${editorView === 'split' ? 'grid-cols-2' : 'grid-cols-1'}`}>
+                        {editorView !== 'preview' && (
+                          <Textarea
+                            ref={editorRef}
+                            value={editContent}
+                            onChange={(e) => setEditContent(e.target.value)}
+                            onKeyDown={handleEditorKeyDown}
+                            placeholder="Start writing your note... Markdown is supported."
+                            className="flex-1 resize-none border-none shadow-none px-0 focus-visible:ring-0 font-body"
+                            style={{ minHeight: 'calc(100vh - 280px)' }}
+                          />
+                        )}
+                        {editorView !== 'write' && (
+                          <div
+                            className={`overflow-y-auto ${editorView === 'split' ? 'border-l border-border pl-6' : ''}`}
+                            style={{ maxHeight: 'calc(100vh - 280px)' }}
+                          >
+                            {editContent.trim() ? (
+                              <NoteMarkdown content={editContent} onContentChange={setEditContent} />
+                            ) : (
+                              <p className="text-sm text-muted-foreground">Nothing to preview yet.</p>
+                            )}
+                          </div>
+                        )}
+                      </div>
                     </div>
                   ) : (
                     <div className="h-full">
-                      <div className="prose max-w-none">
-                        <pre className="whitespace-pre-wrap font-body text-foreground leading-relaxed">
-                          {selectedNote.content || 'This note is empty. Click Edit to start writing.'}
-                        </pre>
-                      </div>
+                      {selectedNote.content.trim() ? (
+                        <NoteMarkdown content={selectedNote.content} onContentChange={handleViewerChange} />
+                      ) : (
+                        <p className="font-body text-muted-foreground leading-relaxed">
+                          This note is empty. Click Edit to start writing.
+                        </p>
+                      )}
                     </div>
                   )}
                 </div>
@@ -628,7 +848,7 @@ const NotesManager = () => {
                       <Label className="text-sm font-medium">Created</Label>
                       <p className="text-sm text-muted-foreground mt-1 flex items-center gap-2">
                         <Clock className="h-3 w-3" />
-                        {selectedNote.createdAt.toLocaleDateString()}
+                        {new Date(selectedNote.createdAt).toLocaleDateString()}
                       </p>
                     </div>
                     
@@ -636,7 +856,7 @@ const NotesManager = () => {
                       <Label className="text-sm font-medium">Last Modified</Label>
                       <p className="text-sm text-muted-foreground mt-1 flex items-center gap-2">
                         <Clock className="h-3 w-3" />
-                        {formatDate(selectedNote.updatedAt)}
+                        {formatDate(new Date(selectedNote.updatedAt))}
                       </p>
                     </div>
                     
@@ -661,6 +881,11 @@ const NotesManager = () => {
                         {selectedNote.content.split(/\s+/).filter(word => word.length > 0).length} words
                       </p>
                     </div>
+
+                    <Button variant="outline" size="sm" className="w-full" onClick={() => setHistoryOpen(true)}>
+                      <History className="h-4 w-4 mr-2" />
+                      History
+                    </Button>
                   </div>
                 </div>
               </motion.div>
@@ -668,6 +893,36 @@ const NotesManager = () => {
           </AnimatePresence>
         </div>
       </div>
+
+      {selectedNote && (
+        <NoteHistory
+          note={selectedNote}
+          open={historyOpen}
+          onOpenChange={setHistoryOpen}
+          onRestore={handleRestore}
+        />
+      )}
+
+      {/* No dismissing: autosave waits for a choice */}
+      <Dialog open={conflict !== null}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>This note changed somewhere else</DialogTitle>
+            <DialogDescription>
+              &ldquo;{conflict?.title}&rdquo; was saved from another tab or device after you opened it. Keep your version to
+              save it over theirs, or load the saved version and lose your unsaved edits.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => resolveConflict('theirs')}>
+              Load Saved Version
+            </Button>
+            <Button onClick={() => resolveConflict('mine')}>
+              Keep My Version
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   )
 }
@@ -0,0 +1,221 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { format } from "date-fns"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Separator } from "@/components/ui/separator"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { OtpInput, describeCode } from "@/components/auth/otp-verification"
+import { useToast } from "@/hooks/use-toast"
+import { formatCountdown } from "@/hooks/use-countdown"
+import { useResendCooldown } from "@/hooks/use-resend-cooldown"
+import { accountAPI } from "@/lib/auth/client"
+import type { AccountDeletionStatus, OtpChallengeInfo } from "@/lib/auth/types"
+import { Download, Loader2, Trash2, UserX } from "lucide-react"
+
+/** "Download my data", and deleting the account after a grace period. */
+export function AccountData() {
+  const { toast } = useToast()
+  const [status, setStatus] = useState<AccountDeletionStatus | null>(null)
+  const [confirmOpen, setConfirmOpen] = useState(false)
+  const [challenge, setChallenge] = useState<OtpChallengeInfo | null>(null)
+  const [code, setCode] = useState("")
+  const [isLoading, setIsLoading] = useState(false)
+
+  const { secondsLeft: resendIn, canResend } = useResendCooldown(challenge?.resendAvailableAt)
+  const codeLength = challenge?.codeLength ?? 6
+
+  const showError = (error: unknown, fallback: string) => {
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : fallback,
+      variant: "destructive",
+    })
+  }
+
+  useEffect(() => {
+    accountAPI
+      .getDeletionStatus()
+      .then(setStatus)
+      .catch((error) => showError(error, "Failed to load your account status."))
+  }, [])
+
+  const sendCode = async () => {
+    setIsLoading(true)
+    try {
+      setChallenge(await accountAPI.requestDeletion())
+      setCode("")
+    } catch (error) {
+      showError(error, "Failed to send a verification code.")
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleConfirm = async () => {
+    if (!challenge) return
+    setIsLoading(true)
+    try {
+      setStatus(await accountAPI.confirmDeletion(challenge.challengeId, code))
+      setChallenge(null)
+      toast({
+        title: "Account deletion scheduled",
+        description: "We've emailed you the date. You've been signed out everywhere else.",
+      })
+    } catch (error) {
+      setCode("")
+      showError(error, "Failed to verify the code.")
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleCancel = async () => {
+    setIsLoading(true)
+    try {
+      setStatus(await accountAPI.cancelDeletion())
+      toast({ title: "Deletion cancelled", description: "Your account will be kept." })
+    } catch (error) {
+      showError(error, "Failed to cancel the deletion.")
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <Card className="bg-card border-border">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <UserX className="w-5 h-5" />
+          Your Data
+        </CardTitle>
+        <CardDescription>Take a copy of everything in your account, or leave for good</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+          <div className="space-y-0.5">
+            <Label className="text-foreground">Download my data</Label>
+            <p className="text-sm text-muted-foreground">
+              A ZIP of your profile, grades, attendance, notes and security history as JSON and Markdown. Tasks,
+              assignments and chat are only kept in your browser until the page is closed, so they aren&apos;t included.
+            </p>
+          </div>
+          <Button variant="outline" asChild>
+            <a href={accountAPI.exportUrl()} download>
+              <Download className="w-4 h-4 mr-2" />
+              Download
+            </a>
+          </Button>
+        </div>
+
+        <Separator className="bg-border" />
+
+        {status?.scheduledFor ? (
+          <Alert variant="destructive">
+            <Trash2 className="h-4 w-4" />
+            <AlertDescription className="space-y-3">
+              <p>
+                Your account and everything in it will be deleted on{" "}
+                <span className="font-medium">{format(new Date(status.scheduledFor), "d MMMM yyyy 'at' HH:mm")}</span>.
+              </p>
+              <Button variant="outline" size="sm" onClick={handleCancel} disabled={isLoading}>
+                {isLoading ? <Loader2 className="w-4 h-4 animate-spin" /> : "Cancel deletion"}
+              </Button>
+            </AlertDescription>
+          </Alert>
+        ) : (
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+            <div className="space-y-0.5">
+              <Label className="text-foreground">Delete account</Label>
+              <p className="text-sm text-muted-foreground">
+                Erases your account, grades, attendance, notes and everything else saved to it after a{" "}
+                {status?.graceDays ?? 14}-day grace period
+              </p>
+            </div>
+            <Button variant="destructive" onClick={() => setConfirmOpen(true)} disabled={!status || isLoading}>
+              <Trash2 className="w-4 h-4 mr-2" />
+              Delete Account
+            </Button>
+          </div>
+        )}
+      </CardContent>
+
+      <AlertDialog open={confirmOpen} onOpenChange={setConfirmOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete your account?</AlertDialogTitle>
+            <AlertDialogDescription>
+              We&apos;ll ask for a verification code first. Your account then stays available for{" "}
+              {status?.graceDays ?? 14} days, so you can sign in and cancel, before it and everything in it is erased for
+              good. Download your data first if you want a copy.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Keep my account</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={sendCode}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Continue
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <Dialog open={challenge !== null} onOpenChange={(open) => !open && setChallenge(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Confirm it&apos;s you</DialogTitle>
+            <DialogDescription>
+              {challenge?.channel === "totp"
+                ? "Enter the code from your authenticator app to schedule your account for deletion."
+                : `Enter the ${describeCode(codeLength, challenge?.codeFormat)} we sent to ${challenge?.destination} to schedule your account for deletion.`}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="flex justify-center py-2">
+            <OtpInput
+              value={code}
+              onChange={setCode}
+              length={codeLength}
+              format={challenge?.codeFormat}
+              disabled={isLoading}
+              autoFocus
+            />
+          </div>
+          <DialogFooter className="sm:justify-between">
+            {challenge?.channel === "totp" ? (
+              <span />
+            ) : (
+              <Button variant="ghost" onClick={sendCode} disabled={isLoading || !canResend}>
+                {canResend ? "Resend code" : `Resend in ${formatCountdown(resendIn)}`}
+              </Button>
+            )}
+            <Button variant="destructive" onClick={handleConfirm} disabled={isLoading || code.length !== codeLength}>
+              {isLoading ? "Verifying..." : "Delete Account"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  )
+}
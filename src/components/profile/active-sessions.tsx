@@ -0,0 +1,226 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { format, formatDistanceToNow } from "date-fns"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Label } from "@/components/ui/label"
+import { Separator } from "@/components/ui/separator"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
+import { useToast } from "@/hooks/use-toast"
+import { useSession } from "@/components/providers/session-provider"
+import { sessionsAPI } from "@/lib/auth/client"
+import type { AccountSessions, DeviceKind } from "@/lib/auth/types"
+import { Laptop, Loader2, MonitorSmartphone, ShieldCheck, Smartphone, Tablet } from "lucide-react"
+
+const deviceIcons: Record<DeviceKind, typeof Laptop> = {
+  desktop: Laptop,
+  mobile: Smartphone,
+  tablet: Tablet,
+}
+
+const timeAgo = (date: string) => formatDistanceToNow(new Date(date), { addSuffix: true })
+
+export function ActiveSessions() {
+  const { toast } = useToast()
+  const { logout } = useSession()
+  const [data, setData] = useState<AccountSessions | null>(null)
+  const [pendingId, setPendingId] = useState<string | null>(null)
+  const [showSignOutOthers, setShowSignOutOthers] = useState(false)
+
+  const showError = (error: unknown, fallback: string) => {
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : fallback,
+      variant: "destructive",
+    })
+  }
+
+  useEffect(() => {
+    sessionsAPI
+      .list()
+      .then(setData)
+      .catch((error) => showError(error, "Failed to load your sessions."))
+  }, [])
+
+  const handleSignOut = async (id: string) => {
+    setPendingId(id)
+    try {
+      setData(await sessionsAPI.signOut(id))
+      toast({ title: "Signed out", description: "That device will need to sign in again." })
+    } catch (error) {
+      showError(error, "Failed to sign out that session.")
+    } finally {
+      setPendingId(null)
+    }
+  }
+
+  const handleSignOutOthers = async () => {
+    setShowSignOutOthers(false)
+    setPendingId("others")
+    try {
+      setData(await sessionsAPI.signOutOthers())
+      toast({ title: "Signed out everywhere else", description: "Only this device is still signed in." })
+    } catch (error) {
+      showError(error, "Failed to sign out your other sessions.")
+    } finally {
+      setPendingId(null)
+    }
+  }
+
+  const handleForgetDevice = async (id: string) => {
+    setPendingId(`trusted-${id}`)
+    try {
+      setData(await sessionsAPI.forgetTrustedDevice(id))
+      toast({ title: "Device removed", description: "It will be asked for a verification code next time." })
+    } catch (error) {
+      showError(error, "Failed to remove that device.")
+    } finally {
+      setPendingId(null)
+    }
+  }
+
+  const otherSessions = data?.sessions.filter((session) => !session.current).length ?? 0
+
+  return (
+    <Card className="bg-card border-border">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <MonitorSmartphone className="w-5 h-5" />
+          Sessions
+        </CardTitle>
+        <CardDescription>
+          Devices where your account is signed in
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {!data ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <>
+            <div className="space-y-4">
+              {data.sessions.map((session) => {
+                const Icon = deviceIcons[session.kind]
+                return (
+                  <div key={session.id} className="flex items-center justify-between gap-4">
+                    <div className="flex items-start gap-3 min-w-0">
+                      <Icon className="w-5 h-5 mt-0.5 text-muted-foreground shrink-0" />
+                      <div className="space-y-0.5 min-w-0">
+                        <p className="text-sm font-medium text-foreground flex items-center gap-2">
+                          {session.browser} on {session.os}
+                          {session.current && <Badge variant="secondary">This device</Badge>}
+                        </p>
+                        <p className="text-sm text-muted-foreground truncate">
+                          {[
+                            session.ip,
+                            session.current ? "Active now" : `Last seen ${timeAgo(session.lastSeenAt)}`,
+                            session.remembered ? "Remembered" : null,
+                          ]
+                            .filter(Boolean)
+                            .join(" · ")}
+                        </p>
+                      </div>
+                    </div>
+                    {session.current ? (
+                      <Button variant="outline" size="sm" onClick={logout}>
+                        Sign out
+                      </Button>
+                    ) : (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleSignOut(session.id)}
+                        disabled={pendingId !== null}
+                      >
+                        {pendingId === session.id ? <Loader2 className="w-4 h-4 animate-spin" /> : "Sign out"}
+                      </Button>
+                    )}
+                  </div>
+                )
+              })}
+            </div>
+
+            {otherSessions > 0 && (
+              <div className="flex justify-end">
+                <Button
+                  variant="destructive"
+                  size="sm"
+                  onClick={() => setShowSignOutOthers(true)}
+                  disabled={pendingId !== null}
+                >
+                  {pendingId === "others" ? "Signing out..." : "Sign out all other sessions"}
+                </Button>
+              </div>
+            )}
+
+            <Separator />
+
+            <div className="space-y-4">
+              <div className="space-y-0.5">
+                <Label className="text-foreground flex items-center gap-2">
+                  <ShieldCheck className="w-4 h-4" />
+                  Trusted Devices
+                </Label>
+                <p className="text-sm text-muted-foreground">
+                  These devices skip the verification code when you sign in
+                </p>
+              </div>
+              {data.trustedDevices.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No trusted devices.</p>
+              ) : (
+                data.trustedDevices.map((device) => (
+                  <div key={device.id} className="flex items-center justify-between gap-4">
+                    <div className="space-y-0.5 min-w-0">
+                      <p className="text-sm font-medium text-foreground flex items-center gap-2">
+                        {device.browser} on {device.os}
+                        {device.current && <Badge variant="secondary">This device</Badge>}
+                      </p>
+                      <p className="text-sm text-muted-foreground">
+                        Trusted until {format(new Date(device.trustedUntil), "d MMM yyyy")}
+                      </p>
+                    </div>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleForgetDevice(device.id)}
+                      disabled={pendingId !== null}
+                    >
+                      {pendingId === `trusted-${device.id}` ? <Loader2 className="w-4 h-4 animate-spin" /> : "Remove"}
+                    </Button>
+                  </div>
+                ))
+              )}
+            </div>
+          </>
+        )}
+      </CardContent>
+
+      <AlertDialog open={showSignOutOthers} onOpenChange={setShowSignOutOthers}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Sign out all other sessions?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Every other device, including ones where you chose "Remember me", will need to sign in again.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleSignOutOthers}>Sign out</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  )
+}
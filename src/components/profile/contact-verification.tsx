@@ -0,0 +1,173 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { OtpInput, describeCode } from "@/components/auth/otp-verification"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { useToast } from "@/hooks/use-toast"
+import { formatCountdown } from "@/hooks/use-countdown"
+import { useResendCooldown } from "@/hooks/use-resend-cooldown"
+import { contactAPI } from "@/lib/auth/client"
+import type { ContactChannel, ContactDetails, ContactVerification } from "@/lib/auth/types"
+import { CheckCircle2, AlertCircle } from "lucide-react"
+
+const channelLabels: Record<ContactChannel, string> = {
+  email: "email address",
+  sms: "phone number",
+}
+
+/** Verified badge for a contact field, plus any change still waiting for its code. */
+export function ContactStatus({
+  verified,
+  pending,
+  onVerify,
+  onEnterCode,
+  onCancel,
+  disabled,
+}: {
+  verified: boolean
+  pending?: string
+  onVerify: () => void
+  onEnterCode: () => void
+  onCancel: () => void
+  disabled?: boolean
+}) {
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center gap-2">
+        {verified ? (
+          <Badge variant="secondary" className="bg-success/10 text-success">
+            <CheckCircle2 className="w-3 h-3 mr-1" />
+            Verified
+          </Badge>
+        ) : (
+          <>
+            <Badge variant="secondary" className="bg-warning/10 text-warning">
+              <AlertCircle className="w-3 h-3 mr-1" />
+              Unverified
+            </Badge>
+            {!pending && (
+              <button type="button" onClick={onVerify} disabled={disabled} className="text-xs text-primary hover:underline">
+                Verify now
+              </button>
+            )}
+          </>
+        )}
+      </div>
+      {pending && (
+        <p className="text-xs text-muted-foreground">
+          Waiting to confirm <span className="font-medium text-foreground">{pending}</span>.{" "}
+          <button type="button" onClick={onEnterCode} disabled={disabled} className="text-primary hover:underline">
+            Enter code
+          </button>{" "}
+          ·{" "}
+          <button type="button" onClick={onCancel} disabled={disabled} className="text-primary hover:underline">
+            Cancel change
+          </button>
+        </p>
+      )}
+    </div>
+  )
+}
+
+/** Asks for the code sent to a new (or unverified) email address or phone number. */
+export function ContactVerificationDialog({
+  verification,
+  onOpenChange,
+  onVerified,
+}: {
+  verification: ContactVerification | null
+  onOpenChange: (open: boolean) => void
+  onVerified: (contact: ContactDetails) => void
+}) {
+  const { toast } = useToast()
+  const [challenge, setChallenge] = useState(verification?.challenge ?? null)
+  const [code, setCode] = useState("")
+  const [isLoading, setIsLoading] = useState(false)
+
+  useEffect(() => {
+    setChallenge(verification?.challenge ?? null)
+    setCode("")
+  }, [verification])
+
+  const { secondsLeft: resendIn, canResend } = useResendCooldown(challenge?.resendAvailableAt)
+  const codeLength = challenge?.codeLength ?? 6
+  const channel: ContactChannel = challenge?.channel === "sms" ? "sms" : "email"
+
+  const showError = (error: unknown, fallback: string) => {
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : fallback,
+      variant: "destructive",
+    })
+  }
+
+  const handleConfirm = async () => {
+    if (!challenge) return
+    setIsLoading(true)
+    try {
+      const contact = await contactAPI.confirm(challenge.challengeId, code)
+      onVerified(contact)
+      toast({ title: "Verified", description: `Your ${channelLabels[channel]} is confirmed.` })
+    } catch (error) {
+      setCode("")
+      showError(error, "Failed to verify the code.")
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleResend = async () => {
+    if (!challenge) return
+    setIsLoading(true)
+    try {
+      const result = await contactAPI.resend(challenge.challengeId)
+      setChallenge(result.challenge)
+      toast({ title: "Code sent", description: `A new code is on its way to ${result.challenge.destination}.` })
+    } catch (error) {
+      showError(error, "Failed to resend the code.")
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <Dialog open={verification !== null} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Confirm your {channelLabels[channel]}</DialogTitle>
+          <DialogDescription>
+            Enter the {describeCode(codeLength, challenge?.codeFormat)} we sent to {challenge?.destination}. Your current {channelLabels[channel]} stays
+            in use until you do.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="flex justify-center py-2">
+          <OtpInput
+            value={code}
+            onChange={setCode}
+            length={codeLength}
+            format={challenge?.codeFormat}
+            disabled={isLoading}
+            autoFocus
+          />
+        </div>
+        <DialogFooter className="sm:justify-between">
+          <Button variant="ghost" onClick={handleResend} disabled={isLoading || !canResend}>
+            {canResend ? "Resend code" : `Resend in ${formatCountdown(resendIn)}`}
+          </Button>
+          <Button onClick={handleConfirm} disabled={isLoading || code.length !== codeLength}>
+            {isLoading ? "Verifying..." : "Verify"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,173 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { format, formatDistanceToNow } from "date-fns"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
+import { useToast } from "@/hooks/use-toast"
+import { passkeysAPI } from "@/lib/auth/client"
+import { isPasskeySupported, registerPasskey } from "@/lib/auth/passkeys"
+import type { Passkey } from "@/lib/auth/types"
+import { Fingerprint, KeyRound, Loader2, Plus } from "lucide-react"
+
+export function PasskeySettings() {
+  const { toast } = useToast()
+  const [passkeys, setPasskeys] = useState<Passkey[] | null>(null)
+  const [supported, setSupported] = useState(true)
+  const [name, setName] = useState("")
+  const [isAdding, setIsAdding] = useState(false)
+  const [pendingRemoval, setPendingRemoval] = useState<Passkey | null>(null)
+  const [removingId, setRemovingId] = useState<string | null>(null)
+
+  const showError = (error: unknown, fallback: string) => {
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : fallback,
+      variant: "destructive",
+    })
+  }
+
+  useEffect(() => {
+    setSupported(isPasskeySupported())
+    passkeysAPI
+      .list()
+      .then(setPasskeys)
+      .catch((error) => showError(error, "Failed to load your passkeys."))
+  }, [])
+
+  const handleAdd = async () => {
+    setIsAdding(true)
+    try {
+      setPasskeys(await registerPasskey(name.trim() || undefined))
+      setName("")
+      toast({ title: "Passkey added", description: "You can now sign in with it instead of your password." })
+    } catch (error) {
+      showError(error, "Failed to add a passkey.")
+    } finally {
+      setIsAdding(false)
+    }
+  }
+
+  const handleRemove = async () => {
+    if (!pendingRemoval) return
+    const { id } = pendingRemoval
+    setPendingRemoval(null)
+    setRemovingId(id)
+    try {
+      setPasskeys(await passkeysAPI.remove(id))
+      toast({ title: "Passkey removed", description: "It can no longer be used to sign in." })
+    } catch (error) {
+      showError(error, "Failed to remove that passkey.")
+    } finally {
+      setRemovingId(null)
+    }
+  }
+
+  return (
+    <Card className="bg-card border-border">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Fingerprint className="w-5 h-5" />
+          Passkeys
+        </CardTitle>
+        <CardDescription>
+          Sign in with your fingerprint, face or device PIN instead of a password and code
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {!passkeys ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <>
+            <div className="space-y-4">
+              {passkeys.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No passkeys yet.</p>
+              ) : (
+                passkeys.map((passkey) => (
+                  <div key={passkey.id} className="flex items-center justify-between gap-4">
+                    <div className="flex items-start gap-3 min-w-0">
+                      <KeyRound className="w-5 h-5 mt-0.5 text-muted-foreground shrink-0" />
+                      <div className="space-y-0.5 min-w-0">
+                        <p className="text-sm font-medium text-foreground flex items-center gap-2">
+                          <span className="truncate">{passkey.name}</span>
+                          <Badge variant="secondary">{passkey.synced ? "Synced" : "This device only"}</Badge>
+                        </p>
+                        <p className="text-sm text-muted-foreground truncate">
+                          Added {format(new Date(passkey.createdAt), "d MMM yyyy")}
+                          {passkey.lastUsedAt
+                            ? ` · Last used ${formatDistanceToNow(new Date(passkey.lastUsedAt), { addSuffix: true })}`
+                            : " · Never used"}
+                        </p>
+                      </div>
+                    </div>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setPendingRemoval(passkey)}
+                      disabled={removingId !== null}
+                    >
+                      {removingId === passkey.id ? <Loader2 className="w-4 h-4 animate-spin" /> : "Remove"}
+                    </Button>
+                  </div>
+                ))
+              )}
+            </div>
+
+            {supported ? (
+              <div className="space-y-2">
+                <Label htmlFor="passkey-name">Name (optional)</Label>
+                <div className="flex gap-2">
+                  <Input
+                    id="passkey-name"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    placeholder="e.g. Work laptop"
+                    maxLength={60}
+                    disabled={isAdding}
+                  />
+                  <Button onClick={handleAdd} disabled={isAdding}>
+                    {isAdding ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Plus className="w-4 h-4 mr-2" />}
+                    Add passkey
+                  </Button>
+                </div>
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">This browser doesn't support passkeys.</p>
+            )}
+          </>
+        )}
+      </CardContent>
+
+      <AlertDialog open={pendingRemoval !== null} onOpenChange={(open) => !open && setPendingRemoval(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Remove this passkey?</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{pendingRemoval?.name}" will stop working for EduDash. You may also want to delete it from your
+              device or password manager.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleRemove}>Remove</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  )
+}
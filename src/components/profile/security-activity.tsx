@@ -0,0 +1,121 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { format, formatDistanceToNow } from "date-fns"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { useToast } from "@/hooks/use-toast"
+import { activityAPI } from "@/lib/auth/client"
+import { describeSecurityEvent } from "@/lib/auth/audit"
+import type { AuthEventType, SecurityEvent } from "@/lib/auth/types"
+import {
+  History,
+  KeyRound,
+  Loader2,
+  LogIn,
+  LogOut,
+  MailCheck,
+  MessageSquare,
+  MonitorX,
+  ShieldAlert,
+  ShieldX,
+  Undo2,
+  UserX,
+} from "lucide-react"
+
+const eventIcons: Record<AuthEventType, typeof LogIn> = {
+  "sign-in": LogIn,
+  "sign-in-failed": ShieldAlert,
+  "sign-out": LogOut,
+  "otp-sent": MessageSquare,
+  "otp-verified": MailCheck,
+  "otp-failed": ShieldX,
+  "password-changed": KeyRound,
+  "session-revoked": MonitorX,
+  "deletion-scheduled": UserX,
+  "deletion-cancelled": Undo2,
+}
+
+const FAILURES: AuthEventType[] = ["sign-in-failed", "otp-failed"]
+
+// Enough to spot something odd without turning settings into a log viewer
+const INITIAL_COUNT = 8
+
+export function SecurityActivity() {
+  const { toast } = useToast()
+  const [events, setEvents] = useState<SecurityEvent[] | null>(null)
+  const [showAll, setShowAll] = useState(false)
+
+  useEffect(() => {
+    activityAPI
+      .list()
+      .then(setEvents)
+      .catch((error) =>
+        toast({
+          title: "Error",
+          description: error instanceof Error ? error.message : "Failed to load your security activity.",
+          variant: "destructive",
+        })
+      )
+  }, [])
+
+  const visible = showAll ? events : events?.slice(0, INITIAL_COUNT)
+
+  return (
+    <Card className="bg-card border-border">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="w-5 h-5" />
+          Security Activity
+        </CardTitle>
+        <CardDescription>
+          Recent sign-ins, verification codes and changes to your account. If something here wasn't you, change your
+          password and sign out your other sessions.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!events || !visible ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : events.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No activity yet.</p>
+        ) : (
+          <>
+            {visible.map((event) => {
+              const Icon = eventIcons[event.type]
+              const failed = FAILURES.includes(event.type)
+              return (
+                <div key={event.id} className="flex items-start gap-3">
+                  <Icon className={`w-5 h-5 mt-0.5 shrink-0 ${failed ? "text-destructive" : "text-muted-foreground"}`} />
+                  <div className="space-y-0.5 min-w-0">
+                    <p className="text-sm font-medium text-foreground">{describeSecurityEvent(event)}</p>
+                    <p className="text-sm text-muted-foreground truncate">
+                      {[
+                        `${event.browser} on ${event.os}`,
+                        event.ip,
+                        event.detail,
+                      ]
+                        .filter(Boolean)
+                        .join(" · ")}
+                    </p>
+                    <p className="text-xs text-muted-foreground" title={format(new Date(event.createdAt), "PPpp")}>
+                      {formatDistanceToNow(new Date(event.createdAt), { addSuffix: true })}
+                    </p>
+                  </div>
+                </div>
+              )
+            })}
+            {events.length > INITIAL_COUNT && (
+              <div className="flex justify-center">
+                <Button variant="ghost" size="sm" onClick={() => setShowAll(!showAll)}>
+                  {showAll ? "Show less" : `Show all ${events.length}`}
+                </Button>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
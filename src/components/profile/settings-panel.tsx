@@ -1,6 +1,6 @@
 "use client"
 
-import { useState } from "react"
+import { useEffect, useState } from "react"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Input } from "@/components/ui/input"
@@ -33,6 +33,18 @@ import {
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog"
 import { useToast } from "@/hooks/use-toast"
+import { TwoFactorSettings } from "@/components/profile/two-factor-settings"
+import { PasskeySettings } from "@/components/profile/passkey-settings"
+import { ActiveSessions } from "@/components/profile/active-sessions"
+import { SecurityActivity } from "@/components/profile/security-activity"
+import { AccountData } from "@/components/profile/account-data"
+import { ContactStatus, ContactVerificationDialog } from "@/components/profile/contact-verification"
+import { PasswordRequirements } from "@/components/auth/password-requirements"
+import { usePasswordPolicy } from "@/hooks/use-password-policy"
+import { authAPI, contactAPI } from "@/lib/auth/client"
+import { passwordPolicyError } from "@/lib/auth/password-policy"
+import { formatPhoneNumber, toE164 } from "@/lib/auth/phone"
+import type { ContactChannel, ContactDetails, ContactVerification } from "@/lib/auth/types"
 import {
   User,
   Settings,
@@ -132,10 +144,86 @@ export default function SettingsPanel() {
     new: "",
     confirm: "",
   })
+  const [isChangingPassword, setIsChangingPassword] = useState(false)
+  const passwordPolicy = usePasswordPolicy()
+
+  const [contact, setContact] = useState<ContactDetails | null>(null)
+  const [verification, setVerification] = useState<ContactVerification | null>(null)
+
+  const applyContact = (details: ContactDetails) => {
+    setContact(details)
+    setProfileData((prev) => ({
+      ...prev,
+      email: details.email,
+      phone: details.phone ? formatPhoneNumber(details.phone) : "",
+    }))
+  }
+
+  useEffect(() => {
+    contactAPI
+      .get()
+      .then(applyContact)
+      .catch(() => {
+        // Keep the placeholder details if the account can't be loaded
+      })
+  }, [])
+
+  const showContactError = (error: unknown, fallback: string) => {
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : fallback,
+      variant: "destructive",
+    })
+  }
+
+  // Sends a code to `value`; asking again for a pending value resends it
+  const startVerification = async (channel: ContactChannel, value: string) => {
+    const result = await contactAPI.startVerification(channel, value)
+    setContact(result.contact)
+    setVerification(result)
+  }
+
+  const handleVerifyContact = async (channel: ContactChannel, value: string) => {
+    setIsLoading(true)
+    try {
+      await startVerification(channel, value)
+    } catch (error) {
+      showContactError(error, "Failed to send a verification code.")
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleCancelContactChange = async (channel: ContactChannel) => {
+    setIsLoading(true)
+    try {
+      applyContact(await contactAPI.cancel(channel))
+    } catch (error) {
+      showContactError(error, "Failed to cancel the change.")
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleContactVerified = (details: ContactDetails) => {
+    applyContact(details)
+    setVerification(null)
+  }
 
   const handleSaveProfile = async () => {
     setIsLoading(true)
     try {
+      // Email and phone changes only apply once the new value is confirmed
+      if (contact) {
+        const email = profileData.email.trim().toLowerCase()
+        const phone = toE164(profileData.phone) ?? profileData.phone.trim()
+        if (email !== contact.email && email !== contact.pendingEmail) {
+          await startVerification("email", email)
+        } else if (phone && phone !== contact.phone && phone !== contact.pendingPhone) {
+          await startVerification("sms", phone)
+        }
+      }
+
       // Simulate API call
       await new Promise((resolve) => setTimeout(resolve, 1000))
       toast({
@@ -145,7 +233,7 @@ export default function SettingsPanel() {
     } catch (error) {
       toast({
         title: "Error",
-        description: "Failed to update profile. Please try again.",
+        description: error instanceof Error ? error.message : "Failed to update profile. Please try again.",
         variant: "destructive",
       })
     } finally {
@@ -154,32 +242,32 @@ export default function SettingsPanel() {
   }
 
   const handlePasswordChange = async () => {
-    if (passwords.new !== passwords.confirm) {
+    const policyError = passwordPolicyError(passwordPolicy, passwords.new)
+    if (policyError || passwords.new !== passwords.confirm) {
       toast({
         title: "Error",
-        description: "New passwords don't match.",
+        description: policyError ?? "New passwords don't match.",
         variant: "destructive",
       })
       return
     }
 
-    setIsLoading(true)
+    setIsChangingPassword(true)
     try {
-      // Simulate API call
-      await new Promise((resolve) => setTimeout(resolve, 1000))
+      await authAPI.changePassword(passwords.current, passwords.new)
       setPasswords({ current: "", new: "", confirm: "" })
       toast({
         title: "Password updated",
-        description: "Your password has been changed successfully.",
+        description: "Your password has been changed and your other devices have been signed out.",
       })
     } catch (error) {
       toast({
         title: "Error",
-        description: "Failed to update password. Please try again.",
+        description: error instanceof Error ? error.message : "Failed to update password. Please try again.",
         variant: "destructive",
       })
     } finally {
-      setIsLoading(false)
+      setIsChangingPassword(false)
     }
   }
 
@@ -325,15 +413,37 @@ export default function SettingsPanel() {
                       onChange={(e) => setProfileData({ ...profileData, email: e.target.value })}
                       className="bg-background border-border"
                     />
+                    {contact && (
+                      <ContactStatus
+                        verified={contact.emailVerified}
+                        pending={contact.pendingEmail}
+                        onVerify={() => handleVerifyContact("email", contact.email)}
+                        onEnterCode={() => handleVerifyContact("email", contact.pendingEmail ?? contact.email)}
+                        onCancel={() => handleCancelContactChange("email")}
+                        disabled={isLoading}
+                      />
+                    )}
                   </div>
                   <div className="space-y-2">
                     <Label htmlFor="phone" className="text-foreground">Phone Number</Label>
                     <Input
                       id="phone"
+                      type="tel"
+                      placeholder="+44 7700 900123"
                       value={profileData.phone}
                       onChange={(e) => setProfileData({ ...profileData, phone: e.target.value })}
                       className="bg-background border-border"
                     />
+                    {contact && (contact.phone || contact.pendingPhone) && (
+                      <ContactStatus
+                        verified={contact.phoneVerified}
+                        pending={contact.pendingPhone && formatPhoneNumber(contact.pendingPhone)}
+                        onVerify={() => contact.phone && handleVerifyContact("sms", contact.phone)}
+                        onEnterCode={() => handleVerifyContact("sms", contact.pendingPhone ?? contact.phone ?? "")}
+                        onCancel={() => handleCancelContactChange("sms")}
+                        disabled={isLoading}
+                      />
+                    )}
                   </div>
                   <div className="space-y-2">
                     <Label htmlFor="location" className="text-foreground">Location</Label>
@@ -410,6 +520,7 @@ export default function SettingsPanel() {
                         type={showNewPassword ? "text" : "password"}
                         value={passwords.new}
                         onChange={(e) => setPasswords({ ...passwords, new: e.target.value })}
+                        autoComplete="new-password"
                         className="bg-background border-border pr-10"
                       />
                       <Button
@@ -422,6 +533,7 @@ export default function SettingsPanel() {
                         {showNewPassword ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
                       </Button>
                     </div>
+                    {passwords.new && <PasswordRequirements policy={passwordPolicy} password={passwords.new} />}
                   </div>
                   <div className="space-y-2">
                     <Label htmlFor="confirm-password" className="text-foreground">Confirm New Password</Label>
@@ -446,14 +558,30 @@ export default function SettingsPanel() {
                   </div>
                 </div>
                 <div className="flex justify-end">
-                  <Button onClick={handlePasswordChange} disabled={isLoading} className="bg-primary hover:bg-primary/90">
+                  <Button
+                    onClick={handlePasswordChange}
+                    disabled={isChangingPassword || !passwords.new || !passwords.confirm}
+                    className="bg-primary hover:bg-primary/90"
+                  >
                     <Shield className="w-4 h-4 mr-2" />
-                    {isLoading ? "Updating..." : "Update Password"}
+                    {isChangingPassword ? "Updating..." : "Update Password"}
                   </Button>
                 </div>
               </CardContent>
             </Card>
 
+            {/* Two-Factor Authentication */}
+            <TwoFactorSettings />
+
+            {/* Passkeys */}
+            <PasskeySettings />
+
+            {/* Sessions */}
+            <ActiveSessions />
+
+            {/* Security Activity */}
+            <SecurityActivity />
+
             {/* Notification Preferences */}
             <Card className="bg-card border-border">
               <CardHeader>
@@ -607,6 +735,9 @@ export default function SettingsPanel() {
                 </div>
               </CardContent>
             </Card>
+
+            {/* Data Export and Account Deletion */}
+            <AccountData />
           </TabsContent>
 
           <TabsContent value="appearance" className="mt-6">
@@ -809,6 +940,12 @@ export default function SettingsPanel() {
           </TabsContent>
         </Tabs>
       </div>
+
+      <ContactVerificationDialog
+        verification={verification}
+        onOpenChange={(open) => !open && setVerification(null)}
+        onVerified={handleContactVerified}
+      />
     </div>
   )
 }
\ No newline at end of file
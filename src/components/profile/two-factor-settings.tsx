@@ -0,0 +1,428 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import QRCode from "qrcode"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Separator } from "@/components/ui/separator"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { OtpInput } from "@/components/auth/otp-verification"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { useToast } from "@/hooks/use-toast"
+import { twoFactorAPI } from "@/lib/auth/client"
+import type { TotpEnrollment, TwoFactorStatus, VerificationMethod } from "@/lib/auth/types"
+import { Download, KeyRound, LifeBuoy, Loader2, Printer, Smartphone } from "lucide-react"
+
+const methodLabels: Record<VerificationMethod, string> = {
+  totp: "Authenticator app",
+  sms: "Text message (SMS)",
+  voice: "Phone call",
+  email: "Email",
+}
+
+const recoveryCodesText = (codes: string[]) =>
+  [
+    "EduDash recovery codes",
+    "Each code can be used once to sign in if you lose access to your phone.",
+    "",
+    ...codes,
+  ].join("\n")
+
+const downloadRecoveryCodes = (codes: string[]) => {
+  const url = URL.createObjectURL(new Blob([recoveryCodesText(codes)], { type: "text/plain" }))
+  const link = document.createElement("a")
+  link.href = url
+  link.download = "edudash-recovery-codes.txt"
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+const printRecoveryCodes = (codes: string[]) => {
+  const printWindow = window.open("", "_blank", "width=480,height=640")
+  if (!printWindow) return
+  const pre = printWindow.document.createElement("pre")
+  pre.textContent = recoveryCodesText(codes)
+  pre.style.font = "14px monospace"
+  printWindow.document.body.appendChild(pre)
+  printWindow.print()
+  printWindow.close()
+}
+
+// Authenticator apps always show six digits
+const CodeInput = ({ value, onChange, disabled }: { value: string; onChange: (value: string) => void; disabled?: boolean }) => (
+  <OtpInput value={value} onChange={onChange} disabled={disabled} length={6} className="justify-start" />
+)
+
+export function TwoFactorSettings() {
+  const { toast } = useToast()
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null)
+  const [enrollment, setEnrollment] = useState<TotpEnrollment | null>(null)
+  const [qrCode, setQrCode] = useState("")
+  const [code, setCode] = useState("")
+  const [showDisable, setShowDisable] = useState(false)
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null)
+  const [showRegenerate, setShowRegenerate] = useState(false)
+  const [password, setPassword] = useState("")
+  const [usePassword, setUsePassword] = useState(false)
+  const [isLoading, setIsLoading] = useState(false)
+
+  const showError = (error: unknown, fallback: string) => {
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : fallback,
+      variant: "destructive",
+    })
+  }
+
+  useEffect(() => {
+    twoFactorAPI
+      .getStatus()
+      .then(setStatus)
+      .catch((error) => showError(error, "Failed to load two-factor settings."))
+  }, [])
+
+  useEffect(() => {
+    if (!enrollment) {
+      setQrCode("")
+      return
+    }
+    QRCode.toDataURL(enrollment.otpauthUri, { margin: 1, width: 192 })
+      .then(setQrCode)
+      .catch(() => setQrCode(""))
+  }, [enrollment])
+
+  const handleStartEnrollment = async () => {
+    setIsLoading(true)
+    try {
+      setEnrollment(await twoFactorAPI.startTotpEnrollment())
+      setCode("")
+    } catch (error) {
+      showError(error, "Failed to start authenticator setup.")
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleConfirmEnrollment = async () => {
+    setIsLoading(true)
+    try {
+      const { recoveryCodes, ...nextStatus } = await twoFactorAPI.confirmTotpEnrollment(code)
+      setStatus(nextStatus)
+      setRecoveryCodes(recoveryCodes)
+      setEnrollment(null)
+      setCode("")
+      toast({
+        title: "Authenticator app enabled",
+        description: "Save your recovery codes somewhere safe before you continue.",
+      })
+    } catch (error) {
+      showError(error, "Failed to verify the code. Please try again.")
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleDisable = async () => {
+    setIsLoading(true)
+    try {
+      setStatus(await twoFactorAPI.disableTotp(code))
+      setShowDisable(false)
+      setCode("")
+      toast({
+        title: "Authenticator app removed",
+        description: "Sign-in codes will be sent by email or SMS instead.",
+      })
+    } catch (error) {
+      showError(error, "Failed to remove the authenticator app.")
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const openRegenerate = () => {
+    setCode("")
+    setPassword("")
+    setUsePassword(!status?.totpEnabled)
+    setShowRegenerate(true)
+  }
+
+  const handleRegenerateRecoveryCodes = async () => {
+    setIsLoading(true)
+    try {
+      const { recoveryCodes, ...nextStatus } = await twoFactorAPI.regenerateRecoveryCodes(
+        usePassword ? { password } : { code }
+      )
+      setStatus(nextStatus)
+      setRecoveryCodes(recoveryCodes)
+      setShowRegenerate(false)
+      toast({
+        title: "New recovery codes generated",
+        description: "Your previous recovery codes no longer work.",
+      })
+    } catch (error) {
+      showError(error, "Failed to generate recovery codes.")
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handlePreferredMethodChange = async (method: VerificationMethod) => {
+    try {
+      setStatus(await twoFactorAPI.setPreferredMethod(method))
+      toast({
+        title: "Preference saved",
+        description: `${methodLabels[method]} will be used to verify your sign-ins.`,
+      })
+    } catch (error) {
+      showError(error, "Failed to save your preference.")
+    }
+  }
+
+  return (
+    <Card className="bg-card border-border">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <KeyRound className="w-5 h-5" />
+          Two-Factor Authentication
+        </CardTitle>
+        <CardDescription>
+          Choose how you confirm it's you each time you sign in
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {!status ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <>
+            <div className="flex items-center justify-between">
+              <div className="space-y-0.5">
+                <Label className="text-foreground flex items-center gap-2">
+                  <Smartphone className="w-4 h-4" />
+                  Authenticator App
+                </Label>
+                <p className="text-sm text-muted-foreground">
+                  Use Google Authenticator, 1Password or a similar app to generate codes
+                </p>
+              </div>
+              {status.totpEnabled ? (
+                <div className="flex items-center gap-2">
+                  <Badge variant="secondary">Enabled</Badge>
+                  <Button variant="outline" size="sm" onClick={() => { setCode(""); setShowDisable(true) }}>
+                    Remove
+                  </Button>
+                </div>
+              ) : (
+                !enrollment && (
+                  <Button variant="outline" size="sm" onClick={handleStartEnrollment} disabled={isLoading}>
+                    Set up
+                  </Button>
+                )
+              )}
+            </div>
+
+            {enrollment && (
+              <div className="rounded-lg border border-border p-4 space-y-4">
+                <p className="text-sm text-muted-foreground">
+                  Scan this QR code with your authenticator app, then enter the 6-digit code it shows.
+                </p>
+                <div className="flex flex-col sm:flex-row items-center gap-4">
+                  {qrCode && (
+                    <img src={qrCode} alt="Authenticator QR code" className="w-48 h-48 rounded-md bg-white" />
+                  )}
+                  <div className="space-y-2 min-w-0">
+                    <Label className="text-foreground">Can't scan it? Enter this key instead</Label>
+                    <code className="block break-all rounded bg-muted px-2 py-1 font-mono text-sm">
+                      {enrollment.secret.match(/.{1,4}/g)?.join(" ")}
+                    </code>
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <Label className="text-foreground">Verification Code</Label>
+                  <CodeInput value={code} onChange={setCode} disabled={isLoading} />
+                </div>
+                <div className="flex justify-end gap-2">
+                  <Button variant="ghost" onClick={() => setEnrollment(null)} disabled={isLoading}>
+                    Cancel
+                  </Button>
+                  <Button
+                    onClick={handleConfirmEnrollment}
+                    disabled={isLoading || code.length !== 6}
+                    className="bg-primary hover:bg-primary/90"
+                  >
+                    {isLoading ? "Verifying..." : "Enable"}
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            <Separator />
+
+            <div className="flex items-center justify-between">
+              <div className="space-y-0.5">
+                <Label className="text-foreground flex items-center gap-2">
+                  <LifeBuoy className="w-4 h-4" />
+                  Recovery Codes
+                </Label>
+                <p className="text-sm text-muted-foreground">
+                  {status.recoveryCodesRemaining > 0
+                    ? `${status.recoveryCodesRemaining} unused ${status.recoveryCodesRemaining === 1 ? "code" : "codes"} left for when you can't get a code`
+                    : "Single-use codes for when you can't get a code"}
+                </p>
+              </div>
+              <Button variant="outline" size="sm" onClick={openRegenerate} disabled={isLoading}>
+                {status.recoveryCodesRemaining > 0 ? "Regenerate" : "Generate"}
+              </Button>
+            </div>
+
+            {recoveryCodes && (
+              <div className="rounded-lg border border-border p-4 space-y-4">
+                <p className="text-sm text-muted-foreground">
+                  Keep these codes somewhere safe. Each one can be used once, and they won't be shown again.
+                </p>
+                <div className="grid grid-cols-2 gap-2 font-mono text-sm">
+                  {recoveryCodes.map((recoveryCode) => (
+                    <code key={recoveryCode} className="rounded bg-muted px-2 py-1 text-center">
+                      {recoveryCode}
+                    </code>
+                  ))}
+                </div>
+                <div className="flex flex-wrap justify-end gap-2">
+                  <Button variant="outline" size="sm" onClick={() => downloadRecoveryCodes(recoveryCodes)}>
+                    <Download className="w-4 h-4 mr-2" />
+                    Download
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => printRecoveryCodes(recoveryCodes)}>
+                    <Printer className="w-4 h-4 mr-2" />
+                    Print
+                  </Button>
+                  <Button size="sm" onClick={() => setRecoveryCodes(null)} className="bg-primary hover:bg-primary/90">
+                    I've saved them
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            <Separator />
+
+            <div className="flex items-center justify-between">
+              <div className="space-y-0.5">
+                <Label className="text-foreground">Preferred Method</Label>
+                <p className="text-sm text-muted-foreground">
+                  Used first when you sign in
+                </p>
+              </div>
+              <Select
+                value={status.preferredMethod}
+                onValueChange={(value) => handlePreferredMethodChange(value as VerificationMethod)}
+              >
+                <SelectTrigger className="w-48 bg-background border-border">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {status.methods.map((method) => (
+                    <SelectItem key={method} value={method}>
+                      {methodLabels[method]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </>
+        )}
+      </CardContent>
+
+      <Dialog open={showDisable} onOpenChange={setShowDisable}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Remove authenticator app</DialogTitle>
+            <DialogDescription>
+              Enter a current code from your authenticator app to confirm.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="flex justify-center py-2">
+            <CodeInput value={code} onChange={setCode} disabled={isLoading} />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowDisable(false)} disabled={isLoading}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleDisable} disabled={isLoading || code.length !== 6}>
+              {isLoading ? "Removing..." : "Remove"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={showRegenerate} onOpenChange={setShowRegenerate}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {status && status.recoveryCodesRemaining > 0 ? "Generate new recovery codes?" : "Generate recovery codes"}
+            </DialogTitle>
+            <DialogDescription>
+              {status && status.recoveryCodesRemaining > 0 && "Your existing recovery codes will stop working immediately. "}
+              {usePassword
+                ? status?.hasPassword
+                  ? "Enter your password to confirm."
+                  : "Confirm to continue."
+                : "Enter a current code from your authenticator app to confirm."}
+            </DialogDescription>
+          </DialogHeader>
+          {usePassword ? (
+            status?.hasPassword && (
+              <Input
+                type="password"
+                autoComplete="current-password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                disabled={isLoading}
+                className="bg-background border-border"
+              />
+            )
+          ) : (
+            <div className="flex justify-center py-2">
+              <CodeInput value={code} onChange={setCode} disabled={isLoading} />
+            </div>
+          )}
+          {status?.totpEnabled && status.hasPassword && (
+            <Button
+              variant="link"
+              size="sm"
+              className="px-0 self-start"
+              onClick={() => setUsePassword(!usePassword)}
+              disabled={isLoading}
+            >
+              {usePassword ? "Use your authenticator app instead" : "Use your password instead"}
+            </Button>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowRegenerate(false)} disabled={isLoading}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleRegenerateRecoveryCodes}
+              disabled={
+                isLoading || (usePassword ? Boolean(status?.hasPassword) && !password : code.length !== 6)
+              }
+              className="bg-primary hover:bg-primary/90"
+            >
+              {isLoading ? "Generating..." : "Generate"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  )
+}
@@ -0,0 +1,82 @@
+"use client";
+
+import React, { createContext, useCallback, useContext, useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { authAPI } from "@/lib/auth/client";
+import type { User } from "@/lib/auth/types";
+import { LOGIN_ROUTE } from "@/lib/routes";
+
+type SessionStatus = "loading" | "authenticated" | "unauthenticated";
+
+interface SessionContextValue {
+  user: User | null;
+  status: SessionStatus;
+  setUser: (user: User) => void;
+  logout: () => Promise<void>;
+}
+
+const SessionContext = createContext<SessionContextValue | undefined>(undefined);
+
+interface SessionProviderProps {
+  children: React.ReactNode;
+}
+
+export const SessionProvider: React.FC<SessionProviderProps> = ({ children }) => {
+  const router = useRouter();
+  const [user, setUserState] = useState<User | null>(null);
+  const [status, setStatus] = useState<SessionStatus>("loading");
+
+  const redirectToLogin = useCallback(() => {
+    const next = `${window.location.pathname}${window.location.search}`;
+    router.replace(`${LOGIN_ROUTE}?next=${encodeURIComponent(next)}`);
+  }, [router]);
+
+  // The middleware only checks the cookie signature; confirm the session is
+  // still live and load the user. A revoked session clears its cookie here.
+  useEffect(() => {
+    let cancelled = false;
+
+    authAPI.getSession()
+      .catch(() => null)
+      .then(sessionUser => {
+        if (cancelled) return;
+        setUserState(sessionUser);
+        setStatus(sessionUser ? "authenticated" : "unauthenticated");
+        if (!sessionUser) redirectToLogin();
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const setUser = useCallback((nextUser: User) => {
+    setUserState(nextUser);
+    setStatus("authenticated");
+  }, []);
+
+  const logout = useCallback(async () => {
+    try {
+      await authAPI.logout();
+    } catch {
+      // Still drop local state; the session expires server-side regardless
+    }
+    setUserState(null);
+    setStatus("unauthenticated");
+    router.replace(LOGIN_ROUTE);
+  }, [router]);
+
+  return (
+    <SessionContext.Provider value={{ user, status, setUser, logout }}>
+      {children}
+    </SessionContext.Provider>
+  );
+};
+
+export const useSession = () => {
+  const context = useContext(SessionContext);
+  if (!context) {
+    throw new Error("useSession must be used within a SessionProvider");
+  }
+  return context;
+};
@@ -0,0 +1,29 @@
+import * as React from "react"
+
+const secondsUntil = (target?: Date | null) =>
+  target ? Math.max(0, Math.ceil((target.getTime() - Date.now()) / 1000)) : 0
+
+/** Whole seconds remaining until `target`, ticking once a second. */
+export function useCountdown(target?: Date | null) {
+  const [secondsLeft, setSecondsLeft] = React.useState(() => secondsUntil(target))
+
+  React.useEffect(() => {
+    setSecondsLeft(secondsUntil(target))
+    if (!target) return
+
+    const interval = setInterval(() => {
+      const next = secondsUntil(target)
+      setSecondsLeft(next)
+      if (next === 0) clearInterval(interval)
+    }, 1000)
+    return () => clearInterval(interval)
+  }, [target?.getTime()])
+
+  return secondsLeft
+}
+
+export const formatCountdown = (seconds: number) => {
+  const mins = Math.floor(seconds / 60)
+  const secs = seconds % 60
+  return `${mins}:${secs.toString().padStart(2, "0")}`
+}
@@ -0,0 +1,33 @@
+import * as React from "react"
+import { authAPI } from "@/lib/auth/client"
+import { DEFAULT_PASSWORD_POLICY } from "@/lib/auth/password-policy"
+import type { PasswordPolicy } from "@/lib/auth/types"
+
+// Fetched once per page load and shared by every password form on it
+let pending: Promise<PasswordPolicy> | null = null
+
+/**
+ * The server's password policy. The defaults stand in until it loads; the
+ * server checks new passwords against the real one either way.
+ */
+export function usePasswordPolicy() {
+  const [policy, setPolicy] = React.useState<PasswordPolicy>(DEFAULT_PASSWORD_POLICY)
+
+  React.useEffect(() => {
+    let cancelled = false
+    pending ??= authAPI.getPasswordPolicy().catch((error) => {
+      pending = null
+      throw error
+    })
+    pending
+      .then((value) => {
+        if (!cancelled) setPolicy(value)
+      })
+      .catch(() => {})
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  return policy
+}
@@ -0,0 +1,25 @@
+import * as React from "react"
+import { useCountdown } from "@/hooks/use-countdown"
+
+const toDate = (value?: string | Date | null) => (value ? new Date(value) : null)
+
+/**
+ * Seconds until another code may be requested. Follows the server's
+ * `resendAvailableAt`; `restart()` also holds resending back locally, for
+ * the moment between sending and the new challenge arriving.
+ */
+export function useResendCooldown(availableAt?: string | Date | null, fallbackSeconds = 30) {
+  const serverTime = toDate(availableAt)?.getTime()
+  const serverTarget = React.useMemo(() => (serverTime ? new Date(serverTime) : null), [serverTime])
+  const [localTarget, setLocalTarget] = React.useState<Date | null>(null)
+
+  const secondsLeft = Math.max(useCountdown(serverTarget), useCountdown(localTarget))
+
+  const restart = React.useCallback(
+    (until?: string | Date | null) =>
+      setLocalTarget(toDate(until) ?? new Date(Date.now() + fallbackSeconds * 1000)),
+    [fallbackSeconds]
+  )
+
+  return { secondsLeft, canResend: secondsLeft === 0, restart }
+}
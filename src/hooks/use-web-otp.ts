@@ -0,0 +1,34 @@
+import * as React from "react"
+
+type OtpCredential = Credential & { code: string }
+
+export const isWebOtpSupported = () => typeof window !== "undefined" && "OTPCredential" in window
+
+/**
+ * Listens for an incoming SMS code through the WebOTP API while `enabled`.
+ * The message must end with `@<host> #<code>`; the browser asks the user
+ * before handing the code over. Does nothing where the API is missing.
+ */
+export function useWebOtp(onCode: (code: string) => void, enabled = true) {
+  const onCodeRef = React.useRef(onCode)
+
+  React.useEffect(() => {
+    onCodeRef.current = onCode
+  }, [onCode])
+
+  React.useEffect(() => {
+    if (!enabled || !isWebOtpSupported()) return
+
+    const controller = new AbortController()
+    navigator.credentials
+      .get({ otp: { transport: ["sms"] }, signal: controller.signal } as CredentialRequestOptions)
+      .then((credential) => {
+        const code = (credential as OtpCredential | null)?.code
+        if (code) onCodeRef.current(code)
+      })
+      .catch(() => {
+        // Aborted on unmount, or the user dismissed the prompt
+      })
+    return () => controller.abort()
+  }, [enabled])
+}
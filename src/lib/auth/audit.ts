@@ -0,0 +1,74 @@
+import type { AuthEventMethod, AuthEventType, OtpPurpose, SecurityEvent } from './types';
+
+// Wording for security events, shared by the account's activity list, the
+// admin audit log and its CSV export.
+
+export const AUTH_EVENT_TYPES = [
+  'sign-in',
+  'sign-in-failed',
+  'sign-out',
+  'otp-sent',
+  'otp-verified',
+  'otp-failed',
+  'password-changed',
+  'session-revoked',
+  'deletion-scheduled',
+  'deletion-cancelled'
+] as const satisfies readonly AuthEventType[];
+
+export const AUTH_EVENT_LABELS: Record<AuthEventType, string> = {
+  'sign-in': 'Signed in',
+  'sign-in-failed': 'Failed sign-in',
+  'sign-out': 'Signed out',
+  'otp-sent': 'Code sent',
+  'otp-verified': 'Code verified',
+  'otp-failed': 'Wrong code',
+  'password-changed': 'Password changed',
+  'session-revoked': 'Session revoked',
+  'deletion-scheduled': 'Account deletion scheduled',
+  'deletion-cancelled': 'Account deletion cancelled'
+};
+
+export const AUTH_METHOD_LABELS: Record<AuthEventMethod, string> = {
+  password: 'password',
+  email: 'email',
+  sms: 'text message',
+  voice: 'phone call',
+  totp: 'authenticator app',
+  'recovery-code': 'recovery code',
+  passkey: 'passkey',
+  sso: 'single sign-on'
+};
+
+const PURPOSE_LABELS: Record<OtpPurpose, string> = {
+  signup: 'sign-up',
+  login: 'sign-in',
+  'password-reset': 'password reset',
+  unlock: 'account unlock',
+  'verify-email': 'email change',
+  'verify-phone': 'phone change',
+  'delete-account': 'account deletion'
+};
+
+/** "Code sent by text message for sign-in", "Signed in with a passkey" and so on. */
+export const describeSecurityEvent = ({ type, method, purpose }: Pick<SecurityEvent, 'type' | 'method' | 'purpose'>) => {
+  const by = method && AUTH_METHOD_LABELS[method];
+  const forPurpose = purpose ? ` for ${PURPOSE_LABELS[purpose]}` : '';
+  switch (type) {
+    case 'sign-in':
+    case 'sign-in-failed':
+      return by ? `${AUTH_EVENT_LABELS[type]} with ${by}` : AUTH_EVENT_LABELS[type];
+    case 'otp-sent':
+      return `${AUTH_EVENT_LABELS[type]}${by ? ` by ${by}` : ''}${forPurpose}`;
+    case 'otp-verified':
+    case 'otp-failed':
+      if (method === 'recovery-code') {
+        return `Recovery code ${type === 'otp-verified' ? 'used' : 'rejected'}${forPurpose}`;
+      }
+      return `${AUTH_EVENT_LABELS[type]}${forPurpose}`;
+    case 'password-changed':
+      return purpose === 'password-reset' ? 'Password reset' : AUTH_EVENT_LABELS[type];
+    default:
+      return AUTH_EVENT_LABELS[type];
+  }
+};
@@ -0,0 +1,255 @@
+import type {
+  AccountDeletionStatus,
+  AccountSessions,
+  ApiErrorBody,
+  ApiUser,
+  AuditEventFilters,
+  AuditLog,
+  ContactChannel,
+  ContactDetails,
+  ContactVerification,
+  LoginResponse,
+  ManagedUser,
+  NewInvite,
+  OtpChallengeInfo,
+  OtpChannel,
+  Passkey,
+  PasskeyAssertion,
+  PasskeyCreationOptions,
+  PasskeyRegistration,
+  PasskeyRequestOptions,
+  PasswordPolicy,
+  PasswordResetGrant,
+  Reauthentication,
+  RecoveryCodesResponse,
+  Role,
+  SecurityEvent,
+  SignupData,
+  SignupPolicy,
+  SignupResponse,
+  SignupSettings,
+  SessionResponse,
+  SsoProvider,
+  TotpEnrollment,
+  TwoFactorStatus,
+  User,
+  VerificationMethod
+} from './types';
+
+export class ApiError extends Error {
+  constructor(
+    public status: number,
+    message: string,
+    public field?: string,
+    public details?: Record<string, unknown>
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+export const request = async <T>(url: string, body?: unknown, init?: RequestInit): Promise<T> => {
+  const response = await fetch(url, {
+    method: body === undefined ? 'GET' : 'POST',
+    headers: body === undefined ? undefined : { 'Content-Type': 'application/json' },
+    body: body === undefined ? undefined : JSON.stringify(body),
+    ...init
+  });
+
+  const data = await response.json().catch(() => null);
+  if (!response.ok) {
+    const error = (data as ApiErrorBody | null)?.error;
+    throw new ApiError(response.status, error?.message ?? 'Request failed', error?.field, error?.details);
+  }
+  return data as T;
+};
+
+export const toUser = (user: ApiUser): User => ({ ...user, createdAt: new Date(user.createdAt) });
+
+export const authAPI = {
+  login: async (
+    email: string,
+    password: string,
+    options: { channel?: VerificationMethod; rememberMe?: boolean } = {}
+  ): Promise<LoginResponse<User>> => {
+    const result = await request<LoginResponse>('/api/auth/login', { email, password, ...options });
+    return result.requiresOTP ? result : { ...result, user: toUser(result.user) };
+  },
+
+  signup: async (data: SignupData): Promise<SignupResponse<User>> => {
+    const result = await request<SignupResponse>('/api/auth/signup', data);
+    return { ...result, user: toUser(result.user) };
+  },
+
+  verifyOTP: async (challengeId: string, code: string, trustDevice?: boolean): Promise<SessionResponse<User>> => {
+    const result = await request<SessionResponse>('/api/auth/otp/verify', { challengeId, code, trustDevice });
+    return { user: toUser(result.user) };
+  },
+
+  verifyRecoveryCode: async (challengeId: string, code: string, trustDevice?: boolean): Promise<SessionResponse<User>> => {
+    const result = await request<SessionResponse>('/api/auth/otp/recovery', { challengeId, code, trustDevice });
+    return { user: toUser(result.user) };
+  },
+
+  /** Current user from the session cookie, or null when signed out. */
+  getSession: async (): Promise<User | null> => {
+    try {
+      const result = await request<SessionResponse>('/api/auth/session');
+      return toUser(result.user);
+    } catch (err) {
+      if (err instanceof ApiError && err.status === 401) return null;
+      throw err;
+    }
+  },
+
+  logout: () => request<{ success: true }>('/api/auth/session', undefined, { method: 'DELETE' }),
+
+  resendOTP: (challengeId: string, channel?: OtpChannel) =>
+    request<OtpChallengeInfo>('/api/auth/otp/resend', { challengeId, channel }),
+
+  /** Also used to resend: repeat requests reuse the pending challenge. */
+  requestPasswordReset: (identifier: string) =>
+    request<OtpChallengeInfo>('/api/auth/password-reset', { identifier }),
+
+  verifyPasswordResetCode: (challengeId: string, code: string) =>
+    request<PasswordResetGrant>('/api/auth/password-reset/verify', { challengeId, code }),
+
+  resetPassword: (token: string, password: string) =>
+    request<{ success: true }>('/api/auth/password-reset/complete', { token, password }),
+
+  /** Also used to resend, like `requestPasswordReset`. */
+  requestAccountUnlock: (email: string) => request<OtpChallengeInfo>('/api/auth/unlock', { email }),
+
+  verifyAccountUnlock: (challengeId: string, code: string) =>
+    request<{ success: true }>('/api/auth/unlock/verify', { challengeId, code }),
+
+  getSignupPolicy: () => request<SignupPolicy>('/api/auth/signup'),
+
+  getPasswordPolicy: () => request<PasswordPolicy>('/api/auth/password'),
+
+  /** Other browsers are signed out; this one stays signed in. */
+  changePassword: (currentPassword: string, newPassword: string) =>
+    request<{ success: true }>('/api/auth/password', { currentPassword, newPassword }),
+
+  getSsoProvider: async (): Promise<SsoProvider | null> =>
+    (await request<{ provider: SsoProvider | null }>('/api/auth/oidc')).provider,
+
+  /** Single sign-on is a full-page redirect through the provider, ending up at `next`. */
+  ssoLoginUrl: (next = '/') => `/api/auth/oidc/start?next=${encodeURIComponent(next)}`
+};
+
+export const twoFactorAPI = {
+  getStatus: () => request<TwoFactorStatus>('/api/auth/2fa'),
+
+  setPreferredMethod: (preferredMethod: VerificationMethod) =>
+    request<TwoFactorStatus>('/api/auth/2fa', { preferredMethod }, { method: 'PATCH' }),
+
+  startTotpEnrollment: () => request<TotpEnrollment>('/api/auth/2fa/totp', {}),
+
+  confirmTotpEnrollment: (code: string) =>
+    request<TwoFactorStatus & RecoveryCodesResponse>('/api/auth/2fa/totp/confirm', { code }),
+
+  disableTotp: (code: string) => request<TwoFactorStatus>('/api/auth/2fa/totp', { code }, { method: 'DELETE' }),
+
+  regenerateRecoveryCodes: (proof: Reauthentication) =>
+    request<TwoFactorStatus & RecoveryCodesResponse>('/api/auth/2fa/recovery-codes', proof)
+};
+
+export const sessionsAPI = {
+  list: () => request<AccountSessions>('/api/auth/sessions'),
+
+  signOut: (id: string) =>
+    request<AccountSessions>(`/api/auth/sessions/${encodeURIComponent(id)}`, undefined, { method: 'DELETE' }),
+
+  signOutOthers: () => request<AccountSessions>('/api/auth/sessions', undefined, { method: 'DELETE' }),
+
+  forgetTrustedDevice: (id: string) =>
+    request<AccountSessions>(`/api/auth/devices/${encodeURIComponent(id)}`, undefined, { method: 'DELETE' })
+};
+
+export const activityAPI = {
+  list: () => request<SecurityEvent[]>('/api/auth/activity')
+};
+
+export const accountAPI = {
+  getDeletionStatus: () => request<AccountDeletionStatus>('/api/auth/account/deletion'),
+
+  /** Sends the code that confirms deleting the account; also used to resend it. */
+  requestDeletion: () => request<OtpChallengeInfo>('/api/auth/account/deletion', {}),
+
+  confirmDeletion: (challengeId: string, code: string) =>
+    request<AccountDeletionStatus>('/api/auth/account/deletion/confirm', { challengeId, code }),
+
+  cancelDeletion: () =>
+    request<AccountDeletionStatus>('/api/auth/account/deletion', undefined, { method: 'DELETE' }),
+
+  /** A ZIP of everything the account owns, as a plain download link. */
+  exportUrl: () => '/api/auth/account/export'
+};
+
+export const contactAPI = {
+  get: () => request<ContactDetails>('/api/auth/contact'),
+
+  /** Sends a code to `value`, which is the current address or the one to switch to. */
+  startVerification: (channel: ContactChannel, value: string) =>
+    request<ContactVerification>('/api/auth/contact', { channel, value }),
+
+  resend: (challengeId: string) => request<ContactVerification>('/api/auth/contact/resend', { challengeId }),
+
+  confirm: (challengeId: string, code: string) =>
+    request<ContactDetails>('/api/auth/contact/verify', { challengeId, code }),
+
+  cancel: (channel: ContactChannel) => request<ContactDetails>('/api/auth/contact', { channel }, { method: 'DELETE' })
+};
+
+export const passkeysAPI = {
+  list: () => request<Passkey[]>('/api/auth/passkeys'),
+
+  startRegistration: () => request<PasskeyCreationOptions>('/api/auth/passkeys', {}),
+
+  confirmRegistration: (registration: PasskeyRegistration) =>
+    request<Passkey[]>('/api/auth/passkeys/confirm', registration),
+
+  remove: (id: string) =>
+    request<Passkey[]>(`/api/auth/passkeys/${encodeURIComponent(id)}`, undefined, { method: 'DELETE' }),
+
+  startSignIn: () => request<PasskeyRequestOptions>('/api/auth/passkeys/sign-in', {}),
+
+  verifySignIn: async (assertion: PasskeyAssertion): Promise<SessionResponse<User>> => {
+    const result = await request<SessionResponse>('/api/auth/passkeys/sign-in/verify', assertion);
+    return { user: toUser(result.user) };
+  }
+};
+
+const auditQuery = ({ type, query, from, to }: AuditEventFilters, format?: 'csv') => {
+  const params = new URLSearchParams();
+  if (type) params.set('type', type);
+  if (query?.trim()) params.set('q', query.trim());
+  if (from) params.set('from', from);
+  if (to) params.set('to', to);
+  if (format) params.set('format', format);
+  const search = params.toString();
+  return `/api/admin/audit${search ? `?${search}` : ''}`;
+};
+
+export const adminAPI = {
+  listUsers: () => request<ManagedUser[]>('/api/admin/users'),
+
+  setRole: (userId: string, role: Role) =>
+    request<ManagedUser[]>(`/api/admin/users/${encodeURIComponent(userId)}`, { role }, { method: 'PATCH' }),
+
+  getSignupSettings: () => request<SignupSettings>('/api/admin/signup'),
+
+  setSignupPolicy: (policy: SignupPolicy) => request<SignupSettings>('/api/admin/signup', policy, { method: 'PUT' }),
+
+  /** The response is the only time the invite's code is available. */
+  createInvite: (invite: NewInvite) => request<SignupSettings & { code: string }>('/api/admin/signup/invites', invite),
+
+  revokeInvite: (id: string) =>
+    request<SignupSettings>(`/api/admin/signup/invites/${encodeURIComponent(id)}`, undefined, { method: 'DELETE' }),
+
+  listAuthEvents: (filters: AuditEventFilters = {}) => request<AuditLog>(auditQuery(filters)),
+
+  /** Downloaded by navigating to it, so the browser saves the file. */
+  authEventsCsvUrl: (filters: AuditEventFilters = {}) => auditQuery(filters, 'csv')
+};
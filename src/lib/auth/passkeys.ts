@@ -0,0 +1,96 @@
+import { passkeysAPI } from './client';
+import type { Passkey, User } from './types';
+
+// Browser side of the WebAuthn ceremonies: the server's JSON options are
+// turned into the binary shapes `navigator.credentials` expects and back.
+
+const toBytes = (value: string) => {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  return Uint8Array.from(atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, '=')), char => char.charCodeAt(0));
+};
+
+const toBase64Url = (buffer: ArrayBuffer) =>
+  btoa(String.fromCharCode(...new Uint8Array(buffer)))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+
+export const isPasskeySupported = () =>
+  typeof window !== 'undefined' && typeof window.PublicKeyCredential === 'function';
+
+// Cancelling the browser prompt and timing out both surface as NotAllowedError
+const describeError = (err: unknown) => {
+  if (err instanceof DOMException && err.name === 'NotAllowedError') {
+    return new Error('The passkey request was cancelled or timed out.');
+  }
+  if (err instanceof DOMException && err.name === 'InvalidStateError') {
+    return new Error('This device already has a passkey for your account.');
+  }
+  return err;
+};
+
+/** Creates a passkey on this device and registers it with the account. */
+export const registerPasskey = async (name?: string): Promise<Passkey[]> => {
+  const options = await passkeysAPI.startRegistration();
+
+  let credential: PublicKeyCredential;
+  try {
+    credential = (await navigator.credentials.create({
+      publicKey: {
+        challenge: toBytes(options.challenge),
+        rp: options.rp,
+        user: { ...options.user, id: toBytes(options.user.id) },
+        pubKeyCredParams: options.algorithms.map(alg => ({ type: 'public-key' as const, alg })),
+        excludeCredentials: options.excludeCredentials.map(id => ({ type: 'public-key' as const, id: toBytes(id) })),
+        authenticatorSelection: { residentKey: 'required', requireResidentKey: true, userVerification: 'required' },
+        attestation: 'none',
+        timeout: options.timeout
+      }
+    })) as PublicKeyCredential;
+  } catch (err) {
+    throw describeError(err);
+  }
+
+  const response = credential.response as AuthenticatorAttestationResponse;
+  return passkeysAPI.confirmRegistration({
+    challengeId: options.challengeId,
+    name,
+    credential: {
+      id: toBase64Url(credential.rawId),
+      clientDataJSON: toBase64Url(response.clientDataJSON),
+      attestationObject: toBase64Url(response.attestationObject)
+    }
+  });
+};
+
+/** Signs in with whichever passkey the user picks in the browser prompt. */
+export const signInWithPasskey = async (): Promise<User> => {
+  const options = await passkeysAPI.startSignIn();
+
+  let credential: PublicKeyCredential;
+  try {
+    credential = (await navigator.credentials.get({
+      publicKey: {
+        challenge: toBytes(options.challenge),
+        rpId: options.rpId,
+        userVerification: 'required',
+        timeout: options.timeout
+      }
+    })) as PublicKeyCredential;
+  } catch (err) {
+    throw describeError(err);
+  }
+
+  const response = credential.response as AuthenticatorAssertionResponse;
+  const { user } = await passkeysAPI.verifySignIn({
+    challengeId: options.challengeId,
+    credential: {
+      id: toBase64Url(credential.rawId),
+      clientDataJSON: toBase64Url(response.clientDataJSON),
+      authenticatorData: toBase64Url(response.authenticatorData),
+      signature: toBase64Url(response.signature),
+      userHandle: response.userHandle ? toBase64Url(response.userHandle) : null
+    }
+  });
+  return user;
+};
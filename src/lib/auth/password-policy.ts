@@ -0,0 +1,63 @@
+import type { PasswordCharacterClass, PasswordPolicy } from './types';
+
+// Shared by the API, which enforces the policy, and the password forms, which
+// tick each rule off while it's typed. The common-password and history checks
+// only run on the server.
+
+export const PASSWORD_CHARACTER_CLASSES = ['lower', 'upper', 'digit', 'symbol'] as const satisfies readonly PasswordCharacterClass[];
+
+export const DEFAULT_PASSWORD_POLICY: PasswordPolicy = {
+  minLength: 8,
+  requiredClasses: [],
+  historySize: 5,
+  maxAgeDays: 0
+};
+
+/** Longer input is refused before hashing; no one types more than this. */
+export const MAX_PASSWORD_LENGTH = 128;
+
+const CLASS_PATTERNS: Record<PasswordCharacterClass, RegExp> = {
+  lower: /\p{Ll}/u,
+  upper: /\p{Lu}/u,
+  digit: /\p{Nd}/u,
+  symbol: /[^\p{L}\p{N}]/u
+};
+
+const CLASS_LABELS: Record<PasswordCharacterClass, string> = {
+  lower: 'a lowercase letter',
+  upper: 'an uppercase letter',
+  digit: 'a number',
+  symbol: 'a symbol'
+};
+
+// Counted in characters rather than UTF-16 units, so an emoji is one
+const lengthOf = (password: string) => [...password].length;
+
+export interface PasswordRequirement {
+  id: 'length' | PasswordCharacterClass;
+  label: string;
+  met: boolean;
+}
+
+/** Every rule of the policy, in the order the forms list them. */
+export const passwordRequirements = (policy: PasswordPolicy, password: string): PasswordRequirement[] => [
+  { id: 'length', label: `At least ${policy.minLength} characters`, met: lengthOf(password) >= policy.minLength },
+  ...policy.requiredClasses.map(item => ({
+    id: item,
+    label: `Contains ${CLASS_LABELS[item]}`,
+    met: CLASS_PATTERNS[item].test(password)
+  }))
+];
+
+/** The first rule `password` breaks, worded for an error message, or null. */
+export const passwordPolicyError = (policy: PasswordPolicy, password: string) => {
+  const length = lengthOf(password);
+  if (length < policy.minLength) {
+    return `Password must be at least ${policy.minLength} characters`;
+  }
+  if (length > MAX_PASSWORD_LENGTH) {
+    return `Password must be at most ${MAX_PASSWORD_LENGTH} characters`;
+  }
+  const missing = policy.requiredClasses.find(item => !CLASS_PATTERNS[item].test(password));
+  return missing ? `Password must contain ${CLASS_LABELS[missing]}` : null;
+};
@@ -0,0 +1,463 @@
+// Phone numbers are stored and sent to the API in E.164 form (`+447700900123`).
+// This module parses what people type into that form, checks it against the
+// numbering plan of its region, and formats or masks it for display. It is
+// shared by the browser and the server so both agree on what is valid.
+
+export interface PhoneRegion {
+  /** ISO 3166-1 alpha-2 code, e.g. `GB` */
+  code: string;
+  name: string;
+  dialCode: string;
+  /** Allowed lengths of the national significant number */
+  lengths: number[];
+  /** Digit grouping for display, keyed by number length */
+  groups: Record<number, number[]>;
+  /** Prefix dialled before national numbers inside the region (e.g. the UK's `0`) */
+  trunkPrefix: string;
+  /** Stricter shape of a valid national number, where the plan is simple enough */
+  pattern?: RegExp;
+  /** For regions sharing a dial code: how their numbers start */
+  leadingDigits?: RegExp;
+}
+
+export interface ParsedPhoneNumber {
+  region: PhoneRegion;
+  nationalNumber: string;
+  e164: string;
+  valid: boolean;
+}
+
+export const DEFAULT_REGION = 'US';
+
+// [code, dial code, lengths, grouping, trunk prefix, extras]. Regions that
+// share a dial code list the main one first; the rest are told apart by
+// their leading digits.
+type RegionRow = [string, string, string, string?, string?, Pick<PhoneRegion, 'pattern' | 'leadingDigits'>?];
+
+const NANP = { pattern: /^[2-9]\d{2}[2-9]\d{6}$/ };
+const nanp = (code: string, areaCodes?: string): RegionRow => [
+  code,
+  '1',
+  '10',
+  '3 3 4',
+  '1',
+  areaCodes ? { ...NANP, leadingDigits: new RegExp(`^(?:${areaCodes})`) } : NANP
+];
+
+const REGION_ROWS: RegionRow[] = [
+  nanp('US'),
+  nanp(
+    'CA',
+    '204|226|236|249|250|263|289|306|343|354|365|367|368|382|387|403|416|418|428|431|437|438|450|460|468|474|506|514|519|548|579|581|584|587|604|613|639|647|672|683|705|709|742|753|778|780|782|807|819|825|867|873|879|902|905'
+  ),
+  nanp('AG', '268'),
+  nanp('AI', '264'),
+  nanp('AS', '684'),
+  nanp('BB', '246'),
+  nanp('BM', '441'),
+  nanp('BS', '242'),
+  nanp('DM', '767'),
+  nanp('DO', '809|829|849'),
+  nanp('GD', '473'),
+  nanp('GU', '671'),
+  nanp('JM', '876|658'),
+  nanp('KN', '869'),
+  nanp('KY', '345'),
+  nanp('LC', '758'),
+  nanp('MP', '670'),
+  nanp('MS', '664'),
+  nanp('PR', '787|939'),
+  nanp('SX', '721'),
+  nanp('TC', '649'),
+  nanp('TT', '868'),
+  nanp('VC', '784'),
+  nanp('VG', '284'),
+  nanp('VI', '340'),
+  ['RU', '7', '10', '3 3 2 2', '8'],
+  ['KZ', '7', '10', '3 3 2 2', '8', { leadingDigits: /^[67]/ }],
+  ['EG', '20', '8-10', '3 3 4', '0'],
+  ['ZA', '27', '9', '2 3 4', '0'],
+  ['GR', '30', '10', '3 3 4'],
+  ['NL', '31', '9', '1 8', '0'],
+  ['BE', '32', '8-9', '3 2 2 2', '0'],
+  ['FR', '33', '9', '1 2 2 2 2', '0'],
+  ['ES', '34', '9', '3 3 3'],
+  ['HU', '36', '8-9', '2 3 4', '06'],
+  ['IT', '39', '6-11', '3 3 4'],
+  ['VA', '39', '6-11', '3 3 4', '', { leadingDigits: /^06698/ }],
+  ['RO', '40', '9', '3 3 3', '0'],
+  ['CH', '41', '9', '2 3 2 2', '0'],
+  ['AT', '43', '4-13', '3 7', '0'],
+  ['GB', '44', '9-10', '4 6', '0'],
+  ['GG', '44', '10', '4 6', '0', { leadingDigits: /^(?:1481|7781|7839|7911)/ }],
+  ['JE', '44', '10', '4 6', '0', { leadingDigits: /^(?:1534|7509|7797|7829|7937)/ }],
+  ['IM', '44', '10', '4 6', '0', { leadingDigits: /^(?:1624|7524|7624|7924)/ }],
+  ['DK', '45', '8', '2 2 2 2'],
+  ['SE', '46', '7-10', '2 3 2 2', '0'],
+  ['NO', '47', '8', '3 2 3'],
+  ['SJ', '47', '8', '2 2 2 2', '', { leadingDigits: /^79/ }],
+  ['PL', '48', '9', '3 3 3'],
+  ['DE', '49', '6-13', '3 8', '0'],
+  ['PE', '51', '8-9', '3 3 3', '0'],
+  ['MX', '52', '10', '3 3 4'],
+  ['CU', '53', '6-8', '', '0'],
+  ['AR', '54', '10-11', '', '0'],
+  ['BR', '55', '10-11', '2 4 4, 2 5 4', '0'],
+  ['CL', '56', '9', '1 4 4'],
+  ['CO', '57', '10', '3 3 4'],
+  ['VE', '58', '10', '3 7', '0'],
+  ['MY', '60', '8-10', '2 3 4', '0'],
+  ['AU', '61', '9', '1 4 4', '0'],
+  ['CX', '61', '9', '1 4 4', '0', { leadingDigits: /^89164/ }],
+  ['CC', '61', '9', '1 4 4', '0', { leadingDigits: /^89162/ }],
+  ['ID', '62', '8-12', '', '0'],
+  ['PH', '63', '8-10', '3 3 4', '0'],
+  ['NZ', '64', '8-10', '', '0'],
+  ['SG', '65', '8', '4 4'],
+  ['TH', '66', '8-9', '2 3 4', '0'],
+  ['JP', '81', '9-10', '2 4 4', '0'],
+  ['KR', '82', '8-10', '2 4 4', '0'],
+  ['VN', '84', '9-10', '3 3 3', '0'],
+  ['CN', '86', '10-11', '3 4 4', '0'],
+  ['TR', '90', '10', '3 3 2 2', '0'],
+  ['IN', '91', '10', '5 5', '0'],
+  ['PK', '92', '9-10', '3 7', '0'],
+  ['AF', '93', '9', '2 3 4', '0'],
+  ['LK', '94', '9', '2 3 4', '0'],
+  ['MM', '95', '7-10', '', '0'],
+  ['IR', '98', '10', '3 3 4', '0'],
+  ['SS', '211', '9', '3 3 3', '0'],
+  ['MA', '212', '9', '3 6', '0'],
+  ['EH', '212', '9', '3 6', '0', { leadingDigits: /^528[89]/ }],
+  ['DZ', '213', '8-9', '', '0'],
+  ['TN', '216', '8', '2 3 3'],
+  ['LY', '218', '8-9', '', '0'],
+  ['GM', '220', '7', '3 4'],
+  ['SN', '221', '9', '2 3 2 2'],
+  ['MR', '222', '8', '2 2 2 2'],
+  ['ML', '223', '8', '2 2 2 2'],
+  ['GN', '224', '8-9', ''],
+  ['CI', '225', '10', '2 2 2 4'],
+  ['BF', '226', '8', '2 2 2 2'],
+  ['NE', '227', '8', '2 2 2 2'],
+  ['TG', '228', '8', '2 2 2 2'],
+  ['BJ', '229', '8,10', ''],
+  ['MU', '230', '7-8', ''],
+  ['LR', '231', '7-9', '', '0'],
+  ['SL', '232', '8', '2 6', '0'],
+  ['GH', '233', '9', '2 3 4', '0'],
+  ['NG', '234', '8-10', '3 3 4', '0'],
+  ['TD', '235', '8', '2 2 2 2'],
+  ['CF', '236', '8', '2 2 2 2'],
+  ['CM', '237', '8-9', ''],
+  ['CV', '238', '7', '3 2 2'],
+  ['ST', '239', '7', '3 4'],
+  ['GQ', '240', '9', '3 3 3'],
+  ['GA', '241', '7-8', ''],
+  ['CG', '242', '9', '2 3 4'],
+  ['CD', '243', '7-9', '', '0'],
+  ['AO', '244', '9', '3 3 3'],
+  ['GW', '245', '7-9', ''],
+  ['IO', '246', '7', '3 4'],
+  ['AC', '247', '5-6', ''],
+  ['SC', '248', '7', '1 3 3'],
+  ['SD', '249', '9', '2 3 4', '0'],
+  ['RW', '250', '9', '3 3 3', '0'],
+  ['ET', '251', '9', '2 3 4', '0'],
+  ['SO', '252', '7-9', '', '0'],
+  ['DJ', '253', '8', '2 2 2 2'],
+  ['KE', '254', '9', '3 6', '0'],
+  ['TZ', '255', '9', '3 3 3', '0'],
+  ['UG', '256', '9', '3 6', '0'],
+  ['BI', '257', '8', '2 2 2 2'],
+  ['MZ', '258', '8-9', ''],
+  ['ZM', '260', '9', '2 3 4', '0'],
+  ['MG', '261', '9', '2 2 3 2', '0'],
+  ['RE', '262', '9', '3 2 2 2', '0'],
+  ['YT', '262', '9', '3 2 2 2', '0', { leadingDigits: /^(?:269|639)/ }],
+  ['ZW', '263', '5-10', '', '0'],
+  ['NA', '264', '8-9', '', '0'],
+  ['MW', '265', '7-9', '', '0'],
+  ['LS', '266', '8', '4 4'],
+  ['BW', '267', '7-8', ''],
+  ['SZ', '268', '8', '4 4'],
+  ['KM', '269', '7', '3 2 2'],
+  ['SH', '290', '4-5', ''],
+  ['TA', '290', '4', '', '', { leadingDigits: /^8/ }],
+  ['ER', '291', '7', '1 3 3', '0'],
+  ['AW', '297', '7', '3 4'],
+  ['FO', '298', '6', '3 3'],
+  ['GL', '299', '6', '2 2 2'],
+  ['GI', '350', '8', '3 5'],
+  ['PT', '351', '9', '3 3 3'],
+  ['LU', '352', '4-11', ''],
+  ['IE', '353', '7-9', '2 3 4', '0'],
+  ['IS', '354', '7-9', '3 4'],
+  ['AL', '355', '8-9', '', '0'],
+  ['MT', '356', '8', '4 4'],
+  ['CY', '357', '8', '2 6'],
+  ['FI', '358', '5-12', '', '0'],
+  ['AX', '358', '5-12', '', '0', { leadingDigits: /^18/ }],
+  ['BG', '359', '7-9', '', '0'],
+  ['LT', '370', '8', '3 5', '8'],
+  ['LV', '371', '8', '2 3 3'],
+  ['EE', '372', '7-8', ''],
+  ['MD', '373', '8', '3 2 3', '0'],
+  ['AM', '374', '8', '2 6', '0'],
+  ['BY', '375', '9-10', '2 3 2 2', '8'],
+  ['AD', '376', '6-9', ''],
+  ['MC', '377', '8-9', '', '0'],
+  ['SM', '378', '6-10', ''],
+  ['UA', '380', '9', '2 3 2 2', '0'],
+  ['RS', '381', '8-12', '', '0'],
+  ['ME', '382', '8', '2 3 3', '0'],
+  ['XK', '383', '8-9', '', '0'],
+  ['HR', '385', '8-9', '', '0'],
+  ['SI', '386', '8', '2 3 3', '0'],
+  ['BA', '387', '8-9', '', '0'],
+  ['MK', '389', '8', '2 3 3', '0'],
+  ['CZ', '420', '9', '3 3 3'],
+  ['SK', '421', '9', '3 3 3', '0'],
+  ['LI', '423', '7-9', ''],
+  ['FK', '500', '5', ''],
+  ['BZ', '501', '7', '3 4'],
+  ['GT', '502', '8', '4 4'],
+  ['SV', '503', '8', '4 4'],
+  ['HN', '504', '8', '4 4'],
+  ['NI', '505', '8', '4 4'],
+  ['CR', '506', '8', '4 4'],
+  ['PA', '507', '7-8', ''],
+  ['PM', '508', '6', '2 2 2', '0'],
+  ['HT', '509', '8', '2 2 4'],
+  ['GP', '590', '9', '3 2 2 2', '0'],
+  ['BL', '590', '9', '3 2 2 2', '0', { leadingDigits: /^590(?:27|87)/ }],
+  ['MF', '590', '9', '3 2 2 2', '0', { leadingDigits: /^590(?:[0-2]|5[0-4]|7[5-9])/ }],
+  ['BO', '591', '8', '1 3 4', '0'],
+  ['GY', '592', '7', '3 4'],
+  ['EC', '593', '8-9', '', '0'],
+  ['GF', '594', '9', '3 2 2 2', '0'],
+  ['PY', '595', '9', '3 3 3', '0'],
+  ['MQ', '596', '9', '3 2 2 2', '0'],
+  ['SR', '597', '6-7', ''],
+  ['UY', '598', '8', '4 4', '0'],
+  ['CW', '599', '7-8', ''],
+  ['BQ', '599', '7', '3 4', '', { leadingDigits: /^[347]/ }],
+  ['TL', '670', '7-8', ''],
+  ['NF', '672', '6', '1 5'],
+  ['BN', '673', '7', '3 4'],
+  ['NR', '674', '7', '3 4'],
+  ['PG', '675', '7-8', ''],
+  ['TO', '676', '5-7', ''],
+  ['SB', '677', '5-7', ''],
+  ['VU', '678', '5-7', ''],
+  ['FJ', '679', '7', '3 4'],
+  ['PW', '680', '7', '3 4'],
+  ['WF', '681', '6', '2 2 2'],
+  ['CK', '682', '5', ''],
+  ['NU', '683', '4-7', ''],
+  ['WS', '685', '5-7', ''],
+  ['KI', '686', '5-8', ''],
+  ['NC', '687', '6', '2 2 2'],
+  ['TV', '688', '5-6', ''],
+  ['PF', '689', '8', '2 2 2 2'],
+  ['TK', '690', '4-7', ''],
+  ['FM', '691', '7', '3 4'],
+  ['MH', '692', '7', '3 4'],
+  ['KP', '850', '8-10', '', '0'],
+  ['HK', '852', '8', '4 4'],
+  ['MO', '853', '8', '4 4'],
+  ['KH', '855', '8-9', '', '0'],
+  ['LA', '856', '8-10', '', '0'],
+  ['BD', '880', '10', '4 6', '0'],
+  ['TW', '886', '8-9', '', '0'],
+  ['MV', '960', '7', '3 4'],
+  ['LB', '961', '7-8', '', '0'],
+  ['JO', '962', '8-9', '', '0'],
+  ['SY', '963', '8-9', '', '0'],
+  ['IQ', '964', '8-10', '', '0'],
+  ['KW', '965', '7-8', ''],
+  ['SA', '966', '9', '2 3 4', '0'],
+  ['YE', '967', '7-9', '', '0'],
+  ['OM', '968', '8', '4 4'],
+  ['PS', '970', '8-9', '', '0'],
+  ['AE', '971', '8-9', '2 3 4', '0'],
+  ['IL', '972', '8-9', '2 3 4', '0'],
+  ['BH', '973', '8', '4 4'],
+  ['QA', '974', '7-8', ''],
+  ['BT', '975', '7-8', ''],
+  ['MN', '976', '8', '4 4', '0'],
+  ['NP', '977', '8-10', '', '0'],
+  ['TJ', '992', '9', '3 2 4'],
+  ['TM', '993', '8', '2 6', '8'],
+  ['AZ', '994', '9', '2 3 2 2', '0'],
+  ['GE', '995', '9', '3 3 3', '0'],
+  ['KG', '996', '9', '3 3 3', '0'],
+  ['UZ', '998', '9', '2 3 2 2']
+];
+
+const parseLengths = (spec: string) =>
+  spec.split(',').flatMap(part => {
+    const [min, max = min] = part.split('-').map(Number);
+    return Array.from({ length: max - min + 1 }, (_, index) => min + index);
+  });
+
+const parseGroups = (spec: string) =>
+  Object.fromEntries(
+    spec
+      .split(',')
+      .filter(Boolean)
+      .map(part => {
+        const sizes = part.trim().split(' ').map(Number);
+        return [sizes.reduce((sum, size) => sum + size, 0), sizes];
+      })
+  ) as Record<number, number[]>;
+
+const regionNames = new Intl.DisplayNames(['en'], { type: 'region' });
+
+export const PHONE_REGIONS: PhoneRegion[] = REGION_ROWS.map(([code, dialCode, lengths, groups = '', trunkPrefix = '', extras]) => ({
+  code,
+  name: regionNames.of(code) ?? code,
+  dialCode,
+  lengths: parseLengths(lengths),
+  groups: parseGroups(groups),
+  trunkPrefix,
+  ...extras
+}));
+
+const byCode = new Map(PHONE_REGIONS.map(region => [region.code, region]));
+const dialCodes = new Set(PHONE_REGIONS.map(region => region.dialCode));
+
+export const findPhoneRegion = (code: string) => byCode.get(code.toUpperCase());
+
+/** Regions ordered by name, for pickers. */
+export const sortedPhoneRegions = () => [...PHONE_REGIONS].sort((a, b) => a.name.localeCompare(b.name));
+
+const regionForNumber = (dialCode: string, nationalNumber: string) => {
+  const candidates = PHONE_REGIONS.filter(region => region.dialCode === dialCode);
+  return candidates.find(region => region.leadingDigits?.test(nationalNumber)) ?? candidates[0];
+};
+
+const isValidFor = (region: PhoneRegion, nationalNumber: string) =>
+  region.lengths.includes(nationalNumber.length) && (!region.pattern || region.pattern.test(nationalNumber));
+
+/**
+ * Reads a number typed in international form (`+44 7700 900123`,
+ * `0044…`) or, given a region, in that region's national form
+ * (`07700 900123`). Returns null when it can't tell which region it is.
+ */
+export const parsePhoneNumber = (input: string, defaultRegion?: string): ParsedPhoneNumber | null => {
+  const trimmed = input.trim();
+  let digits = trimmed.replace(/\D/g, '');
+  if (!digits) return null;
+
+  let international = trimmed.startsWith('+');
+  if (!international && digits.startsWith('00')) {
+    international = true;
+    digits = digits.slice(2);
+  }
+
+  let region: PhoneRegion | undefined;
+  let nationalNumber: string;
+  if (international) {
+    const dialCode = [1, 2, 3].map(size => digits.slice(0, size)).find(prefix => dialCodes.has(prefix));
+    if (!dialCode) return null;
+    nationalNumber = digits.slice(dialCode.length);
+    region = regionForNumber(dialCode, nationalNumber);
+    // People often keep the trunk prefix after the dial code: `+44 07700…`
+    const { trunkPrefix } = region;
+    if (trunkPrefix && nationalNumber.startsWith(trunkPrefix) && !isValidFor(region, nationalNumber)) {
+      nationalNumber = nationalNumber.slice(trunkPrefix.length);
+      region = regionForNumber(dialCode, nationalNumber);
+    }
+  } else {
+    const preferred = defaultRegion ? findPhoneRegion(defaultRegion) : undefined;
+    if (!preferred) return null;
+    nationalNumber = digits;
+    // Drop the trunk prefix unless it is really the start of the number
+    const { trunkPrefix } = preferred;
+    if (trunkPrefix && digits.startsWith(trunkPrefix) && !isValidFor(preferred, digits)) {
+      nationalNumber = digits.slice(trunkPrefix.length);
+    }
+    region = regionForNumber(preferred.dialCode, nationalNumber);
+    // Keep the picked region when the number doesn't point at a sibling
+    if (!region.leadingDigits?.test(nationalNumber)) region = preferred;
+  }
+
+  return {
+    region,
+    nationalNumber,
+    e164: `+${region.dialCode}${nationalNumber}`,
+    valid: isValidFor(region, nationalNumber)
+  };
+};
+
+export const isValidPhoneNumber = (input: string, defaultRegion?: string) =>
+  parsePhoneNumber(input, defaultRegion)?.valid ?? false;
+
+/** The E.164 form of a valid number, or null. */
+export const toE164 = (input: string, defaultRegion?: string) => {
+  const parsed = parsePhoneNumber(input, defaultRegion);
+  return parsed?.valid ? parsed.e164 : null;
+};
+
+const groupDigits = (region: PhoneRegion, nationalNumber: string) => {
+  const sizes = region.groups[nationalNumber.length];
+  const parts: string[] = [];
+  if (sizes) {
+    let offset = 0;
+    for (const size of sizes) {
+      parts.push(nationalNumber.slice(offset, offset + size));
+      offset += size;
+    }
+  } else {
+    // No known layout: blocks of three, with a final block of up to four
+    let rest = nationalNumber;
+    while (rest.length > 4) {
+      parts.push(rest.slice(0, 3));
+      rest = rest.slice(3);
+    }
+    parts.push(rest);
+  }
+  return parts.join(' ');
+};
+
+/**
+ * Formats a number for display, internationally (`+44 7700 900123`) or the
+ * way it is dialled inside its region (`07700 900123`). Input that can't be
+ * parsed is returned unchanged.
+ */
+export const formatPhoneNumber = (
+  input: string,
+  style: 'international' | 'national' = 'international',
+  defaultRegion?: string
+) => {
+  const parsed = parsePhoneNumber(input, defaultRegion);
+  if (!parsed) return input;
+  const grouped = groupDigits(parsed.region, parsed.nationalNumber);
+  if (style === 'international') return `+${parsed.region.dialCode} ${grouped}`;
+  // North American numbers are written without their long-distance `1`
+  return parsed.region.dialCode === '1' ? grouped : `${parsed.region.trunkPrefix}${grouped}`;
+};
+
+/**
+ * Hides all but the last four digits, keeping the dial code and grouping:
+ * `+44 **** **0123`. Values that are already masked pass through.
+ */
+export const maskPhoneNumber = (input: string) => {
+  if (input.includes('*')) return input;
+
+  const parsed = parsePhoneNumber(input);
+  if (!parsed) {
+    const digits = input.replace(/\D/g, '');
+    return digits.length > 4 ? `${'*'.repeat(digits.length - 4)}${digits.slice(-4)}` : input;
+  }
+
+  const grouped = groupDigits(parsed.region, parsed.nationalNumber);
+  let visible = 4;
+  const masked = [...grouped]
+    .reverse()
+    .map(char => (/\d/.test(char) && visible-- <= 0 ? '*' : char))
+    .reverse()
+    .join('');
+  return `+${parsed.region.dialCode} ${masked}`;
+};
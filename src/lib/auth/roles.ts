@@ -0,0 +1,45 @@
+import type { Role } from './types';
+
+// Shared by the API (to authorise requests) and the UI (to decide what to
+// show). The UI checks are a convenience; the API is what enforces them.
+
+export type Permission =
+  | 'coursework:own'
+  | 'roster:view'
+  | 'grades:manage'
+  | 'attendance:take'
+  | 'users:manage'
+  | 'audit:view';
+
+export const ROLES: Role[] = ['student', 'instructor', 'admin'];
+
+export const ROLE_LABELS: Record<Role, string> = {
+  student: 'Student',
+  instructor: 'Instructor / TA',
+  admin: 'Administrator'
+};
+
+const TEACHING: Permission[] = ['roster:view', 'grades:manage', 'attendance:take'];
+
+const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  student: ['coursework:own'],
+  instructor: TEACHING,
+  admin: [...TEACHING, 'users:manage', 'audit:view']
+};
+
+export const hasPermission = (role: Role, permission: Permission) => ROLE_PERMISSIONS[role].includes(permission);
+
+// Views not listed here are open to every signed-in user
+const VIEW_PERMISSIONS: Record<string, Permission> = {
+  assignments: 'coursework:own',
+  attendance: 'coursework:own',
+  grading: 'grades:manage',
+  'take-attendance': 'attendance:take',
+  users: 'users:manage',
+  'security-log': 'audit:view'
+};
+
+export const canAccessView = (role: Role, viewId: string) => {
+  const permission = VIEW_PERMISSIONS[viewId];
+  return !permission || hasPermission(role, permission);
+};
@@ -0,0 +1,19 @@
+import type { SignupPolicy } from './types';
+
+// Shared by the API, which enforces the policy, and the sign-up form, which
+// explains it before anything is submitted.
+
+const domainOf = (email: string) => email.trim().toLowerCase().split('@').pop() ?? '';
+
+/** Subdomains count, so `university.edu` also lets in `cs.university.edu`. */
+export const isAllowedSignupDomain = (policy: SignupPolicy, email: string) => {
+  const domain = domainOf(email);
+  return policy.allowedDomains.some(allowed => domain === allowed || domain.endsWith(`.${allowed}`));
+};
+
+/** "Please sign up with your @university.edu or @college.edu email address." */
+export const allowedDomainsMessage = ({ allowedDomains }: SignupPolicy) => {
+  const list = allowedDomains.map(domain => `@${domain}`);
+  const joined = list.length > 1 ? `${list.slice(0, -1).join(', ')} or ${list[list.length - 1]}` : list[0];
+  return `Please sign up with your ${joined} email address.`;
+};
@@ -0,0 +1,337 @@
+// Types shared by the auth API route handlers and the browser client.
+
+/** Instructors include teaching assistants. */
+export type Role = 'student' | 'instructor' | 'admin';
+
+export interface User {
+  id: string;
+  email: string;
+  phone?: string;
+  firstName: string;
+  lastName: string;
+  avatar?: string;
+  role: Role;
+  emailVerified: boolean;
+  phoneVerified: boolean;
+  createdAt: Date;
+}
+
+/** `User` as it travels over the wire (dates serialised as ISO strings). */
+export type ApiUser = Omit<User, 'createdAt'> & { createdAt: string };
+
+/** An account as seen from user management. */
+export interface ManagedUser extends ApiUser {
+  /** Set through `ADMIN_EMAILS`, so it can't be changed from the app. */
+  roleLocked: boolean;
+}
+
+export interface SignupData {
+  email: string;
+  phone?: string;
+  password: string;
+  firstName: string;
+  lastName: string;
+  /** Required when sign-up is invite-only; otherwise it can lift the domain rule and set the role. */
+  inviteCode?: string;
+}
+
+export type SignupMode = 'open' | 'domains' | 'invite';
+
+/** Who may create an account. */
+export interface SignupPolicy {
+  mode: SignupMode;
+  /** Accepted in `domains` mode, with their subdomains; stored without the `@`. */
+  allowedDomains: string[];
+}
+
+/** A single-use invite code, as listed for administrators. */
+export interface SignupInvite {
+  id: string;
+  /** Last characters of the code, to tell invites apart; the full code is shown once. */
+  hint: string;
+  role: Role;
+  /** Only this address can use the invite, when set. */
+  email?: string;
+  createdAt: string;
+  expiresAt: string;
+  usedAt?: string;
+  /** Email of the account created with it. */
+  usedBy?: string;
+}
+
+export interface SignupSettings {
+  policy: SignupPolicy;
+  invites: SignupInvite[];
+}
+
+export interface NewInvite {
+  role: Role;
+  expiresInDays: number;
+  email?: string;
+}
+
+export type PasswordCharacterClass = 'lower' | 'upper' | 'digit' | 'symbol';
+
+/** Rules for choosing a password, from the `PASSWORD_*` environment variables. */
+export interface PasswordPolicy {
+  minLength: number;
+  /** Each of these must appear at least once. */
+  requiredClasses: PasswordCharacterClass[];
+  /** How many recent passwords, the current one included, can't be chosen again; 0 allows any. */
+  historySize: number;
+  /** Days a password lasts before it has to be reset; 0 means it never expires. */
+  maxAgeDays: number;
+}
+
+export type OtpChannel = 'email' | 'sms' | 'voice';
+
+/** The channels an account's contact details are confirmed through. */
+export type ContactChannel = Extract<OtpChannel, 'email' | 'sms'>;
+
+/** Delivered codes are digits by default; `OTP_FORMAT` can switch to letters and digits. */
+export type OtpCodeFormat = 'numeric' | 'alphanumeric';
+
+/** How a second factor is provided: a code we deliver, or an authenticator app. */
+export type VerificationMethod = OtpChannel | 'totp';
+
+/** Public state of a pending OTP challenge; `destination` is already masked. */
+export interface OtpChallengeInfo {
+  challengeId: string;
+  channel: VerificationMethod;
+  destination: string;
+  expiresAt: string;
+  resendAvailableAt: string;
+  attemptsRemaining: number;
+  /** Every method the account can complete this challenge with. */
+  methods: VerificationMethod[];
+  codeLength: number;
+  codeFormat: OtpCodeFormat;
+}
+
+/** Whether the account is waiting out its grace period before being erased. */
+export interface AccountDeletionStatus {
+  /** When the account and its data will be erased; null unless deletion was confirmed. */
+  scheduledFor: string | null;
+  graceDays: number;
+}
+
+/** The account's email and phone, and any change still waiting for its code. */
+export interface ContactDetails {
+  email: string;
+  emailVerified: boolean;
+  phone?: string;
+  phoneVerified: boolean;
+  /** The current address stays in use until the new one is confirmed. */
+  pendingEmail?: string;
+  pendingPhone?: string;
+}
+
+export interface ContactVerification {
+  contact: ContactDetails;
+  challenge: OtpChallengeInfo;
+}
+
+export interface TwoFactorStatus {
+  totpEnabled: boolean;
+  preferredMethod: VerificationMethod;
+  methods: VerificationMethod[];
+  recoveryCodesRemaining: number;
+  /** False for accounts that have only ever signed in with single sign-on. */
+  hasPassword: boolean;
+}
+
+/** Proof the user is present, asked for before changes that get past the second factor. */
+export interface Reauthentication {
+  /** A current authenticator code, when an authenticator app is set up. */
+  code?: string;
+  password?: string;
+}
+
+/** A freshly generated set of recovery codes; they are never shown again. */
+export interface RecoveryCodesResponse {
+  recoveryCodes: string[];
+}
+
+/** Returned when authenticator setup starts; nothing is enabled until confirmed. */
+export interface TotpEnrollment {
+  secret: string;
+  otpauthUri: string;
+}
+
+export type LoginResponse<U = ApiUser> =
+  | { requiresOTP: true; otp: OtpChallengeInfo }
+  | { requiresOTP: false; user: U };
+
+export interface SignupResponse<U = ApiUser> {
+  requiresOTP: true;
+  otp: OtpChallengeInfo;
+  user: U;
+}
+
+/** Proof that a reset code was entered; exchanged for the new password. */
+export interface PasswordResetGrant {
+  resetToken: string;
+}
+
+export type DeviceKind = 'desktop' | 'mobile' | 'tablet';
+
+/** A browser the account is signed in on. */
+export interface ActiveSession {
+  id: string;
+  browser: string;
+  os: string;
+  kind: DeviceKind;
+  ip?: string;
+  signedInAt: string;
+  lastSeenAt: string;
+  /** The browser making the request. */
+  current: boolean;
+  /** Stays signed in through "remember me". */
+  remembered: boolean;
+}
+
+/** A browser that can skip the one-time code until `trustedUntil`. */
+export interface TrustedDevice {
+  id: string;
+  browser: string;
+  os: string;
+  kind: DeviceKind;
+  ip?: string;
+  lastSeenAt: string;
+  trustedUntil: string;
+  current: boolean;
+}
+
+export interface AccountSessions {
+  sessions: ActiveSession[];
+  trustedDevices: TrustedDevice[];
+}
+
+export type AuthEventType =
+  | 'sign-in'
+  | 'sign-in-failed'
+  | 'sign-out'
+  | 'otp-sent'
+  | 'otp-verified'
+  | 'otp-failed'
+  | 'password-changed'
+  | 'session-revoked'
+  | 'deletion-scheduled'
+  | 'deletion-cancelled';
+
+/** How a sign-in or verification was answered. */
+export type AuthEventMethod = VerificationMethod | 'password' | 'recovery-code' | 'passkey' | 'sso';
+
+/** Why a code was sent, matching the server's challenge purposes. */
+export type OtpPurpose =
+  | 'signup'
+  | 'login'
+  | 'password-reset'
+  | 'unlock'
+  | 'verify-email'
+  | 'verify-phone'
+  | 'delete-account';
+
+/** An entry in the account's security activity. */
+export interface SecurityEvent {
+  id: string;
+  type: AuthEventType;
+  method?: AuthEventMethod;
+  purpose?: OtpPurpose;
+  /** Why an attempt failed or a session ended. */
+  detail?: string;
+  browser: string;
+  os: string;
+  kind: DeviceKind;
+  ip?: string;
+  createdAt: string;
+}
+
+/** A security event as administrators see it, across every account. */
+export interface AuditEvent extends SecurityEvent {
+  /** Unset for attempts against an email that has no account. */
+  userId?: string;
+  email?: string;
+  name?: string;
+  userAgent: string;
+}
+
+export interface AuditEventFilters {
+  type?: AuthEventType;
+  /** Matches the email, name, IP address or detail. */
+  query?: string;
+  from?: string;
+  to?: string;
+}
+
+export interface AuditLog {
+  events: AuditEvent[];
+  /** Matching events, of which at most the most recent page is returned. */
+  total: number;
+}
+
+/** A passkey registered to the account. */
+export interface Passkey {
+  id: string;
+  name: string;
+  /** Backed up to a cloud keychain rather than bound to one device. */
+  synced: boolean;
+  createdAt: string;
+  lastUsedAt?: string;
+}
+
+// WebAuthn options and responses travel as JSON with binary fields base64url encoded
+
+export interface PasskeyCreationOptions {
+  challengeId: string;
+  challenge: string;
+  rp: { id: string; name: string };
+  user: { id: string; name: string; displayName: string };
+  /** COSE algorithm ids, most preferred first. */
+  algorithms: number[];
+  /** Credential ids already registered, so the same authenticator isn't added twice. */
+  excludeCredentials: string[];
+  timeout: number;
+}
+
+export interface PasskeyRequestOptions {
+  challengeId: string;
+  challenge: string;
+  rpId: string;
+  timeout: number;
+}
+
+export interface PasskeyRegistration {
+  challengeId: string;
+  name?: string;
+  credential: {
+    id: string;
+    clientDataJSON: string;
+    attestationObject: string;
+  };
+}
+
+export interface PasskeyAssertion {
+  challengeId: string;
+  credential: {
+    id: string;
+    clientDataJSON: string;
+    authenticatorData: string;
+    signature: string;
+    userHandle?: string | null;
+  };
+}
+
+/** The configured single sign-on provider, as shown on the sign-in screen. */
+export interface SsoProvider {
+  name: string;
+}
+
+/** Returned once a session cookie has been issued, and by the session endpoint. */
+export interface SessionResponse<U = ApiUser> {
+  user: U;
+}
+
+export interface ApiErrorBody {
+  error: { message: string; field?: string; details?: Record<string, unknown> };
+}
@@ -0,0 +1,17 @@
+// Client-side form helpers shared by the auth screens.
+
+import { DEFAULT_REGION, isValidPhoneNumber } from './phone';
+
+export const isValidEmail = (email: string) => {
+  const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+  return emailRegex.test(email);
+};
+
+/** Numbers without a `+` prefix are read as belonging to `region`. */
+export const isValidPhone = (phone: string, region = DEFAULT_REGION) => isValidPhoneNumber(phone, region);
+
+export const detectInputType = (value: string) => {
+  if (isValidEmail(value)) return 'email';
+  if (isValidPhone(value)) return 'phone';
+  return 'unknown';
+};
@@ -0,0 +1,15 @@
+import { request } from '@/lib/auth/client';
+import type { AttendanceRegister, AttendanceSheetInput, GradeInput, Gradebook } from './types';
+
+export const gradesAPI = {
+  getGradebook: () => request<Gradebook>('/api/grades'),
+
+  /** Replaces any earlier grade for the same student and assignment. */
+  saveGrade: (input: GradeInput) => request<Gradebook>('/api/grades', input, { method: 'PUT' })
+};
+
+export const attendanceAPI = {
+  getRegister: () => request<AttendanceRegister>('/api/attendance'),
+
+  saveSheet: (input: AttendanceSheetInput) => request<AttendanceRegister>('/api/attendance', input, { method: 'PUT' })
+};
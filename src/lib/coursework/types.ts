@@ -0,0 +1,54 @@
+// Types shared by the grading/attendance API route handlers and the browser client.
+
+export interface RosterStudent {
+  id: string;
+  firstName: string;
+  lastName: string;
+  email: string;
+}
+
+export interface Grade {
+  id: string;
+  studentId: string;
+  assignment: string;
+  score: number;
+  maxScore: number;
+  feedback?: string;
+  gradedBy: string;
+  gradedAt: string;
+}
+
+export type GradeInput = Pick<Grade, 'studentId' | 'assignment' | 'score' | 'maxScore' | 'feedback'>;
+
+export interface Gradebook {
+  students: RosterStudent[];
+  /** Every assignment that has at least one grade, alphabetically. */
+  assignments: string[];
+  grades: Grade[];
+}
+
+export type AttendanceStatus = 'present' | 'absent' | 'late';
+
+export interface AttendanceEntry {
+  studentId: string;
+  status: AttendanceStatus;
+}
+
+/** One class meeting's roll call; there is at most one per course and date. */
+export interface AttendanceSheet {
+  id: string;
+  course: string;
+  /** `YYYY-MM-DD` */
+  date: string;
+  entries: AttendanceEntry[];
+  takenBy: string;
+  takenAt: string;
+}
+
+export type AttendanceSheetInput = Pick<AttendanceSheet, 'course' | 'date' | 'entries'>;
+
+export interface AttendanceRegister {
+  students: RosterStudent[];
+  courses: string[];
+  sheets: AttendanceSheet[];
+}
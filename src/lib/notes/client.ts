@@ -0,0 +1,20 @@
+import { request } from '@/lib/auth/client';
+import type { Note, NoteChanges, NoteInput, NoteRevision } from './types';
+
+export const notesAPI = {
+  list: () => request<Note[]>('/api/notes'),
+
+  create: (input: NoteInput) => request<Note>('/api/notes', input),
+
+  /** Fails with a 409 whose `details.note` is the server's copy when someone else saved first. */
+  update: (id: string, changes: NoteChanges) =>
+    request<Note>(`/api/notes/${encodeURIComponent(id)}`, changes, { method: 'PATCH' }),
+
+  revisions: (id: string) => request<NoteRevision[]>(`/api/notes/${encodeURIComponent(id)}/revisions`),
+
+  /** Saves an older revision as the current version; conflicts like `update`. */
+  restore: (id: string, revisionId: string, baseUpdatedAt: string) =>
+    request<Note>(`/api/notes/${encodeURIComponent(id)}/restore`, { revisionId, baseUpdatedAt }),
+
+  remove: (id: string) => request<{ success: true }>(`/api/notes/${encodeURIComponent(id)}`, undefined, { method: 'DELETE' })
+};
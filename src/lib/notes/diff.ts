@@ -0,0 +1,110 @@
+// Myers' O(ND) diff, for comparing note revisions line by line and, within a
+// changed line, word by word.
+
+export type DiffType = 'equal' | 'added' | 'removed';
+
+export interface DiffPart {
+  type: DiffType;
+  value: string;
+}
+
+// Past this many edits the comparison isn't worth the time; everything is
+// shown as replaced instead
+const MAX_EDITS = 2000;
+
+/**
+ * The furthest-reaching x for each diagonal k, saved before every round d
+ * as `trace[d][k + d]`. Null if the inputs differ by more than `MAX_EDITS`.
+ */
+const shortestEdit = <T>(a: T[], b: T[]): Int32Array[] | null => {
+  const n = a.length;
+  const m = b.length;
+  const offset = n + m + 1;
+  const v = new Int32Array(2 * offset + 1);
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= Math.min(n + m, MAX_EDITS); d++) {
+    trace.push(v.slice(offset - d, offset + d + 1));
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]) ? v[offset + k + 1] : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) return trace;
+    }
+  }
+  return null;
+};
+
+const diffSequences = (a: string[], b: string[]): DiffPart[] => {
+  const trace = shortestEdit(a, b);
+  if (!trace) {
+    return [
+      ...a.map(value => ({ type: 'removed' as const, value })),
+      ...b.map(value => ({ type: 'added' as const, value }))
+    ];
+  }
+
+  // Walk back from the end, one edit per round
+  const parts: DiffPart[] = [];
+  let x = a.length;
+  let y = b.length;
+  for (let d = trace.length - 1; d > 0; d--) {
+    const v = trace[d];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && v[k - 1 + d] < v[k + 1 + d]) ? k + 1 : k - 1;
+    const prevX = v[prevK + d];
+    const prevY = prevX - prevK;
+    while (x > prevX && y > prevY) {
+      parts.push({ type: 'equal', value: a[--x] });
+      y--;
+    }
+    if (x === prevX) {
+      parts.push({ type: 'added', value: b[--y] });
+    } else {
+      parts.push({ type: 'removed', value: a[--x] });
+    }
+  }
+  while (x > 0 && y > 0) {
+    parts.push({ type: 'equal', value: a[--x] });
+    y--;
+  }
+  return parts.reverse();
+};
+
+/** One part per line of `before` and `after`. */
+export const diffLines = (before: string, after: string): DiffPart[] => {
+  const a = before.split('\n');
+  const b = after.split('\n');
+
+  // Edits tend to be local, so the unchanged ends are skipped up front
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let end = 0;
+  while (end < a.length - start && end < b.length - start && a[a.length - 1 - end] === b[b.length - 1 - end]) end++;
+
+  const equal = (lines: string[]) => lines.map(value => ({ type: 'equal' as const, value }));
+  return [
+    ...equal(a.slice(0, start)),
+    ...diffSequences(a.slice(start, a.length - end), b.slice(start, b.length - end)),
+    ...equal(a.slice(a.length - end))
+  ];
+};
+
+/** Words, spaces and punctuation of two strings, with neighbouring parts of the same type merged. */
+export const diffWords = (before: string, after: string): DiffPart[] => {
+  const tokenize = (text: string) => text.match(/\s+|[\p{L}\p{N}_]+|[^\s\p{L}\p{N}_]/gu) ?? [];
+  const merged: DiffPart[] = [];
+  for (const part of diffSequences(tokenize(before), tokenize(after))) {
+    const last = merged[merged.length - 1];
+    if (last?.type === part.type) {
+      last.value += part.value;
+    } else {
+      merged.push({ ...part });
+    }
+  }
+  return merged;
+};
@@ -0,0 +1,184 @@
+import type { Note } from './types';
+
+// Plain-text edits behind the notes editor toolbar. Each takes the textarea's
+// value and selection and returns the new value with the selection to restore.
+
+export type MarkdownFormat =
+  | 'bold'
+  | 'italic'
+  | 'underline'
+  | 'code'
+  | 'link'
+  | 'math'
+  | 'mathBlock'
+  | 'heading1'
+  | 'heading2'
+  | 'heading3'
+  | 'quote'
+  | 'bulletList'
+  | 'numberedList'
+  | 'checklist';
+
+export interface TextEdit {
+  text: string;
+  selectionStart: number;
+  selectionEnd: number;
+}
+
+const WRAPPERS: Partial<Record<MarkdownFormat, [string, string, string]>> = {
+  bold: ['**', '**', 'bold text'],
+  italic: ['*', '*', 'italic text'],
+  underline: ['<u>', '</u>', 'underlined text'],
+  code: ['`', '`', 'code'],
+  math: ['$', '$', 'x^2']
+};
+
+const HEADING_PREFIX = /^#{1,6}\s+/;
+const LIST_PREFIX = /^(?:[-*+]\s+(?:\[[ xX]\]\s+)?|\d+[.)]\s+)/;
+
+// A line format is one prefix per line; `matches` spots lines that already have it
+const LINE_FORMATS: Partial<Record<MarkdownFormat, { prefix: (index: number) => string; matches: RegExp; replaces: RegExp }>> = {
+  heading1: { prefix: () => '# ', matches: /^#\s+/, replaces: HEADING_PREFIX },
+  heading2: { prefix: () => '## ', matches: /^##\s+/, replaces: HEADING_PREFIX },
+  heading3: { prefix: () => '### ', matches: /^###\s+/, replaces: HEADING_PREFIX },
+  quote: { prefix: () => '> ', matches: /^>\s?/, replaces: /^>\s?/ },
+  bulletList: { prefix: () => '- ', matches: /^[-*+]\s+(?!\[[ xX]\])/, replaces: LIST_PREFIX },
+  numberedList: { prefix: index => `${index + 1}. `, matches: /^\d+[.)]\s+/, replaces: LIST_PREFIX },
+  checklist: { prefix: () => '- [ ] ', matches: /^[-*+]\s+\[[ xX]\]\s+/, replaces: LIST_PREFIX }
+};
+
+const wrap = (text: string, start: number, end: number, [before, after, placeholder]: [string, string, string]): TextEdit => {
+  // Already wrapped: take the markers off again
+  if (text.slice(start - before.length, start) === before && text.slice(end, end + after.length) === after) {
+    return {
+      text: text.slice(0, start - before.length) + text.slice(start, end) + text.slice(end + after.length),
+      selectionStart: start - before.length,
+      selectionEnd: end - before.length
+    };
+  }
+
+  const inner = text.slice(start, end) || placeholder;
+  return {
+    text: text.slice(0, start) + before + inner + after + text.slice(end),
+    selectionStart: start + before.length,
+    selectionEnd: start + before.length + inner.length
+  };
+};
+
+const fence = (text: string, start: number, end: number, marker: string, placeholder: string): TextEdit => {
+  const inner = text.slice(start, end).replace(/\n$/, '') || placeholder;
+  // Fences have to start on a line of their own
+  const lead = start === 0 || text[start - 1] === '\n' ? '' : '\n';
+  const block = `${lead}${marker}\n${inner}\n${marker}\n`;
+  const innerStart = start + lead.length + marker.length + 1;
+  return {
+    text: text.slice(0, start) + block + text.slice(end),
+    selectionStart: innerStart,
+    selectionEnd: innerStart + inner.length
+  };
+};
+
+const link = (text: string, start: number, end: number): TextEdit => {
+  const selected = text.slice(start, end);
+  // A selected URL becomes the target; anything else becomes the link text
+  if (/^https?:\/\/\S+$/.test(selected)) {
+    const label = 'link text';
+    return {
+      text: `${text.slice(0, start)}[${label}](${selected})${text.slice(end)}`,
+      selectionStart: start + 1,
+      selectionEnd: start + 1 + label.length
+    };
+  }
+
+  const label = selected || 'link text';
+  const url = 'https://';
+  const urlStart = start + label.length + 3;
+  return {
+    text: `${text.slice(0, start)}[${label}](${url})${text.slice(end)}`,
+    selectionStart: urlStart,
+    selectionEnd: urlStart + url.length
+  };
+};
+
+const prefixLines = (text: string, start: number, end: number, format: NonNullable<(typeof LINE_FORMATS)[MarkdownFormat]>): TextEdit => {
+  const blockStart = text.lastIndexOf('\n', start - 1) + 1;
+  // A selection ending at the start of a line doesn't include that line
+  const lastLineEnd = end > start && text[end - 1] === '\n' ? end - 1 : end;
+  const newline = text.indexOf('\n', lastLineEnd);
+  const blockEnd = newline === -1 ? text.length : newline;
+
+  const lines = text.slice(blockStart, blockEnd).split('\n');
+  const filled = lines.filter(line => line.trim() !== '');
+  const removing = filled.length > 0 && filled.every(line => format.matches.test(line));
+
+  let index = 0;
+  const block = lines
+    .map(line => {
+      if (removing) return line.replace(format.matches, '');
+      if (line.trim() === '' && lines.length > 1) return line;
+      return format.prefix(index++) + line.replace(format.replaces, '');
+    })
+    .join('\n');
+
+  return {
+    text: text.slice(0, blockStart) + block + text.slice(blockEnd),
+    selectionStart: lines.length === 1 ? blockStart + block.length : blockStart,
+    selectionEnd: blockStart + block.length
+  };
+};
+
+/** Applies a toolbar format to the selection; applying it again undoes it where that makes sense. */
+export const applyMarkdownFormat = (text: string, start: number, end: number, format: MarkdownFormat): TextEdit => {
+  const multiline = text.slice(start, end).includes('\n');
+  if (format === 'code' && multiline) {
+    return fence(text, start, end, '```', 'code');
+  }
+  if (format === 'mathBlock' || (format === 'math' && multiline)) {
+    return fence(text, start, end, '$$', 'E = mc^2');
+  }
+  if (format === 'link') {
+    return link(text, start, end);
+  }
+
+  const wrapper = WRAPPERS[format];
+  if (wrapper) {
+    return wrap(text, start, end, wrapper);
+  }
+
+  const lineFormat = LINE_FORMATS[format];
+  return lineFormat ? prefixLines(text, start, end, lineFormat) : { text, selectionStart: start, selectionEnd: end };
+};
+
+/**
+ * Ticks or unticks the task list item whose Markdown starts at `offset`, as
+ * reported by the parser. Returns null if there is no checkbox there.
+ */
+export const toggleTaskAt = (text: string, offset: number): string | null => {
+  const match = /^(?:[-*+]|\d+[.)])[ \t]+\[([ xX])\]/.exec(text.slice(offset));
+  if (!match) return null;
+  const boxAt = offset + match[0].length - 2;
+  return text.slice(0, boxAt) + (match[1] === ' ' ? 'x' : ' ') + text.slice(boxAt + 1);
+};
+
+// `$…$` and `$$…$$`, which the Markdown clean-up below must leave alone
+const MATH = /\$\$[\s\S]+?\$\$|\$[^$\n]+\$/g;
+
+/** Roughly what a note reads like once rendered, for one-line previews. Math stays as written. */
+export const markdownToPlainText = (text: string) => {
+  const math: string[] = [];
+  const plain = text
+    .replace(MATH, formula => `\u0000${math.push(formula) - 1}\u0000`)
+    .replace(/```[^\n]*\n?/g, '')
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/<\/?[a-z][^>]*>/gi, '')
+    .replace(/^[ \t]*(?:#{1,6}|>|[-*+](?:[ \t]+\[[ xX]\])?|\d+[.)])[ \t]+/gm, '')
+    .replace(/(\*\*|__|\*|_|~~|`)(.+?)\1/g, '$2')
+    .replace(/^\s*\|?(?:\s*:?-+:?\s*\|)+\s*:?-*:?\s*$/gm, '')
+    .replace(/\n{2,}/g, '\n')
+    .trim();
+  return plain.replace(/\u0000(\d+)\u0000/g, (_, index: string) => math[Number(index)]);
+};
+
+/** A note as a standalone Markdown file, as it is downloaded and exported. */
+export const noteToMarkdown = (note: Pick<Note, 'title' | 'content'>) => `# ${note.title}\n\n${note.content}\n`;
@@ -0,0 +1,164 @@
+import { describe, expect, it } from 'vitest';
+import { NoteSearchIndex, parseQuery, stem, tokenize, type NoteSearchResult } from './search';
+import type { Note } from './types';
+
+const note = (id: string, fields: Partial<Note> = {}): Note => ({
+  id,
+  title: '',
+  content: '',
+  category: 'General',
+  isFavorite: false,
+  tags: [],
+  createdAt: '2026-01-01T00:00:00.000Z',
+  updatedAt: '2026-01-01T00:00:00.000Z',
+  ...fields
+});
+
+const NOTES = [
+  note('calculus', {
+    title: 'Integration by parts',
+    content: 'Pick **u** so that it gets simpler when differentiated.',
+    category: 'Mathematics',
+    tags: ['calculus', 'exam']
+  }),
+  note('physics', {
+    title: 'Kinematics',
+    content: 'Velocity is the integral of acceleration over time.',
+    category: 'Physics',
+    tags: ['mechanics']
+  }),
+  note('databases', {
+    title: 'Normal forms',
+    content: 'A table is in 3NF when every non-key column depends on the key.',
+    category: 'Computer Science',
+    tags: ['databases', 'exam']
+  })
+];
+
+const ids = (results: NoteSearchResult[]) => results.map(result => result.id);
+
+const indexOf = (notes: Note[]) => {
+  const index = new NoteSearchIndex();
+  index.sync(notes);
+  return index;
+};
+
+const marked = (text: string, ranges: { start: number; end: number }[]) => ranges.map(({ start, end }) => text.slice(start, end));
+
+describe('stem', () => {
+  it('follows the Porter stemmer', () => {
+    const expected: Record<string, string> = {
+      caresses: 'caress',
+      ponies: 'poni',
+      cats: 'cat',
+      agreed: 'agre',
+      hopping: 'hop',
+      relational: 'relat',
+      generalizations: 'gener',
+      electrical: 'electr',
+      adjustment: 'adjust',
+      controlling: 'control'
+    };
+    for (const [word, result] of Object.entries(expected)) {
+      expect(stem(word), word).toBe(result);
+    }
+  });
+
+  it('brings related words together', () => {
+    expect(stem('integrals')).toBe(stem('integration'));
+    expect(stem('integral')).toBe(stem('integrate'));
+  });
+
+  it('leaves short words alone', () => {
+    expect(stem('is')).toBe('is');
+    expect(stem('3nf')).toBe('3nf');
+  });
+});
+
+describe('tokenize', () => {
+  it('folds case and accents and keeps positions in the original text', () => {
+    const text = 'Café, déjà-vu 42!';
+    const tokens = tokenize(text);
+    expect(tokens.map(token => token.word)).toEqual(['cafe', 'deja', 'vu', '42']);
+    expect(marked(text, tokens)).toEqual(['Café', 'déjà', 'vu', '42']);
+  });
+});
+
+describe('parseQuery', () => {
+  it('splits filters from words', () => {
+    expect(parseQuery('Integrals tag:Exam category:"Computer Science" cat:phys tags:mechanics')).toEqual({
+      terms: ['integrals'],
+      tags: ['exam', 'mechanics'],
+      categories: ['computer science', 'phys']
+    });
+  });
+
+  it('searches unknown operators and empty filters as text', () => {
+    expect(parseQuery('tag: due:friday "normal forms')).toEqual({ terms: ['due', 'friday', 'normal', 'forms'], tags: [], categories: [] });
+  });
+});
+
+describe('NoteSearchIndex', () => {
+  it('finds other forms of a word', () => {
+    expect(ids(indexOf(NOTES).search('integrals').results)).toEqual(['calculus', 'physics']);
+  });
+
+  it('ranks a title match above a content match', () => {
+    const { results, ranked } = indexOf(NOTES).search('integration');
+    expect(ranked).toBe(true);
+    expect(ids(results)).toEqual(['calculus', 'physics']);
+    expect(results[0].score).toBeGreaterThan(results[1].score);
+  });
+
+  it('needs every word to match', () => {
+    expect(ids(indexOf(NOTES).search('integral velocity').results)).toEqual(['physics']);
+    expect(indexOf(NOTES).search('integral banana').results).toEqual([]);
+  });
+
+  it('matches the start of longer words', () => {
+    expect(ids(indexOf(NOTES).search('kinem').results)).toEqual(['physics']);
+    expect(ids(indexOf(NOTES).search('databa').results)).toEqual(['databases']);
+  });
+
+  it('filters by tag and category prefix without ranking', () => {
+    const index = indexOf(NOTES);
+    expect(index.search('tag:exam')).toEqual({
+      ranked: false,
+      results: [
+        { id: 'calculus', score: 0, titleHighlights: [], snippet: null },
+        { id: 'databases', score: 0, titleHighlights: [], snippet: null }
+      ]
+    });
+    expect(ids(index.search('tag:exam cat:comp').results)).toEqual(['databases']);
+    expect(ids(index.search('category:"computer science" key').results)).toEqual(['databases']);
+  });
+
+  it('highlights the title and a plain-text snippet of the content', () => {
+    const [calculus, physics] = indexOf(NOTES).search('integration').results;
+    expect(marked(NOTES[0].title, calculus.titleHighlights)).toEqual(['Integration']);
+    // Only the title matched
+    expect(calculus.snippet).toBeNull();
+    expect(physics.snippet?.text).toBe('Velocity is the integral of acceleration over time.');
+    expect(marked(physics.snippet!.text, physics.snippet!.highlights)).toEqual(['integral']);
+  });
+
+  it('cuts long content around the first match', () => {
+    const filler = 'lorem ipsum dolor sit amet '.repeat(10);
+    const long = note('long', { title: 'Long', content: `${filler}the answer is here ${filler}` });
+    const { snippet } = indexOf([long]).search('answer').results[0];
+    expect(snippet?.text.startsWith('…')).toBe(true);
+    expect(snippet?.text.endsWith('…')).toBe(true);
+    expect(snippet!.text.length).toBeLessThanOrEqual(162);
+    expect(marked(snippet!.text, snippet!.highlights)).toEqual(['answer']);
+  });
+
+  it('follows the notes it is synced with', () => {
+    const index = indexOf(NOTES);
+    const renamed = { ...NOTES[1], title: 'Dynamics' };
+    index.sync([NOTES[0], renamed]);
+
+    expect(index.search('kinematics').results).toEqual([]);
+    expect(ids(index.search('dynamics').results)).toEqual(['physics']);
+    expect(index.search('databases').results).toEqual([]);
+  });
+});
@@ -0,0 +1,353 @@
+import { markdownToPlainText } from './markdown';
+import type { Note } from './types';
+
+// In-memory inverted index over the notes already loaded in the browser.
+// Words are folded to lower case without accents and stemmed, so "Integrals"
+// finds "integration", and a word also matches the longer words it starts.
+// Results are ranked with BM25F, weighting the title over tags over content.
+
+export interface TextRange {
+  start: number;
+  end: number;
+}
+
+export interface NoteSearchResult {
+  id: string;
+  /** 0 when the query only filtered. */
+  score: number;
+  /** Matched words in the title. */
+  titleHighlights: TextRange[];
+  /** A stretch of the content around the first match, as plain text; null when only the title or tags matched. */
+  snippet: { text: string; highlights: TextRange[] } | null;
+}
+
+export interface NoteSearch {
+  results: NoteSearchResult[];
+  /** Whether the query had words to rank by, rather than only `tag:` or `category:` filters. */
+  ranked: boolean;
+}
+
+export interface ParsedQuery {
+  terms: string[];
+  tags: string[];
+  categories: string[];
+}
+
+// Title, tags, content
+const FIELD_BOOSTS = [3, 2, 1];
+const K1 = 1.2;
+const B = 0.75;
+// A prefix match counts for less than the whole word
+const PREFIX_WEIGHT = 0.7;
+const MIN_PREFIX_LENGTH = 2;
+const SNIPPET_LENGTH = 160;
+
+// Porter's stemmer (1980) for English
+const STEP2: Record<string, string> = {
+  ational: 'ate', tional: 'tion', enci: 'ence', anci: 'ance', izer: 'ize', bli: 'ble', alli: 'al', entli: 'ent',
+  eli: 'e', ousli: 'ous', ization: 'ize', ation: 'ate', ator: 'ate', alism: 'al', iveness: 'ive', fulness: 'ful',
+  ousness: 'ous', aliti: 'al', iviti: 'ive', biliti: 'ble', logi: 'log'
+};
+const STEP3: Record<string, string> = { icate: 'ic', ative: '', alize: 'al', iciti: 'ic', ical: 'ic', ful: '', ness: '' };
+
+const consonants = '[^aeiou][^aeiouy]*';
+const vowels = '[aeiouy][aeiou]*';
+const MEASURE_ABOVE_0 = new RegExp(`^(${consonants})?${vowels}${consonants}`);
+const MEASURE_1 = new RegExp(`^(${consonants})?${vowels}${consonants}(${vowels})?$`);
+const MEASURE_ABOVE_1 = new RegExp(`^(${consonants})?${vowels}${consonants}${vowels}${consonants}`);
+const HAS_VOWEL = new RegExp(`^(${consonants})?[aeiouy]`);
+const ENDS_CVC = new RegExp(`^${consonants}[aeiouy][^aeiouwxy]$`);
+
+export const stem = (word: string) => {
+  if (word.length < 3 || !/^[a-z]+$/.test(word)) return word;
+
+  // A leading y is a consonant; upper case keeps the patterns from treating it as a vowel
+  let w = word[0] === 'y' ? `Y${word.slice(1)}` : word;
+  let match: RegExpExecArray | null;
+
+  // Step 1a: plurals
+  if ((match = /^(.+?)(ss|i)es$/.exec(w))) w = match[1] + match[2];
+  else if ((match = /^(.+?)([^s])s$/.exec(w))) w = match[1] + match[2];
+
+  // Step 1b: -ed and -ing
+  if ((match = /^(.+?)eed$/.exec(w))) {
+    if (MEASURE_ABOVE_0.test(match[1])) w = w.slice(0, -1);
+  } else if ((match = /^(.+?)(ed|ing)$/.exec(w)) && HAS_VOWEL.test(match[1])) {
+    w = match[1];
+    if (/(at|bl|iz)$/.test(w)) w += 'e';
+    else if (/([^aeiouylsz])\1$/.test(w)) w = w.slice(0, -1);
+    else if (ENDS_CVC.test(w)) w += 'e';
+  }
+
+  // Step 1c: y to i
+  if ((match = /^(.+?)y$/.exec(w)) && HAS_VOWEL.test(match[1])) w = `${match[1]}i`;
+
+  // Steps 2 and 3: double and single suffixes
+  if ((match = /^(.+?)(ational|tional|enci|anci|izer|bli|alli|entli|eli|ousli|ization|ation|ator|alism|iveness|fulness|ousness|aliti|iviti|biliti|logi)$/.exec(w))) {
+    if (MEASURE_ABOVE_0.test(match[1])) w = match[1] + STEP2[match[2]];
+  }
+  if ((match = /^(.+?)(icate|ative|alize|iciti|ical|ful|ness)$/.exec(w))) {
+    if (MEASURE_ABOVE_0.test(match[1])) w = match[1] + STEP3[match[2]];
+  }
+
+  // Step 4: remaining suffixes
+  if ((match = /^(.+?)(al|ance|ence|er|ic|able|ible|ant|ement|ment|ent|ou|ism|ate|iti|ous|ive|ize)$/.exec(w))) {
+    if (MEASURE_ABOVE_1.test(match[1])) w = match[1];
+  } else if ((match = /^(.+?)(s|t)(ion)$/.exec(w))) {
+    if (MEASURE_ABOVE_1.test(match[1] + match[2])) w = match[1] + match[2];
+  }
+
+  // Step 5: a final -e and double l
+  if ((match = /^(.+?)e$/.exec(w))) {
+    const base = match[1];
+    if (MEASURE_ABOVE_1.test(base) || (MEASURE_1.test(base) && !ENDS_CVC.test(base))) w = base;
+  }
+  if (/ll$/.test(w) && MEASURE_ABOVE_1.test(w)) w = w.slice(0, -1);
+
+  return w[0] === 'Y' ? `y${w.slice(1)}` : w;
+};
+
+interface Token extends TextRange {
+  word: string;
+}
+
+const fold = (text: string) => text.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase();
+
+/** Words and numbers with their positions in `text`, folded to lower case without accents. */
+export const tokenize = (text: string): Token[] =>
+  Array.from(text.matchAll(/[\p{L}\p{M}\p{N}]+/gu), match => ({
+    word: fold(match[0]),
+    start: match.index,
+    end: match.index + match[0].length
+  }));
+
+/** Splits out `tag:` and `category:` filters; quotes allow spaces, as in `category:"Computer Science"`. */
+export const parseQuery = (query: string): ParsedQuery => {
+  const parsed: ParsedQuery = { terms: [], tags: [], categories: [] };
+  for (const match of query.matchAll(/(?:(\w+):)?(?:"([^"]*)"?|(\S*))/g)) {
+    if (!match[0]) continue;
+    const [, operator, quoted, bare] = match;
+    const value = (quoted ?? bare ?? '').trim();
+    const key = operator?.toLowerCase();
+    if (key === 'tag' || key === 'tags') {
+      if (value) parsed.tags.push(fold(value));
+    } else if (key === 'category' || key === 'cat') {
+      if (value) parsed.categories.push(fold(value));
+    } else {
+      // Anything else, including unknown operators, is searched as text
+      parsed.terms.push(...tokenize(match[0]).map(token => token.word));
+    }
+  }
+  return parsed;
+};
+
+interface IndexedNote {
+  note: Note;
+  plainText: string;
+  /** Per stem, how often it occurs in the title, tags and content. */
+  frequencies: Map<string, number[]>;
+  words: Set<string>;
+  lengths: number[];
+}
+
+interface QueryTerm {
+  word: string;
+  stem: string;
+  /** Stems of longer words that start with it, when it is long enough to be a prefix. */
+  prefixStems: string[];
+}
+
+export class NoteSearchIndex {
+  private docs = new Map<string, IndexedNote>();
+  private postings = new Map<string, Set<string>>();
+  private wordDocs = new Map<string, Set<string>>();
+  private sortedWords: string[] | null = null;
+  private totalLengths = [0, 0, 0];
+
+  /** Brings the index in line with `notes`, reindexing only notes that were replaced. */
+  sync(notes: Note[]) {
+    const ids = new Set<string>();
+    for (const note of notes) {
+      ids.add(note.id);
+      if (this.docs.get(note.id)?.note !== note) {
+        this.remove(note.id);
+        this.add(note);
+      }
+    }
+    for (const id of [...this.docs.keys()]) {
+      if (!ids.has(id)) this.remove(id);
+    }
+  }
+
+  add(note: Note) {
+    const plainText = markdownToPlainText(note.content);
+    const fields = [tokenize(note.title), tokenize(note.tags.join(' ')), tokenize(plainText)];
+    const doc: IndexedNote = {
+      note,
+      plainText,
+      frequencies: new Map(),
+      words: new Set(),
+      lengths: fields.map(tokens => tokens.length)
+    };
+
+    fields.forEach((tokens, field) => {
+      for (const { word } of tokens) {
+        const key = stem(word);
+        const counts = doc.frequencies.get(key) ?? [0, 0, 0];
+        counts[field]++;
+        doc.frequencies.set(key, counts);
+        doc.words.add(word);
+      }
+    });
+
+    for (const key of doc.frequencies.keys()) {
+      this.postings.set(key, (this.postings.get(key) ?? new Set()).add(note.id));
+    }
+    for (const word of doc.words) {
+      if (!this.wordDocs.has(word)) this.sortedWords = null;
+      this.wordDocs.set(word, (this.wordDocs.get(word) ?? new Set()).add(note.id));
+    }
+    doc.lengths.forEach((length, field) => (this.totalLengths[field] += length));
+    this.docs.set(note.id, doc);
+  }
+
+  remove(id: string) {
+    const doc = this.docs.get(id);
+    if (!doc) return;
+
+    for (const key of doc.frequencies.keys()) {
+      const ids = this.postings.get(key);
+      ids?.delete(id);
+      if (ids?.size === 0) this.postings.delete(key);
+    }
+    for (const word of doc.words) {
+      const ids = this.wordDocs.get(word);
+      ids?.delete(id);
+      if (ids?.size === 0) {
+        this.wordDocs.delete(word);
+        this.sortedWords = null;
+      }
+    }
+    doc.lengths.forEach((length, field) => (this.totalLengths[field] -= length));
+    this.docs.delete(id);
+  }
+
+  search(query: string): NoteSearch {
+    const { terms, tags, categories } = parseQuery(query);
+    const candidates = [...this.docs.values()].filter(
+      ({ note }) =>
+        tags.every(tag => note.tags.some(item => fold(item).startsWith(tag))) &&
+        categories.every(category => fold(note.category).startsWith(category))
+    );
+
+    if (terms.length === 0) {
+      return {
+        ranked: false,
+        results: candidates.map(({ note }) => ({ id: note.id, score: 0, titleHighlights: [], snippet: null }))
+      };
+    }
+
+    const queryTerms = terms.map(word => this.queryTerm(word));
+    const results: NoteSearchResult[] = [];
+    for (const doc of candidates) {
+      let score = 0;
+      // Every word has to match somewhere
+      for (const term of queryTerms) {
+        const termScore = Math.max(
+          this.termScore(doc, term.stem),
+          ...term.prefixStems.map(key => PREFIX_WEIGHT * this.termScore(doc, key))
+        );
+        if (termScore === 0) {
+          score = 0;
+          break;
+        }
+        score += termScore;
+      }
+      if (score > 0) {
+        results.push({
+          id: doc.note.id,
+          score,
+          titleHighlights: highlights(tokenize(doc.note.title), queryTerms),
+          snippet: snippet(doc.plainText, queryTerms)
+        });
+      }
+    }
+
+    return { ranked: true, results: results.sort((a, b) => b.score - a.score) };
+  }
+
+  private queryTerm(word: string): QueryTerm {
+    const key = stem(word);
+    if (word.length < MIN_PREFIX_LENGTH) {
+      return { word, stem: key, prefixStems: [] };
+    }
+
+    // Binary search for the first indexed word at or after the prefix
+    this.sortedWords ??= [...this.wordDocs.keys()].sort();
+    const words = this.sortedWords;
+    let low = 0;
+    let high = words.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (words[mid] < word) low = mid + 1;
+      else high = mid;
+    }
+
+    const prefixStems = new Set<string>();
+    for (let i = low; i < words.length && words[i].startsWith(word); i++) {
+      const longer = stem(words[i]);
+      if (longer !== key) prefixStems.add(longer);
+    }
+    return { word, stem: key, prefixStems: [...prefixStems] };
+  }
+
+  // BM25F: field frequencies are boosted and length-normalised before saturating
+  private termScore(doc: IndexedNote, key: string) {
+    const counts = doc.frequencies.get(key);
+    if (!counts) return 0;
+
+    const total = this.docs.size;
+    const averages = this.totalLengths.map(length => length / total || 1);
+    const weighted = counts.reduce(
+      (sum, count, field) => sum + (FIELD_BOOSTS[field] * count) / (1 - B + (B * doc.lengths[field]) / averages[field]),
+      0
+    );
+    const documentFrequency = this.postings.get(key)?.size ?? 0;
+    const idf = Math.log(1 + (total - documentFrequency + 0.5) / (documentFrequency + 0.5));
+    return (idf * weighted) / (K1 + weighted);
+  }
+}
+
+const matchesTerm = (word: string, terms: QueryTerm[]) =>
+  terms.some(term => stem(word) === term.stem || (term.word.length >= MIN_PREFIX_LENGTH && word.startsWith(term.word)));
+
+const highlights = (tokens: Token[], terms: QueryTerm[]): TextRange[] =>
+  tokens.filter(token => matchesTerm(token.word, terms)).map(({ start, end }) => ({ start, end }));
+
+// About SNIPPET_LENGTH characters starting a little before the first match, cut at word boundaries
+const snippet = (text: string, terms: QueryTerm[]): NoteSearchResult['snippet'] => {
+  const tokens = tokenize(text);
+  const matched = highlights(tokens, terms);
+  if (matched.length === 0) return null;
+
+  const first = matched[0].start;
+  let start = Math.max(0, first - 40);
+  if (start > 0) {
+    const wordStart = tokens.find(token => token.start >= start)?.start ?? first;
+    start = Math.min(wordStart, first);
+  }
+  let end = Math.min(text.length, start + SNIPPET_LENGTH);
+  if (end < text.length) {
+    end = [...tokens].reverse().find(token => token.end <= end && token.start >= first)?.end ?? end;
+  }
+
+  const prefix = start > 0 ? '…' : '';
+  const suffix = end < text.length ? '…' : '';
+  const shift = prefix.length - start;
+  return {
+    text: prefix + text.slice(start, end) + suffix,
+    highlights: matched
+      .filter(range => range.start >= start && range.end <= end)
+      .map(range => ({ start: range.start + shift, end: range.end + shift }))
+  };
+};
@@ -0,0 +1,32 @@
+// Types shared by the notes API route handlers and the browser client.
+
+export interface Note {
+  id: string;
+  title: string;
+  content: string;
+  category: string;
+  isFavorite: boolean;
+  tags: string[];
+  createdAt: string;
+  /** Doubles as the note's version: an update names the one it was based on. */
+  updatedAt: string;
+}
+
+/** The id is picked by the browser so a note can be shown before the server has it. */
+export type NoteInput = Pick<Note, 'id' | 'title' | 'content' | 'category' | 'tags'> & Partial<Pick<Note, 'isFavorite'>>;
+
+export type NoteChanges = Partial<Pick<Note, 'title' | 'content' | 'category' | 'isFavorite' | 'tags'>> & {
+  /** The `updatedAt` the changes were made on; a newer copy on the server is a conflict. */
+  baseUpdatedAt: string;
+};
+
+/** The title and content as one save left them. */
+export interface NoteRevision {
+  id: string;
+  noteId: string;
+  title: string;
+  content: string;
+  createdAt: string;
+  /** Id of the revision this one brought back, when it came from a restore. */
+  restoredFrom?: string;
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { safeRedirectPath, viewForPath } from './routes';
+
+describe('safeRedirectPath', () => {
+  it('keeps same-origin paths with their query and hash', () => {
+    expect(safeRedirectPath('/notes')).toBe('/notes');
+    expect(safeRedirectPath('/attendance/take?course=cs101#roster')).toBe('/attendance/take?course=cs101#roster');
+  });
+
+  it('falls back to the dashboard when there is nowhere to go', () => {
+    expect(safeRedirectPath(null)).toBe('/');
+    expect(safeRedirectPath(undefined)).toBe('/');
+    expect(safeRedirectPath('')).toBe('/');
+  });
+
+  it('refuses anything that would leave the site', () => {
+    for (const next of [
+      'https://evil.com',
+      'notes',
+      '//evil.com',
+      '//evil.com/notes',
+      '/\\evil.com',
+      '/\\/evil.com',
+      '/\t/evil.com',
+      '/\n/evil.com',
+      'javascript:alert(1)'
+    ]) {
+      expect(safeRedirectPath(next), next).toBe('/');
+    }
+  });
+
+  it('resolves dot segments instead of trusting them', () => {
+    expect(safeRedirectPath('/notes/../grading')).toBe('/grading');
+    expect(safeRedirectPath('/./notes')).toBe('/notes');
+  });
+
+  it('never sends a signed-in user back to the login page', () => {
+    expect(safeRedirectPath('/login')).toBe('/');
+    expect(safeRedirectPath('/login?next=/notes')).toBe('/');
+    expect(safeRedirectPath('/notes/../login')).toBe('/');
+  });
+});
+
+describe('viewForPath', () => {
+  it('picks the longest matching route', () => {
+    expect(viewForPath('/attendance/take')).toBe('take-attendance');
+    expect(viewForPath('/attendance')).toBe('attendance');
+    expect(viewForPath('/admin/users/42')).toBe('users');
+  });
+
+  it('falls back to the dashboard', () => {
+    expect(viewForPath('/')).toBe('dashboard');
+    expect(viewForPath('/notesy')).toBe('dashboard');
+  });
+});
@@ -0,0 +1,43 @@
+// Maps the navigation view ids used by TopNavigation/SidebarNavigation to URLs.
+export const viewRoutes: Record<string, string> = {
+  dashboard: '/',
+  notes: '/notes',
+  tasks: '/tasks',
+  assignments: '/assignments',
+  attendance: '/attendance',
+  grading: '/grading',
+  'take-attendance': '/attendance/take',
+  users: '/admin/users',
+  'security-log': '/admin/security',
+  'ai-chat': '/chat',
+  profile: '/settings'
+};
+
+export const LOGIN_ROUTE = '/login';
+export const FORGOT_PASSWORD_ROUTE = '/forgot-password';
+
+/** Pages reachable without a session. */
+export const PUBLIC_ROUTES = [LOGIN_ROUTE, FORGOT_PASSWORD_ROUTE];
+
+// Longest match wins, so /attendance/take isn't mistaken for /attendance
+export const viewForPath = (pathname: string) => {
+  const match = Object.entries(viewRoutes)
+    .filter(([, route]) => route !== '/' && (pathname === route || pathname.startsWith(`${route}/`)))
+    .sort(([, a], [, b]) => b.length - a.length)[0];
+  return match ? match[0] : 'dashboard';
+};
+
+// Stands in for our own origin when checking where a path would lead
+const PATH_BASE = 'http://localhost';
+
+/** Only same-origin absolute paths are allowed as post-login destinations. */
+export const safeRedirectPath = (next: string | null | undefined) => {
+  // Browsers read a backslash as a slash and drop tabs and newlines, so
+  // `/\evil.com` would leave the site
+  if (!next || !next.startsWith('/') || /[\\\u0000-\u001f\u007f]/.test(next)) return '/';
+
+  const url = new URL(next, PATH_BASE);
+  if (url.origin !== PATH_BASE) return '/';
+  const path = `${url.pathname}${url.search}${url.hash}`;
+  return path.startsWith(LOGIN_ROUTE) ? '/' : path;
+};
@@ -0,0 +1,179 @@
+import { format } from 'date-fns';
+import { ROLE_LABELS } from '@/lib/auth/roles';
+import { noteToMarkdown } from '@/lib/notes/markdown';
+import { accountEvents } from './audit';
+import { HttpError } from './http';
+import { toNote, toRevision } from './notes';
+import type { Database, UserRecord } from './schema';
+import { read } from './store';
+import { accountTarget, clearFailures } from './throttle';
+import { describeUserAgent } from './user-agent';
+import { findUserById, roleOf } from './users';
+import type { ZipEntry } from './zip';
+
+// Everything an account owns, for the "Download my data" archive and for
+// erasing the account once its deletion grace period ends. Anything new that
+// is stored per user belongs in both. Tasks, assignments and chat live only in
+// the page's state and never reach the server, which the README says.
+
+const toJson = (value: unknown) => `${JSON.stringify(value, null, 2)}\n`;
+
+const cell = (value: string | number | undefined) => String(value ?? '').replace(/\|/g, '\\|').replace(/\n/g, ' ');
+
+const markdownTable = (headers: string[], rows: (string | number | undefined)[][]) =>
+  rows.length === 0
+    ? '_None yet._'
+    : [
+        `| ${headers.join(' | ')} |`,
+        `| ${headers.map(() => '---').join(' | ')} |`,
+        ...rows.map(row => `| ${row.map(cell).join(' | ')} |`)
+      ].join('\n');
+
+const readme = (user: UserRecord, exportedAt: Date) => `# Your EduDash data
+
+Exported for ${user.firstName} ${user.lastName} (${user.email}) on ${format(exportedAt, 'd MMMM yyyy, HH:mm')}.
+
+- \`profile.json\`: your account details, role and sign-in settings
+- \`grades.json\` and \`grades.md\`: grades you have received
+- \`attendance.json\` and \`attendance.md\`: your attendance record
+- \`notes.json\`, and \`notes/\` with each note as a Markdown file
+- \`note-history.json\`: earlier versions of your notes
+- \`security/devices.json\`: browsers you are signed in on
+- \`security/passkeys.json\`: your passkeys (the keys themselves never leave your devices)
+- \`security/activity.json\`: sign-ins and other security events from the last 90 days
+
+Passwords, verification codes and recovery codes are only ever stored as hashes and are not included.
+
+Tasks, assignments and AI chat conversations are never saved to your account. They only exist in the browser tab they were made in and are gone once it is closed or reloaded, so they are not part of this export.
+`;
+
+const profileOf = (user: UserRecord) => ({
+  id: user.id,
+  email: user.email,
+  emailVerifiedAt: user.emailVerifiedAt,
+  phone: user.phone,
+  phoneVerifiedAt: user.phoneVerifiedAt,
+  firstName: user.firstName,
+  lastName: user.lastName,
+  role: ROLE_LABELS[roleOf(user)],
+  hasPassword: Boolean(user.passwordHash),
+  passwordChangedAt: user.passwordChangedAt,
+  authenticatorApp: Boolean(user.totp?.confirmedAt),
+  preferredMethod: user.preferredMethod,
+  singleSignOn: user.identities?.map(({ issuer, linkedAt }) => ({ issuer, linkedAt })),
+  deletionScheduledFor: user.deletionScheduledFor,
+  createdAt: user.createdAt,
+  updatedAt: user.updatedAt
+});
+
+// Titles become file names, so keep them short and free of path characters
+const noteFileName = (title: string, taken: Set<string>) => {
+  const base = title.replace(/[\\/:*?"<>|\x00-\x1f]+/g, ' ').replace(/\s+/g, ' ').trim().slice(0, 80) || 'Untitled Note';
+  let name = base;
+  for (let n = 2; taken.has(name.toLowerCase()); n++) name = `${base} (${n})`;
+  taken.add(name.toLowerCase());
+  return `notes/${name}.md`;
+};
+
+const gradesOf = (db: Database, user: UserRecord) =>
+  db.grades
+    .filter(grade => grade.studentId === user.id)
+    .sort((a, b) => a.assignment.localeCompare(b.assignment))
+    .map(({ assignment, score, maxScore, feedback, gradedAt }) => ({ assignment, score, maxScore, feedback, gradedAt }));
+
+const attendanceOf = (db: Database, user: UserRecord) =>
+  db.attendanceSheets
+    .flatMap(sheet =>
+      sheet.entries
+        .filter(entry => entry.studentId === user.id)
+        .map(entry => ({ course: sheet.course, date: sheet.date, status: entry.status }))
+    )
+    .sort((a, b) => b.date.localeCompare(a.date) || a.course.localeCompare(b.course));
+
+/** The files of the "Download my data" archive. */
+export const exportAccountData = (userId: string): Promise<ZipEntry[]> =>
+  read(db => {
+    const user = findUserById(db, userId);
+    if (!user) {
+      throw new HttpError(404, 'Account no longer exists');
+    }
+
+    const grades = gradesOf(db, user);
+    const attendance = attendanceOf(db, user);
+    const devices = db.devices
+      .filter(device => device.userId === user.id)
+      .map(device => ({
+        ...describeUserAgent(device.userAgent),
+        userAgent: device.userAgent,
+        ip: device.ip,
+        signedInAt: device.signedInAt,
+        lastSeenAt: device.lastSeenAt,
+        trustedUntil: device.trustedUntil
+      }));
+    const notes = db.notes
+      .filter(note => note.userId === user.id)
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+      .map(toNote);
+    const revisions = db.noteRevisions
+      .filter(revision => revision.userId === user.id)
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+      .map(toRevision);
+    const noteNames = new Set<string>();
+    const passkeys = db.passkeys
+      .filter(passkey => passkey.userId === user.id)
+      .map(({ name, backedUp, createdAt, lastUsedAt }) => ({ name, backedUp, createdAt, lastUsedAt }));
+
+    return [
+      { name: 'README.md', data: readme(user, new Date()) },
+      { name: 'profile.json', data: toJson(profileOf(user)) },
+      { name: 'grades.json', data: toJson(grades) },
+      {
+        name: 'grades.md',
+        data: `# Grades\n\n${markdownTable(
+          ['Assignment', 'Score', 'Feedback', 'Graded'],
+          grades.map(grade => [grade.assignment, `${grade.score} / ${grade.maxScore}`, grade.feedback, grade.gradedAt.slice(0, 10)])
+        )}\n`
+      },
+      { name: 'attendance.json', data: toJson(attendance) },
+      {
+        name: 'attendance.md',
+        data: `# Attendance\n\n${markdownTable(
+          ['Date', 'Course', 'Status'],
+          attendance.map(entry => [entry.date, entry.course, entry.status])
+        )}\n`
+      },
+      { name: 'notes.json', data: toJson(notes) },
+      { name: 'note-history.json', data: toJson(revisions) },
+      ...notes.map(note => ({ name: noteFileName(note.title, noteNames), data: noteToMarkdown(note) })),
+      { name: 'security/devices.json', data: toJson(devices) },
+      { name: 'security/passkeys.json', data: toJson(passkeys) },
+      { name: 'security/activity.json', data: toJson(accountEvents(db, user.id)) }
+    ];
+  });
+
+/**
+ * Removes the account and everything that belongs to it. Grades and roll
+ * calls the user recorded as an instructor belong to their students and stay.
+ * The security log keeps its entries until they age out.
+ */
+export const eraseAccount = (db: Database, user: UserRecord) => {
+  const owned = <T extends { userId?: string }>(item: T) => item.userId !== user.id;
+
+  db.users = db.users.filter(item => item.id !== user.id);
+  db.otpChallenges = db.otpChallenges.filter(owned);
+  db.sessions = db.sessions.filter(owned);
+  db.devices = db.devices.filter(owned);
+  db.passkeys = db.passkeys.filter(owned);
+  db.passkeyChallenges = db.passkeyChallenges.filter(owned);
+  db.notes = db.notes.filter(owned);
+  db.noteRevisions = db.noteRevisions.filter(owned);
+  clearFailures(db, accountTarget(user.email));
+
+  db.grades = db.grades.filter(grade => grade.studentId !== user.id);
+  for (const sheet of db.attendanceSheets) {
+    sheet.entries = sheet.entries.filter(entry => entry.studentId !== user.id);
+  }
+  for (const invite of db.invites) {
+    if (invite.usedBy === user.id) invite.usedBy = undefined;
+  }
+};
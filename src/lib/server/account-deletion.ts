@@ -0,0 +1,130 @@
+import type { AccountDeletionStatus, OtpChallengeInfo } from '@/lib/auth/types';
+import { eraseAccount } from './account-data';
+import { recordAuthEvent, recordOtpResult, recordOtpSent, type RequestContext } from './audit';
+import { signOutOtherDevices } from './devices';
+import { HttpError } from './http';
+import { accountDeletionNotice, deliverNotice } from './notices';
+import { deliverOtp, findChallenge, issueChallenge, resendChallenge, toChallengeInfo, verifyChallenge } from './otp';
+import type { Database, SessionRecord, UserRecord } from './schema';
+import { read, transaction } from './store';
+import { preferredMethod } from './two-factor';
+import { findUserById } from './users';
+
+// Deleting an account takes a code from the user's usual second factor, then
+// waits out a grace period in which the user can sign in and cancel.
+
+const GRACE_PERIOD_DAYS = 14;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const requireUser = (db: Database, userId: string) => {
+  const user = findUserById(db, userId);
+  if (!user) {
+    throw new HttpError(404, 'Account no longer exists');
+  }
+  return user;
+};
+
+const toStatus = (user: UserRecord): AccountDeletionStatus => ({
+  scheduledFor: user.deletionScheduledFor ?? null,
+  graceDays: GRACE_PERIOD_DAYS
+});
+
+export const getDeletionStatus = (userId: string): Promise<AccountDeletionStatus> =>
+  read(db => toStatus(requireUser(db, userId)));
+
+/** Sends the code that confirms the request; asking again resends it. */
+export const requestAccountDeletion = async (userId: string, context: RequestContext): Promise<OtpChallengeInfo> => {
+  const { info, message } = await transaction(db => {
+    const user = requireUser(db, userId);
+    if (user.deletionScheduledFor) {
+      throw new HttpError(409, 'Your account is already scheduled for deletion.');
+    }
+
+    const pending = db.otpChallenges.find(
+      item => item.userId === user.id && item.purpose === 'delete-account' && Date.parse(item.expiresAt) > Date.now()
+    );
+    // Asking again reuses the pending challenge, so its cooldown, send cap and
+    // attempt count all carry over; an authenticator challenge is just asked again
+    const issued = !pending
+      ? issueChallenge(db, user, 'delete-account', preferredMethod(user))
+      : pending.channel === 'totp'
+        ? { challenge: pending }
+        : resendChallenge(db, pending, user);
+    recordOtpSent(db, context, user, issued);
+    return {
+      info: { ...toChallengeInfo(issued.challenge, user), methods: [issued.challenge.channel] },
+      message: issued.message
+    };
+  });
+
+  await deliverOtp(message);
+  return info;
+};
+
+/**
+ * Schedules the account for deletion once the code is right, signs out every
+ * other browser and emails a heads-up. This browser stays signed in so the
+ * user can still cancel.
+ */
+export const confirmAccountDeletion = async (
+  current: SessionRecord,
+  challengeId: string,
+  code: string,
+  context: RequestContext
+): Promise<AccountDeletionStatus> => {
+  const outcome = await transaction(db => {
+    const user = requireUser(db, current.userId);
+    const challenge = findChallenge(db, challengeId);
+    if (challenge.userId !== user.id || challenge.purpose !== 'delete-account') {
+      throw new HttpError(404, 'Verification session not found. Please start again.');
+    }
+
+    const result = verifyChallenge(db, challengeId, code);
+    recordOtpResult(db, context, challenge, result);
+    if (!result.ok) return result;
+
+    const scheduledFor = new Date(Date.now() + GRACE_PERIOD_DAYS * DAY_MS).toISOString();
+    user.deletionScheduledFor = scheduledFor;
+    user.updatedAt = new Date().toISOString();
+    signOutOtherDevices(db, current);
+    recordAuthEvent(db, context, { type: 'deletion-scheduled', user, detail: `Due ${scheduledFor.slice(0, 10)}` });
+    return { ok: true as const, status: toStatus(user), notice: accountDeletionNotice(user.email, scheduledFor) };
+  });
+
+  if (!outcome.ok) throw outcome.error;
+  await deliverNotice(outcome.notice);
+  return outcome.status;
+};
+
+export const cancelAccountDeletion = (userId: string, context: RequestContext): Promise<AccountDeletionStatus> =>
+  transaction(db => {
+    const user = requireUser(db, userId);
+    if (!user.deletionScheduledFor) {
+      throw new HttpError(400, "Your account isn't scheduled for deletion.");
+    }
+    user.deletionScheduledFor = undefined;
+    user.updatedAt = new Date().toISOString();
+    recordAuthEvent(db, context, { type: 'deletion-cancelled', user });
+    return toStatus(user);
+  });
+
+const isDue = (user: UserRecord, now: number) =>
+  Boolean(user.deletionScheduledFor && Date.parse(user.deletionScheduledFor) <= now);
+
+/** Whether any account's grace period is over, so a write is needed to erase it. */
+export const hasDueDeletions = (db: Database) => {
+  const now = Date.now();
+  return db.users.some(user => isDue(user, now));
+};
+
+/**
+ * Erases every account whose grace period is over. There is no scheduler, so
+ * this runs on the sign-in paths, and on the session path once
+ * `hasDueDeletions` finds something to do.
+ */
+export const purgeDueDeletions = (db: Database) => {
+  const now = Date.now();
+  for (const user of db.users.filter(item => isDue(item, now))) {
+    eraseAccount(db, user);
+  }
+};
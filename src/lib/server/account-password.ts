@@ -0,0 +1,51 @@
+import { recordAuthEvent, type RequestContext } from './audit';
+import { signOutOtherDevices } from './devices';
+import { HttpError } from './http';
+import { verifyPassword } from './password';
+import { checkNewPassword, setPassword } from './password-policy';
+import type { SessionRecord } from './schema';
+import { transaction } from './store';
+import { accountTarget, checkThrottle, recordFailure } from './throttle';
+import { findUserById } from './users';
+
+/**
+ * Changes the signed-in user's password and signs out every other browser.
+ * Accounts created through single sign-on have no password yet and can set
+ * one without the current password.
+ */
+export const changePassword = async (
+  current: SessionRecord,
+  currentPassword: string,
+  newPassword: string,
+  context: RequestContext
+): Promise<void> => {
+  // Wrong current passwords count towards the sign-in lockout, so they are
+  // returned rather than thrown to be saved
+  const outcome = await transaction(async db => {
+    const user = findUserById(db, current.userId);
+    if (!user) {
+      throw new HttpError(404, 'Account no longer exists');
+    }
+
+    if (user.passwordHash) {
+      const targets = [accountTarget(user.email)];
+      const throttled = checkThrottle(db, targets);
+      if (throttled) return { ok: false as const, error: throttled };
+      if (!(await verifyPassword(currentPassword, user.passwordHash))) {
+        return {
+          ok: false as const,
+          error: recordFailure(db, targets) ?? new HttpError(400, 'Your current password is incorrect.', 'currentPassword')
+        };
+      }
+    }
+
+    await checkNewPassword(newPassword, user, 'newPassword');
+    await setPassword(user, newPassword);
+
+    signOutOtherDevices(db, current);
+    recordAuthEvent(db, context, { type: 'password-changed', user });
+    return { ok: true as const };
+  });
+
+  if (!outcome.ok) throw outcome.error;
+};
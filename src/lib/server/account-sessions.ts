@@ -0,0 +1,97 @@
+import type { AccountSessions, ActiveSession, TrustedDevice } from '@/lib/auth/types';
+import { recordAuthEvent, type RequestContext } from './audit';
+import { hasLiveRefreshToken, isTrustedDevice, signOutDevice, signOutOtherDevices } from './devices';
+import { HttpError } from './http';
+import type { Database, SessionRecord } from './schema';
+import { read, transaction } from './store';
+import { describeUserAgent } from './user-agent';
+import { findUserById } from './users';
+
+const latest = (...dates: string[]) => dates.reduce((a, b) => (Date.parse(b) > Date.parse(a) ? b : a));
+
+// Every browser is listed once, however many sessions it has minted
+const toAccountSessions = (db: Database, current: SessionRecord): AccountSessions => {
+  const now = Date.now();
+  const devices = db.devices.filter(device => device.userId === current.userId);
+  const liveSessions = db.sessions.filter(
+    session => session.userId === current.userId && Date.parse(session.expiresAt) > now
+  );
+
+  const sessions: ActiveSession[] = [];
+  const trustedDevices: TrustedDevice[] = [];
+  for (const device of devices) {
+    const deviceSessions = liveSessions.filter(session => session.deviceId === device.id);
+    const remembered = hasLiveRefreshToken(device);
+    const summary = { id: device.id, ...describeUserAgent(device.userAgent), ip: device.ip };
+    const isCurrent = device.id === current.deviceId;
+
+    if (deviceSessions.length > 0 || remembered) {
+      sessions.push({
+        ...summary,
+        signedInAt: device.signedInAt,
+        lastSeenAt: latest(device.lastSeenAt, ...deviceSessions.map(session => session.lastSeenAt)),
+        current: isCurrent,
+        remembered
+      });
+    }
+
+    if (device.trustedUntil && isTrustedDevice(device)) {
+      trustedDevices.push({ ...summary, lastSeenAt: device.lastSeenAt, trustedUntil: device.trustedUntil, current: isCurrent });
+    }
+  }
+
+  const byRecency = (a: { current: boolean; lastSeenAt: string }, b: { current: boolean; lastSeenAt: string }) =>
+    Number(b.current) - Number(a.current) || Date.parse(b.lastSeenAt) - Date.parse(a.lastSeenAt);
+  return { sessions: sessions.sort(byRecency), trustedDevices: trustedDevices.sort(byRecency) };
+};
+
+const requireDevice = (db: Database, userId: string, deviceId: string) => {
+  const device = db.devices.find(item => item.id === deviceId && item.userId === userId);
+  if (!device) {
+    throw new HttpError(404, 'That device is no longer signed in.');
+  }
+  return device;
+};
+
+export const listAccountSessions = (current: SessionRecord): Promise<AccountSessions> =>
+  read(db => toAccountSessions(db, current));
+
+/** Signs another browser out, including any "remember me" credential it holds. */
+export const signOutSession = (
+  current: SessionRecord,
+  deviceId: string,
+  context: RequestContext
+): Promise<AccountSessions> =>
+  transaction(db => {
+    if (deviceId === current.deviceId) {
+      throw new HttpError(400, 'Use "Sign out" to end the session you are using.');
+    }
+    const device = requireDevice(db, current.userId, deviceId);
+    signOutDevice(db, device);
+
+    const { browser, os } = describeUserAgent(device.userAgent);
+    recordAuthEvent(db, context, {
+      type: 'session-revoked',
+      user: findUserById(db, current.userId),
+      detail: `${browser} on ${os}${device.ip ? ` (${device.ip})` : ''}`
+    });
+    return toAccountSessions(db, current);
+  });
+
+export const signOutOtherSessions = (current: SessionRecord, context: RequestContext): Promise<AccountSessions> =>
+  transaction(db => {
+    signOutOtherDevices(db, current);
+    recordAuthEvent(db, context, {
+      type: 'session-revoked',
+      user: findUserById(db, current.userId),
+      detail: 'Every other device'
+    });
+    return toAccountSessions(db, current);
+  });
+
+/** The device will be asked for a one-time code again at its next sign-in. */
+export const forgetTrustedDevice = (current: SessionRecord, deviceId: string): Promise<AccountSessions> =>
+  transaction(db => {
+    requireDevice(db, current.userId, deviceId).trustedUntil = undefined;
+    return toAccountSessions(db, current);
+  });
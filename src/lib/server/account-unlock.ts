@@ -0,0 +1,58 @@
+import type { OtpChallengeInfo } from '@/lib/auth/types';
+import { recordOtpResult, recordOtpSent, type RequestContext } from './audit';
+import { HttpError } from './http';
+import { deliverOtp, findChallenge, reissueChallenge, reissueDecoyChallenge, singleChannelInfo, verifyChallenge } from './otp';
+import { transaction } from './store';
+import { accountTarget, checkThrottle, clearFailures, ipTargets, isLocked, recordFailure } from './throttle';
+import { findUserByEmail, findUserById } from './users';
+
+/**
+ * Emails an unlock code to a locked account. Accounts that don't exist or
+ * aren't locked get a decoy challenge that behaves the same, and nothing is sent.
+ */
+export const requestAccountUnlock = async (email: string, context: RequestContext): Promise<OtpChallengeInfo> => {
+  const { info, message } = await transaction(db => {
+    const user = findUserByEmail(db, email);
+    if (!user || !isLocked(db, accountTarget(user.email))) {
+      return { info: singleChannelInfo(reissueDecoyChallenge(db, 'unlock', 'email', email)), message: undefined };
+    }
+
+    const issued = reissueChallenge(db, user, 'unlock', 'email');
+    recordOtpSent(db, context, user, issued);
+    return { info: singleChannelInfo(issued.challenge), message: issued.message };
+  });
+
+  await deliverOtp(message);
+  return info;
+};
+
+/** Lifts the lockout once the emailed code is confirmed; the user then signs in as usual. */
+export const verifyAccountUnlock = async (challengeId: string, code: string, context: RequestContext): Promise<void> => {
+  const outcome = await transaction(db => {
+    const challenge = findChallenge(db, challengeId);
+    if (challenge.purpose !== 'unlock') {
+      throw new HttpError(404, 'Verification session not found. Please start again.');
+    }
+
+    // The account is locked by definition, so only the network is throttled
+    const targets = ipTargets(context.ip);
+    const throttled = checkThrottle(db, targets);
+    if (throttled) return { ok: false as const, error: throttled };
+
+    const result = verifyChallenge(db, challengeId, code);
+    if (!challenge.decoy) recordOtpResult(db, context, challenge, result);
+    if (!result.ok) {
+      const lockout = result.wrongCode ? recordFailure(db, targets) : undefined;
+      return { ok: false as const, error: lockout ?? result.error };
+    }
+
+    const user = findUserById(db, result.challenge.userId);
+    if (!user) {
+      throw new HttpError(404, 'Account no longer exists');
+    }
+    clearFailures(db, accountTarget(user.email));
+    return { ok: true as const };
+  });
+
+  if (!outcome.ok) throw outcome.error;
+};
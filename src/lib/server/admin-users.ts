@@ -0,0 +1,31 @@
+import type { ManagedUser, Role } from '@/lib/auth/types';
+import { HttpError } from './http';
+import type { Database } from './schema';
+import { read, transaction } from './store';
+import { findUserById, isConfiguredAdmin, toApiUser } from './users';
+
+const toManagedUsers = (db: Database): ManagedUser[] =>
+  db.users
+    .map(user => ({ ...toApiUser(user), roleLocked: isConfiguredAdmin(user.email) }))
+    .sort((a, b) => a.lastName.localeCompare(b.lastName) || a.firstName.localeCompare(b.firstName));
+
+export const listUsers = (): Promise<ManagedUser[]> => read(toManagedUsers);
+
+export const setUserRole = (actorId: string, userId: string, role: Role): Promise<ManagedUser[]> =>
+  transaction(db => {
+    const user = findUserById(db, userId);
+    if (!user) {
+      throw new HttpError(404, 'Account no longer exists');
+    }
+    // Stops the last admin from locking everyone out by accident
+    if (user.id === actorId) {
+      throw new HttpError(400, 'You cannot change your own role.', 'role');
+    }
+    if (isConfiguredAdmin(user.email)) {
+      throw new HttpError(409, 'This account is an administrator through ADMIN_EMAILS.', 'role');
+    }
+
+    user.role = role;
+    user.updatedAt = new Date().toISOString();
+    return toManagedUsers(db);
+  });
@@ -0,0 +1,41 @@
+import { randomUUID } from 'node:crypto';
+import type { AttendanceRegister, AttendanceSheetInput } from '@/lib/coursework/types';
+import { HttpError } from './http';
+import { listStudents, requireStudent } from './roster';
+import type { Database } from './schema';
+import { read, transaction } from './store';
+
+const toRegister = (db: Database): AttendanceRegister => ({
+  students: listStudents(db),
+  courses: [...new Set(db.attendanceSheets.map(sheet => sheet.course))].sort((a, b) => a.localeCompare(b)),
+  sheets: [...db.attendanceSheets].sort((a, b) => b.date.localeCompare(a.date))
+});
+
+export const getAttendanceRegister = (): Promise<AttendanceRegister> => read(toRegister);
+
+/** Saves the roll call for a course meeting; taking it again for the same day replaces it. */
+export const recordAttendance = (input: AttendanceSheetInput, takerId: string): Promise<AttendanceRegister> =>
+  transaction(db => {
+    const seen = new Set<string>();
+    for (const entry of input.entries) {
+      if (seen.has(entry.studentId)) {
+        throw new HttpError(400, 'Each student can only be marked once', 'entries');
+      }
+      seen.add(entry.studentId);
+      requireStudent(db, entry.studentId);
+    }
+
+    const course = input.course.trim();
+    const existing = db.attendanceSheets.find(sheet => sheet.course === course && sheet.date === input.date);
+    const sheet = {
+      id: existing?.id ?? randomUUID(),
+      course,
+      date: input.date,
+      entries: input.entries,
+      takenBy: takerId,
+      takenAt: new Date().toISOString()
+    };
+
+    db.attendanceSheets = [...db.attendanceSheets.filter(item => item !== existing), sheet];
+    return toRegister(db);
+  });
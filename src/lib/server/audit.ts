@@ -0,0 +1,158 @@
+import { randomUUID } from 'node:crypto';
+import { AUTH_EVENT_LABELS, describeSecurityEvent } from '@/lib/auth/audit';
+import type { AuditEvent, AuditEventFilters, AuditLog, AuthEventType, SecurityEvent } from '@/lib/auth/types';
+import type { DeviceContext } from './devices';
+import type { AnswerKind, IssuedOtp, VerifyOutcome } from './otp';
+import type { AuthEventRecord, Database, OtpChallengeRecord, UserRecord } from './schema';
+import { read } from './store';
+import { describeUserAgent } from './user-agent';
+import { findUserById, normalizeEmail } from './users';
+
+// Events are written inside the transaction that made the change, so a
+// failed attempt is logged exactly when its effect (a used-up attempt, a
+// lockout) is saved.
+
+const RETENTION_MS = 90 * 24 * 60 * 60 * 1000;
+// The whole log lives in the JSON store, so it is capped as well as aged out
+const MAX_EVENTS = 10_000;
+// Anyone can make failed attempts, so when the log is full these make room
+// first and never push out a record of something that happened to an account
+const EVICTABLE_TYPES = new Set<AuthEventType>(['sign-in-failed', 'otp-failed']);
+const ACTIVITY_LIMIT = 50;
+const AUDIT_PAGE_SIZE = 500;
+
+/** Where a request came from; any `DeviceContext` will do. */
+export type RequestContext = Pick<DeviceContext, 'ip' | 'userAgent'>;
+
+export interface AuthEventInput extends Pick<AuthEventRecord, 'type' | 'method' | 'purpose' | 'detail'> {
+  user?: UserRecord;
+  /** For attempts that named an account which doesn't exist. */
+  email?: string;
+}
+
+// Oldest evictable events go first; the rest are only ever aged out
+const capEvents = (events: AuthEventRecord[]) => {
+  let excess = events.length - MAX_EVENTS;
+  if (excess <= 0) return events;
+  return events.filter(event => {
+    if (excess > 0 && EVICTABLE_TYPES.has(event.type)) {
+      excess--;
+      return false;
+    }
+    return true;
+  });
+};
+
+export const recordAuthEvent = (db: Database, context: RequestContext, { user, email, ...event }: AuthEventInput) => {
+  const now = Date.now();
+  db.authEvents.push({
+    id: randomUUID(),
+    ...event,
+    userId: user?.id,
+    email: user?.email ?? (email && normalizeEmail(email)),
+    ip: context.ip,
+    userAgent: context.userAgent,
+    createdAt: new Date(now).toISOString()
+  });
+
+  const cutoff = now - RETENTION_MS;
+  db.authEvents = capEvents(db.authEvents.filter(item => Date.parse(item.createdAt) > cutoff));
+};
+
+/** Logs a delivered code; a reissue held back by the cooldown sent nothing and isn't logged. */
+export const recordOtpSent = (db: Database, context: RequestContext, user: UserRecord, { challenge, message }: IssuedOtp) => {
+  if (!message) return;
+  recordAuthEvent(db, context, { type: 'otp-sent', user, method: challenge.channel, purpose: challenge.purpose });
+};
+
+/** Logs the answer to `challenge`, which must be looked up before `verifyChallenge` removes it. */
+export const recordOtpResult = (
+  db: Database,
+  context: RequestContext,
+  challenge: OtpChallengeRecord,
+  result: VerifyOutcome,
+  kind: AnswerKind = 'code'
+) =>
+  recordAuthEvent(db, context, {
+    type: result.ok ? 'otp-verified' : 'otp-failed',
+    user: findUserById(db, challenge.userId),
+    method: kind === 'recovery' ? 'recovery-code' : challenge.channel,
+    purpose: challenge.purpose,
+    detail: result.ok ? undefined : result.error.message
+  });
+
+const toSecurityEvent = (event: AuthEventRecord): SecurityEvent => ({
+  id: event.id,
+  type: event.type,
+  method: event.method,
+  purpose: event.purpose,
+  detail: event.detail,
+  ...describeUserAgent(event.userAgent),
+  ip: event.ip,
+  createdAt: event.createdAt
+});
+
+const newestFirst = (a: AuthEventRecord, b: AuthEventRecord) => Date.parse(b.createdAt) - Date.parse(a.createdAt);
+
+/** Everything still on record for the account, newest first. */
+export const accountEvents = (db: Database, userId: string): SecurityEvent[] =>
+  db.authEvents.filter(event => event.userId === userId).sort(newestFirst).map(toSecurityEvent);
+
+/** The account's own recent activity, newest first. */
+export const listSecurityActivity = (userId: string): Promise<SecurityEvent[]> =>
+  read(db => accountEvents(db, userId).slice(0, ACTIVITY_LIMIT));
+
+const toAuditEvent = (db: Database, event: AuthEventRecord): AuditEvent => {
+  const user = event.userId ? findUserById(db, event.userId) : undefined;
+  return {
+    ...toSecurityEvent(event),
+    userId: event.userId,
+    email: event.email,
+    name: user ? `${user.firstName} ${user.lastName}` : undefined,
+    userAgent: event.userAgent
+  };
+};
+
+const matchingEvents = (db: Database, { type, query, from, to }: AuditEventFilters): AuditEvent[] => {
+  const needle = query?.trim().toLowerCase();
+  const after = from ? Date.parse(from) : -Infinity;
+  const before = to ? Date.parse(to) : Infinity;
+
+  return db.authEvents
+    .filter(event => (!type || event.type === type) && Date.parse(event.createdAt) >= after && Date.parse(event.createdAt) <= before)
+    .sort(newestFirst)
+    .map(event => toAuditEvent(db, event))
+    .filter(event => !needle || [event.email, event.name, event.ip, event.detail].some(value => value?.toLowerCase().includes(needle)));
+};
+
+export const listAuditEvents = (filters: AuditEventFilters): Promise<AuditLog> =>
+  read(db => {
+    const events = matchingEvents(db, filters);
+    return { events: events.slice(0, AUDIT_PAGE_SIZE), total: events.length };
+  });
+
+const CSV_COLUMNS: [string, (event: AuditEvent) => string | undefined][] = [
+  ['Time', event => event.createdAt],
+  ['Type', event => AUTH_EVENT_LABELS[event.type]],
+  ['Event', describeSecurityEvent],
+  ['Name', event => event.name],
+  ['Email', event => event.email],
+  ['IP address', event => event.ip],
+  ['Browser', event => event.browser],
+  ['OS', event => event.os],
+  ['User agent', event => event.userAgent],
+  ['Detail', event => event.detail]
+];
+
+// Quoted throughout; a leading formula character, or a tab or carriage return
+// that spreadsheets skip before one, is escaped so it isn't evaluated
+const csvCell = (value = '') => `"${(/^[=+\-@\t\r]/.test(value) ? `'${value}` : value).replace(/"/g, '""')}"`;
+
+/** Every matching event as CSV, not just the first page. */
+export const exportAuditEvents = (filters: AuditEventFilters): Promise<string> =>
+  read(db =>
+    [
+      CSV_COLUMNS.map(([header]) => csvCell(header)).join(','),
+      ...matchingEvents(db, filters).map(event => CSV_COLUMNS.map(([, cell]) => csvCell(cell(event))).join(','))
+    ].join('\r\n')
+  );
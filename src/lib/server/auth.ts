@@ -0,0 +1,358 @@
+import type {
+  ApiUser,
+  AuthEventMethod,
+  LoginResponse,
+  OtpChallengeInfo,
+  OtpChannel,
+  SignupData,
+  SignupResponse,
+  VerificationMethod
+} from '@/lib/auth/types';
+import { hasDueDeletions, purgeDueDeletions } from './account-deletion';
+import { recordAuthEvent, recordOtpResult, recordOtpSent, type RequestContext } from './audit';
+import {
+  findDevice,
+  isTrustedDevice,
+  issueRefreshToken,
+  markDeviceTrusted,
+  registerDevice,
+  revokeRefreshToken,
+  rotateRefreshToken,
+  type DeviceContext,
+  type IssuedDevice,
+  type IssuedRefresh
+} from './devices';
+import { HttpError } from './http';
+import {
+  type AnswerKind,
+  deliverOtp,
+  findChallenge,
+  issueChallenge,
+  resendChallenge,
+  toChallengeInfo,
+  verifyChallenge
+} from './otp';
+import { verifyPassword } from './password';
+import { checkNewPassword, isPasswordExpired } from './password-policy';
+import type { Database, OtpPurpose, SessionRecord, UserRecord } from './schema';
+import {
+  createSession,
+  findSessionByToken,
+  hashToken,
+  isTouchDue,
+  revokeSession,
+  touchSession,
+  type IssuedSession
+} from './sessions';
+import { read, transaction } from './store';
+import { checkSignupAllowed, redeemInvite, releaseInvites } from './signup-policy';
+import { accountTarget, checkThrottle, clearFailures, recordFailure, signInTargets } from './throttle';
+import { preferredMethod } from './two-factor';
+import {
+  createUser,
+  findUserByEmail,
+  findUserById,
+  isEmailVerificationPending,
+  markContactVerified,
+  toApiUser
+} from './users';
+
+/** A completed sign-in; the route turns it into session, device and refresh cookies. */
+export interface SignIn {
+  user: ApiUser;
+  session: IssuedSession;
+  device: IssuedDevice;
+  refresh?: IssuedRefresh;
+  /** Set when a concurrent resume already replaced the refresh cookie, which is then left alone. */
+  keepRefreshCookie?: boolean;
+}
+
+export interface SignInOptions {
+  /** What proved who the user is, for the audit log. */
+  method: AuthEventMethod;
+  device: DeviceContext;
+  rememberMe?: boolean;
+  trustDevice?: boolean;
+}
+
+export const completeSignIn = (db: Database, user: UserRecord, options: SignInOptions): SignIn => {
+  if (isEmailVerificationPending(user)) {
+    throw new HttpError(403, 'Confirm your email address to sign in. Sign in with your password to get a new code.');
+  }
+
+  const device = registerDevice(db, user.id, options.device);
+  if (options.trustDevice) {
+    markDeviceTrusted(device.device);
+  }
+
+  // Without "remember me" any older refresh credential for this browser goes too
+  let refresh: IssuedRefresh | undefined;
+  if (options.rememberMe) {
+    refresh = issueRefreshToken(device.device);
+  } else {
+    revokeRefreshToken(device.device);
+  }
+
+  clearFailures(db, accountTarget(user.email));
+  const session = createSession(db, user.id, device.device.id);
+  recordAuthEvent(db, options.device, { type: 'sign-in', user, method: options.method });
+  return { user: toApiUser(user), session, device, refresh };
+};
+
+export interface LoginOptions {
+  channel?: VerificationMethod;
+  rememberMe?: boolean;
+  device: DeviceContext;
+}
+
+const failedSignIn = (db: Database, context: RequestContext, email: string, error: HttpError) => {
+  recordAuthEvent(db, context, {
+    type: 'sign-in-failed',
+    user: findUserByEmail(db, email),
+    email,
+    method: 'password',
+    detail: error.message
+  });
+  return { ok: false as const, error };
+};
+
+/** Checks the password, then either starts OTP or, on a trusted device, signs straight in. */
+export const login = async (
+  email: string,
+  password: string,
+  { channel, rememberMe, device }: LoginOptions
+): Promise<{ response: LoginResponse; signIn?: SignIn }> => {
+  const targets = signInTargets(email, device.ip);
+  // Failures are returned rather than thrown so the failed attempt is saved
+  const outcome = await transaction(async db => {
+    purgeDueDeletions(db);
+    // Attempts turned away by the throttle aren't logged: the failure that
+    // started it was, and anyone can keep knocking
+    const throttled = checkThrottle(db, targets);
+    if (throttled) return { ok: false as const, error: throttled };
+
+    const user = findUserByEmail(db, email);
+    // Same message for unknown email and wrong password
+    if (!user || !(await verifyPassword(password, user.passwordHash))) {
+      return failedSignIn(db, device, email, recordFailure(db, targets) ?? new HttpError(401, 'Invalid email or password'));
+    }
+    // Only said once the password is known to be right
+    if (isPasswordExpired(user)) {
+      return failedSignIn(
+        db,
+        device,
+        email,
+        new HttpError(403, 'Your password has expired. Reset it to sign in.', 'password', { passwordExpired: true })
+      );
+    }
+
+    // Until the sign-up code is entered, signing in is how the address gets proven
+    const emailPending = isEmailVerificationPending(user);
+    if (!emailPending && isTrustedDevice(findDevice(db, user.id, device.token))) {
+      const signIn = completeSignIn(db, user, { method: 'password', device, rememberMe });
+      return { ok: true as const, response: { requiresOTP: false as const, user: signIn.user }, message: undefined, signIn };
+    }
+
+    const issued = issueChallenge(db, user, 'login', emailPending ? 'email' : channel ?? preferredMethod(user));
+    issued.challenge.rememberMe = rememberMe;
+    recordOtpSent(db, device, user, issued);
+    return {
+      ok: true as const,
+      // Nothing about the account is shown until the second factor is in
+      response: { requiresOTP: true as const, otp: toChallengeInfo(issued.challenge, user) },
+      message: issued.message,
+      signIn: undefined
+    };
+  });
+
+  if (!outcome.ok) throw outcome.error;
+  await deliverOtp(outcome.message);
+  return { response: outcome.response, signIn: outcome.signIn };
+};
+
+// Nobody has shown they own the address yet, so a new sign-up for it replaces
+// the account instead of leaving it to whoever typed the address first
+const discardUnverifiedAccount = (db: Database, user: UserRecord) => {
+  releaseInvites(db, user.id);
+  db.otpChallenges = db.otpChallenges.filter(challenge => challenge.userId !== user.id);
+  db.users = db.users.filter(item => item.id !== user.id);
+};
+
+export const signup = async (data: SignupData, context: RequestContext): Promise<SignupResponse> => {
+  const { response, message } = await transaction(async db => {
+    const existing = findUserByEmail(db, data.email);
+    if (existing && !isEmailVerificationPending(existing)) {
+      throw new HttpError(409, 'An account with this email already exists', 'email');
+    }
+    if (existing) {
+      discardUnverifiedAccount(db, existing);
+    }
+    const invite = checkSignupAllowed(db, data.email, data.inviteCode);
+    await checkNewPassword(data.password, data);
+
+    const user = await createUser(db, data);
+    user.emailVerificationRequired = true;
+    if (invite) {
+      user.role = invite.role;
+      redeemInvite(invite, user.id);
+    }
+    const issued = issueChallenge(db, user, 'signup');
+    recordOtpSent(db, context, user, issued);
+    return {
+      response: { requiresOTP: true as const, otp: toChallengeInfo(issued.challenge, user), user: toApiUser(user) },
+      message: issued.message
+    };
+  });
+
+  await deliverOtp(message);
+  return response;
+};
+
+export interface AuthenticatedSession {
+  user: ApiUser;
+  session: SessionRecord;
+}
+
+// Other purposes have their own endpoints and must not be able to start a session
+const SIGN_IN_PURPOSES: OtpPurpose[] = ['signup', 'login'];
+
+export interface VerifyOptions {
+  kind?: AnswerKind;
+  device: DeviceContext;
+  trustDevice?: boolean;
+}
+
+export const verifyOTP = async (
+  challengeId: string,
+  code: string,
+  { kind = 'code', device, trustDevice }: VerifyOptions
+): Promise<SignIn> => {
+  const outcome = await transaction(db => {
+    const pending = findChallenge(db, challengeId);
+    if (!SIGN_IN_PURPOSES.includes(pending.purpose)) {
+      throw new HttpError(404, 'Verification session not found. Please sign in again.');
+    }
+    const user = findUserById(db, pending.userId);
+    if (!user) {
+      throw new HttpError(404, 'Account no longer exists');
+    }
+
+    // Wrong codes count towards the same limits as wrong passwords
+    const targets = signInTargets(user.email, device.ip);
+    const throttled = checkThrottle(db, targets);
+    if (throttled) return { ok: false as const, error: throttled };
+
+    const result = verifyChallenge(db, challengeId, code, kind);
+    recordOtpResult(db, device, pending, result, kind);
+    if (!result.ok) {
+      const lockout = result.wrongCode ? recordFailure(db, targets) : undefined;
+      return { ok: false as const, error: lockout ?? result.error };
+    }
+
+    if (result.challenge.channel !== 'totp') {
+      markContactVerified(user, result.challenge.channel, result.challenge.destination);
+    }
+    const signIn = completeSignIn(db, user, {
+      method: kind === 'recovery' ? 'recovery-code' : result.challenge.channel,
+      device,
+      trustDevice,
+      rememberMe: result.challenge.rememberMe
+    });
+    return { ok: true as const, signIn };
+  });
+
+  if (!outcome.ok) throw outcome.error;
+  return outcome.signIn;
+};
+
+export const resendOTP = async (
+  challengeId: string,
+  channel: OtpChannel | undefined,
+  context: RequestContext
+): Promise<OtpChallengeInfo> => {
+  const { info, message } = await transaction(db => {
+    const challenge = findChallenge(db, challengeId);
+    if (!SIGN_IN_PURPOSES.includes(challenge.purpose)) {
+      throw new HttpError(404, 'Verification session not found. Please sign in again.');
+    }
+    const user = findUserById(db, challenge.userId);
+    if (!user) {
+      throw new HttpError(404, 'Account no longer exists');
+    }
+
+    const issued = resendChallenge(db, challenge, user, channel);
+    recordOtpSent(db, context, user, issued);
+    return { info: toChallengeInfo(issued.challenge, user), message: issued.message };
+  });
+
+  await deliverOtp(message);
+  return info;
+};
+
+const resolveSession = (db: Database, token: string): AuthenticatedSession | null => {
+  const session = findSessionByToken(db, token);
+  const user = session && findUserById(db, session.userId);
+  return session && user ? { user: toApiUser(user), session } : null;
+};
+
+/** Resolves a session token to its user, sliding the session's expiry. */
+export const getSession = async (token: string): Promise<AuthenticatedSession> => {
+  // Most requests change nothing, so the store is only written when the
+  // session is due a touch or an account is due to be erased
+  const snapshot = await read(db => ({ auth: resolveSession(db, token), purgeDue: hasDueDeletions(db) }));
+  let auth = snapshot.auth;
+  if (snapshot.purgeDue || (auth && isTouchDue(auth.session))) {
+    auth = await transaction(db => {
+      purgeDueDeletions(db);
+      const found = resolveSession(db, token);
+      if (found) touchSession(found.session);
+      return found;
+    });
+  }
+
+  if (!auth) {
+    throw new HttpError(401, 'Your session has expired. Please sign in again.');
+  }
+  return auth;
+};
+
+/**
+ * Starts a new session from a "remember me" refresh token, rotating it.
+ * Returns null (rather than throwing) so a detected replay is still saved.
+ */
+export const resumeSession = (refreshToken: string, context: DeviceContext): Promise<SignIn | null> =>
+  transaction(db => {
+    purgeDueDeletions(db);
+    const resumed = rotateRefreshToken(db, refreshToken);
+    const user = resumed && findUserById(db, resumed.device.userId);
+    if (!resumed || !user) return null;
+
+    const { device, refresh } = resumed;
+    device.userAgent = context.userAgent;
+    device.ip = context.ip;
+    const session = createSession(db, user.id, device.id);
+    return {
+      user: toApiUser(user),
+      session,
+      device: { device, tokenExpiresAt: device.refreshExpiresAt ?? session.session.expiresAt },
+      refresh,
+      keepRefreshCookie: !refresh
+    };
+  });
+
+/** Ends the session and forgets this browser's "remember me" credential. */
+export const logout = (token: string | null, refreshToken: string | null, context: RequestContext): Promise<void> =>
+  transaction(db => {
+    const session = token ? findSessionByToken(db, token) : undefined;
+    if (session) {
+      revokeSession(db, session.id);
+      recordAuthEvent(db, context, { type: 'sign-out', user: findUserById(db, session.userId) });
+    }
+
+    const refreshHash = refreshToken && hashToken(refreshToken);
+    for (const device of db.devices) {
+      if ((session && device.id === session.deviceId) || (refreshHash && device.refreshTokenHash === refreshHash)) {
+        revokeRefreshToken(device);
+      }
+    }
+  });
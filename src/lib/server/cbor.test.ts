@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { decodeCbor, decodeCborItem } from './cbor';
+
+const bytes = (...values: number[]) => new Uint8Array(values);
+const hex = (value: string) => new Uint8Array(Buffer.from(value, 'hex'));
+
+// Examples from RFC 8949 appendix A
+describe('decodeCbor', () => {
+  it('reads integers of every width', () => {
+    expect(decodeCbor(hex('00'))).toBe(0);
+    expect(decodeCbor(hex('17'))).toBe(23);
+    expect(decodeCbor(hex('1818'))).toBe(24);
+    expect(decodeCbor(hex('1903e8'))).toBe(1000);
+    expect(decodeCbor(hex('1a000f4240'))).toBe(1000000);
+    expect(decodeCbor(hex('1b000000e8d4a51000'))).toBe(1000000000000);
+    expect(decodeCbor(hex('20'))).toBe(-1);
+    expect(decodeCbor(hex('3903e7'))).toBe(-1000);
+  });
+
+  it('reads byte and text strings', () => {
+    expect(decodeCbor(hex('4401020304'))).toEqual(bytes(1, 2, 3, 4));
+    expect(decodeCbor(hex('6449455446'))).toBe('IETF');
+    expect(decodeCbor(hex('62c3bc'))).toBe('ü');
+    expect(decodeCbor(hex('60'))).toBe('');
+  });
+
+  it('reads simple values', () => {
+    expect(decodeCbor(hex('f4'))).toBe(false);
+    expect(decodeCbor(hex('f5'))).toBe(true);
+    expect(decodeCbor(hex('f6'))).toBeNull();
+    expect(decodeCbor(hex('f7'))).toBeUndefined();
+  });
+
+  it('reads nested arrays and maps with any key type', () => {
+    expect(decodeCbor(hex('8301820203820405'))).toEqual([1, [2, 3], [4, 5]]);
+    expect(decodeCbor(hex('a201020304'))).toEqual(new Map([[1, 2], [3, 4]]));
+    expect(decodeCbor(hex('a26161016162820203'))).toEqual(new Map<unknown, unknown>([['a', 1], ['b', [2, 3]]]));
+  });
+
+  it('reads a COSE key', () => {
+    // {1: 2, 3: -7, -1: 1, -2: h'01', -3: h'02'}
+    const key = decodeCbor(hex('a5010203262001214101224102'));
+    expect(key).toEqual(new Map<unknown, unknown>([[1, 2], [3, -7], [-1, 1], [-2, bytes(1)], [-3, bytes(2)]]));
+  });
+
+  it('rejects truncated input', () => {
+    expect(() => decodeCbor(bytes())).toThrow('Truncated CBOR');
+    expect(() => decodeCbor(hex('440102'))).toThrow('Truncated CBOR');
+    expect(() => decodeCbor(hex('8201'))).toThrow('Truncated CBOR');
+    expect(() => decodeCbor(hex('19'))).toThrow(RangeError);
+  });
+
+  it('rejects what WebAuthn never sends', () => {
+    // indefinite-length array, tag, half-precision float
+    expect(() => decodeCbor(hex('9f01ff'))).toThrow('Unsupported CBOR length');
+    expect(() => decodeCbor(hex('c11a514b67b0'))).toThrow('Unsupported CBOR type');
+    expect(() => decodeCbor(hex('f93c00'))).toThrow('Unsupported CBOR value');
+  });
+});
+
+describe('decodeCborItem', () => {
+  it('returns where the item ends, so trailing data can be read on', () => {
+    const data = hex('ff' + '820102' + 'deadbeef');
+    expect(decodeCborItem(data, 1)).toEqual({ value: [1, 2], end: 4 });
+  });
+});
@@ -0,0 +1,80 @@
+// Just enough CBOR (RFC 8949) to read WebAuthn attestation objects and COSE
+// keys: definite-length items only, maps decoded as `Map` since COSE keys
+// are integers.
+
+export type CborValue =
+  | number
+  | string
+  | boolean
+  | null
+  | undefined
+  | Uint8Array
+  | CborValue[]
+  | Map<CborValue, CborValue>;
+
+const readLength = (view: DataView, info: number, offset: number): [number, number] => {
+  if (info < 24) return [info, offset];
+  if (info === 24) return [view.getUint8(offset), offset + 1];
+  if (info === 25) return [view.getUint16(offset), offset + 2];
+  if (info === 26) return [view.getUint32(offset), offset + 4];
+  if (info === 27) return [Number(view.getBigUint64(offset)), offset + 8];
+  throw new Error('Unsupported CBOR length');
+};
+
+const readItem = (data: Uint8Array, view: DataView, offset: number): [CborValue, number] => {
+  if (offset >= data.length) throw new Error('Truncated CBOR');
+  const major = data[offset] >> 5;
+  const info = data[offset] & 31;
+
+  if (major === 7) {
+    const simple: Record<number, CborValue> = { 20: false, 21: true, 22: null, 23: undefined };
+    if (!(info in simple)) throw new Error('Unsupported CBOR value');
+    return [simple[info], offset + 1];
+  }
+
+  const [length, start] = readLength(view, info, offset + 1);
+  switch (major) {
+    case 0:
+      return [length, start];
+    case 1:
+      return [-1 - length, start];
+    case 2:
+    case 3: {
+      if (start + length > data.length) throw new Error('Truncated CBOR');
+      const bytes = data.slice(start, start + length);
+      return [major === 2 ? bytes : new TextDecoder().decode(bytes), start + length];
+    }
+    case 4: {
+      const items: CborValue[] = [];
+      let next = start;
+      for (let i = 0; i < length; i++) {
+        const [item, end] = readItem(data, view, next);
+        items.push(item);
+        next = end;
+      }
+      return [items, next];
+    }
+    case 5: {
+      const map = new Map<CborValue, CborValue>();
+      let next = start;
+      for (let i = 0; i < length; i++) {
+        const [key, keyEnd] = readItem(data, view, next);
+        const [value, valueEnd] = readItem(data, view, keyEnd);
+        map.set(key, value);
+        next = valueEnd;
+      }
+      return [map, next];
+    }
+    default:
+      // Tags (major type 6) never appear in the structures we read
+      throw new Error('Unsupported CBOR type');
+  }
+};
+
+/** Decodes the item at `offset`, returning it and where it ends. */
+export const decodeCborItem = (data: Uint8Array, offset = 0): { value: CborValue; end: number } => {
+  const [value, end] = readItem(data, new DataView(data.buffer, data.byteOffset, data.byteLength), offset);
+  return { value, end };
+};
+
+export const decodeCbor = (data: Uint8Array): CborValue => decodeCborItem(data).value;
@@ -0,0 +1,578 @@
+// Widely used and leaked passwords, checked offline when a password is chosen.
+// Compiled from public breach-frequency lists; one per line, in lower case.
+// `PASSWORD_BLOCKLIST_FILE` adds more without a rebuild.
+
+export const COMMON_PASSWORDS = `
+123456
+password
+12345678
+qwerty
+123456789
+12345
+1234
+111111
+1234567
+dragon
+123123
+baseball
+abc123
+football
+monkey
+letmein
+696969
+shadow
+master
+666666
+qwertyuiop
+123321
+mustang
+1234567890
+michael
+654321
+superman
+1qaz2wsx
+7777777
+121212
+000000
+qazwsx
+123qwe
+killer
+trustno1
+jordan
+jennifer
+zxcvbnm
+asdfgh
+hunter
+buster
+soccer
+harley
+batman
+andrew
+tigger
+sunshine
+iloveyou
+2000
+charlie
+robert
+thomas
+hockey
+ranger
+daniel
+starwars
+klaster
+112233
+george
+computer
+michelle
+jessica
+pepper
+1111
+zxcvbn
+555555
+11111111
+131313
+freedom
+777777
+pass
+maggie
+159753
+aaaaaa
+ginger
+princess
+joshua
+cheese
+amanda
+summer
+love
+ashley
+nicole
+chelsea
+biteme
+matthew
+access
+yankees
+987654321
+dallas
+austin
+thunder
+taylor
+matrix
+mobilemail
+mom
+monitor
+monitoring
+montana
+moon
+moscow
+william
+corvette
+hello
+martin
+heather
+secret
+merlin
+diamond
+1234qwer
+gfhjkm
+hammer
+silver
+222222
+88888888
+anthony
+justin
+test
+bailey
+q1w2e3r4t5
+patrick
+internet
+scooter
+orange
+11111
+golfer
+cookie
+richard
+samantha
+bigdog
+guitar
+jackson
+whatever
+mickey
+chicken
+sparky
+snoopy
+maverick
+phoenix
+camaro
+peanut
+morgan
+welcome
+falcon
+cowboy
+ferrari
+samsung
+andrea
+smokey
+steelers
+joseph
+mercedes
+dakota
+arsenal
+eagles
+melissa
+boomer
+booboo
+spider
+nascar
+monster
+tigers
+yellow
+xxxxxx
+123123123
+gateway
+marina
+diablo
+bulldog
+qwer1234
+compaq
+purple
+hardcore
+banana
+junior
+hannah
+123654
+porsche
+lakers
+iceman
+money
+cowboys
+987654
+london
+tennis
+999999
+ncc1701
+coffee
+scooby
+0000
+miller
+boston
+q1w2e3r4
+brandon
+yamaha
+chester
+mother
+forever
+johnny
+edward
+333333
+oliver
+redsox
+player
+nikita
+knight
+fender
+barney
+midnight
+please
+brandy
+chicago
+badboy
+slayer
+rangers
+charles
+angel
+flower
+bigdaddy
+rabbit
+wizard
+jasper
+enter
+rachel
+chris
+steven
+winner
+adidas
+victoria
+natasha
+1q2w3e4r
+jasmine
+winter
+prince
+panties
+marine
+ghbdtn
+fishing
+cocacola
+casper
+james
+232323
+raiders
+888888
+marlboro
+gandalf
+asdfasdf
+crystal
+87654321
+12344321
+golden
+8675309
+disney
+qwert123
+admin
+administrator
+passw0rd
+p@ssw0rd
+p@ssword
+pa55word
+password1
+password12
+password123
+password1234
+passwort
+motdepasse
+contrasena
+senha
+parola
+wachtwoord
+changeme
+default
+guest
+login
+letmein1
+welcome1
+welcome123
+iloveyou1
+abc12345
+abcd1234
+qwerty1
+qwerty12
+qwerty123
+1q2w3e
+1q2w3e4r5t
+zaq12wsx
+zaq1zaq1
+asdf1234
+asdfghjkl
+azerty
+1qazxsw2
+qazwsxedc
+147258369
+123abc
+a123456
+aa123456
+123456a
+1234abcd
+111222
+121314
+123789
+147258
+159357
+147852
+super
+123456789a
+secret1
+hello123
+hello1
+love123
+lovely
+loveme
+iloveu
+friends
+family
+baby
+babygirl
+angel1
+princess1
+sunshine1
+summer1
+spring
+autumn
+fall
+january
+february
+march
+april
+june
+july
+august
+september
+october
+november
+december
+monday
+tuesday
+wednesday
+thursday
+friday
+saturday
+sunday
+college
+student
+students
+university
+school
+teacher
+professor
+campus
+academy
+library
+classroom
+homework
+semester
+graduate
+graduation
+freshman
+sophomore
+senior
+alumni
+education
+learning
+study
+studying
+exam
+exams
+grades
+course
+courses
+science
+physics
+chemistry
+biology
+history
+english
+math
+maths
+calculus
+algebra
+computer1
+programmer
+developer
+coding
+hacker
+linux
+windows
+apple
+google
+facebook
+twitter
+instagram
+youtube
+netflix
+spotify
+amazon
+microsoft
+iphone
+android
+samsung1
+nokia
+pokemon
+minecraft
+fortnite
+roblox
+naruto
+starwars1
+superman1
+batman1
+spiderman
+ironman
+avengers
+marvel
+harrypotter
+hogwarts
+gryffindor
+zelda
+mario
+chocolate
+cookies
+cupcake
+pizza
+hotdog
+banana1
+apple1
+orange1
+strawberry
+cherry
+peaches
+blueberry
+butterfly
+dolphin
+elephant
+giraffe
+panda
+tiger
+lion
+kitten
+kitty
+puppy
+doggy
+doggie
+bear
+teddy
+teddybear
+unicorn
+rainbow
+flowers
+sunflower
+rose
+daisy
+lily
+jordan23
+lebron
+kobe
+messi
+ronaldo
+liverpool
+manchester
+barcelona
+realmadrid
+juventus
+chelsea1
+arsenal1
+football1
+soccer1
+baseball1
+basketball
+hockey1
+golf
+tennis1
+volleyball
+softball
+qwerty7
+letmein!
+welcome!
+password!
+passw0rd!
+p4ssw0rd
+pa$$word
+secret123
+admin123
+admin1
+root
+toor
+user
+test123
+test1
+testing
+tester
+demo
+sample
+example
+temp
+temp123
+guest123
+master1
+master123
+shadow1
+dragon1
+monkey1
+michael1
+jessica1
+ashley1
+charlie1
+jordan1
+daniel1
+thomas1
+andrew1
+matthew1
+joshua1
+robert1
+nicole1
+jennifer1
+whatever1
+freedom1
+trustme
+believe
+blessed
+blessing
+jesus
+christ
+god
+godisgood
+faith
+heaven
+angels
+loveyou
+mylove
+lover
+sexy
+hottie
+beautiful
+pretty
+cutie
+sweet
+sweetie
+honey
+sugar
+babe
+darling
+qwertyui
+asdfghjk
+zxcvbnm1
+1qaz2wsx3edc
+q1w2e3
+qweasd
+qweasdzxc
+qazxsw
+12qwaszx
+abcdef
+abcdefg
+abcdefgh
+abc123456
+123abc456
+1a2b3c4d
+0987654321
+9876543210
+10203040
+11223344
+12341234
+1111111111
+00000000
+99999999
+12121212
+123454321
+1234554321
+1122334455
+5201314
+147896325
+789456123
+741852963
+`;
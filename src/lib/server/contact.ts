@@ -0,0 +1,179 @@
+import type { ContactDetails, ContactVerification, ContactChannel } from '@/lib/auth/types';
+import { recordOtpResult, recordOtpSent, type RequestContext } from './audit';
+import { HttpError } from './http';
+import { contactChangedNotice, deliverNotice } from './notices';
+import { deliverOtp, findChallenge, issueChallenge, resendChallenge, toChallengeInfo, verifyChallenge } from './otp';
+import type { Database, OtpChallengeRecord, UserRecord } from './schema';
+import { read, transaction } from './store';
+import { findUserByEmail, findUserById, findUserByPhone, normalizeEmail } from './users';
+
+// A change of email or phone is held in a `verify-*` challenge addressed to
+// the new value; the account keeps using the old one until the code arrives.
+
+const PURPOSES = { email: 'verify-email', sms: 'verify-phone' } as const;
+const LABELS = { email: 'email address', sms: 'phone number' } as const;
+// Matches the profile form's field names, for inline errors
+const FIELDS = { email: 'email', sms: 'phone' } as const;
+
+const NOT_FOUND = 'Verification session not found. Please start again.';
+
+const requireUser = (db: Database, userId: string) => {
+  const user = findUserById(db, userId);
+  if (!user) {
+    throw new HttpError(404, 'Account no longer exists');
+  }
+  return user;
+};
+
+const pendingChallenge = (db: Database, user: UserRecord, channel: ContactChannel) =>
+  db.otpChallenges.find(
+    item => item.userId === user.id && item.purpose === PURPOSES[channel] && Date.parse(item.expiresAt) > Date.now()
+  );
+
+const toContactDetails = (db: Database, user: UserRecord): ContactDetails => {
+  const pendingEmail = pendingChallenge(db, user, 'email')?.destination;
+  const pendingPhone = pendingChallenge(db, user, 'sms')?.destination;
+  return {
+    email: user.email,
+    emailVerified: Boolean(user.emailVerifiedAt),
+    phone: user.phone,
+    phoneVerified: Boolean(user.phone && user.phoneVerifiedAt),
+    pendingEmail: pendingEmail !== user.email ? pendingEmail : undefined,
+    pendingPhone: pendingPhone !== user.phone ? pendingPhone : undefined
+  };
+};
+
+const current = (user: UserRecord, channel: ContactChannel) => (channel === 'email' ? user.email : user.phone);
+
+const isVerified = (user: UserRecord, channel: ContactChannel) =>
+  Boolean(channel === 'email' ? user.emailVerifiedAt : user.phone && user.phoneVerifiedAt);
+
+const assertAvailable = (db: Database, user: UserRecord, channel: ContactChannel, value: string) => {
+  const owner = channel === 'email' ? findUserByEmail(db, value) : findUserByPhone(db, value);
+  if (owner && owner.id !== user.id) {
+    throw new HttpError(409, `This ${LABELS[channel]} is already used by another account`, FIELDS[channel]);
+  }
+};
+
+export const getContactDetails = (userId: string): Promise<ContactDetails> =>
+  read(db => toContactDetails(db, requireUser(db, userId)));
+
+/**
+ * Sends a code to `value`: either the current address, to verify it, or a
+ * new one the user wants to switch to.
+ */
+export const startContactVerification = async (
+  userId: string,
+  channel: ContactChannel,
+  value: string,
+  context: RequestContext
+): Promise<ContactVerification> => {
+  const { result, message } = await transaction(db => {
+    const user = requireUser(db, userId);
+    const target = channel === 'email' ? normalizeEmail(value) : value.trim();
+    if (target === current(user, channel) && isVerified(user, channel)) {
+      throw new HttpError(400, `That ${LABELS[channel]} is already verified`, FIELDS[channel]);
+    }
+    assertAvailable(db, user, channel, target);
+
+    // Asking again for the same address is a resend, so the cooldown applies
+    const pending = pendingChallenge(db, user, channel);
+    const issued = pending?.destination === target
+      ? resendChallenge(db, pending, user)
+      : issueChallenge(db, user, PURPOSES[channel], channel, target);
+    recordOtpSent(db, context, user, issued);
+    return {
+      result: {
+        contact: toContactDetails(db, user),
+        challenge: { ...toChallengeInfo(issued.challenge, user), methods: [channel] }
+      },
+      message: issued.message
+    };
+  });
+
+  await deliverOtp(message);
+  return result;
+};
+
+const findContactChallenge = (db: Database, userId: string, challengeId: string): OtpChallengeRecord => {
+  const challenge = findChallenge(db, challengeId);
+  if (challenge.userId !== userId || (challenge.purpose !== 'verify-email' && challenge.purpose !== 'verify-phone')) {
+    throw new HttpError(404, NOT_FOUND);
+  }
+  return challenge;
+};
+
+export const resendContactVerification = async (
+  userId: string,
+  challengeId: string,
+  context: RequestContext
+): Promise<ContactVerification> => {
+  const { result, message } = await transaction(db => {
+    const user = requireUser(db, userId);
+    const issued = resendChallenge(db, findContactChallenge(db, userId, challengeId), user);
+    recordOtpSent(db, context, user, issued);
+    return {
+      result: {
+        contact: toContactDetails(db, user),
+        challenge: { ...toChallengeInfo(issued.challenge, user), methods: [issued.challenge.channel] }
+      },
+      message: issued.message
+    };
+  });
+
+  await deliverOtp(message);
+  return result;
+};
+
+/** Applies the new address once its code is entered, and warns the old one. */
+export const confirmContactVerification = async (
+  userId: string,
+  challengeId: string,
+  code: string,
+  context: RequestContext
+): Promise<ContactDetails> => {
+  const outcome = await transaction(db => {
+    const user = requireUser(db, userId);
+    const challenge = findContactChallenge(db, userId, challengeId);
+
+    const result = verifyChallenge(db, challengeId, code);
+    recordOtpResult(db, context, challenge, result);
+    if (!result.ok) return result;
+
+    const { purpose, destination } = result.challenge;
+    const channel: ContactChannel = purpose === 'verify-email' ? 'email' : 'sms';
+    // Someone else may have claimed it while the code was in flight
+    assertAvailable(db, user, channel, destination);
+
+    const previous = current(user, channel);
+    const now = new Date().toISOString();
+    if (channel === 'email') {
+      user.email = destination;
+      user.emailVerifiedAt = now;
+    } else {
+      user.phone = destination;
+      user.phoneVerifiedAt = now;
+    }
+    user.updatedAt = now;
+
+    return {
+      ok: true as const,
+      contact: toContactDetails(db, user),
+      notice: previous && previous !== destination ? contactChangedNotice(channel, previous, destination) : undefined
+    };
+  });
+
+  if (!outcome.ok) throw outcome.error;
+  await deliverNotice(outcome.notice);
+  return outcome.contact;
+};
+
+/** Drops a pending change; the current address was never touched. */
+export const cancelContactChange = (userId: string, channel: ContactChannel): Promise<ContactDetails> =>
+  transaction(db => {
+    const user = requireUser(db, userId);
+    db.otpChallenges = db.otpChallenges.filter(
+      item => !(item.userId === user.id && item.purpose === PURPOSES[channel])
+    );
+    return toContactDetails(db, user);
+  });
@@ -0,0 +1,156 @@
+import { randomBytes, randomUUID } from 'node:crypto';
+import type { Database, DeviceRecord, SessionRecord } from './schema';
+import { hashToken, revokeUserSessions } from './sessions';
+
+const REFRESH_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+const TRUST_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+// Browsers cap cookie lifetimes at 400 days
+const DEVICE_COOKIE_TTL_MS = 400 * 24 * 60 * 60 * 1000;
+// Several tabs can resume an expired session at once with the same token;
+// the ones that lose the race are still let in for this long after
+const REFRESH_GRACE_MS = 30 * 1000;
+
+/** What a request tells us about the browser it came from. */
+export interface DeviceContext {
+  token: string | null;
+  userAgent: string;
+  ip?: string;
+}
+
+export interface IssuedDevice {
+  device: DeviceRecord;
+  /** Device cookie to (re)set; absent when the request didn't identify the browser. */
+  token?: string;
+  tokenExpiresAt: string;
+}
+
+export interface IssuedRefresh {
+  device: DeviceRecord;
+  token: string;
+  expiresAt: string;
+}
+
+export interface ResumedDevice {
+  device: DeviceRecord;
+  /** Unset when a request moments ago already rotated the token, whose cookie then stands. */
+  refresh?: IssuedRefresh;
+}
+
+const newToken = () => randomBytes(32).toString('base64url');
+
+export const findDevice = (db: Database, userId: string, deviceToken: string | null) => {
+  if (!deviceToken) return undefined;
+  const tokenHash = hashToken(deviceToken);
+  return db.devices.find(device => device.userId === userId && device.tokenHash === tokenHash);
+};
+
+export const isTrustedDevice = (device: DeviceRecord | undefined) =>
+  Boolean(device?.trustedUntil && Date.parse(device.trustedUntil) > Date.now());
+
+/** Records a sign-in from this browser, creating the device (and its cookie) on first use. */
+export const registerDevice = (db: Database, userId: string, context: DeviceContext): IssuedDevice => {
+  const now = new Date().toISOString();
+  const tokenExpiresAt = new Date(Date.now() + DEVICE_COOKIE_TTL_MS).toISOString();
+  // One browser keeps one device token across every account signed in on it
+  const token = context.token ?? newToken();
+
+  let device = findDevice(db, userId, token);
+  if (!device) {
+    device = {
+      id: randomUUID(),
+      userId,
+      tokenHash: hashToken(token),
+      userAgent: context.userAgent,
+      createdAt: now,
+      signedInAt: now,
+      lastSeenAt: now
+    };
+    db.devices.push(device);
+  }
+
+  device.userAgent = context.userAgent;
+  device.ip = context.ip;
+  device.signedInAt = now;
+  device.lastSeenAt = now;
+  return { device, token, tokenExpiresAt };
+};
+
+export const markDeviceTrusted = (device: DeviceRecord) => {
+  device.trustedUntil = new Date(Date.now() + TRUST_TTL_MS).toISOString();
+};
+
+export const issueRefreshToken = (device: DeviceRecord): IssuedRefresh => {
+  const token = newToken();
+  device.previousRefreshTokenHash = device.refreshTokenHash;
+  device.refreshTokenHash = hashToken(token);
+  device.refreshRotatedAt = new Date().toISOString();
+  device.refreshExpiresAt = new Date(Date.now() + REFRESH_TTL_MS).toISOString();
+  return { device, token, expiresAt: device.refreshExpiresAt };
+};
+
+export const revokeRefreshToken = (device: DeviceRecord) => {
+  device.refreshTokenHash = undefined;
+  device.previousRefreshTokenHash = undefined;
+  device.refreshRotatedAt = undefined;
+  device.refreshExpiresAt = undefined;
+};
+
+export const hasLiveRefreshToken = (device: DeviceRecord) =>
+  Boolean(device.refreshTokenHash && device.refreshExpiresAt && Date.parse(device.refreshExpiresAt) > Date.now());
+
+/** Ends the device's sessions and its refresh credential; trust is left alone. */
+export const signOutDevice = (db: Database, device: DeviceRecord) => {
+  revokeRefreshToken(device);
+  db.sessions = db.sessions.filter(session => session.deviceId !== device.id);
+};
+
+const isWithinGrace = (device: DeviceRecord) =>
+  Boolean(device.refreshRotatedAt && Date.now() - Date.parse(device.refreshRotatedAt) < REFRESH_GRACE_MS);
+
+/**
+ * Swaps a refresh token for a new one. Presenting a token that has already
+ * been rotated means it was copied, so the device is signed out entirely,
+ * unless it was rotated just now by a concurrent resume from the same browser.
+ * Returns null for unknown, expired or replayed tokens.
+ */
+export const rotateRefreshToken = (db: Database, token: string): ResumedDevice | null => {
+  const tokenHash = hashToken(token);
+
+  const previous = db.devices.find(device => device.previousRefreshTokenHash === tokenHash);
+  if (previous && hasLiveRefreshToken(previous) && isWithinGrace(previous)) {
+    previous.lastSeenAt = new Date().toISOString();
+    return { device: previous };
+  }
+  if (previous) {
+    signOutDevice(db, previous);
+    return null;
+  }
+
+  const device = db.devices.find(item => item.refreshTokenHash === tokenHash);
+  if (!device || !hasLiveRefreshToken(device)) {
+    return null;
+  }
+
+  device.lastSeenAt = new Date().toISOString();
+  return { device, refresh: issueRefreshToken(device) };
+};
+
+/** Signs out every browser except the one `current` belongs to, which stays signed in. */
+export const signOutOtherDevices = (db: Database, current: SessionRecord) => {
+  for (const device of db.devices) {
+    if (device.userId === current.userId && device.id !== current.deviceId) {
+      signOutDevice(db, device);
+    }
+  }
+  // Also catches sessions that predate device tracking
+  revokeUserSessions(db, current.userId, current.id);
+};
+
+/** Ends every session and refresh credential and forgets trusted devices. */
+export const signOutEverywhere = (db: Database, userId: string) => {
+  revokeUserSessions(db, userId);
+  for (const device of db.devices.filter(item => item.userId === userId)) {
+    revokeRefreshToken(device);
+    device.trustedUntil = undefined;
+  }
+};
@@ -0,0 +1,37 @@
+import { randomUUID } from 'node:crypto';
+import type { GradeInput, Gradebook } from '@/lib/coursework/types';
+import { HttpError } from './http';
+import { listStudents, requireStudent } from './roster';
+import type { Database } from './schema';
+import { read, transaction } from './store';
+
+const toGradebook = (db: Database): Gradebook => ({
+  students: listStudents(db),
+  assignments: [...new Set(db.grades.map(grade => grade.assignment))].sort((a, b) => a.localeCompare(b)),
+  grades: db.grades
+});
+
+export const getGradebook = (): Promise<Gradebook> => read(toGradebook);
+
+/** Records a grade, replacing any earlier one for the same student and assignment. */
+export const saveGrade = (input: GradeInput, graderId: string): Promise<Gradebook> =>
+  transaction(db => {
+    requireStudent(db, input.studentId);
+    if (input.score > input.maxScore) {
+      throw new HttpError(400, 'Score cannot be higher than the maximum', 'score');
+    }
+
+    const assignment = input.assignment.trim();
+    const existing = db.grades.find(grade => grade.studentId === input.studentId && grade.assignment === assignment);
+    const grade = {
+      id: existing?.id ?? randomUUID(),
+      ...input,
+      assignment,
+      feedback: input.feedback?.trim() || undefined,
+      gradedBy: graderId,
+      gradedAt: new Date().toISOString()
+    };
+
+    db.grades = [...db.grades.filter(item => item !== existing), grade];
+    return toGradebook(db);
+  });
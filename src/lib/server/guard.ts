@@ -0,0 +1,71 @@
+import type { NextRequest, NextResponse } from 'next/server';
+import { hasPermission, type Permission } from '@/lib/auth/roles';
+import { getSession, type AuthenticatedSession, type SignIn } from './auth';
+import type { DeviceContext } from './devices';
+import { HttpError } from './http';
+import {
+  clearRefreshCookie,
+  readDeviceToken,
+  readSessionToken,
+  setDeviceCookie,
+  setRefreshCookie,
+  setSessionCookie
+} from './session-cookie';
+
+/** Resolves the signed-in user for a route handler, or fails with a 401. */
+export const requireSession = async (request: NextRequest): Promise<AuthenticatedSession> => {
+  const token = await readSessionToken(request);
+  if (!token) {
+    throw new HttpError(401, 'Please sign in to continue.');
+  }
+  return getSession(token);
+};
+
+/** Like `requireSession`, but also fails with a 403 unless the user's role grants `permission`. */
+export const requirePermission = async (request: NextRequest, permission: Permission): Promise<AuthenticatedSession> => {
+  const auth = await requireSession(request);
+  if (!hasPermission(auth.user.role, permission)) {
+    throw new HttpError(403, "You don't have permission to do that.");
+  }
+  return auth;
+};
+
+/** Reverse proxies in front of the app, from `TRUSTED_PROXY_HOPS`; none by default. */
+const trustedProxyHops = () => {
+  const hops = Number.parseInt(process.env.TRUSTED_PROXY_HOPS ?? '', 10);
+  return Number.isNaN(hops) ? 0 : Math.max(0, hops);
+};
+
+// Each proxy appends the address it was connected from, so only that many
+// entries from the right can be trusted; anything further left is whatever
+// the client sent. With no proxy, Next.js fills the header in from the
+// connection itself.
+const clientIp = (request: NextRequest) => {
+  const forwarded = (request.headers.get('x-forwarded-for') ?? '')
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean);
+  return forwarded[Math.max(0, forwarded.length - Math.max(1, trustedProxyHops()))];
+};
+
+export const readDeviceContext = async (request: NextRequest): Promise<DeviceContext> => ({
+  token: await readDeviceToken(request),
+  userAgent: request.headers.get('user-agent') ?? 'Unknown device',
+  ip: clientIp(request)
+});
+
+// Links and redirects must point at the public URL, not whatever host the request came through
+export const publicOrigin = (request: Request) => process.env.APP_URL || new URL(request.url).origin;
+
+/** Writes the cookies for a completed sign-in onto the response. */
+export const applySignIn = async (response: NextResponse, { session, device, refresh, keepRefreshCookie }: SignIn) => {
+  await setSessionCookie(response, session.token, session.session.expiresAt);
+  if (device.token) {
+    await setDeviceCookie(response, device.token, device.tokenExpiresAt);
+  }
+  if (refresh) {
+    await setRefreshCookie(response, refresh.token, refresh.expiresAt);
+  } else if (!keepRefreshCookie) {
+    clearRefreshCookie(response);
+  }
+};
@@ -0,0 +1,59 @@
+import { NextResponse } from 'next/server';
+import type { z } from 'zod';
+
+export class HttpError extends Error {
+  constructor(
+    public status: number,
+    message: string,
+    public field?: string,
+    public details?: Record<string, unknown>
+  ) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+export const json = <T>(data: T, init?: ResponseInit) => NextResponse.json(data, init);
+
+const errorResponse = (err: unknown) => {
+  if (err instanceof HttpError) {
+    return NextResponse.json(
+      { error: { message: err.message, field: err.field, details: err.details } },
+      { status: err.status }
+    );
+  }
+
+  console.error(err);
+  return NextResponse.json(
+    { error: { message: 'Something went wrong. Please try again.' } },
+    { status: 500 }
+  );
+};
+
+/** Wraps a route handler so thrown `HttpError`s become JSON error responses. */
+export const handle = <Args extends unknown[]>(
+  handler: (...args: Args) => Promise<Response>
+) => async (...args: Args): Promise<Response> => {
+  try {
+    return await handler(...args);
+  } catch (err) {
+    return errorResponse(err);
+  }
+};
+
+/** Parses and validates a JSON request body, reporting the first failing field. */
+export const parseBody = async <T>(request: Request, schema: z.ZodType<T>): Promise<T> => {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    throw new HttpError(400, 'Request body must be valid JSON');
+  }
+
+  const result = schema.safeParse(body);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new HttpError(400, issue.message, issue.path.join('.') || undefined);
+  }
+  return result.data;
+};
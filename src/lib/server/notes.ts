@@ -0,0 +1,283 @@
+import { randomUUID } from 'node:crypto';
+import { z } from 'zod';
+import type { Note, NoteChanges, NoteInput, NoteRevision } from '@/lib/notes/types';
+import { HttpError } from './http';
+import type { Database, NoteRecord, NoteRevisionRecord } from './schema';
+import { read, transaction } from './store';
+import { findUserById } from './users';
+
+// Every note belongs to one account and is only ever visible to it. Updates
+// carry the `updatedAt` they were made on, so a save from a stale tab is
+// refused instead of silently overwriting a newer one. Saves that change the
+// title or content also keep revisions, so older versions can be compared and
+// brought back.
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+// Auto-save runs a couple of seconds after typing stops, so older history is
+// thinned: every save from the last hour is kept, then the last of every ten
+// minutes, of every hour after a day and of every day after a month
+const REVISION_THINNING = [
+  { olderThan: 30 * DAY_MS, keepOnePer: DAY_MS },
+  { olderThan: DAY_MS, keepOnePer: HOUR_MS },
+  { olderThan: HOUR_MS, keepOnePer: 10 * MINUTE_MS }
+];
+const MAX_REVISIONS_PER_NOTE = 200;
+// Every revision holds the full text and the store is one file, so each
+// account's history is capped too, oldest first
+const MAX_REVISION_CHARS_PER_USER = 2_000_000;
+
+/** Request body fields shared by the create and update routes. */
+export const noteFieldsSchema = z.object({
+  title: z.string().max(200, 'Titles can be at most 200 characters'),
+  content: z.string().max(200_000, 'This note is too long to save'),
+  category: z.string().max(60),
+  isFavorite: z.boolean(),
+  tags: z.array(z.string().max(40)).max(20, 'A note can have at most 20 tags')
+});
+
+const STARTER_NOTES: Omit<NoteInput, 'id'>[] = [
+  {
+    title: 'Data Structures Study Guide',
+    content:
+      'Arrays, Linked Lists, Stacks, Queues, Trees, Graphs...\n\nArrays are fundamental data structures that store elements in contiguous memory locations. They provide O(1) random access but O(n) insertion and deletion in the worst case.',
+    category: 'Computer Science',
+    isFavorite: true,
+    tags: ['algorithms', 'data-structures', 'programming']
+  },
+  {
+    title: 'Calculus Integration Techniques',
+    content:
+      'Integration by parts, substitution, partial fractions...\n\nIntegration by parts:\n\n$$\n\\int u \\, dv = uv - \\int v \\, du\n$$\n\nThis is particularly useful when dealing with products of functions, such as $\\int x e^x \\, dx$.',
+    category: 'Mathematics',
+    tags: ['calculus', 'integration', 'mathematics']
+  },
+  {
+    title: 'Essay Planning: Climate Change',
+    content:
+      'Introduction: Hook about rising sea levels\nBody paragraphs:\n1. Causes of climate change\n2. Current effects\n3. Future implications\n4. Solutions and mitigation\n\nConclusion: Call to action',
+    category: 'Essays',
+    tags: ['essay', 'climate-change', 'environment']
+  }
+];
+
+export const toNote = ({ userId: _userId, ...note }: NoteRecord): Note => note;
+
+export const toRevision = ({ userId: _userId, ...revision }: NoteRevisionRecord): NoteRevision => revision;
+
+const cleanTags = (tags: string[]) => [...new Set(tags.map(tag => tag.trim()).filter(Boolean))];
+
+const cleanTitle = (title: string) => title.trim() || 'Untitled Note';
+
+const byNewest = (a: NoteRecord, b: NoteRecord) => b.updatedAt.localeCompare(a.updatedAt);
+
+const requireNote = (db: Database, userId: string, id: string) => {
+  // Someone else's note is reported as missing so ids can't be probed
+  const note = db.notes.find(item => item.id === id && item.userId === userId);
+  if (!note) {
+    throw new HttpError(404, 'This note no longer exists.');
+  }
+  return note;
+};
+
+const revisionSize = (revision: NoteRevisionRecord) => revision.title.length + revision.content.length;
+
+// Drops the account's oldest revisions until its history fits, keeping the
+// latest of each note since that is what the note holds now
+const capUserRevisions = (db: Database, userId: string) => {
+  const revisions = db.noteRevisions.filter(revision => revision.userId === userId);
+  let total = revisions.reduce((sum, revision) => sum + revisionSize(revision), 0);
+  if (total <= MAX_REVISION_CHARS_PER_USER) return;
+
+  const latest = new Map<string, NoteRevisionRecord>();
+  for (const revision of revisions) {
+    const current = latest.get(revision.noteId);
+    if (!current || revision.createdAt > current.createdAt) latest.set(revision.noteId, revision);
+  }
+  const kept = new Set(latest.values());
+
+  const dropped = new Set<NoteRevisionRecord>();
+  for (const revision of [...revisions].sort((a, b) => a.createdAt.localeCompare(b.createdAt))) {
+    if (total <= MAX_REVISION_CHARS_PER_USER) break;
+    if (kept.has(revision)) continue;
+    dropped.add(revision);
+    total -= revisionSize(revision);
+  }
+  db.noteRevisions = db.noteRevisions.filter(revision => !dropped.has(revision));
+};
+
+// The revisions the thinning schedule no longer keeps: within each period
+// only the newest survives
+const thinnedRevisions = (revisions: NoteRevisionRecord[], now: number) => {
+  const newest = new Map<string, NoteRevisionRecord>();
+  const dropped = new Set<NoteRevisionRecord>();
+  for (const revision of revisions) {
+    const createdAt = Date.parse(revision.createdAt);
+    const tier = REVISION_THINNING.find(({ olderThan }) => now - createdAt > olderThan);
+    if (!tier) continue;
+
+    const period = `${tier.keepOnePer}:${Math.floor(createdAt / tier.keepOnePer)}`;
+    const current = newest.get(period);
+    if (current && current.createdAt > revision.createdAt) {
+      dropped.add(revision);
+    } else {
+      if (current) dropped.add(current);
+      newest.set(period, revision);
+    }
+  }
+  return dropped;
+};
+
+/** Keeps every save as its own revision, then trims the note's older history. */
+const recordRevision = (db: Database, note: NoteRecord, restoredFrom?: string) => {
+  db.noteRevisions.push({
+    id: randomUUID(),
+    noteId: note.id,
+    userId: note.userId,
+    title: note.title,
+    content: note.content,
+    createdAt: note.updatedAt,
+    restoredFrom
+  });
+
+  const revisions = db.noteRevisions.filter(revision => revision.noteId === note.id);
+  const dropped = thinnedRevisions(revisions, Date.now());
+  const remaining = revisions
+    .filter(revision => !dropped.has(revision))
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  for (const revision of remaining.slice(0, Math.max(0, remaining.length - MAX_REVISIONS_PER_NOTE))) {
+    dropped.add(revision);
+  }
+  if (dropped.size > 0) {
+    db.noteRevisions = db.noteRevisions.filter(revision => !dropped.has(revision));
+  }
+
+  capUserRevisions(db, note.userId);
+};
+
+// Two saves in the same millisecond would otherwise share a version
+const touch = (note: NoteRecord) => {
+  const now = new Date().toISOString();
+  note.updatedAt = now > note.updatedAt ? now : new Date(Date.parse(note.updatedAt) + 1).toISOString();
+};
+
+const requireCurrent = (note: NoteRecord, baseUpdatedAt: string) => {
+  if (note.updatedAt !== baseUpdatedAt) {
+    throw new HttpError(409, 'This note was changed somewhere else since you opened it.', undefined, {
+      note: toNote(note)
+    });
+  }
+};
+
+// A minute apart, newest first, so the starters keep their order
+const seedNotes = (db: Database, userId: string) => {
+  const now = Date.now();
+  STARTER_NOTES.forEach((note, index) => {
+    const at = new Date(now - index * 60_000).toISOString();
+    const record = { ...note, id: randomUUID(), userId, isFavorite: note.isFavorite ?? false, createdAt: at, updatedAt: at };
+    db.notes.push(record);
+    recordRevision(db, record);
+  });
+};
+
+/** The user's notes, newest first. A new account gets a few starter notes the first time. */
+export const listNotes = (userId: string): Promise<Note[]> =>
+  transaction(db => {
+    const user = findUserById(db, userId);
+    if (user && !user.notesSeededAt) {
+      user.notesSeededAt = new Date().toISOString();
+      if (!db.notes.some(note => note.userId === userId)) {
+        seedNotes(db, userId);
+      }
+    }
+    return db.notes.filter(note => note.userId === userId).sort(byNewest).map(toNote);
+  });
+
+/** Creating the same id twice returns the first copy, so a retried request is harmless. */
+export const createNote = (userId: string, input: NoteInput): Promise<Note> =>
+  transaction(db => {
+    const existing = db.notes.find(note => note.id === input.id);
+    if (existing) {
+      if (existing.userId !== userId) {
+        throw new HttpError(409, 'A note with this id already exists.');
+      }
+      return toNote(existing);
+    }
+
+    const now = new Date().toISOString();
+    const note: NoteRecord = {
+      id: input.id,
+      userId,
+      title: cleanTitle(input.title),
+      content: input.content,
+      category: input.category.trim() || 'General',
+      isFavorite: input.isFavorite ?? false,
+      tags: cleanTags(input.tags),
+      createdAt: now,
+      updatedAt: now
+    };
+    db.notes.push(note);
+    recordRevision(db, note);
+    return toNote(note);
+  });
+
+/**
+ * Applies `changes` if the note hasn't been saved since `baseUpdatedAt`.
+ * Otherwise fails with a 409 carrying the newer copy in `details.note`.
+ */
+export const updateNote = (userId: string, id: string, { baseUpdatedAt, ...changes }: NoteChanges): Promise<Note> =>
+  transaction(db => {
+    const note = requireNote(db, userId, id);
+    requireCurrent(note, baseUpdatedAt);
+
+    const before = { title: note.title, content: note.content };
+    if (changes.title !== undefined) note.title = cleanTitle(changes.title);
+    if (changes.content !== undefined) note.content = changes.content;
+    if (changes.category !== undefined) note.category = changes.category.trim() || 'General';
+    if (changes.isFavorite !== undefined) note.isFavorite = changes.isFavorite;
+    if (changes.tags !== undefined) note.tags = cleanTags(changes.tags);
+
+    touch(note);
+    if (note.title !== before.title || note.content !== before.content) {
+      recordRevision(db, note);
+    }
+    return toNote(note);
+  });
+
+/** The note's saved versions, newest first. */
+export const listRevisions = (userId: string, id: string): Promise<NoteRevision[]> =>
+  read(db => {
+    requireNote(db, userId, id);
+    return db.noteRevisions
+      .filter(revision => revision.noteId === id)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .map(toRevision);
+  });
+
+/**
+ * Brings back an older revision's title and content as a new save, so the
+ * versions in between stay in the history. Conflicts like `updateNote`.
+ */
+export const restoreRevision = (userId: string, id: string, revisionId: string, baseUpdatedAt: string): Promise<Note> =>
+  transaction(db => {
+    const note = requireNote(db, userId, id);
+    const revision = db.noteRevisions.find(item => item.id === revisionId && item.noteId === note.id);
+    if (!revision) {
+      throw new HttpError(404, 'That version is no longer in the history.');
+    }
+    requireCurrent(note, baseUpdatedAt);
+
+    note.title = revision.title;
+    note.content = revision.content;
+    touch(note);
+    recordRevision(db, note, revision.id);
+    return toNote(note);
+  });
+
+export const deleteNote = (userId: string, id: string): Promise<void> =>
+  transaction(db => {
+    const note = requireNote(db, userId, id);
+    db.notes = db.notes.filter(item => item !== note);
+    db.noteRevisions = db.noteRevisions.filter(revision => revision.noteId !== note.id);
+  });
@@ -0,0 +1,37 @@
+import type { ContactChannel } from '@/lib/auth/types';
+import { maskDestination } from './otp';
+import { getTransport, type NoticeMessage } from './transports';
+
+const SUPPORT_HINT = "If this wasn't you, reset your password straight away and contact your campus IT support.";
+
+/** Tells the previous address that the account moved away from it. */
+export const contactChangedNotice = (channel: ContactChannel, previous: string, replacement: string): NoticeMessage => {
+  const what = channel === 'email' ? 'email address' : 'phone number';
+  return {
+    channel,
+    to: previous,
+    subject: `Your EduDash ${what} was changed`,
+    text: `The ${what} on your EduDash account was changed to ${maskDestination(channel, replacement)}. This ${what} will no longer receive sign-in codes. ${SUPPORT_HINT}`
+  };
+};
+
+/** Confirms a deletion request to the account's email, in case someone else made it. */
+export const accountDeletionNotice = (email: string, scheduledFor: string): NoticeMessage => ({
+  channel: 'email',
+  to: email,
+  subject: 'Your EduDash account will be deleted',
+  text: `Your EduDash account and everything in it will be deleted on ${new Date(scheduledFor).toUTCString()}. To keep it, sign in before then and cancel the deletion under Settings. ${SUPPORT_HINT}`
+});
+
+/**
+ * Sends a notice on a best-effort basis: the change it reports has already
+ * happened, so a delivery failure is logged rather than surfaced.
+ */
+export const deliverNotice = async (message?: NoticeMessage) => {
+  if (!message) return;
+  try {
+    await getTransport(message.channel).send(message);
+  } catch (err) {
+    console.error(err);
+  }
+};
@@ -0,0 +1,336 @@
+import { createHash, createPublicKey, randomBytes, verify, type JsonWebKey } from 'node:crypto';
+import type { SsoProvider } from '@/lib/auth/types';
+import { completeSignIn, type SignIn } from './auth';
+import type { DeviceContext } from './devices';
+import { HttpError } from './http';
+import type { Database, OidcLoginRecord, UserRecord } from './schema';
+import { hashToken } from './sessions';
+import { checkSignupAllowed } from './signup-policy';
+import { transaction } from './store';
+import { createExternalUser, findUserByEmail } from './users';
+
+// OpenID Connect sign-in with the authorization code flow and PKCE. The
+// provider is configured through the environment:
+//   OIDC_ISSUER, OIDC_CLIENT_ID     required to enable single sign-on
+//   OIDC_CLIENT_SECRET              omit for public clients
+//   OIDC_SCOPES                     defaults to "openid email profile"
+//   OIDC_PROVIDER_NAME              button label, e.g. "Northfield University"
+
+interface OidcConfig {
+  issuer: string;
+  clientId: string;
+  clientSecret?: string;
+  scopes: string;
+  providerName: string;
+}
+
+interface ProviderMetadata {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+}
+
+interface IdTokenClaims {
+  iss: string;
+  sub: string;
+  aud: string | string[];
+  azp?: string;
+  exp: number;
+  nonce?: string;
+  email?: string;
+  email_verified?: boolean;
+  given_name?: string;
+  family_name?: string;
+  name?: string;
+}
+
+const LOGIN_TTL_MS = 10 * 60 * 1000;
+const METADATA_TTL_MS = 60 * 60 * 1000;
+// Tolerated difference between our clock and the provider's
+const CLOCK_SKEW_S = 60;
+
+export const CALLBACK_PATH = '/api/auth/oidc/callback';
+
+const getOidcConfig = (): OidcConfig | null => {
+  const issuer = process.env.OIDC_ISSUER?.replace(/\/+$/, '');
+  const clientId = process.env.OIDC_CLIENT_ID;
+  if (!issuer || !clientId) return null;
+
+  const scopes = (process.env.OIDC_SCOPES || 'openid email profile').split(/[\s,]+/).filter(Boolean);
+  return {
+    issuer,
+    clientId,
+    clientSecret: process.env.OIDC_CLIENT_SECRET || undefined,
+    scopes: (scopes.includes('openid') ? scopes : ['openid', ...scopes]).join(' '),
+    providerName: process.env.OIDC_PROVIDER_NAME || 'University SSO'
+  };
+};
+
+const requireOidcConfig = () => {
+  const config = getOidcConfig();
+  if (!config) {
+    throw new HttpError(404, 'Single sign-on is not set up for this site.');
+  }
+  return config;
+};
+
+export const getSsoProvider = (): SsoProvider | null => {
+  const config = getOidcConfig();
+  return config && { name: config.providerName };
+};
+
+const providerUnavailable = () =>
+  new HttpError(502, 'The sign-in provider could not be reached. Please try again later.');
+
+const fetchJson = async <T>(url: string, init?: RequestInit): Promise<T> => {
+  let response: Response;
+  try {
+    response = await fetch(url, { ...init, cache: 'no-store' });
+  } catch {
+    throw providerUnavailable();
+  }
+
+  const data = await response.json().catch(() => null);
+  if (!response.ok || !data) {
+    // Token endpoint errors say why, e.g. an expired or reused code
+    const reason = (data as { error_description?: string; error?: string } | null)?.error_description;
+    if (reason) throw new HttpError(400, `Single sign-on failed: ${reason}`);
+    throw providerUnavailable();
+  }
+  return data as T;
+};
+
+// Both caches are per process; a restart picks up rotated provider keys
+let metadataCache: { issuer: string; metadata: ProviderMetadata; fetchedAt: number } | undefined;
+let jwksCache: { uri: string; keys: JsonWebKey[] } | undefined;
+
+const discover = async (config: OidcConfig) => {
+  if (metadataCache?.issuer === config.issuer && Date.now() - metadataCache.fetchedAt < METADATA_TTL_MS) {
+    return metadataCache.metadata;
+  }
+
+  const metadata = await fetchJson<ProviderMetadata>(`${config.issuer}/.well-known/openid-configuration`);
+  if (metadata.issuer.replace(/\/+$/, '') !== config.issuer) {
+    throw new HttpError(502, 'The sign-in provider is misconfigured (issuer mismatch).');
+  }
+  metadataCache = { issuer: config.issuer, metadata, fetchedAt: Date.now() };
+  return metadata;
+};
+
+/** Finds the key a token was signed with, refetching once in case the provider rotated keys. */
+const findSigningKey = async (metadata: ProviderMetadata, kid: string | undefined) => {
+  const match = (keys: JsonWebKey[]) => keys.find(key => !kid || key.kid === kid);
+
+  const cached = jwksCache?.uri === metadata.jwks_uri ? match(jwksCache.keys) : undefined;
+  if (cached) return cached;
+
+  const { keys } = await fetchJson<{ keys: JsonWebKey[] }>(metadata.jwks_uri);
+  jwksCache = { uri: metadata.jwks_uri, keys };
+  return match(keys);
+};
+
+const decodeSegment = <T>(segment: string): T => JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+
+const invalidToken = () => new HttpError(401, 'The sign-in provider returned an invalid response.');
+
+const verifyIdToken = async (
+  idToken: string,
+  config: OidcConfig,
+  metadata: ProviderMetadata,
+  nonce: string
+): Promise<IdTokenClaims> => {
+  const [header, payload, signature] = idToken.split('.');
+  if (!header || !payload || !signature) throw invalidToken();
+
+  let claims: IdTokenClaims;
+  let alg: string;
+  let kid: string | undefined;
+  try {
+    ({ alg, kid } = decodeSegment<{ alg: string; kid?: string }>(header));
+    claims = decodeSegment<IdTokenClaims>(payload);
+  } catch {
+    throw invalidToken();
+  }
+
+  // Only asymmetric algorithms, so a token can't be forged with a shared secret
+  if (alg !== 'RS256' && alg !== 'ES256') throw invalidToken();
+  const jwk = await findSigningKey(metadata, kid);
+  if (!jwk) throw invalidToken();
+
+  const key = createPublicKey({ key: jwk, format: 'jwk' });
+  const valid = verify(
+    'sha256',
+    Buffer.from(`${header}.${payload}`),
+    alg === 'ES256' ? { key, dsaEncoding: 'ieee-p1363' } : key,
+    Buffer.from(signature, 'base64url')
+  );
+
+  const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+  const now = Math.floor(Date.now() / 1000);
+  if (
+    !valid ||
+    claims.iss !== metadata.issuer ||
+    !audiences.includes(config.clientId) ||
+    (audiences.length > 1 && claims.azp !== config.clientId) ||
+    typeof claims.exp !== 'number' ||
+    claims.exp + CLOCK_SKEW_S < now ||
+    claims.nonce !== nonce ||
+    !claims.sub
+  ) {
+    throw invalidToken();
+  }
+  return claims;
+};
+
+const pkceChallenge = (verifier: string) => createHash('sha256').update(verifier).digest('base64url');
+
+const redirectUri = (origin: string) => `${origin}${CALLBACK_PATH}`;
+
+/**
+ * Starts a sign-in: remembers the attempt and returns the provider URL to send
+ * the browser to, plus the state to pin in a cookie.
+ */
+export const startOidcLogin = async (origin: string, next: string) => {
+  const config = requireOidcConfig();
+  const metadata = await discover(config);
+
+  const state = randomBytes(32).toString('base64url');
+  const nonce = randomBytes(16).toString('base64url');
+  const codeVerifier = randomBytes(32).toString('base64url');
+  const now = Date.now();
+  const login: OidcLoginRecord = {
+    stateHash: hashToken(state),
+    nonce,
+    codeVerifier,
+    next,
+    createdAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + LOGIN_TTL_MS).toISOString()
+  };
+
+  await transaction(db => {
+    db.oidcLogins = db.oidcLogins.filter(item => Date.parse(item.expiresAt) > now);
+    db.oidcLogins.push(login);
+  });
+
+  const url = new URL(metadata.authorization_endpoint);
+  url.search = new URLSearchParams({
+    response_type: 'code',
+    client_id: config.clientId,
+    redirect_uri: redirectUri(origin),
+    scope: config.scopes,
+    state,
+    nonce,
+    code_challenge: pkceChallenge(codeVerifier),
+    code_challenge_method: 'S256'
+  }).toString();
+
+  return { url: url.toString(), state, expiresAt: login.expiresAt };
+};
+
+const exchangeCode = (config: OidcConfig, metadata: ProviderMetadata, code: string, codeVerifier: string, origin: string) => {
+  const body = new URLSearchParams({
+    grant_type: 'authorization_code',
+    code,
+    redirect_uri: redirectUri(origin),
+    client_id: config.clientId,
+    code_verifier: codeVerifier
+  });
+  if (config.clientSecret) body.set('client_secret', config.clientSecret);
+
+  return fetchJson<{ id_token?: string }>(metadata.token_endpoint, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded', Accept: 'application/json' },
+    body
+  });
+};
+
+const profileFromClaims = (claims: IdTokenClaims, email: string) => {
+  const [first = '', ...rest] = (claims.name ?? '').trim().split(/\s+/);
+  return {
+    email,
+    firstName: claims.given_name?.trim() || first || email.split('@')[0],
+    lastName: claims.family_name?.trim() || rest.join(' ')
+  };
+};
+
+/**
+ * The account an identity signs in as: the one it's linked to, else an
+ * existing account with the same verified email (which gets linked), else a
+ * new one.
+ */
+const resolveUser = (db: Database, issuer: string, claims: IdTokenClaims): UserRecord => {
+  const linked = db.users.find(user =>
+    user.identities?.some(identity => identity.issuer === issuer && identity.subject === claims.sub)
+  );
+  if (linked) return linked;
+
+  // Only an address the provider says it has checked can be matched to an account
+  if (!claims.email || claims.email_verified !== true) {
+    throw new HttpError(403, 'Your university account has no verified email address, so it can\'t be used to sign in here.');
+  }
+
+  let user = findUserByEmail(db, claims.email);
+  if (user && !user.emailVerifiedAt) {
+    // Anyone could have signed up with the address, so whoever holds the
+    // account's password must not end up with this identity too
+    throw new HttpError(
+      409,
+      'An account with your email address exists but the address hasn\'t been confirmed. Sign in with your password and verify your email under Settings → Profile, or reset your password, then continue with single sign-on.'
+    );
+  }
+  if (!user) {
+    // There's nowhere to enter an invite code on the way back from the provider
+    checkSignupAllowed(db, claims.email);
+    user = createExternalUser(db, profileFromClaims(claims, claims.email));
+  }
+  user.identities = [...(user.identities ?? []), { issuer, subject: claims.sub, linkedAt: new Date().toISOString() }];
+  user.updatedAt = new Date().toISOString();
+  return user;
+};
+
+export interface OidcCallback {
+  state: string | null;
+  code: string | null;
+  /** Set by the provider when the user cancelled or was refused. */
+  error: string | null;
+  errorDescription: string | null;
+  /** The state pinned in this browser's cookie by `startOidcLogin`. */
+  browserState: string | null;
+}
+
+/** Finishes a sign-in from the provider's redirect. The provider handles MFA, so no OTP is asked for. */
+export const completeOidcLogin = async (
+  callback: OidcCallback,
+  origin: string,
+  device: DeviceContext
+): Promise<{ signIn: SignIn; next: string }> => {
+  const config = requireOidcConfig();
+
+  // Each attempt is single use, whatever happens next
+  const login = await transaction(db => {
+    if (!callback.state || callback.state !== callback.browserState) return undefined;
+    const stateHash = hashToken(callback.state);
+    const found = db.oidcLogins.find(item => item.stateHash === stateHash);
+    db.oidcLogins = db.oidcLogins.filter(item => item !== found);
+    return found && Date.parse(found.expiresAt) > Date.now() ? found : undefined;
+  });
+
+  if (!login) {
+    throw new HttpError(400, 'This sign-in attempt has expired. Please try again.');
+  }
+  if (callback.error) {
+    throw new HttpError(401, callback.errorDescription || 'Sign-in was cancelled.');
+  }
+  if (!callback.code) {
+    throw invalidToken();
+  }
+
+  const metadata = await discover(config);
+  const { id_token: idToken } = await exchangeCode(config, metadata, callback.code, login.codeVerifier, origin);
+  if (!idToken) throw invalidToken();
+  const claims = await verifyIdToken(idToken, config, metadata, login.nonce);
+
+  const signIn = await transaction(db => completeSignIn(db, resolveUser(db, metadata.issuer, claims), { method: 'sso', device }));
+  return { signIn, next: login.next };
+};
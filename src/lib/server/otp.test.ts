@@ -0,0 +1,265 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  codeSettings,
+  issueChallenge,
+  maskDestination,
+  reissueChallenge,
+  reissueDecoyChallenge,
+  resendChallenge,
+  singleChannelInfo,
+  toChallengeInfo,
+  verifyChallenge
+} from './otp';
+import { createEmptyDatabase, type Database, type UserRecord } from './schema';
+
+const START = new Date('2026-03-02T09:00:00Z');
+
+const createUser = (db: Database, fields: Partial<UserRecord> = {}): UserRecord => {
+  const user: UserRecord = {
+    id: 'user-1',
+    email: 'ada@example.edu',
+    firstName: 'Ada',
+    lastName: 'Lovelace',
+    passwordHash: '',
+    createdAt: START.toISOString(),
+    updatedAt: START.toISOString(),
+    ...fields
+  };
+  db.users.push(user);
+  return user;
+};
+
+const advance = (ms: number) => vi.setSystemTime(Date.now() + ms);
+
+let db: Database;
+let user: UserRecord;
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ['Date'] });
+  vi.setSystemTime(START);
+  db = createEmptyDatabase();
+  user = createUser(db, { phone: '+1 415 555 0100' });
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllEnvs();
+});
+
+describe('codeSettings', () => {
+  it('defaults to six digits', () => {
+    expect(codeSettings()).toEqual({ codeLength: 6, codeFormat: 'numeric' });
+  });
+
+  it('keeps the configured length between 4 and 8', () => {
+    vi.stubEnv('OTP_LENGTH', '2');
+    expect(codeSettings().codeLength).toBe(4);
+    vi.stubEnv('OTP_LENGTH', '12');
+    expect(codeSettings().codeLength).toBe(8);
+    vi.stubEnv('OTP_FORMAT', 'alphanumeric');
+    expect(codeSettings().codeFormat).toBe('alphanumeric');
+  });
+});
+
+describe('maskDestination', () => {
+  it('keeps only the start of an email address', () => {
+    expect(maskDestination('email', 'ada@example.edu')).toBe('ad*@example.edu');
+    expect(maskDestination('email', 'a@example.edu')).toBe('a*@example.edu');
+  });
+});
+
+describe('issueChallenge', () => {
+  it('sends a code of the configured shape to the account', () => {
+    const { challenge, message } = issueChallenge(db, user, 'login');
+    expect(message).toMatchObject({ channel: 'email', to: 'ada@example.edu', purpose: 'login' });
+    expect(message?.code).toMatch(/^\d{6}$/);
+    expect(challenge.codeHash).not.toContain(message?.code);
+    expect(db.otpChallenges).toEqual([challenge]);
+  });
+
+  it('uses the alphanumeric alphabet when configured', () => {
+    vi.stubEnv('OTP_FORMAT', 'alphanumeric');
+    vi.stubEnv('OTP_LENGTH', '8');
+    const { message } = issueChallenge(db, user, 'login');
+    expect(message?.code).toMatch(/^[A-HJKMNP-Z2-9]{8}$/);
+  });
+
+  it('replaces the pending challenge for the same purpose only', () => {
+    const signup = issueChallenge(db, user, 'signup').challenge;
+    issueChallenge(db, user, 'login');
+    const login = issueChallenge(db, user, 'login').challenge;
+    expect(db.otpChallenges).toEqual([signup, login]);
+  });
+
+  it('sends nothing for an authenticator challenge', () => {
+    user.totp = { secret: 'sealed', confirmedAt: START.toISOString() };
+    const issued = issueChallenge(db, user, 'login', 'totp');
+    expect(issued.message).toBeUndefined();
+    expect(issued.challenge.destination).toBe('your authenticator app');
+  });
+
+  it('refuses a phone channel when the account has no phone', () => {
+    delete user.phone;
+    expect(() => issueChallenge(db, user, 'login', 'sms')).toThrow('There is no phone number on this account');
+  });
+});
+
+describe('verifyChallenge', () => {
+  it('accepts the code once', () => {
+    const { challenge, message } = issueChallenge(db, user, 'login');
+    expect(verifyChallenge(db, challenge.id, message!.code)).toEqual({ ok: true, challenge });
+    expect(db.otpChallenges).toEqual([]);
+  });
+
+  it('ignores case for alphanumeric codes', () => {
+    vi.stubEnv('OTP_FORMAT', 'alphanumeric');
+    const { challenge, message } = issueChallenge(db, user, 'login');
+    expect(verifyChallenge(db, challenge.id, message!.code.toLowerCase()).ok).toBe(true);
+  });
+
+  it('counts wrong codes and stops after five', () => {
+    const { challenge, message } = issueChallenge(db, user, 'login');
+    const wrong = message!.code === '000000' ? '111111' : '000000';
+
+    const first = verifyChallenge(db, challenge.id, wrong);
+    expect(first).toMatchObject({ ok: false, wrongCode: true });
+    expect(!first.ok && first.error.message).toBe('Invalid verification code. 4 attempts remaining.');
+
+    for (let i = 0; i < 4; i++) verifyChallenge(db, challenge.id, wrong);
+    const locked = verifyChallenge(db, challenge.id, message!.code);
+    expect(!locked.ok && locked.error.status).toBe(429);
+  });
+
+  it('rejects an expired code without counting it', () => {
+    const { challenge, message } = issueChallenge(db, user, 'login');
+    advance(10 * 60 * 1000 + 1);
+    const outcome = verifyChallenge(db, challenge.id, message!.code);
+    expect(outcome).toMatchObject({ ok: false });
+    expect(!outcome.ok && outcome.wrongCode).toBeFalsy();
+    expect(challenge.attempts).toBe(0);
+  });
+
+  it('only takes recovery codes when signing in', () => {
+    const { challenge } = issueChallenge(db, user, 'signup');
+    const outcome = verifyChallenge(db, challenge.id, 'ABCD-EFGH', 'recovery');
+    expect(!outcome.ok && outcome.error.message).toBe('Recovery codes can only be used to sign in.');
+  });
+
+  it('throws for an unknown challenge', () => {
+    expect(() => verifyChallenge(db, 'missing', '123456')).toThrow('Verification session not found');
+  });
+});
+
+describe('resendChallenge', () => {
+  it('waits out the cooldown, then sends a new code and resets the attempts', () => {
+    const { challenge } = issueChallenge(db, user, 'login');
+    expect(() => resendChallenge(db, challenge, user)).toThrow(/^Please wait 30s/);
+
+    challenge.attempts = 3;
+    advance(30 * 1000);
+    const { message } = resendChallenge(db, challenge, user);
+    expect(challenge).toMatchObject({ attempts: 0, sendCount: 2 });
+    expect(verifyChallenge(db, challenge.id, message!.code).ok).toBe(true);
+  });
+
+  it('stops after five sends', () => {
+    const { challenge } = issueChallenge(db, user, 'login');
+    for (let i = 0; i < 4; i++) {
+      advance(30 * 1000);
+      resendChallenge(db, challenge, user);
+    }
+    advance(30 * 1000);
+    expect(() => resendChallenge(db, challenge, user)).toThrow('Too many codes requested');
+  });
+
+  it('can move a login code to the phone', () => {
+    const { challenge } = issueChallenge(db, user, 'login');
+    advance(30 * 1000);
+    const { message } = resendChallenge(db, challenge, user, 'sms');
+    expect(message).toMatchObject({ channel: 'sms', to: '+1 415 555 0100' });
+    expect(challenge.channel).toBe('sms');
+  });
+
+  it('lets an authenticator challenge fall back to email straight away', () => {
+    user.totp = { secret: 'sealed', confirmedAt: START.toISOString() };
+    const { challenge } = issueChallenge(db, user, 'login', 'totp');
+    expect(resendChallenge(db, challenge, user, 'email').message?.to).toBe('ada@example.edu');
+  });
+
+  it('keeps sign-up codes on email', () => {
+    const { challenge } = issueChallenge(db, user, 'signup');
+    advance(30 * 1000);
+    expect(() => resendChallenge(db, challenge, user, 'sms')).toThrow('This code can only be sent to your email address.');
+  });
+
+  it('keeps login codes on email until the sign-up code is entered', () => {
+    user.emailVerificationRequired = true;
+    const { challenge } = issueChallenge(db, user, 'login');
+    advance(30 * 1000);
+    expect(() => resendChallenge(db, challenge, user, 'sms')).toThrow('This code can only be sent to your email address.');
+  });
+});
+
+describe('reissueChallenge', () => {
+  it('sends nothing while the pending challenge is cooling down', () => {
+    const first = issueChallenge(db, user, 'password-reset', 'email').challenge;
+    expect(reissueChallenge(db, user, 'password-reset', 'email')).toEqual({ challenge: first });
+  });
+
+  it('starts over once the pending challenge has expired', () => {
+    const first = issueChallenge(db, user, 'password-reset', 'email').challenge;
+    advance(10 * 60 * 1000 + 1);
+    const next = reissueChallenge(db, user, 'password-reset', 'email');
+    expect(next.challenge.id).not.toBe(first.id);
+    expect(next.message).toBeDefined();
+  });
+});
+
+describe('reissueDecoyChallenge', () => {
+  it('stores a decoy that is answered like a real challenge but never accepts a code', () => {
+    const decoy = reissueDecoyChallenge(db, 'password-reset', 'email', ' Nobody@Example.edu ');
+    expect(decoy).toMatchObject({ decoy: true, destination: 'nobody@example.edu', sendCount: 1 });
+    expect(db.otpChallenges).toContain(decoy);
+
+    const first = verifyChallenge(db, decoy.id, '123456');
+    expect(!first.ok && first.error.message).toBe('Invalid verification code. 4 attempts remaining.');
+    expect(first).toMatchObject({ wrongCode: true });
+  });
+
+  it('hands back the same challenge and follows the resend limits', () => {
+    const decoy = reissueDecoyChallenge(db, 'unlock', 'email', 'nobody@example.edu');
+    expect(reissueDecoyChallenge(db, 'unlock', 'email', 'NOBODY@example.edu')).toBe(decoy);
+    expect(decoy.sendCount).toBe(1);
+
+    advance(30 * 1000);
+    reissueDecoyChallenge(db, 'unlock', 'email', 'nobody@example.edu');
+    expect(decoy.sendCount).toBe(2);
+  });
+
+  it('looks the same as a real challenge from outside', () => {
+    const real = singleChannelInfo(issueChallenge(db, user, 'password-reset').challenge);
+    const decoy = singleChannelInfo(reissueDecoyChallenge(db, 'password-reset', 'email', 'ada@example.org'));
+    const { challengeId: realId, destination: realTo, ...realRest } = real;
+    const { challengeId: decoyId, destination: decoyTo, ...decoyRest } = decoy;
+    expect(decoyRest).toEqual(realRest);
+    expect(decoyTo).toBe('ad*@example.org');
+  });
+});
+
+describe('toChallengeInfo', () => {
+  it('offers every method the account has for a login', () => {
+    const { challenge } = issueChallenge(db, user, 'login');
+    expect(toChallengeInfo(challenge, user)).toMatchObject({
+      channel: 'email',
+      destination: 'ad*@example.edu',
+      attemptsRemaining: 5,
+      methods: ['sms', 'voice', 'email'],
+      resendAvailableAt: new Date(START.getTime() + 30 * 1000).toISOString()
+    });
+  });
+
+  it('offers only email for a sign-up', () => {
+    const { challenge } = issueChallenge(db, user, 'signup');
+    expect(toChallengeInfo(challenge, user).methods).toEqual(['email']);
+  });
+});
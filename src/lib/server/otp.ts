@@ -0,0 +1,336 @@
+import { createHash, randomInt, randomUUID, timingSafeEqual } from 'node:crypto';
+import { z } from 'zod';
+import { maskPhoneNumber } from '@/lib/auth/phone';
+import type { OtpChallengeInfo, OtpChannel, OtpCodeFormat, VerificationMethod } from '@/lib/auth/types';
+import { HttpError } from './http';
+import { consumeRecoveryCode } from './recovery-codes';
+import type { Database, OtpChallengeRecord, OtpPurpose, UserRecord } from './schema';
+import { getTransport, type OtpMessage } from './transports';
+import { availableMethods, isTotpEnabled, verifyTotpCode } from './two-factor';
+import { findUserById, isEmailVerificationPending, normalizeEmail } from './users';
+
+const OTP_TTL_MS = 10 * 60 * 1000;
+const MAX_ATTEMPTS = 5;
+const RESEND_COOLDOWN_MS = 30 * 1000;
+const MAX_SENDS = 5;
+
+export interface IssuedOtp {
+  challenge: OtpChallengeRecord;
+  /** Absent for authenticator challenges, which have nothing to deliver. */
+  message?: OtpMessage;
+}
+
+/** A challenge is normally answered with its code, or with a recovery code when locked out. */
+export type AnswerKind = 'code' | 'recovery';
+
+export type VerifyOutcome =
+  | { ok: true; challenge: OtpChallengeRecord }
+  | { ok: false; error: HttpError; wrongCode?: boolean };
+
+// Letters that look like digits (O, I, L) and vice versa are left out, since
+// codes are often read on one screen and typed on another
+const ALPHANUMERIC = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+const TOTP_CODE = { codeLength: 6, codeFormat: 'numeric' as OtpCodeFormat };
+
+/** Length (4–8, default 6) and format of delivered codes, from `OTP_LENGTH` and `OTP_FORMAT`. */
+export const codeSettings = () => {
+  const length = Number.parseInt(process.env.OTP_LENGTH ?? '', 10);
+  return {
+    codeLength: Number.isNaN(length) ? 6 : Math.min(8, Math.max(4, length)),
+    codeFormat: (process.env.OTP_FORMAT === 'alphanumeric' ? 'alphanumeric' : 'numeric') as OtpCodeFormat
+  };
+};
+
+/** Accepts any code a challenge could ask for; the challenge itself decides if it matches. */
+export const otpCodeSchema = z
+  .string()
+  .trim()
+  .regex(/^[A-Za-z0-9]{4,8}$/, 'Enter the code we sent you');
+
+const generateCode = () => {
+  const { codeLength, codeFormat } = codeSettings();
+  if (codeFormat === 'numeric') {
+    return randomInt(0, 10 ** codeLength).toString().padStart(codeLength, '0');
+  }
+  return Array.from({ length: codeLength }, () => ALPHANUMERIC[randomInt(ALPHANUMERIC.length)]).join('');
+};
+
+// The challenge id acts as a per-code salt
+const hashCode = (challengeId: string, code: string) =>
+  createHash('sha256').update(`${challengeId}:${code}`).digest('hex');
+
+const codeMatches = (db: Database, challenge: OtpChallengeRecord, code: string, kind: AnswerKind) => {
+  if (challenge.decoy) return false;
+  if (kind === 'recovery' || challenge.channel === 'totp') {
+    const user = findUserById(db, challenge.userId);
+    if (!user) return false;
+    return kind === 'recovery' ? consumeRecoveryCode(user, code) : verifyTotpCode(user, code);
+  }
+  const expected = Buffer.from(challenge.codeHash, 'hex');
+  return timingSafeEqual(expected, Buffer.from(hashCode(challenge.id, code.toUpperCase()), 'hex'));
+};
+
+const TOTP_DESTINATION = 'your authenticator app';
+
+export const maskDestination = (channel: VerificationMethod, destination: string) => {
+  if (channel === 'totp') return destination;
+
+  if (channel === 'sms' || channel === 'voice') return maskPhoneNumber(destination);
+
+  const [name, domain] = destination.split('@');
+  if (!domain) return destination;
+  return `${name.slice(0, 2)}${'*'.repeat(Math.max(1, name.length - 2))}@${domain}`;
+};
+
+const resolveDestination = (user: UserRecord, channel: VerificationMethod) => {
+  if (channel === 'totp') {
+    if (!isTotpEnabled(user)) {
+      throw new HttpError(400, 'No authenticator app is set up on this account', 'channel');
+    }
+    return TOTP_DESTINATION;
+  }
+
+  const destination = channel === 'email' ? user.email : user.phone;
+  if (!destination) {
+    throw new HttpError(400, 'There is no phone number on this account', 'channel');
+  }
+  return destination;
+};
+
+// Sets a fresh code on the challenge and returns the message to deliver
+const rotateCode = (challenge: OtpChallengeRecord, channel: OtpChannel, now: number): OtpMessage => {
+  const code = generateCode();
+  challenge.codeHash = hashCode(challenge.id, code);
+  challenge.attempts = 0;
+  challenge.sendCount += 1;
+  challenge.lastSentAt = new Date(now).toISOString();
+  challenge.expiresAt = new Date(now + OTP_TTL_MS).toISOString();
+
+  return {
+    channel,
+    to: challenge.destination,
+    code,
+    purpose: challenge.purpose,
+    expiresAt: challenge.expiresAt
+  };
+};
+
+// Nothing has been sent for an authenticator challenge, so switching to a
+// delivered code is never held back by the cooldown
+const resendAvailableAt = (challenge: OtpChallengeRecord) =>
+  challenge.sendCount > 0 ? Date.parse(challenge.lastSentAt) + RESEND_COOLDOWN_MS : Date.parse(challenge.createdAt);
+
+// A sign-up code proves the address the account was made with, and an account
+// let in because of that address can't sign in until it is proven, so those
+// codes stay on email
+const isChannelLocked = (challenge: OtpChallengeRecord, user: UserRecord) =>
+  challenge.purpose === 'signup' || (challenge.purpose === 'login' && isEmailVerificationPending(user));
+
+const challengeInfo = (challenge: OtpChallengeRecord, methods: VerificationMethod[]): OtpChallengeInfo => ({
+  challengeId: challenge.id,
+  channel: challenge.channel,
+  destination: maskDestination(challenge.channel, challenge.destination),
+  expiresAt: challenge.expiresAt,
+  resendAvailableAt: new Date(resendAvailableAt(challenge)).toISOString(),
+  attemptsRemaining: Math.max(0, MAX_ATTEMPTS - challenge.attempts),
+  methods,
+  ...(challenge.channel === 'totp' ? TOTP_CODE : codeSettings())
+});
+
+export const toChallengeInfo = (challenge: OtpChallengeRecord, user: UserRecord): OtpChallengeInfo =>
+  challengeInfo(challenge, isChannelLocked(challenge, user) ? [challenge.channel] : availableMethods(user));
+
+/** Info for a challenge that only offers its own channel, whether or not it is a decoy. */
+export const singleChannelInfo = (challenge: OtpChallengeRecord): OtpChallengeInfo =>
+  challengeInfo(challenge, [challenge.channel]);
+
+// Only one live challenge per user and purpose; expired ones are swept too
+const createChallenge = (
+  db: Database,
+  userId: string,
+  purpose: OtpPurpose,
+  channel: VerificationMethod,
+  destination: string
+): OtpChallengeRecord => {
+  const now = Date.now();
+  db.otpChallenges = db.otpChallenges.filter(
+    challenge =>
+      !(challenge.userId === userId && challenge.purpose === purpose) &&
+      Date.parse(challenge.expiresAt) > now
+  );
+
+  const challenge: OtpChallengeRecord = {
+    id: randomUUID(),
+    userId,
+    purpose,
+    channel,
+    destination,
+    codeHash: '',
+    attempts: 0,
+    sendCount: 0,
+    lastSentAt: new Date(now).toISOString(),
+    createdAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + OTP_TTL_MS).toISOString()
+  };
+
+  db.otpChallenges.push(challenge);
+  return challenge;
+};
+
+export const issueChallenge = (
+  db: Database,
+  user: UserRecord,
+  purpose: OtpPurpose,
+  channel: VerificationMethod = 'email',
+  destination = resolveDestination(user, channel)
+): IssuedOtp => {
+  const challenge = createChallenge(db, user.id, purpose, channel, destination);
+  if (channel === 'totp') return { challenge };
+  return { challenge, message: rotateCode(challenge, channel, Date.now()) };
+};
+
+export const findChallenge = (db: Database, challengeId: string) => {
+  const challenge = db.otpChallenges.find(item => item.id === challengeId);
+  if (!challenge) {
+    throw new HttpError(404, 'Verification session not found. Please sign in again.');
+  }
+  return challenge;
+};
+
+/**
+ * Checks `code` against the challenge. Failures are returned rather than
+ * thrown so the caller's transaction still records the attempt.
+ */
+export const verifyChallenge = (
+  db: Database,
+  challengeId: string,
+  code: string,
+  kind: AnswerKind = 'code'
+): VerifyOutcome => {
+  const challenge = findChallenge(db, challengeId);
+
+  if (kind === 'recovery' && challenge.purpose !== 'login') {
+    return { ok: false, error: new HttpError(400, 'Recovery codes can only be used to sign in.', 'code') };
+  }
+
+  if (Date.parse(challenge.expiresAt) < Date.now()) {
+    return { ok: false, error: new HttpError(400, 'Verification code has expired. Please request a new one.', 'code', { attemptsRemaining: 0 }) };
+  }
+
+  if (challenge.attempts >= MAX_ATTEMPTS) {
+    return { ok: false, error: new HttpError(429, 'Too many incorrect attempts. Please request a new code.', 'code', { attemptsRemaining: 0 }) };
+  }
+
+  if (!codeMatches(db, challenge, code, kind)) {
+    challenge.attempts += 1;
+    const attemptsRemaining = MAX_ATTEMPTS - challenge.attempts;
+    const message = attemptsRemaining > 0
+      ? `Invalid ${kind === 'recovery' ? 'recovery' : 'verification'} code. ${attemptsRemaining} attempt${attemptsRemaining === 1 ? '' : 's'} remaining.`
+      : 'Too many incorrect attempts. Please request a new code.';
+    return { ok: false, error: new HttpError(400, message, 'code', { attemptsRemaining }), wrongCode: true };
+  }
+
+  db.otpChallenges = db.otpChallenges.filter(item => item.id !== challenge.id);
+  return { ok: true, challenge };
+};
+
+/**
+ * Issues a new code for an existing (possibly expired) challenge, subject to
+ * rate limits. Also how an authenticator challenge falls back to SMS or email.
+ */
+export const resendChallenge = (
+  db: Database,
+  challenge: OtpChallengeRecord,
+  user: UserRecord,
+  channel?: OtpChannel
+): IssuedOtp => {
+  const now = Date.now();
+  const availableAt = resendAvailableAt(challenge);
+  if (now < availableAt) {
+    const seconds = Math.ceil((availableAt - now) / 1000);
+    throw new HttpError(429, `Please wait ${seconds}s before requesting another code.`, undefined, {
+      resendAvailableAt: new Date(availableAt).toISOString()
+    });
+  }
+
+  if (challenge.sendCount >= MAX_SENDS) {
+    throw new HttpError(429, 'Too many codes requested. Please start over and sign in again.');
+  }
+
+  const target = channel ?? challenge.channel;
+  if (target === 'totp') {
+    throw new HttpError(400, 'Codes from an authenticator app cannot be resent', 'channel');
+  }
+
+  if (target !== challenge.channel) {
+    if (isChannelLocked(challenge, user)) {
+      throw new HttpError(400, 'This code can only be sent to your email address.', 'channel');
+    }
+    challenge.destination = resolveDestination(user, target);
+    challenge.channel = target;
+  }
+
+  return { challenge, message: rotateCode(challenge, target, now) };
+};
+
+/**
+ * Starts a challenge for `purpose`, or re-sends the pending one so the
+ * cooldown and send cap still apply. Hitting a limit quietly sends nothing,
+ * for flows that must look the same whether or not the account exists.
+ */
+export const reissueChallenge = (
+  db: Database,
+  user: UserRecord,
+  purpose: OtpPurpose,
+  channel: OtpChannel
+): IssuedOtp => {
+  const pending = db.otpChallenges.find(
+    item => item.userId === user.id && item.purpose === purpose && Date.parse(item.expiresAt) > Date.now()
+  );
+  if (!pending) return issueChallenge(db, user, purpose, channel);
+
+  try {
+    return resendChallenge(db, pending, user, channel);
+  } catch (err) {
+    if (!(err instanceof HttpError) || err.status !== 429) throw err;
+    return { challenge: pending };
+  }
+};
+
+/**
+ * `reissueChallenge` for an account that doesn't exist, where an error would
+ * reveal that. The decoy is stored and follows the same expiry, attempt,
+ * cooldown and send limits as a real challenge, but nothing is sent.
+ */
+export const reissueDecoyChallenge = (
+  db: Database,
+  purpose: OtpPurpose,
+  channel: OtpChannel,
+  destination: string
+): OtpChallengeRecord => {
+  const now = Date.now();
+  const to = channel === 'email' ? normalizeEmail(destination) : destination.trim();
+  const userId = `decoy:${channel}:${to}`;
+  const pending = db.otpChallenges.find(
+    item => item.userId === userId && item.purpose === purpose && Date.parse(item.expiresAt) > now
+  );
+  if (pending) {
+    if (now >= resendAvailableAt(pending) && pending.sendCount < MAX_SENDS) rotateCode(pending, channel, now);
+    return pending;
+  }
+
+  const challenge = createChallenge(db, userId, purpose, channel, to);
+  challenge.decoy = true;
+  rotateCode(challenge, channel, now);
+  return challenge;
+};
+
+export const deliverOtp = async (message?: OtpMessage) => {
+  if (!message) return;
+  try {
+    await getTransport(message.channel).send(message);
+  } catch (err) {
+    console.error(err);
+    throw new HttpError(502, 'We could not send your verification code. Please try again.');
+  }
+};
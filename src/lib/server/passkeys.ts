@@ -0,0 +1,211 @@
+import { randomUUID } from 'node:crypto';
+import type {
+  Passkey,
+  PasskeyAssertion,
+  PasskeyCreationOptions,
+  PasskeyRegistration,
+  PasskeyRequestOptions
+} from '@/lib/auth/types';
+import { recordAuthEvent, type RequestContext } from './audit';
+import { completeSignIn, type SignIn } from './auth';
+import type { DeviceContext } from './devices';
+import { HttpError } from './http';
+import type { Database, PasskeyChallengeRecord, PasskeyRecord, UserRecord } from './schema';
+import { read, transaction } from './store';
+import { checkThrottle, ipTargets, recordFailure } from './throttle';
+import { describeUserAgent } from './user-agent';
+import { findUserById } from './users';
+import {
+  generateChallenge,
+  relyingPartyFor,
+  SUPPORTED_ALGORITHMS,
+  toBase64Url,
+  verifyAssertion,
+  verifyRegistration,
+  WebAuthnError
+} from './webauthn';
+
+const CHALLENGE_TTL_MS = 5 * 60 * 1000;
+const RP_NAME = 'EduDash';
+
+const CHALLENGE_EXPIRED = 'This passkey request has expired. Please try again.';
+const UNKNOWN_PASSKEY = "This passkey isn't registered with EduDash. Sign in with your password instead.";
+
+const toPasskey = (record: PasskeyRecord): Passkey => ({
+  id: record.id,
+  name: record.name,
+  synced: record.backedUp,
+  createdAt: record.createdAt,
+  lastUsedAt: record.lastUsedAt
+});
+
+const passkeysOf = (db: Database, userId: string) => db.passkeys.filter(passkey => passkey.userId === userId);
+
+// The WebAuthn user handle; opaque to authenticators, so the account id will do
+const userHandle = (user: UserRecord) => toBase64Url(Buffer.from(user.id));
+
+const issueChallenge = (db: Database, purpose: PasskeyChallengeRecord['purpose'], userId?: string) => {
+  const now = Date.now();
+  db.passkeyChallenges = db.passkeyChallenges.filter(item => Date.parse(item.expiresAt) > now);
+
+  const challenge: PasskeyChallengeRecord = {
+    id: randomUUID(),
+    challenge: generateChallenge(),
+    purpose,
+    userId,
+    expiresAt: new Date(now + CHALLENGE_TTL_MS).toISOString()
+  };
+  db.passkeyChallenges.push(challenge);
+  return challenge;
+};
+
+/** Removes the challenge so it can only be answered once, returning it if still valid. */
+const takeChallenge = (db: Database, id: string, purpose: PasskeyChallengeRecord['purpose'], userId?: string) => {
+  const challenge = db.passkeyChallenges.find(item => item.id === id);
+  db.passkeyChallenges = db.passkeyChallenges.filter(item => item !== challenge);
+  if (!challenge || challenge.purpose !== purpose || challenge.userId !== userId) return undefined;
+  return Date.parse(challenge.expiresAt) > Date.now() ? challenge : undefined;
+};
+
+const requireUser = (db: Database, userId: string) => {
+  const user = findUserById(db, userId);
+  if (!user) {
+    throw new HttpError(404, 'Account no longer exists');
+  }
+  return user;
+};
+
+export const listPasskeys = (userId: string): Promise<Passkey[]> =>
+  read(db => passkeysOf(db, userId).map(toPasskey));
+
+export const startPasskeyRegistration = (userId: string, origin: string): Promise<PasskeyCreationOptions> =>
+  transaction(db => {
+    const user = requireUser(db, userId);
+    const challenge = issueChallenge(db, 'register', user.id);
+    return {
+      challengeId: challenge.id,
+      challenge: challenge.challenge,
+      rp: { id: relyingPartyFor(origin).id, name: RP_NAME },
+      user: { id: userHandle(user), name: user.email, displayName: `${user.firstName} ${user.lastName}`.trim() },
+      algorithms: SUPPORTED_ALGORITHMS,
+      excludeCredentials: passkeysOf(db, user.id).map(passkey => passkey.id),
+      timeout: CHALLENGE_TTL_MS
+    };
+  });
+
+const defaultName = (userAgent: string) => {
+  const { browser, os } = describeUserAgent(userAgent);
+  return `${browser} on ${os}`;
+};
+
+export const finishPasskeyRegistration = async (
+  userId: string,
+  { challengeId, credential, name }: PasskeyRegistration,
+  origin: string,
+  userAgent: string
+): Promise<Passkey[]> => {
+  // Failures are returned rather than thrown so the used challenge is discarded
+  const outcome = await transaction(db => {
+    const challenge = takeChallenge(db, challengeId, 'register', userId);
+    if (!challenge) return { ok: false as const, error: new HttpError(400, CHALLENGE_EXPIRED) };
+
+    let verified;
+    try {
+      verified = verifyRegistration(credential, challenge.challenge, relyingPartyFor(origin));
+    } catch (err) {
+      if (!(err instanceof WebAuthnError)) throw err;
+      return { ok: false as const, error: new HttpError(400, err.message) };
+    }
+
+    if (db.passkeys.some(passkey => passkey.id === verified.credentialId)) {
+      return { ok: false as const, error: new HttpError(409, 'This passkey is already registered') };
+    }
+
+    db.passkeys.push({
+      id: verified.credentialId,
+      userId,
+      name: name?.trim() || defaultName(userAgent),
+      publicKey: verified.publicKey,
+      algorithm: verified.algorithm,
+      signCount: verified.signCount,
+      backedUp: verified.backedUp,
+      createdAt: new Date().toISOString()
+    });
+    return { ok: true as const, passkeys: passkeysOf(db, userId).map(toPasskey) };
+  });
+
+  if (!outcome.ok) throw outcome.error;
+  return outcome.passkeys;
+};
+
+export const removePasskey = (userId: string, passkeyId: string): Promise<Passkey[]> =>
+  transaction(db => {
+    const passkey = passkeysOf(db, userId).find(item => item.id === passkeyId);
+    if (!passkey) {
+      throw new HttpError(404, 'Passkey not found');
+    }
+
+    db.passkeys = db.passkeys.filter(item => item !== passkey);
+    return passkeysOf(db, userId).map(toPasskey);
+  });
+
+/** Sign-in uses discoverable credentials, so the browser offers whichever passkeys it has. */
+export const startPasskeySignIn = (origin: string, context: RequestContext): Promise<PasskeyRequestOptions> =>
+  transaction(db => {
+    // No account is named until the passkey answers, so only the network is throttled
+    const throttled = checkThrottle(db, ipTargets(context.ip));
+    if (throttled) throw throttled;
+
+    const challenge = issueChallenge(db, 'sign-in');
+    return {
+      challengeId: challenge.id,
+      challenge: challenge.challenge,
+      rpId: relyingPartyFor(origin).id,
+      timeout: CHALLENGE_TTL_MS
+    };
+  });
+
+const failedSignIn = (db: Database, device: DeviceContext, error: HttpError, user?: UserRecord) => {
+  recordAuthEvent(db, device, { type: 'sign-in-failed', user, method: 'passkey', detail: error.message });
+  return { ok: false as const, error };
+};
+
+/** A verified passkey replaces both the password and the one-time code. */
+export const finishPasskeySignIn = async (
+  { challengeId, credential }: PasskeyAssertion,
+  origin: string,
+  device: DeviceContext
+): Promise<SignIn> => {
+  const targets = ipTargets(device.ip);
+  const outcome = await transaction(db => {
+    // Like password sign-in, attempts turned away by the throttle aren't logged
+    const throttled = checkThrottle(db, targets);
+    if (throttled) return { ok: false as const, error: throttled };
+
+    const challenge = takeChallenge(db, challengeId, 'sign-in');
+    if (!challenge) return failedSignIn(db, device, new HttpError(400, CHALLENGE_EXPIRED));
+
+    const passkey = db.passkeys.find(item => item.id === credential.id);
+    const user = passkey && findUserById(db, passkey.userId);
+    if (!passkey || !user || (credential.userHandle && credential.userHandle !== userHandle(user))) {
+      return failedSignIn(db, device, recordFailure(db, targets) ?? new HttpError(401, UNKNOWN_PASSKEY));
+    }
+
+    let result;
+    try {
+      result = verifyAssertion(credential, passkey, challenge.challenge, relyingPartyFor(origin));
+    } catch (err) {
+      if (!(err instanceof WebAuthnError)) throw err;
+      const error = new HttpError(err.malformed ? 400 : 401, err.message);
+      return failedSignIn(db, device, recordFailure(db, targets) ?? error, user);
+    }
+
+    passkey.signCount = result.signCount;
+    passkey.backedUp = result.backedUp;
+    passkey.lastUsedAt = new Date().toISOString();
+    return { ok: true as const, signIn: completeSignIn(db, user, { method: 'passkey', device }) };
+  });
+
+  if (!outcome.ok) throw outcome.error;
+  return outcome.signIn;
+};
@@ -0,0 +1,125 @@
+import { readFileSync } from 'node:fs';
+import {
+  DEFAULT_PASSWORD_POLICY,
+  PASSWORD_CHARACTER_CLASSES,
+  passwordPolicyError
+} from '@/lib/auth/password-policy';
+import type { PasswordPolicy } from '@/lib/auth/types';
+import { COMMON_PASSWORDS } from './common-passwords';
+import { HttpError } from './http';
+import { hashPassword, verifyPassword } from './password';
+import type { UserRecord } from './schema';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const readInt = (name: string, fallback: number, min: number, max: number) => {
+  const value = Number.parseInt(process.env[name] ?? '', 10);
+  return Number.isNaN(value) ? fallback : Math.min(max, Math.max(min, value));
+};
+
+/**
+ * The policy from `PASSWORD_MIN_LENGTH` (6–64, default 8), `PASSWORD_REQUIRE`
+ * (any of lower, upper, digit, symbol), `PASSWORD_HISTORY` (0–24, default 5)
+ * and `PASSWORD_MAX_AGE_DAYS` (default 0, never).
+ */
+export const passwordPolicy = (): PasswordPolicy => {
+  const required = (process.env.PASSWORD_REQUIRE ?? '').toLowerCase().split(/[\s,]+/);
+  return {
+    minLength: readInt('PASSWORD_MIN_LENGTH', DEFAULT_PASSWORD_POLICY.minLength, 6, 64),
+    requiredClasses: PASSWORD_CHARACTER_CLASSES.filter(item => required.includes(item)),
+    historySize: readInt('PASSWORD_HISTORY', DEFAULT_PASSWORD_POLICY.historySize, 0, 24),
+    maxAgeDays: readInt('PASSWORD_MAX_AGE_DAYS', DEFAULT_PASSWORD_POLICY.maxAgeDays, 0, 3650)
+  };
+};
+
+let commonPasswords: Set<string> | undefined;
+
+const loadCommonPasswords = () => {
+  const lines = COMMON_PASSWORDS.split('\n');
+  const extraFile = process.env.PASSWORD_BLOCKLIST_FILE;
+  if (extraFile) {
+    try {
+      lines.push(...readFileSync(extraFile, 'utf8').split(/\r?\n/));
+    } catch (err) {
+      console.error(`Couldn't read PASSWORD_BLOCKLIST_FILE (${extraFile})`, err);
+    }
+  }
+  return new Set(lines.map(line => line.trim().toLowerCase()).filter(Boolean));
+};
+
+// Digits and symbols tacked on the end are the usual way to get a weak
+// password past the rules, so `Summer2024!` is looked up as `summer` too
+const isCommonPassword = (password: string) => {
+  commonPasswords ??= loadCommonPasswords();
+  const lower = password.toLowerCase();
+  const stem = lower.replace(/[^\p{L}]+$/u, '');
+  return commonPasswords.has(lower) || (stem.length >= 4 && commonPasswords.has(stem));
+};
+
+// Names and the email's local part are among the first guesses for an account
+const containsPersonalDetails = (password: string, owner: PasswordOwner) => {
+  const lower = password.toLowerCase();
+  return [owner.email.split('@')[0], owner.firstName, owner.lastName]
+    .map(part => part.trim().toLowerCase())
+    .some(part => part.length >= 4 && lower.includes(part));
+};
+
+/** Whoever is choosing the password; the hashes are missing for a new account. */
+export type PasswordOwner = Pick<UserRecord, 'email' | 'firstName' | 'lastName'> &
+  Partial<Pick<UserRecord, 'passwordHash' | 'passwordHistory'>>;
+
+/**
+ * Throws a 400 on `field` when `password` breaks the policy, is a common or
+ * breached password, contains the owner's name or email, or is one of their
+ * recent passwords.
+ */
+export const checkNewPassword = async (password: string, owner: PasswordOwner, field = 'password') => {
+  const policy = passwordPolicy();
+  const ruleError = passwordPolicyError(policy, password);
+  if (ruleError) {
+    throw new HttpError(400, ruleError, field);
+  }
+  if (isCommonPassword(password)) {
+    throw new HttpError(400, 'This password is too common or has appeared in a data breach. Please choose another.', field);
+  }
+  if (containsPersonalDetails(password, owner)) {
+    throw new HttpError(400, "Your password can't contain your name or email address.", field);
+  }
+
+  const recent = [owner.passwordHash, ...(owner.passwordHistory ?? [])]
+    .filter((hash): hash is string => Boolean(hash))
+    .slice(0, policy.historySize);
+  for (const hash of recent) {
+    if (await verifyPassword(password, hash)) {
+      throw new HttpError(
+        400,
+        policy.historySize === 1
+          ? 'Your new password must be different from your current one.'
+          : `You can't reuse any of your last ${policy.historySize} passwords.`,
+        field
+      );
+    }
+  }
+};
+
+/** Sets a password that passed `checkNewPassword`, keeping the old hash for the history rule. */
+export const setPassword = async (user: UserRecord, password: string) => {
+  const { historySize } = passwordPolicy();
+  // The current hash is checked separately, so history holds one fewer
+  const history = [user.passwordHash, ...(user.passwordHistory ?? [])].filter(Boolean).slice(0, Math.max(0, historySize - 1));
+  user.passwordHistory = history.length > 0 ? history : undefined;
+  user.passwordHash = await hashPassword(password);
+  user.passwordChangedAt = user.updatedAt = new Date().toISOString();
+};
+
+/** When the password stops working, or null if it never expires. */
+export const passwordExpiresAt = (user: UserRecord): Date | null => {
+  const { maxAgeDays } = passwordPolicy();
+  if (maxAgeDays === 0 || !user.passwordHash) return null;
+  return new Date(Date.parse(user.passwordChangedAt ?? user.createdAt) + maxAgeDays * DAY_MS);
+};
+
+export const isPasswordExpired = (user: UserRecord) => {
+  const expiresAt = passwordExpiresAt(user);
+  return expiresAt !== null && expiresAt.getTime() <= Date.now();
+};
@@ -0,0 +1,138 @@
+import { createHmac, timingSafeEqual } from 'node:crypto';
+import type { OtpChallengeInfo, OtpChannel, PasswordResetGrant } from '@/lib/auth/types';
+import { FORGOT_PASSWORD_ROUTE } from '@/lib/routes';
+import { recordAuthEvent, recordOtpResult, recordOtpSent, type RequestContext } from './audit';
+import { signOutEverywhere } from './devices';
+import { HttpError } from './http';
+import {
+  deliverOtp,
+  findChallenge,
+  reissueChallenge,
+  reissueDecoyChallenge,
+  singleChannelInfo,
+  verifyChallenge
+} from './otp';
+import { checkNewPassword, setPassword } from './password-policy';
+import type { UserRecord } from './schema';
+import { getAuthSecret } from './session-cookie';
+import { transaction } from './store';
+import { checkThrottle, recordFailure, signInTargets } from './throttle';
+import { findUserByEmail, findUserById, findUserByPhone, markContactVerified } from './users';
+
+const RESET_TOKEN_TTL_MS = 30 * 60 * 1000;
+
+const INVALID_TOKEN = 'This reset link is invalid or has expired. Please request a new one.';
+
+// Reset tokens are stateless: `<userId>.<expiresAt>.<hmac>`. The signature
+// covers the current password hash, so a token stops working as soon as the
+// password changes and can only ever be used once.
+const signResetToken = (user: UserRecord, expiresAt: number) =>
+  createHmac('sha256', getAuthSecret())
+    .update(`password-reset:${user.id}:${expiresAt}:${user.passwordHash}`)
+    .digest('base64url');
+
+export const createResetToken = (user: UserRecord) => {
+  const expiresAt = Date.now() + RESET_TOKEN_TTL_MS;
+  return `${user.id}.${expiresAt}.${signResetToken(user, expiresAt)}`;
+};
+
+const resolveResetToken = (user: UserRecord | undefined, expiresAt: number, signature: string) => {
+  if (!user || !Number.isFinite(expiresAt) || expiresAt < Date.now()) return null;
+  const expected = Buffer.from(signResetToken(user, expiresAt));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && timingSafeEqual(expected, actual) ? user : null;
+};
+
+const resetLink = (origin: string, user: UserRecord) =>
+  `${origin}${FORGOT_PASSWORD_ROUTE}?token=${encodeURIComponent(createResetToken(user))}`;
+
+/**
+ * Sends a reset code (and, by email, a reset link) to the account matching
+ * `identifier`. Unknown identifiers get a decoy challenge that behaves the
+ * same, so the endpoint can't be used to discover accounts.
+ */
+export const requestPasswordReset = async (
+  identifier: string,
+  origin: string,
+  context: RequestContext
+): Promise<OtpChallengeInfo> => {
+  const channel: OtpChannel = identifier.includes('@') ? 'email' : 'sms';
+
+  const { info, message } = await transaction(db => {
+    const user = channel === 'email' ? findUserByEmail(db, identifier) : findUserByPhone(db, identifier);
+    if (!user) {
+      return { info: singleChannelInfo(reissueDecoyChallenge(db, 'password-reset', channel, identifier)), message: undefined };
+    }
+
+    const issued = reissueChallenge(db, user, 'password-reset', channel);
+    recordOtpSent(db, context, user, issued);
+    const info = singleChannelInfo(issued.challenge);
+    if (!issued.message) return { info, message: undefined };
+    return {
+      info,
+      message: channel === 'email' ? { ...issued.message, link: resetLink(origin, user) } : issued.message
+    };
+  });
+
+  await deliverOtp(message);
+  return info;
+};
+
+/** Exchanges a correct reset code for a short-lived reset token. */
+export const verifyPasswordResetCode = async (
+  challengeId: string,
+  code: string,
+  context: RequestContext
+): Promise<PasswordResetGrant> => {
+  const outcome = await transaction(db => {
+    const challenge = findChallenge(db, challengeId);
+    if (challenge.purpose !== 'password-reset') {
+      throw new HttpError(404, 'Verification session not found. Please start again.');
+    }
+
+    // Wrong codes count towards the same limits as wrong passwords. A decoy
+    // is throttled by the address it was requested for, like an unknown
+    // account at sign-in.
+    const owner = findUserById(db, challenge.userId);
+    const targets = signInTargets(owner?.email ?? challenge.destination, context.ip);
+    const throttled = checkThrottle(db, targets);
+    if (throttled) return { ok: false as const, error: throttled };
+
+    const result = verifyChallenge(db, challengeId, code);
+    if (!challenge.decoy) recordOtpResult(db, context, challenge, result);
+    if (!result.ok) {
+      const lockout = result.wrongCode ? recordFailure(db, targets) : undefined;
+      return { ok: false as const, error: lockout ?? result.error };
+    }
+
+    const user = findUserById(db, result.challenge.userId);
+    if (!user) {
+      throw new HttpError(404, 'Account no longer exists');
+    }
+    if (result.challenge.channel !== 'totp') {
+      markContactVerified(user, result.challenge.channel, result.challenge.destination);
+    }
+    return { ok: true as const, resetToken: createResetToken(user) };
+  });
+
+  if (!outcome.ok) throw outcome.error;
+  return { resetToken: outcome.resetToken };
+};
+
+/** Sets a new password, signs the account out everywhere and forgets trusted devices. */
+export const resetPassword = (token: string, password: string, context: RequestContext): Promise<void> =>
+  transaction(async db => {
+    const [userId, expiresAt, signature] = token.split('.');
+    const user = resolveResetToken(userId ? findUserById(db, userId) : undefined, Number(expiresAt), signature ?? '');
+    if (!user) {
+      throw new HttpError(400, INVALID_TOKEN, 'token');
+    }
+
+    await checkNewPassword(password, user);
+    await setPassword(user, password);
+    signOutEverywhere(db, user.id);
+    db.otpChallenges = db.otpChallenges.filter(
+      item => !(item.userId === user.id && item.purpose === 'password-reset')
+    );
+    recordAuthEvent(db, context, { type: 'password-changed', user, purpose: 'password-reset' });
+  });
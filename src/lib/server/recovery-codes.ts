@@ -0,0 +1,43 @@
+import { createHash, randomInt, timingSafeEqual } from 'node:crypto';
+import type { UserRecord } from './schema';
+
+const CODE_COUNT = 10;
+const CODE_LENGTH = 10;
+// No 0/o, 1/l/i so codes survive being written down
+const ALPHABET = 'abcdefghjkmnpqrstuvwxyz23456789';
+
+const generateCode = () => {
+  let code = '';
+  for (let i = 0; i < CODE_LENGTH; i++) {
+    code += ALPHABET[randomInt(ALPHABET.length)];
+  }
+  return `${code.slice(0, 5)}-${code.slice(5)}`;
+};
+
+const normalizeCode = (code: string) => code.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+// Salted with the user id so identical codes on two accounts hash differently
+const hashCode = (userId: string, code: string) =>
+  createHash('sha256').update(`${userId}:${normalizeCode(code)}`).digest('hex');
+
+export const remainingRecoveryCodes = (user: UserRecord) =>
+  (user.recoveryCodes ?? []).filter(code => !code.usedAt).length;
+
+/** Replaces the user's recovery codes, returning the new plaintext set exactly once. */
+export const generateRecoveryCodes = (user: UserRecord): string[] => {
+  const codes = Array.from({ length: CODE_COUNT }, generateCode);
+  user.recoveryCodes = codes.map(code => ({ hash: hashCode(user.id, code) }));
+  return codes;
+};
+
+/** Marks a matching unused code as spent. */
+export const consumeRecoveryCode = (user: UserRecord, code: string) => {
+  const hash = Buffer.from(hashCode(user.id, code), 'hex');
+  const match = (user.recoveryCodes ?? []).find(
+    item => !item.usedAt && timingSafeEqual(Buffer.from(item.hash, 'hex'), hash)
+  );
+  if (!match) return false;
+
+  match.usedAt = new Date().toISOString();
+  return true;
+};
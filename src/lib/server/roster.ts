@@ -0,0 +1,18 @@
+import type { RosterStudent } from '@/lib/coursework/types';
+import { HttpError } from './http';
+import type { Database } from './schema';
+import { findUserById, roleOf } from './users';
+
+export const listStudents = (db: Database): RosterStudent[] =>
+  db.users
+    .filter(user => roleOf(user) === 'student')
+    .map(({ id, firstName, lastName, email }) => ({ id, firstName, lastName, email }))
+    .sort((a, b) => a.lastName.localeCompare(b.lastName) || a.firstName.localeCompare(b.firstName));
+
+export const requireStudent = (db: Database, studentId: string) => {
+  const user = findUserById(db, studentId);
+  if (!user || roleOf(user) !== 'student') {
+    throw new HttpError(404, 'Student not found', 'studentId');
+  }
+  return user;
+};
@@ -0,0 +1,242 @@
+import type { AuthEventMethod, AuthEventType, OtpPurpose, Role, SignupPolicy, VerificationMethod } from '@/lib/auth/types';
+import type { AttendanceSheet, Grade } from '@/lib/coursework/types';
+import type { Note, NoteRevision } from '@/lib/notes/types';
+
+// Record shapes persisted by the local store. Dates are ISO strings so the
+// whole database round-trips through JSON without revivers.
+
+export interface UserRecord {
+  id: string;
+  email: string;
+  phone?: string;
+  /** Set once a code sent to the current address has been entered. */
+  emailVerifiedAt?: string;
+  phoneVerifiedAt?: string;
+  /** Set on accounts made by signing up, which can't sign in until their email address is verified. */
+  emailVerificationRequired?: boolean;
+  firstName: string;
+  lastName: string;
+  avatar?: string;
+  /** Missing on accounts created before roles existed; read it with `roleOf`. */
+  role?: Role;
+  passwordHash: string;
+  /** Hashes of earlier passwords, newest first, for the reuse rule. */
+  passwordHistory?: string[];
+  /** Missing on accounts older than the password policy; `createdAt` stands in. */
+  passwordChangedAt?: string;
+  /** Authenticator app enrolment; the secret is sealed with `sealSecret`. */
+  totp?: TotpEnrollmentRecord;
+  preferredMethod?: VerificationMethod;
+  recoveryCodes?: RecoveryCodeRecord[];
+  /** Single sign-on accounts that sign in as this user. */
+  identities?: LinkedIdentityRecord[];
+  /** Set once the user confirms deleting the account; it is erased at this time unless they cancel. */
+  deletionScheduledFor?: string;
+  /** Set when the starter notes were added, so deleting them all doesn't bring them back. */
+  notesSeededAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface TotpEnrollmentRecord {
+  secret: string;
+  /** Unset while enrolment is pending confirmation. */
+  confirmedAt?: string;
+  /** Last accepted time step, so a code can't be used twice. */
+  lastUsedStep?: number;
+}
+
+export interface RecoveryCodeRecord {
+  hash: string;
+  usedAt?: string;
+}
+
+/** An OpenID Connect identity, keyed by the provider's `iss` and `sub` claims. */
+export interface LinkedIdentityRecord {
+  issuer: string;
+  subject: string;
+  linkedAt: string;
+}
+
+// `verify-*` challenges go to the address being confirmed, which may not be on the account yet
+export type { OtpPurpose };
+
+export interface OtpChallengeRecord {
+  id: string;
+  userId: string;
+  purpose: OtpPurpose;
+  channel: VerificationMethod;
+  destination: string;
+  codeHash: string;
+  attempts: number;
+  sendCount: number;
+  lastSentAt: string;
+  createdAt: string;
+  expiresAt: string;
+  /** Carried from the login form to the session issued on success. */
+  rememberMe?: boolean;
+  /** Stands in for an account that doesn't exist; nothing is sent and no code matches. */
+  decoy?: boolean;
+}
+
+export interface SessionRecord {
+  id: string;
+  userId: string;
+  deviceId?: string;
+  tokenHash: string;
+  createdAt: string;
+  lastSeenAt: string;
+  expiresAt: string;
+}
+
+/** A browser a user has signed in from, identified by the device cookie. */
+export interface DeviceRecord {
+  id: string;
+  userId: string;
+  tokenHash: string;
+  userAgent: string;
+  ip?: string;
+  createdAt: string;
+  /** Most recent password or OTP sign-in; refreshes don't count. */
+  signedInAt: string;
+  lastSeenAt: string;
+  /** Sign-ins from this device skip OTP until then. */
+  trustedUntil?: string;
+  /** Current "remember me" credential; rotated on every use. */
+  refreshTokenHash?: string;
+  /** The credential it replaced, kept to detect a stolen token being replayed. */
+  previousRefreshTokenHash?: string;
+  /** When the current credential replaced the previous one. */
+  refreshRotatedAt?: string;
+  refreshExpiresAt?: string;
+}
+
+/** Recent failed sign-in attempts against one account or from one IP address. */
+export interface ThrottleRecord {
+  /** `account:<email>` or `ip:<address>`. */
+  key: string;
+  failures: number;
+  lastFailureAt: string;
+  lockedUntil?: string;
+}
+
+/** A WebAuthn credential that signs in without a password or OTP. */
+export interface PasskeyRecord {
+  /** Credential id, base64url. */
+  id: string;
+  userId: string;
+  name: string;
+  /** SPKI DER, base64url. */
+  publicKey: string;
+  /** COSE algorithm id. */
+  algorithm: number;
+  signCount: number;
+  backedUp: boolean;
+  createdAt: string;
+  lastUsedAt?: string;
+}
+
+export interface PasskeyChallengeRecord {
+  id: string;
+  challenge: string;
+  purpose: 'register' | 'sign-in';
+  /** Only set when registering; sign-in challenges don't know the user yet. */
+  userId?: string;
+  expiresAt: string;
+}
+
+/** A single sign-on attempt between the redirect to the provider and its callback. */
+export interface OidcLoginRecord {
+  stateHash: string;
+  nonce: string;
+  /** PKCE verifier; the provider only ever sees its hash. */
+  codeVerifier: string;
+  /** Where to land once signed in. */
+  next: string;
+  createdAt: string;
+  expiresAt: string;
+}
+
+/** A security-relevant auth event, kept for the account's activity list and the admin audit log. */
+export interface AuthEventRecord {
+  id: string;
+  type: AuthEventType;
+  /** Unset when the attempt named an email that has no account. */
+  userId?: string;
+  /** The email the attempt was made with, as typed for unknown accounts. */
+  email?: string;
+  method?: AuthEventMethod;
+  purpose?: OtpPurpose;
+  detail?: string;
+  ip?: string;
+  userAgent: string;
+  createdAt: string;
+}
+
+export type SignupPolicyRecord = SignupPolicy;
+
+/** A single-use sign-up code handed out by an admin. */
+export interface InviteRecord {
+  id: string;
+  /** The code itself is only ever shown to the admin who created it. */
+  codeHash: string;
+  hint: string;
+  /** Given to the account created with the invite. */
+  role: Role;
+  email?: string;
+  /** Id of the admin who created it. */
+  createdBy: string;
+  createdAt: string;
+  expiresAt: string;
+  usedAt?: string;
+  /** Id of the account created with it. */
+  usedBy?: string;
+}
+
+// Coursework records are already JSON-safe, so they are stored as sent
+export type GradeRecord = Grade;
+export type AttendanceSheetRecord = AttendanceSheet;
+
+export interface NoteRecord extends Note {
+  userId: string;
+}
+
+export interface NoteRevisionRecord extends NoteRevision {
+  userId: string;
+}
+
+export interface Database {
+  users: UserRecord[];
+  otpChallenges: OtpChallengeRecord[];
+  sessions: SessionRecord[];
+  devices: DeviceRecord[];
+  throttles: ThrottleRecord[];
+  oidcLogins: OidcLoginRecord[];
+  passkeys: PasskeyRecord[];
+  passkeyChallenges: PasskeyChallengeRecord[];
+  authEvents: AuthEventRecord[];
+  signupPolicy: SignupPolicyRecord;
+  invites: InviteRecord[];
+  grades: GradeRecord[];
+  attendanceSheets: AttendanceSheetRecord[];
+  notes: NoteRecord[];
+  noteRevisions: NoteRevisionRecord[];
+}
+
+export const createEmptyDatabase = (): Database => ({
+  users: [],
+  otpChallenges: [],
+  sessions: [],
+  devices: [],
+  throttles: [],
+  oidcLogins: [],
+  passkeys: [],
+  passkeyChallenges: [],
+  authEvents: [],
+  signupPolicy: { mode: 'open', allowedDomains: [] },
+  invites: [],
+  grades: [],
+  attendanceSheets: [],
+  notes: [],
+  noteRevisions: []
+});
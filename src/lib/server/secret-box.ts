@@ -0,0 +1,26 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'node:crypto';
+import { getAuthSecret } from './session-cookie';
+
+// AES-256-GCM for secrets we must be able to read back (unlike passwords and
+// codes, which are only ever hashed). Stored as `v1.<iv>.<tag>.<ciphertext>`.
+
+const getKey = () => createHash('sha256').update(`secret-box:${getAuthSecret()}`).digest();
+
+export const sealSecret = (plaintext: string) => {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', getKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+  const parts = [iv, cipher.getAuthTag(), ciphertext].map(part => part.toString('base64url'));
+  return ['v1', ...parts].join('.');
+};
+
+export const openSecret = (sealed: string) => {
+  const [version, iv, tag, ciphertext] = sealed.split('.');
+  if (version !== 'v1' || !iv || !tag || !ciphertext) {
+    throw new Error('Unrecognised sealed secret');
+  }
+
+  const decipher = createDecipheriv('aes-256-gcm', getKey(), Buffer.from(iv, 'base64url'));
+  decipher.setAuthTag(Buffer.from(tag, 'base64url'));
+  return Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64url')), decipher.final()]).toString('utf8');
+};
@@ -0,0 +1,109 @@
+import type { NextRequest, NextResponse } from 'next/server';
+
+// Uses Web Crypto only, so the same helpers work in route handlers and in
+// the edge middleware.
+
+export const SESSION_COOKIE = 'edudash_session';
+// Long-lived "remember me" credential, rotated on every use
+export const REFRESH_COOKIE = 'edudash_refresh';
+// Identifies the browser so it can be remembered and trusted
+export const DEVICE_COOKIE = 'edudash_device';
+
+// Ties a single sign-on callback to the browser that started it
+export const OIDC_STATE_COOKIE = 'edudash_oidc';
+
+const DEV_SECRET = 'edudash-dev-secret-do-not-use-in-production';
+
+export const getAuthSecret = () => {
+  const secret = process.env.AUTH_SECRET;
+  if (secret) return secret;
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('AUTH_SECRET must be set in production');
+  }
+  return DEV_SECRET;
+};
+
+const encoder = new TextEncoder();
+
+const toBase64Url = (bytes: ArrayBuffer) =>
+  btoa(String.fromCharCode(...new Uint8Array(bytes)))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+
+const getKey = () =>
+  crypto.subtle.importKey('raw', encoder.encode(getAuthSecret()), { name: 'HMAC', hash: 'SHA-256' }, false, [
+    'sign'
+  ]);
+
+const sign = async (token: string) =>
+  toBase64Url(await crypto.subtle.sign('HMAC', await getKey(), encoder.encode(token)));
+
+const constantTimeEqual = (a: string, b: string) => {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+};
+
+// Cookie value is `<token>.<hmac>` so tampered cookies are rejected before a store lookup
+const encode = async (token: string) => `${token}.${await sign(token)}`;
+
+const decode = async (value: string) => {
+  const [token, signature] = value.split('.');
+  if (!token || !signature) return null;
+  return constantTimeEqual(signature, await sign(token)) ? token : null;
+};
+
+const cookieOptions = (path: string) => ({
+  httpOnly: true,
+  secure: process.env.NODE_ENV === 'production',
+  sameSite: 'lax' as const,
+  path
+});
+
+const readSignedCookie = async (request: NextRequest, name: string) => {
+  const value = request.cookies.get(name)?.value;
+  return value ? decode(value) : null;
+};
+
+const setSignedCookie = async (response: NextResponse, name: string, token: string, expiresAt: string, path = '/') => {
+  response.cookies.set(name, await encode(token), { ...cookieOptions(path), expires: new Date(expiresAt) });
+};
+
+const clearCookie = (response: NextResponse, name: string, path = '/') => {
+  response.cookies.set(name, '', { ...cookieOptions(path), maxAge: 0 });
+};
+
+export const readSessionToken = (request: NextRequest) => readSignedCookie(request, SESSION_COOKIE);
+
+export const setSessionCookie = (response: NextResponse, token: string, expiresAt: string) =>
+  setSignedCookie(response, SESSION_COOKIE, token, expiresAt);
+
+export const clearSessionCookie = (response: NextResponse) => clearCookie(response, SESSION_COOKIE);
+
+// Refresh and device cookies are only ever needed by the auth endpoints
+const AUTH_API_PATH = '/api/auth';
+
+export const readRefreshToken = (request: NextRequest) => readSignedCookie(request, REFRESH_COOKIE);
+
+export const setRefreshCookie = (response: NextResponse, token: string, expiresAt: string) =>
+  setSignedCookie(response, REFRESH_COOKIE, token, expiresAt, AUTH_API_PATH);
+
+export const clearRefreshCookie = (response: NextResponse) => clearCookie(response, REFRESH_COOKIE, AUTH_API_PATH);
+
+export const readDeviceToken = (request: NextRequest) => readSignedCookie(request, DEVICE_COOKIE);
+
+export const setDeviceCookie = (response: NextResponse, token: string, expiresAt: string) =>
+  setSignedCookie(response, DEVICE_COOKIE, token, expiresAt, AUTH_API_PATH);
+
+const OIDC_PATH = '/api/auth/oidc';
+
+export const readOidcState = (request: NextRequest) => readSignedCookie(request, OIDC_STATE_COOKIE);
+
+export const setOidcStateCookie = (response: NextResponse, state: string, expiresAt: string) =>
+  setSignedCookie(response, OIDC_STATE_COOKIE, state, expiresAt, OIDC_PATH);
+
+export const clearOidcStateCookie = (response: NextResponse) => clearCookie(response, OIDC_STATE_COOKIE, OIDC_PATH);
@@ -0,0 +1,70 @@
+import { createHash, randomBytes, randomUUID } from 'node:crypto';
+import type { Database, SessionRecord } from './schema';
+
+// Sessions slide: each authenticated request pushes expiry out by the idle
+// TTL, but never past the absolute lifetime measured from sign-in. Both are
+// short: "remember me" devices mint fresh sessions from a refresh credential
+// rather than holding one session open for weeks.
+const SESSION_IDLE_TTL_MS = 2 * 60 * 60 * 1000;
+const SESSION_MAX_LIFETIME_MS = 12 * 60 * 60 * 1000;
+// Avoid rewriting the store on every request
+const TOUCH_INTERVAL_MS = 60 * 1000;
+
+export interface IssuedSession {
+  session: SessionRecord;
+  token: string;
+}
+
+export const hashToken = (token: string) => createHash('sha256').update(token).digest('hex');
+
+const isLive = (session: SessionRecord, now: number) => Date.parse(session.expiresAt) > now;
+
+const nextExpiry = (session: SessionRecord, now: number) =>
+  new Date(Math.min(now + SESSION_IDLE_TTL_MS, Date.parse(session.createdAt) + SESSION_MAX_LIFETIME_MS)).toISOString();
+
+/** Creates a session and returns the raw token; only its hash is stored. */
+export const createSession = (db: Database, userId: string, deviceId?: string): IssuedSession => {
+  const token = randomBytes(32).toString('base64url');
+  const now = Date.now();
+  const session: SessionRecord = {
+    id: randomUUID(),
+    userId,
+    deviceId,
+    tokenHash: hashToken(token),
+    createdAt: new Date(now).toISOString(),
+    lastSeenAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + SESSION_IDLE_TTL_MS).toISOString()
+  };
+
+  db.sessions = db.sessions.filter(item => isLive(item, now));
+  db.sessions.push(session);
+  return { session, token };
+};
+
+export const findSessionByToken = (db: Database, token: string) => {
+  const tokenHash = hashToken(token);
+  const session = db.sessions.find(item => item.tokenHash === tokenHash);
+  return session && isLive(session, Date.now()) ? session : undefined;
+};
+
+/** Whether `touchSession` would change the record, so it is worth a write. */
+export const isTouchDue = (session: SessionRecord, now = Date.now()) =>
+  now - Date.parse(session.lastSeenAt) >= TOUCH_INTERVAL_MS;
+
+/** Extends a live session's expiry. Returns true when the record changed. */
+export const touchSession = (session: SessionRecord): boolean => {
+  const now = Date.now();
+  if (!isTouchDue(session, now)) return false;
+
+  session.lastSeenAt = new Date(now).toISOString();
+  session.expiresAt = nextExpiry(session, now);
+  return true;
+};
+
+export const revokeSession = (db: Database, sessionId: string) => {
+  db.sessions = db.sessions.filter(item => item.id !== sessionId);
+};
+
+export const revokeUserSessions = (db: Database, userId: string, exceptSessionId?: string) => {
+  db.sessions = db.sessions.filter(item => item.userId !== userId || item.id === exceptSessionId);
+};
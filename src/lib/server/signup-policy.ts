@@ -0,0 +1,135 @@
+import { randomInt, randomUUID } from 'node:crypto';
+import { allowedDomainsMessage, isAllowedSignupDomain } from '@/lib/auth/signup-policy';
+import type { NewInvite, SignupInvite, SignupPolicy, SignupSettings } from '@/lib/auth/types';
+import { HttpError } from './http';
+import type { Database, InviteRecord } from './schema';
+import { hashToken } from './sessions';
+import { read, transaction } from './store';
+import { findUserById, normalizeEmail } from './users';
+
+// Sign-up is open, limited to some email domains, or by invite only. An
+// invite works in every mode: it lets its holder past the domain rule and
+// decides the new account's role.
+
+const CODE_LENGTH = 12;
+// Same look-alike-free alphabet as recovery codes, upper-cased to read out loud
+const ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const INVALID_INVITE = 'This invite code is invalid or has expired.';
+
+const generateCode = () => {
+  let code = '';
+  for (let i = 0; i < CODE_LENGTH; i++) {
+    code += ALPHABET[randomInt(ALPHABET.length)];
+  }
+  return code.match(/.{4}/g)!.join('-');
+};
+
+const normalizeCode = (code: string) => code.toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+const hashCode = (code: string) => hashToken(`invite:${normalizeCode(code)}`);
+
+const isUsable = (invite: InviteRecord) => !invite.usedAt && Date.parse(invite.expiresAt) > Date.now();
+
+const toInvite = (db: Database, invite: InviteRecord): SignupInvite => ({
+  id: invite.id,
+  hint: invite.hint,
+  role: invite.role,
+  email: invite.email,
+  createdAt: invite.createdAt,
+  expiresAt: invite.expiresAt,
+  usedAt: invite.usedAt,
+  usedBy: invite.usedBy ? findUserById(db, invite.usedBy)?.email : undefined
+});
+
+const toSignupSettings = (db: Database): SignupSettings => ({
+  policy: db.signupPolicy,
+  invites: [...db.invites]
+    .sort((a, b) => Date.parse(b.createdAt) - Date.parse(a.createdAt))
+    .map(invite => toInvite(db, invite))
+});
+
+export const getSignupPolicy = (): Promise<SignupPolicy> => read(db => db.signupPolicy);
+
+/**
+ * Checks a new account against the policy, returning the invite it was made
+ * with so the caller can spend it once the account exists.
+ */
+export const checkSignupAllowed = (db: Database, email: string, inviteCode?: string): InviteRecord | undefined => {
+  if (inviteCode?.trim()) {
+    const codeHash = hashCode(inviteCode);
+    const invite = db.invites.find(item => item.codeHash === codeHash);
+    if (!invite || !isUsable(invite)) {
+      throw new HttpError(403, INVALID_INVITE, 'inviteCode');
+    }
+    if (invite.email && invite.email !== normalizeEmail(email)) {
+      throw new HttpError(403, 'This invite is for a different email address.', 'inviteCode');
+    }
+    return invite;
+  }
+
+  const policy = db.signupPolicy;
+  if (policy.mode === 'invite') {
+    throw new HttpError(403, 'You need an invite code to create an account.', 'inviteCode');
+  }
+  if (policy.mode === 'domains' && !isAllowedSignupDomain(policy, email)) {
+    throw new HttpError(403, allowedDomainsMessage(policy), 'email');
+  }
+  return undefined;
+};
+
+export const redeemInvite = (invite: InviteRecord, userId: string) => {
+  invite.usedAt = new Date().toISOString();
+  invite.usedBy = userId;
+};
+
+/** Makes any invite spent on the account usable again, when the account is discarded before it was ever used. */
+export const releaseInvites = (db: Database, userId: string) => {
+  for (const invite of db.invites) {
+    if (invite.usedBy === userId) {
+      invite.usedAt = undefined;
+      invite.usedBy = undefined;
+    }
+  }
+};
+
+export const getSignupSettings = (): Promise<SignupSettings> => read(toSignupSettings);
+
+export const setSignupPolicy = (policy: SignupPolicy): Promise<SignupSettings> =>
+  transaction(db => {
+    const allowedDomains = [...new Set(policy.allowedDomains)];
+    if (policy.mode === 'domains' && allowedDomains.length === 0) {
+      throw new HttpError(400, 'Add at least one email domain.', 'allowedDomains');
+    }
+
+    db.signupPolicy = { mode: policy.mode, allowedDomains };
+    return toSignupSettings(db);
+  });
+
+/** Creates an invite, returning its code this one time. */
+export const createInvite = (actorId: string, { role, expiresInDays, email }: NewInvite): Promise<SignupSettings & { code: string }> =>
+  transaction(db => {
+    const code = generateCode();
+    const now = Date.now();
+    db.invites.push({
+      id: randomUUID(),
+      codeHash: hashCode(code),
+      hint: code.slice(-4),
+      role,
+      email: email ? normalizeEmail(email) : undefined,
+      createdBy: actorId,
+      createdAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + expiresInDays * DAY_MS).toISOString()
+    });
+    return { ...toSignupSettings(db), code };
+  });
+
+export const revokeInvite = (inviteId: string): Promise<SignupSettings> =>
+  transaction(db => {
+    if (!db.invites.some(item => item.id === inviteId)) {
+      throw new HttpError(404, 'Invite not found');
+    }
+    db.invites = db.invites.filter(item => item.id !== inviteId);
+    return toSignupSettings(db);
+  });
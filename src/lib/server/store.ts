@@ -0,0 +1,53 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { createEmptyDatabase, type Database } from './schema';
+
+// File-backed JSON store. Good enough for a single Node process; every
+// transaction re-reads the file so edits made while the dev server is
+// running are picked up.
+const DATA_DIR = process.env.DATA_DIR || path.join(process.cwd(), '.data');
+const DB_FILE = path.join(DATA_DIR, 'db.json');
+
+let queue: Promise<unknown> = Promise.resolve();
+
+const load = async (): Promise<Database> => {
+  try {
+    const raw = await fs.readFile(DB_FILE, 'utf8');
+    // Merge with the empty shape so collections added later exist on old files
+    return { ...createEmptyDatabase(), ...JSON.parse(raw) };
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
+      return createEmptyDatabase();
+    }
+    throw err;
+  }
+};
+
+const persist = async (db: Database) => {
+  await fs.mkdir(DATA_DIR, { recursive: true });
+  const tmpFile = `${DB_FILE}.${process.pid}.tmp`;
+  await fs.writeFile(tmpFile, JSON.stringify(db, null, 2), 'utf8');
+  await fs.rename(tmpFile, DB_FILE);
+};
+
+const enqueue = <T>(task: () => Promise<T>): Promise<T> => {
+  const run = queue.then(task);
+  queue = run.catch(() => undefined);
+  return run;
+};
+
+/**
+ * Runs `fn` against a fresh copy of the database and writes it back once
+ * `fn` resolves. Transactions are serialised; if `fn` throws nothing is saved.
+ */
+export const transaction = <T>(fn: (db: Database) => T | Promise<T>): Promise<T> =>
+  enqueue(async () => {
+    const db = await load();
+    const result = await fn(db);
+    await persist(db);
+    return result;
+  });
+
+/** Read-only access; still queued so readers never see a half-applied write. */
+export const read = <T>(fn: (db: Database) => T | Promise<T>): Promise<T> =>
+  enqueue(async () => fn(await load()));
@@ -0,0 +1,129 @@
+import { HttpError } from './http';
+import type { Database, ThrottleRecord } from './schema';
+
+export type ThrottleScope = 'account' | 'ip';
+
+export interface ThrottleTarget {
+  scope: ThrottleScope;
+  id: string;
+}
+
+interface ThrottlePolicy {
+  /** Failures allowed before any delay applies. */
+  freeAttempts: number;
+  maxDelayMs: number;
+  lockoutAfter: number;
+  lockoutMs: number;
+}
+
+const BASE_DELAY_MS = 1000;
+// Failures are forgotten after an hour without another one
+const FAILURE_MEMORY_MS = 60 * 60 * 1000;
+
+const POLICIES: Record<ThrottleScope, ThrottlePolicy> = {
+  account: { freeAttempts: 3, maxDelayMs: 5 * 60 * 1000, lockoutAfter: 10, lockoutMs: 30 * 60 * 1000 },
+  // A whole campus can share one address, so it gets far more room
+  ip: { freeAttempts: 20, maxDelayMs: 5 * 60 * 1000, lockoutAfter: 100, lockoutMs: 60 * 60 * 1000 }
+};
+
+const keyOf = ({ scope, id }: ThrottleTarget) => `${scope}:${id}`;
+
+export const accountTarget = (email: string): ThrottleTarget => ({ scope: 'account', id: email.trim().toLowerCase() });
+
+/** For sign-ins that don't name an account, like passkeys. */
+export const ipTargets = (ip?: string): ThrottleTarget[] => (ip ? [{ scope: 'ip', id: ip }] : []);
+
+/** Keyed by the email typed in, so unknown accounts are throttled exactly like real ones. */
+export const signInTargets = (email: string, ip?: string): ThrottleTarget[] => [accountTarget(email), ...ipTargets(ip)];
+
+// Once a lockout ends the count starts again from zero
+const isStale = (record: ThrottleRecord, now: number) =>
+  record.lockedUntil
+    ? Date.parse(record.lockedUntil) <= now
+    : now - Date.parse(record.lastFailureAt) > FAILURE_MEMORY_MS;
+
+const findRecord = (db: Database, target: ThrottleTarget, now: number) => {
+  const key = keyOf(target);
+  const record = db.throttles.find(item => item.key === key);
+  return record && !isStale(record, now) ? record : undefined;
+};
+
+/** When the target may try again: after a lockout, or after an exponential delay. */
+const blockedUntil = (record: ThrottleRecord, policy: ThrottlePolicy) => {
+  if (record.lockedUntil) return Date.parse(record.lockedUntil);
+  if (record.failures <= policy.freeAttempts) return 0;
+
+  const delay = Math.min(BASE_DELAY_MS * 2 ** (record.failures - policy.freeAttempts - 1), policy.maxDelayMs);
+  return Date.parse(record.lastFailureAt) + delay;
+};
+
+const formatWait = (ms: number) => {
+  const seconds = Math.ceil(ms / 1000);
+  if (seconds < 60) return `${seconds} second${seconds === 1 ? '' : 's'}`;
+  const minutes = Math.ceil(seconds / 60);
+  return `${minutes} minute${minutes === 1 ? '' : 's'}`;
+};
+
+const throttleError = (target: ThrottleTarget, record: ThrottleRecord, until: number, now: number) => {
+  const wait = formatWait(until - now);
+  const details = { retryAfter: Math.ceil((until - now) / 1000), locked: Boolean(record.lockedUntil) };
+
+  if (!record.lockedUntil) {
+    return new HttpError(429, `Too many failed attempts. Please wait ${wait} before trying again.`, undefined, details);
+  }
+  if (target.scope === 'ip') {
+    return new HttpError(429, `Too many failed sign-in attempts from your network. Try again in ${wait}.`, undefined, details);
+  }
+  return new HttpError(
+    429,
+    `This account is locked after too many failed sign-in attempts. Try again in ${wait}, or unlock it with a code sent to your email.`,
+    undefined,
+    { ...details, unlockable: true }
+  );
+};
+
+/** The error to fail with if any target is still backing off or locked out. */
+export const checkThrottle = (db: Database, targets: ThrottleTarget[]): HttpError | undefined => {
+  const now = Date.now();
+  for (const target of targets) {
+    const record = findRecord(db, target, now);
+    const until = record ? blockedUntil(record, POLICIES[target.scope]) : 0;
+    if (record && until > now) {
+      return throttleError(target, record, until, now);
+    }
+  }
+  return undefined;
+};
+
+/** Counts a failed attempt. Returns the lockout error if this failure triggered one. */
+export const recordFailure = (db: Database, targets: ThrottleTarget[]): HttpError | undefined => {
+  const now = Date.now();
+  db.throttles = db.throttles.filter(record => !isStale(record, now));
+
+  let lockout: HttpError | undefined;
+  for (const target of targets) {
+    const policy = POLICIES[target.scope];
+    let record = findRecord(db, target, now);
+    if (!record) {
+      record = { key: keyOf(target), failures: 0, lastFailureAt: new Date(now).toISOString() };
+      db.throttles.push(record);
+    }
+
+    record.failures += 1;
+    record.lastFailureAt = new Date(now).toISOString();
+    if (record.failures >= policy.lockoutAfter && !record.lockedUntil) {
+      record.lockedUntil = new Date(now + policy.lockoutMs).toISOString();
+      lockout ??= throttleError(target, record, now + policy.lockoutMs, now);
+    }
+  }
+  return lockout;
+};
+
+export const isLocked = (db: Database, target: ThrottleTarget) =>
+  Boolean(findRecord(db, target, Date.now())?.lockedUntil);
+
+/** Forgets past failures, lifting any lockout. */
+export const clearFailures = (db: Database, target: ThrottleTarget) => {
+  const key = keyOf(target);
+  db.throttles = db.throttles.filter(record => record.key !== key);
+};
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { buildOtpauthUri, generateTotpSecret, matchTotp } from './totp';
+
+// RFC 6238 appendix B: the ASCII secret "12345678901234567890", SHA-1, cut to 6 digits
+const SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+const at = (seconds: number) => seconds * 1000;
+
+describe('matchTotp', () => {
+  it('matches the RFC test vectors and returns their time step', () => {
+    expect(matchTotp(SECRET, '287082', -1, at(59))).toBe(1);
+    expect(matchTotp(SECRET, '081804', -1, at(1111111109))).toBe(37037036);
+    expect(matchTotp(SECRET, '005924', -1, at(1234567890))).toBe(41152263);
+    expect(matchTotp(SECRET, '279037', -1, at(2000000000))).toBe(66666666);
+  });
+
+  it('accepts one step of clock drift either side, and no more', () => {
+    expect(matchTotp(SECRET, '287082', -1, at(59 + 30))).toBe(1);
+    expect(matchTotp(SECRET, '287082', -1, at(59 - 30))).toBe(1);
+    expect(matchTotp(SECRET, '287082', -1, at(59 + 60))).toBeNull();
+  });
+
+  it('refuses a step that was already used', () => {
+    expect(matchTotp(SECRET, '287082', 1, at(59))).toBeNull();
+    expect(matchTotp(SECRET, '287082', 0, at(59))).toBe(1);
+  });
+
+  it('rejects codes that are not six digits', () => {
+    expect(matchTotp(SECRET, '28708', -1, at(59))).toBeNull();
+    expect(matchTotp(SECRET, '2870820', -1, at(59))).toBeNull();
+    expect(matchTotp(SECRET, '28708a', -1, at(59))).toBeNull();
+  });
+
+  it('reads secrets typed in lower case with spaces', () => {
+    expect(matchTotp('gezd gnbv gy3t qojq gezd gnbv gy3t qojq', '287082', -1, at(59))).toBe(1);
+  });
+});
+
+describe('generateTotpSecret', () => {
+  it('returns 160 random bits as base32', () => {
+    const secret = generateTotpSecret();
+    expect(secret).toMatch(/^[A-Z2-7]{32}$/);
+    expect(generateTotpSecret()).not.toBe(secret);
+  });
+});
+
+describe('buildOtpauthUri', () => {
+  it('names the issuer and account and spells out the defaults', () => {
+    const uri = new URL(buildOtpauthUri(SECRET, 'ada@example.edu'));
+    expect(uri.protocol).toBe('otpauth:');
+    expect(uri.host).toBe('totp');
+    expect(decodeURIComponent(uri.pathname)).toBe('/EduDash:ada@example.edu');
+    expect(Object.fromEntries(uri.searchParams)).toEqual({
+      secret: SECRET,
+      issuer: 'EduDash',
+      algorithm: 'SHA1',
+      digits: '6',
+      period: '30'
+    });
+  });
+});
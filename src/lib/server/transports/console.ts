@@ -0,0 +1,9 @@
+import type { OtpTransport } from './types';
+import { renderText } from './types';
+
+export const consoleTransport: OtpTransport = {
+  name: 'console',
+  send: async message => {
+    console.info(`[${'code' in message ? 'otp' : 'notice'}:${message.channel}] to ${message.to}: ${renderText(message)}`);
+  }
+};
@@ -0,0 +1,32 @@
+import type { OtpTransport } from './types';
+import { renderSubject, renderText } from './types';
+
+// Generic HTTP email provider: POSTs { from, to, subject, text } with a bearer key.
+// Works with most transactional mail APIs behind a thin adapter.
+export const emailTransport: OtpTransport = {
+  name: 'email',
+  send: async message => {
+    const { EMAIL_API_URL, EMAIL_API_KEY, EMAIL_FROM } = process.env;
+    if (!EMAIL_API_URL || !EMAIL_API_KEY || !EMAIL_FROM) {
+      throw new Error('Email transport is not configured (EMAIL_API_URL, EMAIL_API_KEY, EMAIL_FROM)');
+    }
+
+    const response = await fetch(EMAIL_API_URL, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${EMAIL_API_KEY}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({
+        from: EMAIL_FROM,
+        to: message.to,
+        subject: renderSubject(message),
+        text: renderText(message)
+      })
+    });
+
+    if (!response.ok) {
+      throw new Error(`Email provider responded with ${response.status}`);
+    }
+  }
+};
@@ -0,0 +1,33 @@
+import type { OtpChannel } from '@/lib/auth/types';
+import { consoleTransport } from './console';
+import { emailTransport } from './email';
+import { outboxTransport } from './outbox';
+import { smsTransport } from './sms';
+import { voiceTransport } from './voice';
+import type { OtpTransport } from './types';
+
+export type { NoticeMessage, OtpMessage, OtpTransport, OutboundMessage } from './types';
+
+const liveTransports: Record<OtpChannel, OtpTransport> = {
+  email: emailTransport,
+  sms: smsTransport,
+  voice: voiceTransport
+};
+
+/**
+ * Picks the transport for a channel. `OTP_TRANSPORT` may force `console` or
+ * `outbox` for every channel; otherwise production uses the live providers
+ * and development falls back to the console.
+ */
+export const getTransport = (channel: OtpChannel): OtpTransport => {
+  switch (process.env.OTP_TRANSPORT) {
+    case 'console':
+      return consoleTransport;
+    case 'outbox':
+      return outboxTransport;
+    case 'live':
+      return liveTransports[channel];
+    default:
+      return process.env.NODE_ENV === 'production' ? liveTransports[channel] : consoleTransport;
+  }
+};
@@ -0,0 +1,17 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import type { OtpTransport } from './types';
+import { renderText } from './types';
+
+// Appends every message to a JSON-lines file so tests and local tooling can
+// read codes back without scraping server logs.
+const OUTBOX_FILE = process.env.OTP_OUTBOX_FILE || path.join(process.cwd(), '.data', 'outbox.jsonl');
+
+export const outboxTransport: OtpTransport = {
+  name: 'outbox',
+  send: async message => {
+    await fs.mkdir(path.dirname(OUTBOX_FILE), { recursive: true });
+    const entry = { ...message, text: renderText(message), sentAt: new Date().toISOString() };
+    await fs.appendFile(OUTBOX_FILE, `${JSON.stringify(entry)}\n`, 'utf8');
+  }
+};
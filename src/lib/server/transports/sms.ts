@@ -0,0 +1,30 @@
+import type { OtpTransport } from './types';
+import { renderSmsText } from './types';
+
+// Twilio Messages API over plain fetch, so no SDK dependency is needed.
+export const smsTransport: OtpTransport = {
+  name: 'sms',
+  send: async message => {
+    const { TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN, TWILIO_FROM } = process.env;
+    if (!TWILIO_ACCOUNT_SID || !TWILIO_AUTH_TOKEN || !TWILIO_FROM) {
+      throw new Error('SMS transport is not configured (TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN, TWILIO_FROM)');
+    }
+
+    const credentials = Buffer.from(`${TWILIO_ACCOUNT_SID}:${TWILIO_AUTH_TOKEN}`).toString('base64');
+    const response = await fetch(
+      `https://api.twilio.com/2010-04-01/Accounts/${TWILIO_ACCOUNT_SID}/Messages.json`,
+      {
+        method: 'POST',
+        headers: {
+          Authorization: `Basic ${credentials}`,
+          'Content-Type': 'application/x-www-form-urlencoded'
+        },
+        body: new URLSearchParams({ From: TWILIO_FROM, To: message.to, Body: renderSmsText(message) })
+      }
+    );
+
+    if (!response.ok) {
+      throw new Error(`SMS provider responded with ${response.status}`);
+    }
+  }
+};
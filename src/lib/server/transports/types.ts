@@ -0,0 +1,70 @@
+import type { ContactChannel, OtpChannel } from '@/lib/auth/types';
+import type { OtpPurpose } from '../schema';
+
+export interface OtpMessage {
+  channel: OtpChannel;
+  to: string;
+  code: string;
+  purpose: OtpPurpose;
+  expiresAt: string;
+  /** Optional link that does the same job as the code, e.g. a password reset link. */
+  link?: string;
+}
+
+/** A plain notification with no code, e.g. a security alert. */
+export interface NoticeMessage {
+  channel: ContactChannel;
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export type OutboundMessage = OtpMessage | NoticeMessage;
+
+/** Something that can get a one-time code (or a notice) in front of the user. */
+export interface OtpTransport {
+  name: string;
+  send: (message: OutboundMessage) => Promise<void>;
+}
+
+const PURPOSE_LABELS: Record<OtpPurpose, string> = {
+  signup: 'verify your new account',
+  login: 'finish signing in',
+  'password-reset': 'reset your password',
+  unlock: 'unlock your account',
+  'verify-email': 'confirm your email address',
+  'verify-phone': 'confirm your phone number',
+  'delete-account': 'confirm deleting your account'
+};
+
+export const renderOtpText = (message: OtpMessage) => {
+  const minutes = Math.max(1, Math.round((Date.parse(message.expiresAt) - Date.now()) / 60000));
+  const text = `Your EduDash code is ${message.code}. Use it to ${PURPOSE_LABELS[message.purpose]}. It expires in ${minutes} minutes.`;
+  return message.link ? `${text}\n\nOr open this link: ${message.link}` : text;
+};
+
+export const renderText = (message: OutboundMessage) => ('code' in message ? renderOtpText(message) : message.text);
+
+/**
+ * SMS text ending in the origin-bound line (`@host #code`) that lets
+ * browsers with the WebOTP API offer the code on the sign-in page.
+ */
+export const renderSmsText = (message: OutboundMessage) => {
+  const text = renderText(message);
+  const appUrl = process.env.APP_URL;
+  if (!('code' in message) || !appUrl) return text;
+  return `${text}\n\n@${new URL(appUrl).host} #${message.code}`;
+};
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+/** What a voice call says: the code is spelled out so each character is read on its own. */
+export const renderSpokenText = (message: OutboundMessage) => {
+  if (!('code' in message)) return escapeXml(message.text);
+  const spelled = message.code.split('').join(', ');
+  return escapeXml(`Your EduDash code is ${spelled}. Again, your code is ${spelled}.`);
+};
+
+export const renderSubject = (message: OutboundMessage) =>
+  'code' in message ? 'Your verification code' : message.subject;
@@ -0,0 +1,35 @@
+import type { OtpTransport } from './types';
+import { renderSpokenText } from './types';
+
+// Twilio Calls API with inline TwiML: the code is read out twice, digit by digit.
+export const voiceTransport: OtpTransport = {
+  name: 'voice',
+  send: async message => {
+    const { TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN, TWILIO_FROM } = process.env;
+    if (!TWILIO_ACCOUNT_SID || !TWILIO_AUTH_TOKEN || !TWILIO_FROM) {
+      throw new Error('Voice transport is not configured (TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN, TWILIO_FROM)');
+    }
+
+    const say = `<Say>${renderSpokenText(message)}</Say>`;
+    const credentials = Buffer.from(`${TWILIO_ACCOUNT_SID}:${TWILIO_AUTH_TOKEN}`).toString('base64');
+    const response = await fetch(
+      `https://api.twilio.com/2010-04-01/Accounts/${TWILIO_ACCOUNT_SID}/Calls.json`,
+      {
+        method: 'POST',
+        headers: {
+          Authorization: `Basic ${credentials}`,
+          'Content-Type': 'application/x-www-form-urlencoded'
+        },
+        body: new URLSearchParams({
+          From: TWILIO_FROM,
+          To: message.to,
+          Twiml: `<Response>${say}<Pause length="1"/>${say}</Response>`
+        })
+      }
+    );
+
+    if (!response.ok) {
+      throw new Error(`Voice provider responded with ${response.status}`);
+    }
+  }
+};
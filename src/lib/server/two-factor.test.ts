@@ -0,0 +1,101 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { HttpError } from './http';
+import { hashPassword } from './password';
+import { consumeRecoveryCode, generateRecoveryCodes } from './recovery-codes';
+import { createEmptyDatabase, type Database, type UserRecord } from './schema';
+import { sealSecret } from './secret-box';
+import { generateTotpSecret } from './totp';
+import { regenerateRecoveryCodes } from './two-factor';
+
+let db: Database;
+
+// Keeps the database in memory instead of on disk
+vi.mock('./store', () => ({
+  read: async <T>(fn: (db: Database) => T | Promise<T>) => fn(db),
+  transaction: async <T>(fn: (db: Database) => T | Promise<T>) => fn(db)
+}));
+
+const createUser = async (fields: Partial<UserRecord> = {}): Promise<UserRecord> => {
+  const now = new Date().toISOString();
+  const user: UserRecord = {
+    id: 'user-1',
+    email: 'ada@example.edu',
+    firstName: 'Ada',
+    lastName: 'Lovelace',
+    passwordHash: await hashPassword('correct horse battery staple'),
+    createdAt: now,
+    updatedAt: now,
+    ...fields
+  };
+  db.users.push(user);
+  return user;
+};
+
+const rejection = (promise: Promise<unknown>) =>
+  promise.then(
+    () => {
+      throw new Error('Expected the request to be rejected');
+    },
+    (error: unknown) => error as HttpError
+  );
+
+beforeEach(() => {
+  db = createEmptyDatabase();
+});
+
+describe('regenerateRecoveryCodes', () => {
+  it('rejects a wrong password and keeps the existing codes', async () => {
+    const user = await createUser();
+    const [saved] = generateRecoveryCodes(user);
+
+    const error = await rejection(regenerateRecoveryCodes(user.id, { password: 'not my password' }));
+
+    expect(error).toBeInstanceOf(HttpError);
+    expect(error.status).toBe(400);
+    expect(error.field).toBe('password');
+    expect(consumeRecoveryCode(user, saved)).toBe(true);
+  });
+
+  it('rejects a request with no proof at all', async () => {
+    const user = await createUser();
+
+    const error = await rejection(regenerateRecoveryCodes(user.id, {}));
+
+    expect(error.status).toBe(400);
+    expect(user.recoveryCodes).toBeUndefined();
+  });
+
+  it('rejects a wrong authenticator code', async () => {
+    const user = await createUser({
+      totp: { secret: sealSecret(generateTotpSecret()), confirmedAt: new Date().toISOString() }
+    });
+
+    const error = await rejection(regenerateRecoveryCodes(user.id, { code: '000000' }));
+
+    expect(error.status).toBe(400);
+    expect(error.field).toBe('code');
+    expect(user.recoveryCodes).toBeUndefined();
+  });
+
+  it('counts wrong passwords towards the sign-in throttle', async () => {
+    const user = await createUser();
+
+    for (let attempt = 0; attempt < 4; attempt++) {
+      await rejection(regenerateRecoveryCodes(user.id, { password: 'guess' }));
+    }
+
+    const error = await rejection(regenerateRecoveryCodes(user.id, { password: 'correct horse battery staple' }));
+    expect(error.status).toBe(429);
+    expect(user.recoveryCodes).toBeUndefined();
+  });
+
+  it('issues new codes once the password is confirmed', async () => {
+    const user = await createUser();
+    const [previous] = generateRecoveryCodes(user);
+
+    const result = await regenerateRecoveryCodes(user.id, { password: 'correct horse battery staple' });
+
+    expect(result.recoveryCodes).toHaveLength(result.recoveryCodesRemaining);
+    expect(consumeRecoveryCode(user, previous)).toBe(false);
+  });
+});
@@ -0,0 +1,199 @@
+import type {
+  Reauthentication,
+  RecoveryCodesResponse,
+  TotpEnrollment,
+  TwoFactorStatus,
+  VerificationMethod
+} from '@/lib/auth/types';
+import { HttpError } from './http';
+import { verifyPassword } from './password';
+import { generateRecoveryCodes, remainingRecoveryCodes } from './recovery-codes';
+import type { Database, UserRecord } from './schema';
+import { openSecret, sealSecret } from './secret-box';
+import { read, transaction } from './store';
+import { accountTarget, checkThrottle, recordFailure } from './throttle';
+import { buildOtpauthUri, generateTotpSecret, matchTotp } from './totp';
+import { findUserById } from './users';
+
+export const isTotpEnabled = (user: UserRecord) => Boolean(user.totp?.confirmedAt);
+
+/** Methods the user can receive a second factor by, strongest first. */
+export const availableMethods = (user: UserRecord): VerificationMethod[] => {
+  const methods: VerificationMethod[] = [];
+  if (isTotpEnabled(user)) methods.push('totp');
+  if (user.phone) methods.push('sms', 'voice');
+  methods.push('email');
+  return methods;
+};
+
+/** The user's chosen method, or email when that choice is no longer available. */
+export const preferredMethod = (user: UserRecord): VerificationMethod => {
+  const preferred = user.preferredMethod;
+  return preferred && availableMethods(user).includes(preferred) ? preferred : 'email';
+};
+
+/** Checks an authenticator code, remembering its time step so it can't be replayed. */
+export const verifyTotpCode = (user: UserRecord, code: string) => {
+  if (!user.totp) return false;
+
+  const step = matchTotp(openSecret(user.totp.secret), code, user.totp.lastUsedStep);
+  if (step === null) return false;
+
+  user.totp.lastUsedStep = step;
+  return true;
+};
+
+const requireUser = (db: Database, userId: string) => {
+  const user = findUserById(db, userId);
+  if (!user) {
+    throw new HttpError(404, 'Account no longer exists');
+  }
+  return user;
+};
+
+const toStatus = (user: UserRecord): TwoFactorStatus => ({
+  totpEnabled: isTotpEnabled(user),
+  preferredMethod: preferredMethod(user),
+  methods: availableMethods(user),
+  recoveryCodesRemaining: remainingRecoveryCodes(user),
+  hasPassword: Boolean(user.passwordHash)
+});
+
+export const getTwoFactorStatus = (userId: string): Promise<TwoFactorStatus> =>
+  read(db => toStatus(requireUser(db, userId)));
+
+/** Starts (or restarts) authenticator enrolment with a fresh secret. */
+export const startTotpEnrollment = (userId: string): Promise<TotpEnrollment> =>
+  transaction(db => {
+    const user = requireUser(db, userId);
+    if (isTotpEnabled(user)) {
+      throw new HttpError(409, 'An authenticator app is already set up. Remove it before adding a new one.');
+    }
+
+    const secret = generateTotpSecret();
+    user.totp = { secret: sealSecret(secret) };
+    user.updatedAt = new Date().toISOString();
+    return { secret, otpauthUri: buildOtpauthUri(secret, user.email) };
+  });
+
+// Wrong codes count towards the sign-in lockout, so a stolen session can't be
+// used to guess its way past the authenticator. Returned rather than thrown so
+// the failure is saved.
+const checkTotpAnswer = (db: Database, user: UserRecord, code: string): HttpError | undefined => {
+  const targets = [accountTarget(user.email)];
+  const throttled = checkThrottle(db, targets);
+  if (throttled) return throttled;
+  if (verifyTotpCode(user, code)) return undefined;
+  return recordFailure(db, targets) ?? new HttpError(400, 'That code is not valid. Check your authenticator app and try again.', 'code');
+};
+
+/** Enables the pending authenticator and issues a fresh set of recovery codes. */
+export const confirmTotpEnrollment = async (
+  userId: string,
+  code: string
+): Promise<TwoFactorStatus & RecoveryCodesResponse> => {
+  const outcome = await transaction(db => {
+    const user = requireUser(db, userId);
+    if (!user.totp || isTotpEnabled(user)) {
+      throw new HttpError(409, 'There is no authenticator setup waiting to be confirmed.');
+    }
+
+    const error = checkTotpAnswer(db, user, code);
+    if (error) return { ok: false as const, error };
+
+    const now = new Date().toISOString();
+    user.totp.confirmedAt = now;
+    // A freshly enrolled app is the natural default
+    user.preferredMethod = 'totp';
+    user.updatedAt = now;
+    const recoveryCodes = generateRecoveryCodes(user);
+    return { ok: true as const, status: { ...toStatus(user), recoveryCodes } };
+  });
+
+  if (!outcome.ok) throw outcome.error;
+  return outcome.status;
+};
+
+export const disableTotp = async (userId: string, code: string): Promise<TwoFactorStatus> => {
+  const outcome = await transaction(db => {
+    const user = requireUser(db, userId);
+    if (!isTotpEnabled(user)) {
+      throw new HttpError(409, 'No authenticator app is set up.');
+    }
+
+    const error = checkTotpAnswer(db, user, code);
+    if (error) return { ok: false as const, error };
+
+    delete user.totp;
+    if (user.preferredMethod === 'totp') {
+      user.preferredMethod = undefined;
+    }
+    user.updatedAt = new Date().toISOString();
+    return { ok: true as const, status: toStatus(user) };
+  });
+
+  if (!outcome.ok) throw outcome.error;
+  return outcome.status;
+};
+
+export const setPreferredMethod = (userId: string, method: VerificationMethod): Promise<TwoFactorStatus> =>
+  transaction(db => {
+    const user = requireUser(db, userId);
+    if (!availableMethods(user).includes(method)) {
+      throw new HttpError(
+        400,
+        method === 'totp' ? 'Set up an authenticator app first.' : 'Add a phone number to receive codes by SMS.',
+        'method'
+      );
+    }
+
+    user.preferredMethod = method;
+    user.updatedAt = new Date().toISOString();
+    return toStatus(user);
+  });
+
+// Takes an authenticator code or the password, whichever was given. Accounts
+// with neither (single sign-on only) have nothing more to ask for.
+const checkReauthentication = async (
+  db: Database,
+  user: UserRecord,
+  proof: Reauthentication
+): Promise<HttpError | undefined> => {
+  if (proof.code !== undefined && isTotpEnabled(user)) {
+    return checkTotpAnswer(db, user, proof.code);
+  }
+  if (!user.passwordHash) {
+    return isTotpEnabled(user)
+      ? new HttpError(400, 'Enter the 6-digit code from your authenticator app.', 'code')
+      : undefined;
+  }
+
+  const targets = [accountTarget(user.email)];
+  const throttled = checkThrottle(db, targets);
+  if (throttled) return throttled;
+  if (await verifyPassword(proof.password ?? '', user.passwordHash)) return undefined;
+  return recordFailure(db, targets) ?? new HttpError(400, 'That password is incorrect.', 'password');
+};
+
+/**
+ * Replaces any existing recovery codes, so previously saved ones stop working.
+ * Recovery codes get past the second factor, so the user has to prove they're
+ * present rather than just holding a session.
+ */
+export const regenerateRecoveryCodes = async (
+  userId: string,
+  proof: Reauthentication
+): Promise<TwoFactorStatus & RecoveryCodesResponse> => {
+  const outcome = await transaction(async db => {
+    const user = requireUser(db, userId);
+    const error = await checkReauthentication(db, user, proof);
+    if (error) return { ok: false as const, error };
+
+    const recoveryCodes = generateRecoveryCodes(user);
+    user.updatedAt = new Date().toISOString();
+    return { ok: true as const, status: { ...toStatus(user), recoveryCodes } };
+  });
+
+  if (!outcome.ok) throw outcome.error;
+  return outcome.status;
+};
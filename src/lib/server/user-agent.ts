@@ -0,0 +1,43 @@
+import type { DeviceKind } from '@/lib/auth/types';
+
+export interface UserAgentSummary {
+  browser: string;
+  os: string;
+  kind: DeviceKind;
+}
+
+// Order matters: Edge and Opera also claim to be Chrome, and Chrome claims Safari
+const BROWSERS: [RegExp, string][] = [
+  [/Edg(?:e|A|iOS)?\/([\d]+)/, 'Edge'],
+  [/(?:OPR|Opera)\/([\d]+)/, 'Opera'],
+  [/SamsungBrowser\/([\d]+)/, 'Samsung Internet'],
+  [/(?:Firefox|FxiOS)\/([\d]+)/, 'Firefox'],
+  [/(?:Chrome|CriOS)\/([\d]+)/, 'Chrome'],
+  [/Version\/([\d]+).*Safari\//, 'Safari']
+];
+
+const OPERATING_SYSTEMS: [RegExp, string][] = [
+  [/iPad/, 'iPadOS'],
+  [/iPhone|iPod/, 'iOS'],
+  [/Android/, 'Android'],
+  [/CrOS/, 'ChromeOS'],
+  [/Windows/, 'Windows'],
+  [/Mac OS X|Macintosh/, 'macOS'],
+  [/Linux/, 'Linux']
+];
+
+/** A readable "Chrome 126 on macOS" style summary; good enough for a settings list. */
+export const describeUserAgent = (userAgent: string): UserAgentSummary => {
+  const browserMatch = BROWSERS.find(([pattern]) => pattern.test(userAgent));
+  const version = browserMatch && userAgent.match(browserMatch[0])?.[1];
+  const browser = browserMatch ? `${browserMatch[1]}${version ? ` ${version}` : ''}` : 'Unknown browser';
+  const os = OPERATING_SYSTEMS.find(([pattern]) => pattern.test(userAgent))?.[1] ?? 'Unknown OS';
+
+  const kind: DeviceKind = /iPad|Tablet/.test(userAgent) || (/Android/.test(userAgent) && !/Mobile/.test(userAgent))
+    ? 'tablet'
+    : /Mobi|iPhone|iPod/.test(userAgent)
+      ? 'mobile'
+      : 'desktop';
+
+  return { browser, os, kind };
+};
@@ -0,0 +1,44 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { UserRecord } from './schema';
+import { isEmailVerificationPending, roleOf } from './users';
+
+const user = (fields: Partial<UserRecord> = {}): UserRecord => ({
+  id: 'user-1',
+  email: 'dean@example.edu',
+  firstName: 'Dee',
+  lastName: 'Dean',
+  passwordHash: '',
+  createdAt: '2026-01-01T00:00:00.000Z',
+  updatedAt: '2026-01-01T00:00:00.000Z',
+  ...fields
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe('roleOf', () => {
+  it('makes ADMIN_EMAILS accounts admins once their address is verified', () => {
+    vi.stubEnv('ADMIN_EMAILS', 'someone@example.edu, Dean@Example.edu');
+    expect(roleOf(user({ emailVerifiedAt: '2026-01-02T00:00:00.000Z' }))).toBe('admin');
+  });
+
+  it('refuses the admin role to an unverified account with an ADMIN_EMAILS address', () => {
+    vi.stubEnv('ADMIN_EMAILS', 'dean@example.edu');
+    expect(roleOf(user({ phoneVerifiedAt: '2026-01-02T00:00:00.000Z' }))).toBe('student');
+    expect(roleOf(user({ role: 'instructor' }))).toBe('instructor');
+  });
+
+  it('uses the stored role otherwise', () => {
+    expect(roleOf(user({ role: 'instructor', emailVerifiedAt: '2026-01-02T00:00:00.000Z' }))).toBe('instructor');
+    expect(roleOf(user())).toBe('student');
+  });
+});
+
+describe('isEmailVerificationPending', () => {
+  it('holds a signed-up account until its email address is verified', () => {
+    expect(isEmailVerificationPending(user({ emailVerificationRequired: true }))).toBe(true);
+    expect(isEmailVerificationPending(user({ emailVerificationRequired: true, emailVerifiedAt: '2026-01-02T00:00:00.000Z' }))).toBe(false);
+    expect(isEmailVerificationPending(user())).toBe(false);
+  });
+});
@@ -0,0 +1,108 @@
+import { randomUUID } from 'node:crypto';
+import type { ApiUser, OtpChannel, Role, SignupData } from '@/lib/auth/types';
+import { hashPassword } from './password';
+import type { Database, UserRecord } from './schema';
+
+export const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+/** Accounts listed in `ADMIN_EMAILS` are always admins, so a fresh install has one. */
+export const isConfiguredAdmin = (email: string) =>
+  (process.env.ADMIN_EMAILS ?? '')
+    .split(',')
+    .map(normalizeEmail)
+    .includes(normalizeEmail(email));
+
+// Only once the address is proven, or anyone could sign up with it first
+export const roleOf = (user: UserRecord): Role =>
+  user.emailVerifiedAt && isConfiguredAdmin(user.email) ? 'admin' : user.role ?? 'student';
+
+export const toApiUser = (user: UserRecord): ApiUser => ({
+  id: user.id,
+  email: user.email,
+  phone: user.phone,
+  firstName: user.firstName,
+  lastName: user.lastName,
+  avatar: user.avatar,
+  role: roleOf(user),
+  emailVerified: Boolean(user.emailVerifiedAt),
+  phoneVerified: Boolean(user.phone && user.phoneVerifiedAt),
+  createdAt: user.createdAt
+});
+
+export const findUserById = (db: Database, id: string) =>
+  db.users.find(user => user.id === id);
+
+export const findUserByEmail = (db: Database, email: string) => {
+  const normalized = normalizeEmail(email);
+  return db.users.find(user => user.email === normalized);
+};
+
+// Phone numbers are stored as typed, so compare on digits only
+const phoneDigits = (phone: string) => phone.replace(/\D/g, '');
+
+export const findUserByPhone = (db: Database, phone: string) => {
+  const digits = phoneDigits(phone);
+  return digits ? db.users.find(user => user.phone && phoneDigits(user.phone) === digits) : undefined;
+};
+
+/** Whether the account is waiting on the code sent to its email address when it signed up. */
+export const isEmailVerificationPending = (user: UserRecord) =>
+  Boolean(user.emailVerificationRequired && !user.emailVerifiedAt);
+
+/** Records that a code sent to `destination` was entered, if it's still the address on file. */
+export const markContactVerified = (user: UserRecord, channel: OtpChannel, destination: string) => {
+  const now = new Date().toISOString();
+  if (channel === 'email' && destination === user.email) {
+    user.emailVerifiedAt ??= now;
+  } else if (channel !== 'email' && destination === user.phone) {
+    user.phoneVerifiedAt ??= now;
+  }
+};
+
+export const createUser = async (db: Database, data: SignupData): Promise<UserRecord> => {
+  const now = new Date().toISOString();
+  const user: UserRecord = {
+    id: randomUUID(),
+    email: normalizeEmail(data.email),
+    phone: data.phone?.trim() || undefined,
+    firstName: data.firstName.trim(),
+    lastName: data.lastName.trim(),
+    role: 'student',
+    passwordHash: await hashPassword(data.password),
+    passwordChangedAt: now,
+    createdAt: now,
+    updatedAt: now
+  };
+
+  db.users.push(user);
+  return user;
+};
+
+export interface ExternalProfile {
+  email: string;
+  firstName: string;
+  lastName: string;
+}
+
+/**
+ * Creates an account for someone signing in through single sign-on. It has no
+ * password; one can be added later with a password reset. The provider has
+ * verified the email address.
+ */
+export const createExternalUser = (db: Database, profile: ExternalProfile): UserRecord => {
+  const now = new Date().toISOString();
+  const user: UserRecord = {
+    id: randomUUID(),
+    email: normalizeEmail(profile.email),
+    firstName: profile.firstName,
+    lastName: profile.lastName,
+    role: 'student',
+    passwordHash: '',
+    emailVerifiedAt: now,
+    createdAt: now,
+    updatedAt: now
+  };
+
+  db.users.push(user);
+  return user;
+};
@@ -0,0 +1,102 @@
+import { createHash, generateKeyPairSync, sign } from 'node:crypto';
+import { describe, expect, it } from 'vitest';
+import { relyingPartyFor, toBase64Url, verifyAssertion, verifyRegistration, WebAuthnError, type AssertionResponse } from './webauthn';
+
+const RP = relyingPartyFor('http://localhost:3000');
+const CHALLENGE = 'challenge-1';
+
+const { privateKey, publicKey } = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+const credential = { publicKey: toBase64Url(publicKey.export({ type: 'spki', format: 'der' })), algorithm: -7, signCount: 4 };
+
+const sha256 = (data: Uint8Array | string) => createHash('sha256').update(data).digest();
+const encode = (data: Uint8Array | string) => toBase64Url(Buffer.from(data));
+
+const authenticatorData = (signCount: number, flags = 0x05) => {
+  const counter = Buffer.alloc(4);
+  counter.writeUInt32BE(signCount);
+  return Buffer.concat([sha256(RP.id), Buffer.from([flags]), counter]);
+};
+
+const assertion = ({
+  clientData = { type: 'webauthn.get', challenge: CHALLENGE, origin: RP.origin } as unknown,
+  authData = authenticatorData(5)
+} = {}): AssertionResponse => {
+  const clientDataJSON = Buffer.from(typeof clientData === 'string' ? clientData : JSON.stringify(clientData));
+  return {
+    id: 'credential-1',
+    clientDataJSON: encode(clientDataJSON),
+    authenticatorData: encode(authData),
+    signature: toBase64Url(sign('sha256', Buffer.concat([authData, sha256(clientDataJSON)]), privateKey))
+  };
+};
+
+const failure = (verify: () => unknown) => {
+  try {
+    verify();
+  } catch (err) {
+    return err;
+  }
+  throw new Error('Expected the check to fail');
+};
+
+describe('verifyAssertion', () => {
+  it('accepts a signed assertion and returns the new counter', () => {
+    expect(verifyAssertion(assertion(), credential, CHALLENGE, RP)).toEqual({ signCount: 5, backedUp: false });
+  });
+
+  it('refuses answers to other challenges, origins and sites', () => {
+    const otherChallenge = assertion({ clientData: { type: 'webauthn.get', challenge: 'other', origin: RP.origin } });
+    expect(() => verifyAssertion(otherChallenge, credential, CHALLENGE, RP)).toThrow('The passkey answered a different challenge');
+
+    const otherOrigin = assertion({ clientData: { type: 'webauthn.get', challenge: CHALLENGE, origin: 'https://evil.example' } });
+    expect(() => verifyAssertion(otherOrigin, credential, CHALLENGE, RP)).toThrow('Passkeys can only be used from http://localhost:3000');
+
+    const otherSite = assertion({ authData: Buffer.concat([sha256('evil.example'), authenticatorData(5).subarray(32)]) });
+    expect(() => verifyAssertion(otherSite, credential, CHALLENGE, RP)).toThrow('This passkey belongs to a different site');
+  });
+
+  it('requires user verification', () => {
+    expect(() => verifyAssertion(assertion({ authData: authenticatorData(5, 0x01) }), credential, CHALLENGE, RP)).toThrow(
+      'The authenticator did not verify the user'
+    );
+  });
+
+  it('refuses a bad signature or a counter that went backwards', () => {
+    const tampered = { ...assertion(), authenticatorData: encode(authenticatorData(6)) };
+    expect(() => verifyAssertion(tampered, credential, CHALLENGE, RP)).toThrow('Passkey signature is invalid');
+    expect(() => verifyAssertion(assertion({ authData: authenticatorData(4) }), credential, CHALLENGE, RP)).toThrow(
+      'This passkey may have been cloned'
+    );
+  });
+
+  it('reports unreadable responses as malformed', () => {
+    const garbage = [
+      assertion({ clientData: 'not json' }),
+      assertion({ clientData: 'null' }),
+      assertion({ authData: Buffer.from([1, 2, 3]) }),
+      // Claims attested credential data, then ends
+      assertion({ authData: authenticatorData(5, 0x45) })
+    ];
+    for (const response of garbage) {
+      const err = failure(() => verifyAssertion(response, credential, CHALLENGE, RP));
+      expect(err).toBeInstanceOf(WebAuthnError);
+      expect(err).toMatchObject({ malformed: true });
+    }
+  });
+
+  it('treats a signature that cannot be parsed as invalid', () => {
+    const response = { ...assertion(), signature: encode('not a signature') };
+    const err = failure(() => verifyAssertion(response, credential, CHALLENGE, RP));
+    expect(err).toMatchObject({ name: 'WebAuthnError', message: 'Passkey signature is invalid', malformed: false });
+  });
+});
+
+describe('verifyRegistration', () => {
+  it('reports an unreadable attestation object as malformed', () => {
+    const clientDataJSON = encode(JSON.stringify({ type: 'webauthn.create', challenge: CHALLENGE, origin: RP.origin }));
+    for (const attestationObject of [encode('garbage'), encode(Buffer.from([0xa1, 0x61]))]) {
+      const err = failure(() => verifyRegistration({ id: 'credential-1', clientDataJSON, attestationObject }, CHALLENGE, RP));
+      expect(err).toMatchObject({ name: 'WebAuthnError', message: 'Attestation object is malformed', malformed: true });
+    }
+  });
+});
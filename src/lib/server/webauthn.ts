@@ -0,0 +1,267 @@
+import { createHash, createPublicKey, randomBytes, timingSafeEqual, verify, X509Certificate, type KeyObject } from 'node:crypto';
+import { decodeCbor, decodeCborItem, type CborValue } from './cbor';
+
+// WebAuthn Level 2 registration and authentication checks. Attestation is
+// only used to prove the authenticator holds the new key; certificates are
+// not checked against vendor roots, so any authenticator (including software
+// ones) can register.
+
+/** COSE algorithms we accept, in order of preference. */
+export const SUPPORTED_ALGORITHMS = [-7, -8, -257];
+
+const FLAG_USER_PRESENT = 0x01;
+const FLAG_USER_VERIFIED = 0x04;
+const FLAG_BACKED_UP = 0x10;
+const FLAG_ATTESTED_DATA = 0x40;
+
+export class WebAuthnError extends Error {
+  /** Set when the browser's response couldn't be read at all, rather than failing a check. */
+  readonly malformed: boolean;
+
+  constructor(message: string, { malformed = false } = {}) {
+    super(message);
+    this.name = 'WebAuthnError';
+    this.malformed = malformed;
+  }
+}
+
+// Truncated or garbled input makes the decoders and Node's key parsing throw
+// their own errors; those are reported as a malformed response instead
+const readOrFail = <T>(message: string, parse: () => T): T => {
+  try {
+    return parse();
+  } catch (err) {
+    if (err instanceof WebAuthnError) throw err;
+    throw new WebAuthnError(message, { malformed: true });
+  }
+};
+
+export const toBase64Url = (bytes: Uint8Array) => Buffer.from(bytes).toString('base64url');
+export const fromBase64Url = (value: string) => new Uint8Array(Buffer.from(value, 'base64url'));
+
+export const generateChallenge = () => randomBytes(32).toString('base64url');
+
+const sha256 = (data: Uint8Array | string) => createHash('sha256').update(data).digest();
+
+const sameBytes = (a: Uint8Array, b: Uint8Array) => a.length === b.length && timingSafeEqual(a, b);
+
+export interface RelyingParty {
+  /** The registrable domain, e.g. `edudash.example.edu`. */
+  id: string;
+  /** Full origin the browser reports, e.g. `https://edudash.example.edu`. */
+  origin: string;
+}
+
+export const relyingPartyFor = (origin: string): RelyingParty => ({ id: new URL(origin).hostname, origin });
+
+interface AuthenticatorData {
+  rpIdHash: Uint8Array;
+  flags: number;
+  signCount: number;
+  credential?: { id: Uint8Array; publicKey: Map<CborValue, CborValue> };
+}
+
+const parseAuthenticatorData = (data: Uint8Array): AuthenticatorData =>
+  readOrFail('Authenticator data is malformed', () => {
+    if (data.length < 37) throw new WebAuthnError('Authenticator data is too short', { malformed: true });
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    const flags = data[32];
+    const parsed: AuthenticatorData = { rpIdHash: data.slice(0, 32), flags, signCount: view.getUint32(33) };
+
+    if (flags & FLAG_ATTESTED_DATA) {
+      // 16-byte AAGUID, then a length-prefixed credential id and its COSE key
+      const idLength = view.getUint16(53);
+      const id = data.slice(55, 55 + idLength);
+      if (id.length !== idLength) throw new WebAuthnError('Authenticator data is too short', { malformed: true });
+      const { value } = decodeCborItem(data, 55 + idLength);
+      if (!(value instanceof Map)) throw new WebAuthnError('Credential public key is malformed', { malformed: true });
+      parsed.credential = { id, publicKey: value };
+    }
+    return parsed;
+  });
+
+const coseBytes = (key: Map<CborValue, CborValue>, label: number) => {
+  const value = key.get(label);
+  if (!(value instanceof Uint8Array)) throw new WebAuthnError('Credential public key is malformed', { malformed: true });
+  return toBase64Url(value);
+};
+
+/** Converts a COSE_Key (RFC 9053) to a Node public key. */
+const coseToKey = (key: Map<CborValue, CborValue>): { algorithm: number; key: KeyObject } => {
+  const algorithm = key.get(3);
+  if (typeof algorithm !== 'number' || !SUPPORTED_ALGORITHMS.includes(algorithm)) {
+    throw new WebAuthnError('This passkey uses an unsupported algorithm');
+  }
+
+  const kty = key.get(1);
+  const jwk = (fields: Record<string, string>) =>
+    readOrFail('Credential public key is malformed', () => createPublicKey({ key: fields, format: 'jwk' }));
+  if (algorithm === -7 && kty === 2 && key.get(-1) === 1) {
+    return { algorithm, key: jwk({ kty: 'EC', crv: 'P-256', x: coseBytes(key, -2), y: coseBytes(key, -3) }) };
+  }
+  if (algorithm === -8 && kty === 1 && key.get(-1) === 6) {
+    return { algorithm, key: jwk({ kty: 'OKP', crv: 'Ed25519', x: coseBytes(key, -2) }) };
+  }
+  if (algorithm === -257 && kty === 3) {
+    return { algorithm, key: jwk({ kty: 'RSA', n: coseBytes(key, -1), e: coseBytes(key, -2) }) };
+  }
+  throw new WebAuthnError('Credential public key is malformed', { malformed: true });
+};
+
+// ES256 and RS256 both hash with SHA-256 (ECDSA signatures arrive DER encoded,
+// Node's default); Ed25519 signs the message itself. A signature Node can't
+// even parse doesn't verify.
+const verifySignature = (algorithm: number, key: KeyObject, data: Uint8Array, signature: Uint8Array) => {
+  try {
+    return verify(algorithm === -8 ? null : 'sha256', data, key, signature);
+  } catch {
+    return false;
+  }
+};
+
+export const loadPublicKey = (spki: string) => createPublicKey({ key: Buffer.from(spki, 'base64url'), format: 'der', type: 'spki' });
+
+interface ClientData {
+  type: string;
+  challenge: string;
+  origin: string;
+}
+
+const checkClientData = (clientDataJSON: Uint8Array, type: string, challenge: string, rp: RelyingParty) => {
+  const clientData = readOrFail('Client data is malformed', () => JSON.parse(new TextDecoder().decode(clientDataJSON)) as unknown);
+  if (typeof clientData !== 'object' || clientData === null) {
+    throw new WebAuthnError('Client data is malformed', { malformed: true });
+  }
+  const { type: ceremony, challenge: answered, origin } = clientData as Partial<ClientData>;
+
+  if (ceremony !== type) throw new WebAuthnError('Unexpected WebAuthn ceremony');
+  if (answered !== challenge) throw new WebAuthnError('The passkey answered a different challenge');
+  if (origin !== rp.origin) throw new WebAuthnError(`Passkeys can only be used from ${rp.origin}`);
+};
+
+const checkAuthenticatorData = (data: AuthenticatorData, rp: RelyingParty) => {
+  if (!sameBytes(data.rpIdHash, sha256(rp.id))) throw new WebAuthnError('This passkey belongs to a different site');
+  if (!(data.flags & FLAG_USER_PRESENT)) throw new WebAuthnError('The authenticator did not confirm user presence');
+  // Verification (PIN or biometrics) is what makes a passkey stand in for a password
+  if (!(data.flags & FLAG_USER_VERIFIED)) throw new WebAuthnError('The authenticator did not verify the user');
+};
+
+const verifyAttestation = (
+  format: CborValue,
+  statement: Map<CborValue, CborValue>,
+  authData: Uint8Array,
+  clientDataHash: Uint8Array,
+  credential: { algorithm: number; key: KeyObject }
+) => {
+  if (format === 'none') return;
+  if (format !== 'packed') throw new WebAuthnError(`Unsupported attestation format "${String(format)}"`);
+
+  const signature = statement.get('sig');
+  const certificates = statement.get('x5c');
+  if (!(signature instanceof Uint8Array)) throw new WebAuthnError('Attestation signature is missing');
+
+  const signed = Buffer.concat([authData, clientDataHash]);
+  const leaf = Array.isArray(certificates) ? certificates[0] : undefined;
+  if (leaf instanceof Uint8Array) {
+    const certificate = readOrFail('Attestation certificate is malformed', () => new X509Certificate(leaf));
+    if (!verifySignature(Number(statement.get('alg')), certificate.publicKey, signed, signature)) {
+      throw new WebAuthnError('Attestation signature is invalid');
+    }
+    return;
+  }
+
+  // Self attestation: signed by the credential's own key
+  if (statement.get('alg') !== credential.algorithm || !verifySignature(credential.algorithm, credential.key, signed, signature)) {
+    throw new WebAuthnError('Attestation signature is invalid');
+  }
+};
+
+export interface RegistrationResponse {
+  id: string;
+  clientDataJSON: string;
+  attestationObject: string;
+}
+
+export interface VerifiedRegistration {
+  credentialId: string;
+  /** SPKI DER, base64url. */
+  publicKey: string;
+  algorithm: number;
+  signCount: number;
+  backedUp: boolean;
+}
+
+export const verifyRegistration = (
+  response: RegistrationResponse,
+  challenge: string,
+  rp: RelyingParty
+): VerifiedRegistration => {
+  const clientDataJSON = fromBase64Url(response.clientDataJSON);
+  checkClientData(clientDataJSON, 'webauthn.create', challenge, rp);
+
+  const attestation = readOrFail('Attestation object is malformed', () => decodeCbor(fromBase64Url(response.attestationObject)));
+  if (!(attestation instanceof Map)) throw new WebAuthnError('Attestation object is malformed', { malformed: true });
+  const authDataBytes = attestation.get('authData');
+  const statement = attestation.get('attStmt');
+  if (!(authDataBytes instanceof Uint8Array) || !(statement instanceof Map)) {
+    throw new WebAuthnError('Attestation object is malformed', { malformed: true });
+  }
+
+  const authData = parseAuthenticatorData(authDataBytes);
+  checkAuthenticatorData(authData, rp);
+  if (!authData.credential) throw new WebAuthnError('The authenticator did not return a credential');
+  if (toBase64Url(authData.credential.id) !== response.id) throw new WebAuthnError('Credential id mismatch');
+
+  const credential = coseToKey(authData.credential.publicKey);
+  verifyAttestation(attestation.get('fmt'), statement, authDataBytes, sha256(clientDataJSON), credential);
+
+  return {
+    credentialId: response.id,
+    publicKey: toBase64Url(credential.key.export({ type: 'spki', format: 'der' })),
+    algorithm: credential.algorithm,
+    signCount: authData.signCount,
+    backedUp: Boolean(authData.flags & FLAG_BACKED_UP)
+  };
+};
+
+export interface AssertionResponse {
+  id: string;
+  clientDataJSON: string;
+  authenticatorData: string;
+  signature: string;
+  userHandle?: string | null;
+}
+
+export interface StoredCredential {
+  publicKey: string;
+  algorithm: number;
+  signCount: number;
+}
+
+/** Checks a sign-in assertion and returns the authenticator's new signature counter. */
+export const verifyAssertion = (
+  response: AssertionResponse,
+  credential: StoredCredential,
+  challenge: string,
+  rp: RelyingParty
+): { signCount: number; backedUp: boolean } => {
+  const clientDataJSON = fromBase64Url(response.clientDataJSON);
+  checkClientData(clientDataJSON, 'webauthn.get', challenge, rp);
+
+  const authDataBytes = fromBase64Url(response.authenticatorData);
+  const authData = parseAuthenticatorData(authDataBytes);
+  checkAuthenticatorData(authData, rp);
+
+  const signed = Buffer.concat([authDataBytes, sha256(clientDataJSON)]);
+  if (!verifySignature(credential.algorithm, loadPublicKey(credential.publicKey), signed, fromBase64Url(response.signature))) {
+    throw new WebAuthnError('Passkey signature is invalid');
+  }
+
+  // Counters only ever go up; one that doesn't suggests a cloned authenticator.
+  // Synced passkeys always report zero.
+  if ((authData.signCount > 0 || credential.signCount > 0) && authData.signCount <= credential.signCount) {
+    throw new WebAuthnError('This passkey may have been cloned and has been refused');
+  }
+
+  return { signCount: authData.signCount, backedUp: Boolean(authData.flags & FLAG_BACKED_UP) };
+};
@@ -0,0 +1,34 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { LOGIN_ROUTE, PUBLIC_ROUTES } from '@/lib/routes';
+import { readSessionToken } from '@/lib/server/session-cookie';
+
+// The middleware only checks that a correctly signed session cookie is
+// present; revocation and expiry are enforced by the API when the session is
+// looked up.
+export async function middleware(request: NextRequest) {
+  const { pathname, search } = request.nextUrl;
+  const isAuthenticated = Boolean(await readSessionToken(request));
+
+  if (PUBLIC_ROUTES.includes(pathname)) {
+    return NextResponse.next();
+  }
+
+  if (isAuthenticated) {
+    return NextResponse.next();
+  }
+
+  if (pathname.startsWith('/api/')) {
+    return NextResponse.json({ error: { message: 'Not signed in' } }, { status: 401 });
+  }
+
+  const loginUrl = new URL(LOGIN_ROUTE, request.url);
+  loginUrl.searchParams.set('next', `${pathname}${search}`);
+  return NextResponse.redirect(loginUrl);
+}
+
+export const config = {
+  matcher: [
+    // Everything except auth endpoints, Next internals and static files
+    '/((?!api/auth|_next/static|_next/image|favicon.ico|icon.svg|.*\\.(?:svg|png|jpg|jpeg|gif|webp|ico)$).*)'
+  ]
+};